@@ -0,0 +1,408 @@
+// Mock Deriv contracts
+// Pricing, contracts_for offering and tick-by-tick settlement; outcomes follow from the seeded tick series
+
+const PAYOUT_MARGIN = 0.95; // Share of fair value paid out, standing in for Deriv's commission
+const MULTIPLIERS = [40, 100, 200, 300, 400];
+const UNIT_SECONDS = { s: 1, m: 60, h: 3600, d: 86400 };
+
+const round2 = value => Math.round(value * 100) / 100;
+const clamp = (value, min, max) => Math.min(max, Math.max(min, value));
+
+// Standard normal CDF (Abramowitz-Stegun)
+function cdf(x) {
+  const t = 1 / (1 + 0.2316419 * Math.abs(x));
+  const d = 0.3989423 * Math.exp(-x * x / 2);
+  const p = d * t * (0.3193815 + t * (-0.3565638 + t * (1.781478 + t * (-1.821256 + t * 1.330274))));
+  return x > 0 ? 1 - p : p;
+}
+
+export function lastDigit(quote) {
+  return Math.round(quote * 100) % 10;
+}
+
+export class ContractError extends Error {
+  constructor(code, message) {
+    super(message);
+    this.code = code;
+  }
+}
+
+// ============ OFFERING ============
+
+export function contractsFor(symbol) {
+  const entry = (contract_category, contract_type, barrier_category, barriers, durations) =>
+    durations.map(([min, max]) => ({
+      underlying_symbol: symbol,
+      contract_category,
+      contract_type,
+      barrier_category,
+      barriers,
+      min_contract_duration: min,
+      max_contract_duration: max,
+    }));
+
+  const available = [
+    ...['CALL', 'PUT'].flatMap(type => entry('callput', type, 'euro_atm', 0, [['1t', '10t'], ['15s', '365d']])),
+    ...['CALL', 'PUT'].flatMap(type => entry('callput', type, 'euro_non_atm', 1, [['5t', '10t'], ['15s', '365d']])),
+    ...['ONETOUCH', 'NOTOUCH'].flatMap(type => entry('touchnotouch', type, 'american', 1, [['5t', '10t'], ['2m', '365d']])),
+    ...['DIGITMATCH', 'DIGITDIFF', 'DIGITEVEN', 'DIGITODD', 'DIGITOVER', 'DIGITUNDER'].flatMap(type =>
+      entry('digits', type, 'non_financial', type === 'DIGITEVEN' || type === 'DIGITODD' ? 0 : 1, [['1t', '10t']])
+    ),
+    ...['MULTUP', 'MULTDOWN'].map(type => ({
+      underlying_symbol: symbol,
+      contract_category: 'multiplier',
+      contract_type: type,
+      barrier_category: 'american',
+      barriers: 0,
+      multiplier_range: MULTIPLIERS,
+    })),
+  ];
+
+  return { available, close: 0, open: 0, spot: null };
+}
+
+// ============ PARAMETERS ============
+
+function isMultiplier(contractType) {
+  return contractType === 'MULTUP' || contractType === 'MULTDOWN';
+}
+
+function isDigit(contractType) {
+  return contractType.startsWith('DIGIT');
+}
+
+// Ticks from entry to expiry for the requested duration
+function durationTicks(market, params, now) {
+  const interval = market.interval(params.symbol);
+  if (params.date_expiry !== undefined) {
+    return Math.max(1, Math.round((Number(params.date_expiry) - now) / interval));
+  }
+  const duration = Number(params.duration);
+  const unit = params.duration_unit || 's';
+  if (!Number.isInteger(duration) || duration <= 0) {
+    throw new ContractError('InvalidDuration', 'Duration must be a whole number above 0.');
+  }
+  if (unit === 't') return duration;
+  if (!UNIT_SECONDS[unit]) throw new ContractError('InvalidDuration', `Unknown duration unit ${unit}.`);
+  return Math.max(1, Math.round((duration * UNIT_SECONDS[unit]) / interval));
+}
+
+// Price barriers may be relative to the spot (+1.25 / -0.8) or absolute
+function resolveBarrier(barrier, spot) {
+  const raw = String(barrier);
+  const value = Number(raw);
+  if (!Number.isFinite(value)) throw new ContractError('InvalidBarrier', `Invalid barrier ${raw}.`);
+  return raw.startsWith('+') || raw.startsWith('-') ? round2(spot + value) : value;
+}
+
+export function validateParams(params) {
+  const { contract_type: contractType, amount, barrier, multiplier } = params;
+  if (!contractType) throw new ContractError('InputValidationFailed', 'contract_type is required.');
+  if (!(Number(amount) > 0)) throw new ContractError('InvalidAmount', 'Stake must be above 0.');
+
+  if (isMultiplier(contractType)) {
+    if (!MULTIPLIERS.includes(Number(multiplier))) {
+      throw new ContractError('InvalidMultiplier', `Multiplier must be one of ${MULTIPLIERS.join(', ')}.`);
+    }
+    return;
+  }
+  if (['DIGITMATCH', 'DIGITDIFF', 'DIGITOVER', 'DIGITUNDER'].includes(contractType)) {
+    const digit = Number(barrier);
+    if (!Number.isInteger(digit) || digit < 0 || digit > 9) {
+      throw new ContractError('InvalidBarrier', 'Digit prediction must be 0-9.');
+    }
+    if ((contractType === 'DIGITOVER' && digit === 9) || (contractType === 'DIGITUNDER' && digit === 0)) {
+      throw new ContractError('InvalidBarrier', 'That prediction can never win.');
+    }
+  }
+  if (contractType === 'ONETOUCH' || contractType === 'NOTOUCH') {
+    if (barrier === undefined) throw new ContractError('InvalidBarrier', 'Touch contracts need a barrier.');
+  }
+}
+
+// ============ PRICING ============
+
+// Chance the contract finishes in the money, given the spot now and the ticks left
+function winProbability(market, contract, spot, ticksLeft) {
+  const { contractType, barrier } = contract;
+  const digit = Number(barrier);
+
+  switch (contractType) {
+    case 'DIGITMATCH': return 0.1;
+    case 'DIGITDIFF': return 0.9;
+    case 'DIGITEVEN':
+    case 'DIGITODD': return 0.5;
+    case 'DIGITOVER': return (9 - digit) / 10;
+    case 'DIGITUNDER': return digit / 10;
+  }
+
+  const sigma = market.seriesFor(contract.symbol).sigma * Math.sqrt(Math.max(1, ticksLeft));
+  const strike = barrier !== undefined ? Number(barrier) : spot;
+  const distance = Math.log(strike / spot) / sigma;
+
+  switch (contractType) {
+    case 'CALL': return clamp(1 - cdf(distance), 0.02, 0.98);
+    case 'PUT': return clamp(cdf(distance), 0.02, 0.98);
+    case 'ONETOUCH': return clamp(2 * (1 - cdf(Math.abs(distance))), 0.02, 0.98);
+    case 'NOTOUCH': return clamp(1 - 2 * (1 - cdf(Math.abs(distance))), 0.02, 0.98);
+    default: return 0.5;
+  }
+}
+
+function longcode(contract) {
+  const { contractType, symbol, amount, barrier, multiplier, ticks } = contract;
+  const stake = `USD ${Number(amount).toFixed(2)}`;
+  if (isMultiplier(contractType)) {
+    return `If you select "${contractType === 'MULTUP' ? 'Up' : 'Down'}", your profit or loss is ${multiplier}x the ${contractType === 'MULTUP' ? 'rise' : 'fall'} of ${symbol} on a stake of ${stake}.`;
+  }
+  const target = barrier !== undefined ? ` with barrier ${barrier}` : '';
+  return `${contractType} on ${symbol}${target} for ${ticks} ticks, stake ${stake}.`;
+}
+
+// Quote for a proposal request; `contract` is what buy turns into an open position
+export function priceProposal(market, params, now) {
+  validateParams(params);
+  const symbol = params.symbol;
+  const spot = market.tickAt(symbol, now).quote;
+  const amount = round2(Number(params.amount));
+  const contractType = params.contract_type;
+
+  if (isMultiplier(contractType)) {
+    const contract = { symbol, contractType, amount, multiplier: Number(params.multiplier), limitOrder: params.limit_order };
+    return { spot, askPrice: amount, payout: 0, contract: { ...contract, longcode: longcode(contract) } };
+  }
+
+  const ticks = durationTicks(market, params, now);
+  const barrier = params.barrier === undefined || params.barrier === ''
+    ? undefined
+    : isDigit(contractType) ? String(params.barrier) : resolveBarrier(params.barrier, spot);
+  const contract = { symbol, contractType, amount, barrier, ticks };
+  const payout = round2((amount * PAYOUT_MARGIN) / winProbability(market, contract, spot, ticks));
+
+  return { spot, askPrice: amount, payout, contract: { ...contract, longcode: longcode(contract) } };
+}
+
+// ============ OPEN CONTRACTS ============
+
+let nextContractId = 100000000001;
+let nextTransactionId = 200000000001;
+
+export function newTransactionId() {
+  return nextTransactionId++;
+}
+
+// Turns a priced proposal into an open contract; entry is the first tick after purchase
+export function openContract(market, priced, now) {
+  const { contract } = priced;
+  const entryIndex = market.indexAt(contract.symbol, now) + 1;
+  const open = {
+    ...contract,
+    contractId: nextContractId++,
+    buyTransactionId: newTransactionId(),
+    buyPrice: priced.askPrice,
+    payout: priced.payout,
+    purchaseTime: now,
+    entryIndex,
+    expiryIndex: contract.ticks !== undefined ? entryIndex + contract.ticks : null,
+    status: 'open',
+    processedIndex: entryIndex - 1,
+    limitOrder: normaliseLimitOrder(contract.limitOrder),
+  };
+  open.dateExpiry = open.expiryIndex !== null ? market.epochOf(contract.symbol, open.expiryIndex) : null;
+  return open;
+}
+
+function normaliseLimitOrder(limitOrder) {
+  return {
+    takeProfit: limitOrder?.take_profit ? Number(limitOrder.take_profit) : null,
+    stopLoss: limitOrder?.stop_loss ? Number(limitOrder.stop_loss) : null,
+  };
+}
+
+export function updateLimitOrder(contract, limitOrder) {
+  if (!isMultiplier(contract.contractType)) {
+    throw new ContractError('InvalidContractUpdate', 'Only Multipliers contracts take a limit order.');
+  }
+  if (contract.status !== 'open') throw new ContractError('ContractUpdateFailure', 'Contract is already closed.');
+  if ('take_profit' in limitOrder) contract.limitOrder.takeProfit = limitOrder.take_profit ? Number(limitOrder.take_profit) : null;
+  if ('stop_loss' in limitOrder) contract.limitOrder.stopLoss = limitOrder.stop_loss ? Number(limitOrder.stop_loss) : null;
+}
+
+function multiplierProfit(contract, entry, quote) {
+  const move = (quote - entry) / entry;
+  return round2(contract.amount * contract.multiplier * (contract.contractType === 'MULTUP' ? move : -move));
+}
+
+function close(contract, market, index, status, sellPrice) {
+  contract.status = status;
+  contract.sellPrice = round2(Math.max(0, sellPrice));
+  contract.exitIndex = index;
+  contract.sellTime = market.epochOf(contract.symbol, index);
+  contract.sellTransactionId = newTransactionId();
+}
+
+// Settles the contract against every tick up to `index`; returns true when it closed
+export function advanceContract(market, contract, index) {
+  if (contract.status !== 'open') return false;
+  const { symbol, contractType } = contract;
+
+  for (let i = Math.max(contract.processedIndex + 1, contract.entryIndex); i <= index; i++) {
+    contract.processedIndex = i;
+    if (i === contract.entryIndex) continue;
+
+    const entry = market.quoteAt(symbol, contract.entryIndex);
+    const quote = market.quoteAt(symbol, i);
+
+    if (isMultiplier(contractType)) {
+      const profit = multiplierProfit(contract, entry, quote);
+      const { takeProfit, stopLoss } = contract.limitOrder;
+      if (takeProfit && profit >= takeProfit) close(contract, market, i, 'sold', contract.amount + takeProfit);
+      else if (stopLoss && profit <= -stopLoss) close(contract, market, i, 'sold', contract.amount - stopLoss);
+      else if (profit <= -contract.amount) close(contract, market, i, 'lost', 0);
+      if (contract.status !== 'open') return true;
+      continue;
+    }
+
+    // Touch contracts are decided the moment the barrier is touched
+    if (contractType === 'ONETOUCH' || contractType === 'NOTOUCH') {
+      const barrier = Number(contract.barrier);
+      const touched = entry < barrier ? quote >= barrier : quote <= barrier;
+      if (touched) {
+        close(contract, market, i, contractType === 'ONETOUCH' ? 'won' : 'lost', contractType === 'ONETOUCH' ? contract.payout : 0);
+        return true;
+      }
+    }
+
+    if (i >= contract.expiryIndex) {
+      const won = isWinningExit(contract, entry, quote);
+      close(contract, market, i, won ? 'won' : 'lost', won ? contract.payout : 0);
+      return true;
+    }
+  }
+  return false;
+}
+
+function isWinningExit(contract, entry, quote) {
+  const strike = contract.barrier !== undefined ? Number(contract.barrier) : entry;
+  const digit = lastDigit(quote);
+  switch (contract.contractType) {
+    case 'CALL': return quote > strike;
+    case 'PUT': return quote < strike;
+    case 'ONETOUCH': return false;
+    case 'NOTOUCH': return true;
+    case 'DIGITMATCH': return digit === Number(contract.barrier);
+    case 'DIGITDIFF': return digit !== Number(contract.barrier);
+    case 'DIGITEVEN': return digit % 2 === 0;
+    case 'DIGITODD': return digit % 2 === 1;
+    case 'DIGITOVER': return digit > Number(contract.barrier);
+    case 'DIGITUNDER': return digit < Number(contract.barrier);
+    default: return false;
+  }
+}
+
+// What selling now would pay: the multiplier P/L, or the option's remaining value
+export function bidPrice(market, contract, now) {
+  if (contract.status !== 'open') return contract.sellPrice;
+  const { symbol } = contract;
+  const index = market.indexAt(symbol, now);
+  const quote = market.quoteAt(symbol, index);
+  if (index < contract.entryIndex) return contract.buyPrice;
+
+  const entry = market.quoteAt(symbol, contract.entryIndex);
+  if (isMultiplier(contract.contractType)) {
+    return round2(Math.max(0, contract.amount + multiplierProfit(contract, entry, quote)));
+  }
+  const ticksLeft = Math.max(1, contract.expiryIndex - index);
+  return round2(contract.payout * winProbability(market, contract, quote, ticksLeft) * PAYOUT_MARGIN);
+}
+
+export function sellContract(market, contract, now) {
+  if (contract.status !== 'open') throw new ContractError('InvalidSellContractProposal', 'Contract is already sold or expired.');
+  const index = market.indexAt(contract.symbol, now);
+  if (index <= contract.entryIndex) throw new ContractError('InvalidSellContractProposal', 'Resale is not offered before the entry tick.');
+  close(contract, market, index, 'sold', bidPrice(market, contract, now));
+}
+
+// ============ RESPONSES ============
+
+function limitOrderLevel(contract, entry, amount, direction) {
+  if (!amount || entry === undefined) return null;
+  const move = amount / (contract.amount * contract.multiplier);
+  const up = (contract.contractType === 'MULTUP') === (direction === 'profit');
+  return { order_amount: direction === 'profit' ? amount : -amount, value: String(round2(entry * (1 + (up ? move : -move)))) };
+}
+
+export function openContractResponse(market, contract, now) {
+  const { symbol } = contract;
+  const settled = contract.status !== 'open';
+  const index = settled ? contract.exitIndex : market.indexAt(symbol, now);
+  const hasEntry = index >= contract.entryIndex;
+  const entry = hasEntry ? market.quoteAt(symbol, contract.entryIndex) : undefined;
+  const current = market.quoteAt(symbol, index);
+  const bid = bidPrice(market, contract, now);
+
+  return {
+    contract_id: contract.contractId,
+    contract_type: contract.contractType,
+    underlying: symbol,
+    longcode: contract.longcode,
+    shortcode: shortcode(contract),
+    currency: 'USD',
+    buy_price: contract.buyPrice,
+    payout: contract.payout,
+    barrier: contract.barrier !== undefined ? String(contract.barrier) : undefined,
+    multiplier: contract.multiplier,
+    date_start: contract.purchaseTime,
+    date_expiry: contract.dateExpiry ?? undefined,
+    entry_spot: entry,
+    entry_tick: entry,
+    entry_tick_time: hasEntry ? market.epochOf(symbol, contract.entryIndex) : undefined,
+    current_spot: current,
+    current_spot_time: market.epochOf(symbol, index),
+    bid_price: bid,
+    profit: round2(bid - contract.buyPrice),
+    profit_percentage: round2(((bid - contract.buyPrice) / contract.buyPrice) * 100),
+    is_expired: settled ? 1 : 0,
+    is_sold: settled ? 1 : 0,
+    is_valid_to_sell: settled ? 0 : 1,
+    status: contract.status,
+    ...(settled ? {
+      exit_tick: current,
+      exit_tick_time: contract.sellTime,
+      sell_price: contract.sellPrice,
+      sell_time: contract.sellTime,
+    } : {}),
+    ...(isMultiplier(contract.contractType) ? {
+      limit_order: {
+        take_profit: limitOrderLevel(contract, entry, contract.limitOrder.takeProfit, 'profit'),
+        stop_loss: limitOrderLevel(contract, entry, contract.limitOrder.stopLoss, 'loss'),
+        stop_out: limitOrderLevel(contract, entry, contract.amount, 'loss'),
+      },
+    } : {}),
+    transaction_ids: { buy: contract.buyTransactionId, ...(settled ? { sell: contract.sellTransactionId } : {}) },
+  };
+}
+
+export function shortcode(contract) {
+  const parts = [contract.contractType, contract.symbol, contract.payout || contract.buyPrice, contract.purchaseTime];
+  if (contract.multiplier) parts.push(contract.multiplier);
+  if (contract.barrier !== undefined) parts.push(String(contract.barrier));
+  return parts.join('_');
+}
+
+export function profitTableEntry(contract) {
+  return {
+    app_id: 1089,
+    contract_id: contract.contractId,
+    contract_type: contract.contractType,
+    underlying_symbol: contract.symbol,
+    buy_price: contract.buyPrice,
+    sell_price: contract.sellPrice,
+    payout: contract.payout,
+    purchase_time: contract.purchaseTime,
+    sell_time: contract.sellTime,
+    longcode: contract.longcode,
+    shortcode: shortcode(contract),
+    transaction_id: contract.sellTransactionId,
+  };
+}
@@ -0,0 +1,166 @@
+// Mock Deriv market
+// Seeded synthetic tick series: tick n of a symbol depends only on the seed, the symbol and n
+
+const HISTORY_SECONDS = 24 * 60 * 60; // ticks_history can reach back a day before the server started
+
+// Mirrors SYMBOLS in src/types/index.ts, plus the volatility indices offered on the trade page
+export const MARKET_SYMBOLS = [
+  { symbol: '1HZ100V', display_name: 'Volatility 100 (1s) Index', submarket: 'random_index' },
+  { symbol: '1HZ75V', display_name: 'Volatility 75 (1s) Index', submarket: 'random_index' },
+  { symbol: '1HZ50V', display_name: 'Volatility 50 (1s) Index', submarket: 'random_index' },
+  { symbol: '1HZ25V', display_name: 'Volatility 25 (1s) Index', submarket: 'random_index' },
+  { symbol: '1HZ10V', display_name: 'Volatility 10 (1s) Index', submarket: 'random_index' },
+  { symbol: 'R_100', display_name: 'Volatility 100 Index', submarket: 'random_index' },
+  { symbol: 'R_75', display_name: 'Volatility 75 Index', submarket: 'random_index' },
+  { symbol: 'R_50', display_name: 'Volatility 50 Index', submarket: 'random_index' },
+  { symbol: 'R_25', display_name: 'Volatility 25 Index', submarket: 'random_index' },
+  { symbol: 'R_10', display_name: 'Volatility 10 Index', submarket: 'random_index' },
+  { symbol: 'BOOM1000', display_name: 'Boom 1000 Index', submarket: 'crash_index' },
+  { symbol: 'BOOM500', display_name: 'Boom 500 Index', submarket: 'crash_index' },
+  { symbol: 'CRASH1000', display_name: 'Crash 1000 Index', submarket: 'crash_index' },
+  { symbol: 'CRASH500', display_name: 'Crash 500 Index', submarket: 'crash_index' },
+  { symbol: 'JD10', display_name: 'Jump 10 Index', submarket: 'jump_index' },
+  { symbol: 'JD25', display_name: 'Jump 25 Index', submarket: 'jump_index' },
+  { symbol: 'JD50', display_name: 'Jump 50 Index', submarket: 'jump_index' },
+  { symbol: 'JD75', display_name: 'Jump 75 Index', submarket: 'jump_index' },
+  { symbol: 'JD100', display_name: 'Jump 100 Index', submarket: 'jump_index' },
+];
+
+// ============ RANDOMNESS ============
+
+function hashString(value) {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+}
+
+// mulberry32: small, fast and identical on every platform
+function createRng(seed) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function normal(rng) {
+  const u = Math.max(rng(), Number.EPSILON);
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * rng());
+}
+
+// ============ SYMBOL BEHAVIOUR ============
+
+function describeSymbol(symbol) {
+  const level = Number(symbol.match(/(\d+)[VN]?$/)?.[1] || 50); // 1HZ100V, R_100, BOOM1000N -> 100, 100, 1000
+  const interval = symbol.startsWith('R_') ? 2 : 1;
+
+  if (symbol.startsWith('BOOM') || symbol.startsWith('CRASH')) {
+    // Slow drift one way, with a spike the other way on average once every `level` ticks
+    const boom = symbol.startsWith('BOOM');
+    return { interval, startPrice: 10000, volatility: 0.1, spikeChance: 1 / level, spikeSize: boom ? 0.01 : -0.01, drift: boom ? -0.00002 : 0.00002 };
+  }
+  if (symbol.startsWith('JD')) {
+    return { interval, startPrice: 50000, volatility: level / 100, spikeChance: 1 / 120, spikeSize: 0.004, drift: 0 };
+  }
+  return { interval, startPrice: 1000 + level * 10, volatility: level / 100, spikeChance: 0, spikeSize: 0, drift: 0 };
+}
+
+// ============ SERIES ============
+
+export class Market {
+  constructor(seed, startEpoch) {
+    this.seed = String(seed);
+    this.genesis = startEpoch - HISTORY_SECONDS;
+    this.series = new Map();
+  }
+
+  // Interval between ticks, in seconds
+  interval(symbol) {
+    return describeSymbol(symbol).interval;
+  }
+
+  seriesFor(symbol) {
+    let series = this.series.get(symbol);
+    if (!series) {
+      const spec = describeSymbol(symbol);
+      // Annualised volatility scaled to one tick
+      const sigma = spec.volatility * Math.sqrt(spec.interval / (365 * 24 * 60 * 60));
+      series = { spec, sigma, rng: createRng(hashString(`${this.seed}:${symbol}`)), quotes: [spec.startPrice] };
+      this.series.set(symbol, series);
+    }
+    return series;
+  }
+
+  // Quote of the nth tick since genesis, generating the series up to it
+  quoteAt(symbol, index) {
+    const series = this.seriesFor(symbol);
+    const { spec, sigma, rng, quotes } = series;
+
+    while (quotes.length <= index) {
+      const previous = quotes[quotes.length - 1];
+      let change = spec.drift + sigma * normal(rng);
+      if (spec.spikeChance && rng() < spec.spikeChance) {
+        change += spec.spikeSize * (symbol.startsWith('JD') && rng() < 0.5 ? -1 : 1);
+      }
+      quotes.push(Math.round(previous * (1 + change) * 100) / 100);
+    }
+    return quotes[index];
+  }
+
+  indexAt(symbol, epoch) {
+    return Math.max(0, Math.floor((epoch - this.genesis) / this.interval(symbol)));
+  }
+
+  epochOf(symbol, index) {
+    return this.genesis + index * this.interval(symbol);
+  }
+
+  tickAt(symbol, epoch) {
+    const index = this.indexAt(symbol, epoch);
+    return { symbol, index, epoch: this.epochOf(symbol, index), quote: this.quoteAt(symbol, index) };
+  }
+
+  // OHLC candles ending with the one that contains `end`
+  candles(symbol, end, count, granularity) {
+    const interval = this.interval(symbol);
+    const lastStart = Math.floor(end / granularity) * granularity;
+    const firstStart = Math.max(
+      Math.ceil(this.genesis / granularity) * granularity,
+      lastStart - (count - 1) * granularity
+    );
+
+    const candles = [];
+    for (let start = firstStart; start <= lastStart; start += granularity) {
+      const from = this.indexAt(symbol, start);
+      const to = this.indexAt(symbol, Math.min(start + granularity - interval, end));
+      let high = -Infinity;
+      let low = Infinity;
+      for (let i = from; i <= to; i++) {
+        const quote = this.quoteAt(symbol, i);
+        high = Math.max(high, quote);
+        low = Math.min(low, quote);
+      }
+      candles.push({ epoch: start, open: this.quoteAt(symbol, from), high, low, close: this.quoteAt(symbol, to) });
+    }
+    return candles;
+  }
+
+  // Raw ticks for style: 'ticks' history requests
+  ticks(symbol, end, count) {
+    const last = this.indexAt(symbol, end);
+    const first = Math.max(0, last - count + 1);
+    const prices = [];
+    const times = [];
+    for (let i = first; i <= last; i++) {
+      prices.push(this.quoteAt(symbol, i));
+      times.push(this.epochOf(symbol, i));
+    }
+    return { prices, times };
+  }
+}
@@ -0,0 +1,525 @@
+// Mock Deriv WebSocket server
+// Speaks the subset of the Deriv API the app uses, over seeded synthetic markets, for offline development
+//
+// Usage: npm run mock:deriv, then set NEXT_PUBLIC_DERIV_WS_URL=ws://localhost:8765 for the app.
+// MOCK_DERIV_PORT (default 8765) and MOCK_DERIV_SEED (default "lunargraph") configure it. The same seed
+// gives the same tick series, so contracts bought at the same tick settle the same way on every run.
+
+import { WebSocketServer } from 'ws';
+import { Market, MARKET_SYMBOLS } from './market.mjs';
+import {
+  ContractError,
+  advanceContract,
+  contractsFor,
+  newTransactionId,
+  openContract,
+  openContractResponse,
+  priceProposal,
+  profitTableEntry,
+  sellContract,
+  updateLimitOrder,
+} from './contracts.mjs';
+
+const PORT = Number(process.env.MOCK_DERIV_PORT || 8765);
+const SEED = process.env.MOCK_DERIV_SEED || 'lunargraph';
+const STARTING_BALANCE = 10000;
+const LOOP_MS = 250;
+
+const market = new Market(SEED, Math.floor(Date.now() / 1000));
+const accounts = new Map(); // token -> account
+const sessions = new Set();
+const lastIndex = new Map(); // symbol -> last tick index streamed
+let nextSubscriptionId = 1;
+let nextAccountId = 1;
+
+const now = () => Math.floor(Date.now() / 1000);
+
+// ============ ACCOUNTS ============
+
+function hashToken(token) {
+  let hash = 0;
+  for (let i = 0; i < token.length; i++) hash = (hash * 31 + token.charCodeAt(i)) >>> 0;
+  return hash;
+}
+
+// Any token is accepted; the same token always opens the same demo account
+function accountFor(token, details = {}) {
+  let account = accounts.get(token);
+  if (!account) {
+    account = {
+      token,
+      loginid: `VRTC${1000000 + (hashToken(token) % 9000000)}`,
+      email: details.email || `${token.slice(0, 8)}@mock.deriv`,
+      fullname: details.fullname || 'Mock Trader',
+      balance: STARTING_BALANCE,
+      currency: 'USD',
+      contracts: new Map(),
+    };
+    accounts.set(token, account);
+  }
+  return account;
+}
+
+function changeBalance(account, delta, action, contract) {
+  account.balance = Math.round((account.balance + delta) * 100) / 100;
+  const transaction = {
+    action,
+    amount: delta,
+    balance: account.balance,
+    contract_id: contract?.contractId,
+    currency: 'USD',
+    longcode: contract?.longcode,
+    symbol: contract?.symbol,
+    transaction_id: action === 'buy' ? contract.buyTransactionId : action === 'sell' ? contract.sellTransactionId : newTransactionId(),
+    transaction_time: now(),
+  };
+
+  for (const session of sessions) {
+    if (session.account !== account) continue;
+    for (const [id, sub] of session.subscriptions) {
+      if (sub.kind === 'balance') {
+        reply(session, sub.echo, 'balance', { balance: balancePayload(account) }, id);
+      } else if (sub.kind === 'transaction') {
+        reply(session, sub.echo, 'transaction', { transaction }, id);
+      }
+    }
+  }
+}
+
+function balancePayload(account) {
+  return { balance: account.balance, currency: account.currency, loginid: account.loginid };
+}
+
+// ============ MESSAGING ============
+
+function reply(session, echo, msgType, payload, subscriptionId) {
+  if (session.socket.readyState !== session.socket.OPEN) return;
+  session.socket.send(JSON.stringify({
+    echo_req: echo,
+    msg_type: msgType,
+    ...(echo.req_id !== undefined ? { req_id: echo.req_id } : {}),
+    ...payload,
+    ...(subscriptionId ? { subscription: { id: subscriptionId } } : {}),
+  }));
+}
+
+function replyError(session, echo, msgType, code, message) {
+  reply(session, echo, msgType, { error: { code, message } });
+}
+
+function subscribe(session, sub) {
+  const id = `mock-${nextSubscriptionId++}`;
+  session.subscriptions.set(id, sub);
+  return id;
+}
+
+const FORGET_KINDS = {
+  ticks: 'tick',
+  proposal: 'proposal',
+  proposal_open_contract: 'contract',
+  balance: 'balance',
+  transaction: 'transaction',
+};
+
+// ============ REQUESTS ============
+
+// Requests answered without authorizing first
+const PUBLIC = new Set([
+  'authorize', 'ping', 'time', 'ticks', 'ticks_history', 'proposal', 'contracts_for', 'active_symbols',
+  'forget', 'forget_all', 'new_account_virtual', 'verify_email', 'trading_times', 'website_status',
+]);
+
+const handlers = {
+  authorize(session, req) {
+    if (!req.authorize) throw new ContractError('InvalidToken', 'The token is invalid.');
+    session.account = accountFor(String(req.authorize));
+    const { loginid, email, fullname, balance, currency } = session.account;
+    return {
+      authorize: {
+        loginid, email, fullname, balance, currency,
+        is_virtual: 1,
+        scopes: ['read', 'trade', 'trading_information', 'payments'],
+        account_list: [{ loginid, currency, is_virtual: 1 }],
+      },
+    };
+  },
+
+  ping: () => ({ ping: 'pong' }),
+
+  time: () => ({ time: now() }),
+
+  ticks(session, req) {
+    const symbol = String(req.ticks);
+    const tick = market.tickAt(symbol, now());
+    const payload = { tick: { symbol, quote: tick.quote, epoch: tick.epoch, pip_size: 2 } };
+    if (req.subscribe) {
+      const existing = [...session.subscriptions.values()].some(s => s.kind === 'tick' && s.symbol === symbol);
+      if (existing) throw new ContractError('AlreadySubscribed', `You are already subscribed to ${symbol}.`);
+      return { ...payload, subscriptionId: subscribe(session, { kind: 'tick', symbol, echo: req }) };
+    }
+    return payload;
+  },
+
+  ticks_history(session, req) {
+    const symbol = String(req.ticks_history);
+    const end = req.end === 'latest' || !req.end ? now() : Math.min(Number(req.end), now());
+    const count = Math.min(Number(req.count) || 1000, 5000);
+
+    if (req.style === 'candles') {
+      const granularity = Number(req.granularity) || 60;
+      return { candles: market.candles(symbol, end, count, granularity), pip_size: 2, msgType: 'candles' };
+    }
+    return { history: market.ticks(symbol, end, count), pip_size: 2, msgType: 'history' };
+  },
+
+  contracts_for(session, req) {
+    return { contracts_for: contractsFor(String(req.contracts_for)) };
+  },
+
+  active_symbols() {
+    return {
+      active_symbols: MARKET_SYMBOLS.map(s => ({
+        ...s,
+        market: 'synthetic_index',
+        market_display_name: 'Derived',
+        submarket_display_name: s.submarket,
+        exchange_is_open: 1,
+        is_trading_suspended: 0,
+        pip: 0.01,
+        spot: market.tickAt(s.symbol, now()).quote,
+      })),
+    };
+  },
+
+  proposal(session, req) {
+    const priced = priceProposal(market, req, now());
+    const id = `mock-proposal-${nextSubscriptionId++}`;
+    session.proposals.set(id, priced);
+    const payload = { proposal: proposalPayload(id, priced) };
+    if (req.subscribe) {
+      return { ...payload, subscriptionId: subscribe(session, { kind: 'proposal', params: req, echo: req, proposalId: id }) };
+    }
+    return payload;
+  },
+
+  buy(session, req) {
+    const account = session.account;
+    const maxPrice = Number(req.price);
+    let priced;
+    if (req.parameters) {
+      priced = priceProposal(market, { ...req.parameters, proposal: 1 }, now());
+    } else {
+      priced = session.proposals.get(String(req.buy));
+      if (!priced) throw new ContractError('InvalidContractProposal', 'Unknown contract proposal.');
+    }
+
+    if (priced.askPrice > maxPrice) {
+      throw new ContractError('PriceMoved', `The contract price has moved to ${priced.askPrice.toFixed(2)}.`);
+    }
+    if (priced.askPrice > account.balance) {
+      throw new ContractError('InsufficientBalance', 'Your account balance is insufficient to buy this contract.');
+    }
+
+    const contract = openContract(market, priced, now());
+    account.contracts.set(contract.contractId, contract);
+    if (!req.parameters) session.proposals.delete(String(req.buy));
+    changeBalance(account, -contract.buyPrice, 'buy', contract);
+
+    const payload = {
+      buy: {
+        contract_id: contract.contractId,
+        transaction_id: contract.buyTransactionId,
+        longcode: contract.longcode,
+        buy_price: contract.buyPrice,
+        balance_after: account.balance,
+        start_time: contract.purchaseTime,
+        payout: contract.payout,
+      },
+    };
+    if (req.subscribe) {
+      subscribe(session, { kind: 'contract', contractId: contract.contractId, echo: { proposal_open_contract: 1, contract_id: contract.contractId, subscribe: 1 } });
+    }
+    return payload;
+  },
+
+  sell(session, req) {
+    const contract = session.account.contracts.get(Number(req.sell));
+    if (!contract) throw new ContractError('InvalidSellContractProposal', 'Unknown contract.');
+    advanceContract(market, contract, market.indexAt(contract.symbol, now()));
+    sellContract(market, contract, now());
+    settled(session.account, contract);
+    notifyContract(session.account, contract);
+    return {
+      sell: {
+        contract_id: contract.contractId,
+        sold_for: contract.sellPrice,
+        balance_after: session.account.balance,
+        transaction_id: contract.sellTransactionId,
+      },
+    };
+  },
+
+  contract_update(session, req) {
+    const contract = session.account.contracts.get(Number(req.contract_id));
+    if (!contract) throw new ContractError('ContractNotFound', 'Unknown contract.');
+    updateLimitOrder(contract, req.limit_order || {});
+    const { limit_order: limits } = openContractResponse(market, contract, now());
+    return { contract_update: { take_profit: limits.take_profit || {}, stop_loss: limits.stop_loss || {} } };
+  },
+
+  proposal_open_contract(session, req) {
+    const contracts = req.contract_id
+      ? [session.account.contracts.get(Number(req.contract_id))].filter(Boolean)
+      : [...session.account.contracts.values()].filter(c => c.status === 'open');
+    if (req.contract_id && contracts.length === 0) throw new ContractError('ContractNotFound', 'Unknown contract.');
+
+    const first = contracts[0] ? openContractResponse(market, contracts[0], now()) : {};
+    // A settled contract is reported once, with nothing left to stream
+    if (req.subscribe && !(req.contract_id && contracts[0].status !== 'open')) {
+      return {
+        proposal_open_contract: first,
+        subscriptionId: subscribe(session, { kind: 'contract', contractId: req.contract_id ? Number(req.contract_id) : null, echo: req }),
+      };
+    }
+    return { proposal_open_contract: first };
+  },
+
+  balance(session, req) {
+    const payload = { balance: balancePayload(session.account) };
+    if (req.subscribe) return { ...payload, subscriptionId: subscribe(session, { kind: 'balance', echo: req }) };
+    return payload;
+  },
+
+  transaction(session, req) {
+    return { transaction: {}, subscriptionId: subscribe(session, { kind: 'transaction', echo: req }) };
+  },
+
+  portfolio(session) {
+    const contracts = [...session.account.contracts.values()].filter(c => c.status === 'open').map(c => ({
+      contract_id: c.contractId,
+      contract_type: c.contractType,
+      symbol: c.symbol,
+      buy_price: c.buyPrice,
+      payout: c.payout,
+      purchase_time: c.purchaseTime,
+      expiry_time: c.dateExpiry,
+      longcode: c.longcode,
+      transaction_id: c.buyTransactionId,
+    }));
+    return { portfolio: { contracts } };
+  },
+
+  profit_table(session, req) {
+    const settledContracts = [...session.account.contracts.values()]
+      .filter(c => c.status !== 'open')
+      .sort((a, b) => (req.sort === 'ASC' ? a.sellTime - b.sellTime : b.sellTime - a.sellTime));
+    const offset = Number(req.offset) || 0;
+    const limit = Number(req.limit) || 50;
+    const transactions = settledContracts.slice(offset, offset + limit).map(profitTableEntry);
+    return { profit_table: { count: transactions.length, transactions } };
+  },
+
+  topup_virtual(session) {
+    const amount = STARTING_BALANCE - session.account.balance;
+    if (amount <= 0) throw new ContractError('TopupVirtualError', 'You can only top up when your balance is below 10,000.');
+    changeBalance(session.account, amount, 'deposit');
+    return { topup_virtual: { amount, currency: 'USD' } };
+  },
+
+  verify_email(session, req) {
+    console.log(`[MockDeriv] Verification code for ${req.verify_email}: any code is accepted`);
+    return { verify_email: 1 };
+  },
+
+  new_account_virtual(session, req) {
+    if (!req.verification_code) throw new ContractError('InvalidToken', 'Verification code is required.');
+    if (!req.client_password) throw new ContractError('PasswordError', 'Password is required.');
+    const token = `mock-token-${nextAccountId++}`;
+    const account = accountFor(token, { email: req.email, fullname: 'Mock Trader' });
+    return {
+      new_account_virtual: {
+        client_id: account.loginid,
+        oauth_token: token,
+        balance: account.balance,
+        currency: account.currency,
+        email: account.email,
+        type: 'trading',
+      },
+    };
+  },
+
+  trading_times() {
+    return {
+      trading_times: {
+        markets: [{
+          name: 'Derived',
+          submarkets: [{
+            name: 'Synthetics',
+            symbols: MARKET_SYMBOLS.map(s => ({ symbol: s.symbol, name: s.display_name, times: { open: ['00:00:00'], close: ['23:59:59'] } })),
+          }],
+        }],
+      },
+    };
+  },
+
+  website_status: () => ({ website_status: { site_status: 'up', currencies_config: { USD: {} } } }),
+
+  forget(session, req) {
+    const removed = session.subscriptions.delete(String(req.forget));
+    return { forget: removed ? 1 : 0 };
+  },
+
+  forget_all(session, req) {
+    const types = Array.isArray(req.forget_all) ? req.forget_all : [req.forget_all];
+    const kinds = new Set(types.map(t => FORGET_KINDS[t]).filter(Boolean));
+    const removed = [];
+    for (const [id, sub] of session.subscriptions) {
+      if (kinds.has(sub.kind)) {
+        session.subscriptions.delete(id);
+        removed.push(id);
+      }
+    }
+    return { forget_all: removed };
+  },
+};
+
+function proposalPayload(id, priced) {
+  return {
+    id,
+    ask_price: priced.askPrice,
+    display_value: priced.askPrice.toFixed(2),
+    payout: priced.payout,
+    spot: priced.spot,
+    spot_time: now(),
+    longcode: priced.contract.longcode,
+    date_start: now(),
+  };
+}
+
+function handleRequest(session, req) {
+  const msgType = Object.keys(handlers).find(name => name in req);
+  if (!msgType) {
+    return replyError(session, req, 'error', 'UnrecognisedRequest', 'Unrecognised request.');
+  }
+  if (!PUBLIC.has(msgType) && !session.account) {
+    return replyError(session, req, msgType, 'AuthorizationRequired', 'Please log in.');
+  }
+
+  try {
+    const { subscriptionId, msgType: responseType, ...payload } = handlers[msgType](session, req);
+    reply(session, req, responseType || msgType, payload, subscriptionId);
+  } catch (error) {
+    if (!(error instanceof ContractError)) console.error(`[MockDeriv] ${msgType} failed:`, error);
+    replyError(session, req, msgType, error.code || 'InternalServerError', error.message);
+  }
+}
+
+// ============ MARKET LOOP ============
+
+function settled(account, contract) {
+  if (contract.sellPrice > 0) changeBalance(account, contract.sellPrice, 'sell', contract);
+}
+
+// Symbols someone is watching or holding a contract on
+function activeSymbols() {
+  const symbols = new Set();
+  for (const session of sessions) {
+    for (const sub of session.subscriptions.values()) {
+      if (sub.kind === 'tick') symbols.add(sub.symbol);
+      if (sub.kind === 'proposal') symbols.add(sub.params.symbol);
+    }
+  }
+  for (const account of accounts.values()) {
+    for (const contract of account.contracts.values()) {
+      if (contract.status === 'open') symbols.add(contract.symbol);
+    }
+  }
+  return symbols;
+}
+
+function streamTick(symbol, index) {
+  const epoch = market.epochOf(symbol, index);
+  const tick = { symbol, quote: market.quoteAt(symbol, index), epoch, pip_size: 2 };
+
+  for (const account of accounts.values()) {
+    for (const contract of account.contracts.values()) {
+      if (contract.symbol !== symbol || contract.status !== 'open') continue;
+      if (advanceContract(market, contract, index)) settled(account, contract);
+      notifyContract(account, contract);
+    }
+  }
+
+  for (const session of sessions) {
+    for (const [id, sub] of session.subscriptions) {
+      if (sub.kind === 'tick' && sub.symbol === symbol) {
+        reply(session, sub.echo, 'tick', { tick }, id);
+      } else if (sub.kind === 'proposal' && sub.params.symbol === symbol) {
+        try {
+          const priced = priceProposal(market, sub.params, epoch);
+          session.proposals.set(sub.proposalId, priced);
+          reply(session, sub.echo, 'proposal', { proposal: proposalPayload(sub.proposalId, priced) }, id);
+        } catch (error) {
+          reply(session, sub.echo, 'proposal', { error: { code: error.code || 'ContractBuyValidationError', message: error.message } }, id);
+        }
+      }
+    }
+  }
+}
+
+// Pushes a contract's state to its own streams and to "all open contracts" streams of the account
+function notifyContract(account, contract) {
+  const update = { proposal_open_contract: openContractResponse(market, contract, now()) };
+
+  for (const session of sessions) {
+    if (session.account !== account) continue;
+    for (const [id, sub] of session.subscriptions) {
+      if (sub.kind !== 'contract' || (sub.contractId !== null && sub.contractId !== contract.contractId)) continue;
+      reply(session, sub.echo, 'proposal_open_contract', update, id);
+      // The settlement message is the last one on a single-contract stream
+      if (contract.status !== 'open' && sub.contractId !== null) session.subscriptions.delete(id);
+    }
+  }
+}
+
+function marketLoop() {
+  const time = now();
+  for (const symbol of activeSymbols()) {
+    const index = market.indexAt(symbol, time);
+    const previous = lastIndex.get(symbol);
+    lastIndex.set(symbol, index);
+    if (previous === undefined || index <= previous) continue;
+    // Catch up tick by tick so contracts and streams never skip one
+    for (let i = previous + 1; i <= index; i++) streamTick(symbol, i);
+  }
+}
+
+// ============ SERVER ============
+
+const server = new WebSocketServer({ port: PORT });
+
+server.on('error', (error) => {
+  console.error(`[MockDeriv] Could not listen on port ${PORT}:`, error.message);
+  process.exit(1);
+});
+
+server.on('connection', (socket) => {
+  const session = { socket, account: null, subscriptions: new Map(), proposals: new Map() };
+  sessions.add(session);
+
+  socket.on('message', (raw) => {
+    let req;
+    try {
+      req = JSON.parse(raw.toString());
+    } catch {
+      return replyError(session, {}, 'error', 'InputValidationFailed', 'Invalid JSON.');
+    }
+    handleRequest(session, req);
+  });
+
+  socket.on('close', () => sessions.delete(session));
+});
+
+setInterval(marketLoop, LOOP_MS);
+
+console.log(`[MockDeriv] Listening on ws://localhost:${PORT} (seed "${SEED}")`);
+console.log(`[MockDeriv] Point the app at it with NEXT_PUBLIC_DERIV_WS_URL=ws://localhost:${PORT}`);
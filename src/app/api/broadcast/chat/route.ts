@@ -0,0 +1,200 @@
+// API Route: Broadcast Chat
+// Chat between an affiliate and their clients during a broadcast. Viewers join with their Deriv token and post
+// under the login id it belongs to, unless muted or banned; posting as the affiliate, pinning and moderating
+// need the owner's session, as broadcasting does.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { publishChatMessage } from '@/lib/broadcast-hub';
+import {
+  describeModeration,
+  getActiveModerationAsync,
+  liftModerationAsync,
+  listChatMessagesAsync,
+  listModerationAsync,
+  moderateParticipantAsync,
+  pinChatMessageAsync,
+  postChatMessageAsync,
+  validateChatMessage,
+} from '@/lib/broadcast-chat-store';
+import { issueChatToken, resolveDerivLoginIdAsync, verifyChatToken } from '@/lib/broadcast-chat-auth';
+import { authorizeBroadcastWriter } from '@/lib/broadcast-store';
+import { DerivApiError } from '@/lib/deriv-server';
+import { isAdminConfigured, isSupabaseConfigured } from '@/lib/supabase';
+
+export const dynamic = 'force-dynamic';
+
+type ChatAction = 'join' | 'send' | 'pin' | 'mute' | 'ban' | 'lift';
+
+const CHAT_ACTIONS: ChatAction[] = ['join', 'send', 'pin', 'mute', 'ban', 'lift'];
+
+/**
+ * Checks the caller owns the referral code's broadcast. Resolves to the signed-in email, or to the
+ * error response to return. The local stand-in has no accounts, so everyone may moderate there.
+ */
+async function authorizeHost(
+  request: NextRequest,
+  referralCode: string
+): Promise<{ email?: string } | { response: NextResponse }> {
+  if (!isSupabaseConfigured()) return {};
+
+  const auth = await authorizeBroadcastWriter(request.headers.get('authorization'), referralCode);
+  if ('error' in auth) {
+    return { response: NextResponse.json({ success: false, error: auth.error }, { status: auth.status }) };
+  }
+  return { email: auth.actor.email };
+}
+
+// ?referralCode=&symbol= lists recent messages; ?referralCode=&moderation=1 lists muted and banned participants
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  try {
+    const params = request.nextUrl.searchParams;
+    const referralCode = params.get('referralCode');
+    if (!referralCode) {
+      return NextResponse.json({ success: false, error: 'referralCode is required' }, { status: 400 });
+    }
+
+    if (params.get('moderation') === '1') {
+      const host = await authorizeHost(request, referralCode);
+      if ('response' in host) return host.response;
+      const moderation = await listModerationAsync(referralCode);
+      return NextResponse.json({ success: true, moderation });
+    }
+
+    const symbol = params.get('symbol');
+    if (!symbol) {
+      return NextResponse.json({ success: false, error: 'symbol is required' }, { status: 400 });
+    }
+
+    const messages = await listChatMessagesAsync(referralCode, symbol);
+    return NextResponse.json({ success: true, messages });
+  } catch (error) {
+    console.error('[API] Error loading broadcast chat:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to load broadcast chat',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    const body = await request.json().catch(() => null);
+    const action = body?.action as ChatAction;
+    const referralCode = typeof body?.referralCode === 'string' ? body.referralCode : '';
+
+    if (!CHAT_ACTIONS.includes(action) || !referralCode) {
+      return NextResponse.json({ success: false, error: 'A valid action and referralCode are required' }, { status: 400 });
+    }
+
+    if (isSupabaseConfigured() && !isAdminConfigured()) {
+      return NextResponse.json(
+        { success: false, error: 'Broadcast chat requires SUPABASE_SERVICE_ROLE_KEY on the server' },
+        { status: 500 }
+      );
+    }
+
+    // Exchanges a Deriv token for a chat token naming its login id, the identity messages and moderation use
+    if (action === 'join') {
+      if (typeof body.derivToken !== 'string' || !body.derivToken) {
+        return NextResponse.json({ success: false, error: 'derivToken is required' }, { status: 400 });
+      }
+      let participantId: string;
+      try {
+        participantId = await resolveDerivLoginIdAsync(body.derivToken);
+      } catch (error) {
+        if ((error as DerivApiError).code === 'InvalidToken') {
+          return NextResponse.json({ success: false, error: 'Your Deriv session is not valid; reconnect to chat' }, { status: 401 });
+        }
+        throw error;
+      }
+      return NextResponse.json({ success: true, participantId, chatToken: issueChatToken(participantId) });
+    }
+
+    if (action === 'send') {
+      const asHost = body.role === 'host';
+      let authorId = referralCode;
+
+      if (!asHost) {
+        const participantId = verifyChatToken(body.chatToken);
+        if (!participantId) {
+          return NextResponse.json({ success: false, error: 'Connect your account to chat' }, { status: 401 });
+        }
+        if (body.authorId !== undefined && body.authorId !== participantId) {
+          return NextResponse.json({ success: false, error: 'You can only post as yourself' }, { status: 403 });
+        }
+        authorId = participantId;
+      }
+
+      const input = {
+        referralCode,
+        symbol: typeof body.symbol === 'string' ? body.symbol : '',
+        authorId,
+        authorName: typeof body.authorName === 'string' ? body.authorName : '',
+        role: asHost ? 'host' as const : 'viewer' as const,
+        text: typeof body.text === 'string' ? body.text : '',
+      };
+
+      const validationError = validateChatMessage(input);
+      if (validationError) {
+        return NextResponse.json({ success: false, error: validationError }, { status: 400 });
+      }
+
+      if (asHost) {
+        const host = await authorizeHost(request, referralCode);
+        if ('response' in host) return host.response;
+      } else {
+        const moderation = await getActiveModerationAsync(referralCode, input.authorId);
+        if (moderation) {
+          return NextResponse.json({ success: false, error: describeModeration(moderation) }, { status: 403 });
+        }
+      }
+
+      const message = await postChatMessageAsync(input);
+      if (!isSupabaseConfigured()) publishChatMessage(message);
+      return NextResponse.json({ success: true, message });
+    }
+
+    const host = await authorizeHost(request, referralCode);
+    if ('response' in host) return host.response;
+
+    if (action === 'pin') {
+      if (typeof body.messageId !== 'string' || !body.messageId) {
+        return NextResponse.json({ success: false, error: 'messageId is required' }, { status: 400 });
+      }
+      const drawingId = typeof body.drawingId === 'string' && body.drawingId ? body.drawingId : null;
+      const message = await pinChatMessageAsync(referralCode, body.messageId, drawingId);
+      if (!message) {
+        return NextResponse.json({ success: false, error: 'Message not found' }, { status: 404 });
+      }
+      if (!isSupabaseConfigured()) publishChatMessage(message);
+      return NextResponse.json({ success: true, message });
+    }
+
+    const participantId = typeof body.participantId === 'string' ? body.participantId : '';
+    if (!participantId || participantId === referralCode) {
+      return NextResponse.json({ success: false, error: 'A participant to moderate is required' }, { status: 400 });
+    }
+
+    if (action === 'lift') {
+      await liftModerationAsync(referralCode, participantId);
+      return NextResponse.json({ success: true });
+    }
+
+    const participantName = typeof body.participantName === 'string' ? body.participantName : '';
+    const moderation = await moderateParticipantAsync(referralCode, participantId, participantName, action, host.email);
+    console.log(`[API] ${action === 'ban' ? 'Banned' : 'Muted'} ${participantId} in the ${referralCode} chat`);
+    return NextResponse.json({ success: true, moderation });
+  } catch (error) {
+    console.error('[API] Error updating broadcast chat:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to update broadcast chat',
+      },
+      { status: 500 }
+    );
+  }
+}
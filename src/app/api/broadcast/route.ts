@@ -0,0 +1,117 @@
+// API Route: Broadcast
+// The only write path for broadcasts. With Supabase, updates are checked against the caller's session,
+// saved and audited; clients get them through Realtime. Without it, a server-sent events stream stands in.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { BroadcastHubEvent, BroadcastHubRole, getBroadcastUpdate, joinBroadcastRoom, publishBroadcastUpdate } from '@/lib/broadcast-hub';
+import { recordBroadcastUpdateAsync } from '@/lib/broadcast-sessions';
+import { sanitizeBroadcastUpdate } from '@/lib/broadcast-realtime';
+import { authorizeBroadcastWriter, saveBroadcastAsync } from '@/lib/broadcast-store';
+import { isAdminConfigured, isSupabaseConfigured } from '@/lib/supabase';
+
+export const dynamic = 'force-dynamic';
+
+// Comment lines keep proxies from closing an idle stream
+const HEARTBEAT_MS = 25000;
+
+export async function GET(request: NextRequest): Promise<Response> {
+  const referralCode = request.nextUrl.searchParams.get('referralCode');
+  const requestedRole = request.nextUrl.searchParams.get('role');
+  const role: BroadcastHubRole = requestedRole === 'host' || requestedRole === 'chat' ? requestedRole : 'viewer';
+
+  if (!referralCode) {
+    return NextResponse.json({ success: false, error: 'referralCode is required' }, { status: 400 });
+  }
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+
+      const write = (chunk: string) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cleanup();
+        }
+      };
+      const send = (event: BroadcastHubEvent, data: unknown) => {
+        write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      };
+
+      const leave = joinBroadcastRoom(referralCode, role, send);
+      const heartbeat = setInterval(() => write(': ping\n\n'), HEARTBEAT_MS);
+
+      cleanup = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(heartbeat);
+        leave();
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the runtime
+        }
+      };
+
+      request.signal.addEventListener('abort', () => cleanup());
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
+
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    const update = sanitizeBroadcastUpdate(await request.json().catch(() => null));
+    if (!update) {
+      return NextResponse.json({ success: false, error: 'Invalid broadcast update' }, { status: 400 });
+    }
+
+    if (isSupabaseConfigured()) {
+      if (!isAdminConfigured()) {
+        return NextResponse.json(
+          { success: false, error: 'Broadcasting requires SUPABASE_SERVICE_ROLE_KEY on the server' },
+          { status: 500 }
+        );
+      }
+
+      const auth = await authorizeBroadcastWriter(request.headers.get('authorization'), update.referralCode);
+      if ('error' in auth) {
+        return NextResponse.json({ success: false, error: auth.error }, { status: auth.status });
+      }
+
+      const changes = await saveBroadcastAsync(update, auth.actor);
+      return NextResponse.json({ success: true, changes });
+    }
+
+    // The local stand-in has no accounts to check against, like the rest of the app without Supabase
+    await recordBroadcastUpdateAsync(getBroadcastUpdate(update.referralCode, update.symbol), update).catch(err => {
+      console.error('[API] Failed to record broadcast session:', err);
+    });
+    const delivered = publishBroadcastUpdate(update);
+    console.log(`[API] Broadcast ${update.referralCode}/${update.symbol} ${update.isLive ? 'live' : 'stopped'}, ${update.drawings.length} drawing(s) to ${delivered} viewer(s)`);
+    return NextResponse.json({ success: true, delivered });
+  } catch (error) {
+    console.error('[API] Error publishing broadcast update:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to publish broadcast update',
+      },
+      { status: 500 }
+    );
+  }
+}
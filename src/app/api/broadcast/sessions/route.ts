@@ -0,0 +1,38 @@
+// API Route: Broadcast Sessions
+// Lists an affiliate's recorded broadcast sessions and loads one with its operations and ticks for replay
+
+import { NextRequest, NextResponse } from 'next/server';
+import { listBroadcastSessionsAsync, loadBroadcastRecordingAsync } from '@/lib/broadcast-sessions';
+
+// ?id= loads one recording; ?referralCode=&symbol= lists sessions, newest first
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  try {
+    const params = request.nextUrl.searchParams;
+    const id = params.get('id');
+
+    if (id) {
+      const recording = await loadBroadcastRecordingAsync(id);
+      if (!recording) {
+        return NextResponse.json({ success: false, error: 'Session not found' }, { status: 404 });
+      }
+      return NextResponse.json({ success: true, recording });
+    }
+
+    const referralCode = params.get('referralCode');
+    if (!referralCode) {
+      return NextResponse.json({ success: false, error: 'id or referralCode is required' }, { status: 400 });
+    }
+
+    const sessions = await listBroadcastSessionsAsync(referralCode, params.get('symbol') || undefined);
+    return NextResponse.json({ success: true, sessions });
+  } catch (error) {
+    console.error('[API] Error loading broadcast sessions:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to load broadcast sessions',
+      },
+      { status: 500 }
+    );
+  }
+}
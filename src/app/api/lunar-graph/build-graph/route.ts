@@ -1,5 +1,7 @@
 // API Route: Build Knowledge Graph
 // Constructs the fraud detection graph from database and detects fraud rings
+// Builds incrementally from the last stored state; POST ?full=true forces a rebuild from every row,
+// ?verify=true also runs one and reports in buildInfo.drift where the incremental graph differs
 
 import { NextRequest, NextResponse } from 'next/server';
 import { buildKnowledgeGraph } from '@/lib/lunar-graph/graph-builder';
@@ -8,10 +10,12 @@ import { BuildGraphResponse, FraudRing } from '@/types/lunar-graph';
 
 export async function POST(request: NextRequest): Promise<NextResponse<BuildGraphResponse & { fraudRings?: FraudRing[] }>> {
   try {
-    console.log('[API] Building knowledge graph...');
+    const full = request.nextUrl.searchParams.get('full') === 'true';
+    const verify = request.nextUrl.searchParams.get('verify') === 'true';
+    console.log(`[API] Building knowledge graph${full ? ' (full rebuild)' : ''}...`);
 
     // Build the graph
-    const graph = await buildKnowledgeGraph();
+    const graph = await buildKnowledgeGraph({ full, verify });
     console.log(`[API] Graph built: ${graph.stats.totalNodes} nodes, ${graph.stats.totalEdges} edges`);
 
     // Detect fraud rings from the graph and save to database
@@ -0,0 +1,96 @@
+// API Route: Attach to Investigation Case
+// Adds notes and evidence, links alerts, rings and entities, and attaches copilot conversations
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  CASE_EVIDENCE_TYPES,
+  addCaseNote,
+  attachCaseConversation,
+  attachCaseEvidence,
+  linkCaseItems,
+  loadCase,
+  loadCaseAudit,
+} from '@/lib/lunar-graph/case-management';
+import { CaseEvidenceType, CaseResponse, CopilotMessage, InvestigationCase } from '@/types/lunar-graph';
+
+interface AttachToCaseRequest {
+  caseId?: string;
+  actor?: string;
+  note?: string;
+  evidence?: {
+    type?: CaseEvidenceType;
+    title?: string;
+    url?: string;
+    content?: string;
+  };
+  alertIds?: string[];
+  fraudRingIds?: string[];
+  entities?: string[];
+  conversation?: CopilotMessage[];
+}
+
+export async function POST(request: NextRequest): Promise<NextResponse<CaseResponse>> {
+  try {
+    const body: AttachToCaseRequest = await request.json().catch(() => ({}));
+
+    if (!body.caseId || !body.actor?.trim()) {
+      return NextResponse.json({ success: false, error: 'caseId and actor are required' }, { status: 400 });
+    }
+    if (body.evidence) {
+      const { type, title, url, content } = body.evidence;
+      if (!type || !CASE_EVIDENCE_TYPES.includes(type) || !title?.trim() || (!url && !content)) {
+        return NextResponse.json(
+          { success: false, error: `evidence needs a type (${CASE_EVIDENCE_TYPES.join(', ')}), a title and a url or content` },
+          { status: 400 }
+        );
+      }
+    }
+    if (body.conversation && !Array.isArray(body.conversation)) {
+      return NextResponse.json({ success: false, error: 'conversation must be an array of messages' }, { status: 400 });
+    }
+
+    const actor = body.actor.trim();
+    let investigationCase: InvestigationCase | null = null;
+
+    if (body.note?.trim()) {
+      investigationCase = await addCaseNote(body.caseId, body.note.trim(), actor);
+    }
+    if (body.evidence) {
+      investigationCase = await attachCaseEvidence(body.caseId, {
+        type: body.evidence.type!,
+        title: body.evidence.title!.trim(),
+        url: body.evidence.url,
+        content: body.evidence.content,
+      }, actor);
+    }
+    if (body.alertIds || body.fraudRingIds || body.entities) {
+      investigationCase = await linkCaseItems(body.caseId, {
+        alertIds: body.alertIds,
+        fraudRingIds: body.fraudRingIds,
+        entities: body.entities,
+      }, actor);
+    }
+    if (body.conversation && body.conversation.length > 0) {
+      investigationCase = await attachCaseConversation(body.caseId, body.conversation, actor);
+    }
+
+    if (!investigationCase) {
+      investigationCase = await loadCase(body.caseId);
+      if (!investigationCase) {
+        return NextResponse.json({ success: false, error: 'Case not found' }, { status: 404 });
+      }
+    }
+    const audit = await loadCaseAudit(investigationCase.id);
+
+    return NextResponse.json({ success: true, case: investigationCase, audit });
+  } catch (error) {
+    console.error('[API] Error attaching to case:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to attach to case',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,97 @@
+// API Route: Investigation Cases
+// Lists cases, loads one with its audit trail, and opens new cases
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  CASE_PRIORITIES,
+  CASE_STATUSES,
+  createCase,
+  listCases,
+  loadCase,
+  loadCaseAudit,
+} from '@/lib/lunar-graph/case-management';
+import { CasePriority, CaseResponse, CasesResponse, CaseStatus } from '@/types/lunar-graph';
+
+interface CreateCaseRequest {
+  title?: string;
+  description?: string;
+  priority?: CasePriority;
+  assignee?: string;
+  slaDueAt?: string;
+  alertIds?: string[];
+  fraudRingIds?: string[];
+  entities?: string[];
+  actor?: string;
+}
+
+export async function GET(request: NextRequest): Promise<NextResponse<CasesResponse | CaseResponse>> {
+  try {
+    const params = request.nextUrl.searchParams;
+    const caseId = params.get('id');
+
+    if (caseId) {
+      const [investigationCase, audit] = await Promise.all([loadCase(caseId), loadCaseAudit(caseId)]);
+      if (!investigationCase) {
+        return NextResponse.json({ success: false, error: 'Case not found' }, { status: 404 });
+      }
+      return NextResponse.json({ success: true, case: investigationCase, audit });
+    }
+
+    const status = params.get('status') as CaseStatus | null;
+    if (status && !CASE_STATUSES.includes(status)) {
+      return NextResponse.json({ success: false, error: `status must be one of ${CASE_STATUSES.join(', ')}` }, { status: 400 });
+    }
+
+    const cases = await listCases({ status: status || undefined, assignee: params.get('assignee') || undefined });
+    return NextResponse.json({ success: true, cases });
+  } catch (error) {
+    console.error('[API] Error loading cases:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to load cases',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest): Promise<NextResponse<CaseResponse>> {
+  try {
+    const body: CreateCaseRequest = await request.json().catch(() => ({}));
+
+    if (!body.title?.trim() || !body.actor?.trim()) {
+      return NextResponse.json({ success: false, error: 'title and actor are required' }, { status: 400 });
+    }
+    if (body.priority && !CASE_PRIORITIES.includes(body.priority)) {
+      return NextResponse.json({ success: false, error: `priority must be one of ${CASE_PRIORITIES.join(', ')}` }, { status: 400 });
+    }
+    if (body.slaDueAt && Number.isNaN(Date.parse(body.slaDueAt))) {
+      return NextResponse.json({ success: false, error: 'slaDueAt must be an ISO date' }, { status: 400 });
+    }
+
+    const investigationCase = await createCase({
+      title: body.title.trim(),
+      description: body.description,
+      priority: body.priority,
+      assignee: body.assignee,
+      slaDueAt: body.slaDueAt,
+      alertIds: body.alertIds,
+      fraudRingIds: body.fraudRingIds,
+      entities: body.entities,
+      createdBy: body.actor.trim(),
+    });
+    const audit = await loadCaseAudit(investigationCase.id);
+
+    return NextResponse.json({ success: true, case: investigationCase, audit });
+  } catch (error) {
+    console.error('[API] Error creating case:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to create case',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,74 @@
+// API Route: Update Investigation Case
+// Changes status, priority, assignee, SLA or details; every change lands in the audit trail
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  CASE_PRIORITIES,
+  CASE_STATUSES,
+  loadCase,
+  loadCaseAudit,
+  updateCase,
+} from '@/lib/lunar-graph/case-management';
+import { CasePriority, CaseResponse, CaseStatus } from '@/types/lunar-graph';
+
+interface UpdateCaseRequest {
+  caseId?: string;
+  actor?: string;
+  title?: string;
+  description?: string;
+  status?: CaseStatus;
+  priority?: CasePriority;
+  assignee?: string | null;
+  slaDueAt?: string;
+}
+
+export async function POST(request: NextRequest): Promise<NextResponse<CaseResponse>> {
+  try {
+    const body: UpdateCaseRequest = await request.json().catch(() => ({}));
+
+    if (!body.caseId || !body.actor?.trim()) {
+      return NextResponse.json({ success: false, error: 'caseId and actor are required' }, { status: 400 });
+    }
+    if (body.status && !CASE_STATUSES.includes(body.status)) {
+      return NextResponse.json({ success: false, error: `status must be one of ${CASE_STATUSES.join(', ')}` }, { status: 400 });
+    }
+    if (body.priority && !CASE_PRIORITIES.includes(body.priority)) {
+      return NextResponse.json({ success: false, error: `priority must be one of ${CASE_PRIORITIES.join(', ')}` }, { status: 400 });
+    }
+    if (body.slaDueAt && Number.isNaN(Date.parse(body.slaDueAt))) {
+      return NextResponse.json({ success: false, error: 'slaDueAt must be an ISO date' }, { status: 400 });
+    }
+    if (body.title !== undefined && !body.title.trim()) {
+      return NextResponse.json({ success: false, error: 'title cannot be empty' }, { status: 400 });
+    }
+
+    if (!(await loadCase(body.caseId))) {
+      return NextResponse.json({ success: false, error: 'Case not found' }, { status: 404 });
+    }
+
+    const investigationCase = await updateCase(
+      body.caseId,
+      {
+        title: body.title?.trim(),
+        description: body.description,
+        status: body.status,
+        priority: body.priority,
+        assignee: body.assignee,
+        slaDueAt: body.slaDueAt,
+      },
+      body.actor.trim()
+    );
+    const audit = await loadCaseAudit(investigationCase.id);
+
+    return NextResponse.json({ success: true, case: investigationCase, audit });
+  } catch (error) {
+    console.error('[API] Error updating case:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to update case',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -4,17 +4,22 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { supabase, isSupabaseConfigured } from '@/lib/supabase';
 import { openRouterClient } from '@/lib/lunar-graph/openrouter-client';
+import { contractLabel, isOppositeContract } from '@/lib/contracts';
 import { v4 as uuidv4 } from 'uuid';
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 const db = supabase as any;
 
+const OPPOSITE_WINDOW_MS = 60000; // 60 seconds either side of entry
+const MAX_OPPOSITE_INDICATORS = 3;
+
 interface TradeCheckRequest {
   tradeId: string;
   contractId?: number;
   affiliateId?: string;
   symbol?: string;
   contractType?: string;
+  barrier?: string;
   amount?: number;
   profit?: number;
   status?: string;
@@ -39,7 +44,7 @@ interface TradeCheckResult {
 }
 
 // Get recent trades for comparison
-async function getRecentTrades(affiliateId: string, symbol: string, excludeTradeId: string) {
+async function getRecentTrades(affiliateId: string, excludeTradeId: string) {
   if (!isSupabaseConfigured()) return [];
 
   try {
@@ -58,6 +63,34 @@ async function getRecentTrades(affiliateId: string, symbol: string, excludeTrade
   }
 }
 
+// The stored row for the trade being checked (gives us its client and server-side timestamp)
+async function getTradeRow(tradeId: string) {
+  if (!isSupabaseConfigured()) return null;
+
+  const { data } = await db.from('trades').select('*').eq('id', tradeId).maybeSingle();
+  return data || null;
+}
+
+// Trades on the same symbol across the whole network, within the window around entry time
+async function getSymbolWindowTrades(symbol: string, entryTime: number, excludeTradeId: string) {
+  if (!isSupabaseConfigured() || !symbol) return [];
+
+  try {
+    const { data, error } = await db
+      .from('trades')
+      .select('*')
+      .eq('symbol', symbol)
+      .gte('created_at', new Date(entryTime - OPPOSITE_WINDOW_MS).toISOString())
+      .lte('created_at', new Date(entryTime + OPPOSITE_WINDOW_MS).toISOString());
+
+    if (error) throw error;
+    return (data || []).filter((t: any) => t.id !== excludeTradeId);
+  } catch (err) {
+    console.error('[CheckTrade] Error fetching symbol window trades:', err);
+    return [];
+  }
+}
+
 // Get visitor/tracking data for the affiliate (via referral_code)
 async function getTrackingData(affiliateId: string) {
   if (!isSupabaseConfigured()) return [];
@@ -91,36 +124,153 @@ async function getTrackingData(affiliateId: string) {
   }
 }
 
-// Detect opposite trading patterns
-function detectOppositeTrading(
-  currentTrade: TradeCheckRequest,
-  recentTrades: any[]
-): FraudIndicator | null {
-  const oppositeType = currentTrade.contractType === 'CALL' ? 'PUT' : 'CALL';
-  const timeWindow = 60000; // 60 seconds
-  const currentTime = new Date(currentTrade.entryTime || Date.now()).getTime();
+// ============ OPPOSITE TRADE MATCHING ============
 
-  for (const trade of recentTrades) {
-    if (trade.symbol !== currentTrade.symbol) continue;
-    if (trade.contract_type !== oppositeType) continue;
+interface OppositeMatch {
+  counterpart: any;
+  counterpartAccount: string;
+  timeDiff: number;
+  amountSimilarity: number; // 0-1, 1 = identical stakes
+  crossAffiliate: boolean;
+  priorPairings: number; // Earlier matches between the same two accounts
+  confidence: number;
+}
 
-    const tradeTime = new Date(trade.created_at).getTime();
-    const timeDiff = Math.abs(currentTime - tradeTime);
-
-    if (timeDiff <= timeWindow) {
-      const confidence = Math.max(50, 100 - (timeDiff / 1000)); // Higher confidence for closer trades
-
-      return {
-        type: 'opposite_trading',
-        severity: timeDiff < 10000 ? 'critical' : timeDiff < 30000 ? 'high' : 'medium',
-        confidence: Math.round(confidence),
-        description: `Opposite position detected: ${currentTrade.contractType} vs ${oppositeType} on ${currentTrade.symbol} within ${(timeDiff / 1000).toFixed(1)}s`,
-        entities: [currentTrade.tradeId, trade.id],
-      };
+function accountOf(trade: { client_id?: string; affiliate_id?: string }): string {
+  return trade.client_id || trade.affiliate_id || '';
+}
+
+// Account pairs are stored in sorted order so A/B and B/A share one history
+function orderedPair(a: string, b: string): [string, string] {
+  return a < b ? [a, b] : [b, a];
+}
+
+function amountSimilarity(a: number, b: number): number {
+  const high = Math.max(Math.abs(a), Math.abs(b));
+  return high > 0 ? Math.min(Math.abs(a), Math.abs(b)) / high : 1;
+}
+
+// How often each counterpart account has been paired with this account before. One query per column,
+// since the account comes from the request and must not be spliced into an or() filter string
+async function getPriorPairings(account: string, counterparts: string[], excludeTradeId: string): Promise<Map<string, number>> {
+  const counts = new Map<string, number>();
+  if (!isSupabaseConfigured() || !account || counterparts.length === 0) return counts;
+
+  try {
+    const [asA, asB] = await Promise.all(['account_a', 'account_b'].map(column =>
+      db
+        .from('trade_pair_matches')
+        .select('account_a, account_b, trade_a, trade_b')
+        .eq(column, account)
+    ));
+
+    if (asA.error) throw asA.error;
+    if (asB.error) throw asB.error;
+    // A row has two different accounts, so it can't come back from both queries
+    for (const row of [...(asA.data || []), ...(asB.data || [])]) {
+      if (row.trade_a === excludeTradeId || row.trade_b === excludeTradeId) continue;
+      const other = row.account_a === account ? row.account_b : row.account_a;
+      if (counterparts.includes(other)) counts.set(other, (counts.get(other) || 0) + 1);
     }
+  } catch (err) {
+    console.error('[CheckTrade] Error loading pair history:', err);
   }
+  return counts;
+}
 
-  return null;
+// Records every matched pair; the unique (trade_a, trade_b) index keeps re-checks from double counting
+async function recordPairMatches(currentTrade: any, matches: OppositeMatch[]): Promise<void> {
+  if (!isSupabaseConfigured() || matches.length === 0) return;
+
+  const rows = matches.map(m => {
+    const current = { trade: currentTrade.id, account: accountOf(currentTrade), affiliate: currentTrade.affiliate_id };
+    const other = { trade: m.counterpart.id, account: m.counterpartAccount, affiliate: m.counterpart.affiliate_id };
+    const [accountA] = orderedPair(current.account, other.account);
+    const [a, b] = accountA === current.account ? [current, other] : [other, current];
+    return {
+      account_a: a.account,
+      account_b: b.account,
+      affiliate_a: a.affiliate || null,
+      affiliate_b: b.affiliate || null,
+      trade_a: a.trade,
+      trade_b: b.trade,
+      symbol: currentTrade.symbol,
+      time_delta_ms: Math.round(m.timeDiff),
+      amount_similarity: Math.round(m.amountSimilarity * 100) / 100,
+      cross_affiliate: m.crossAffiliate,
+      confidence: m.confidence,
+    };
+  });
+
+  const { error } = await db
+    .from('trade_pair_matches')
+    .upsert(rows, { onConflict: 'trade_a,trade_b', ignoreDuplicates: true });
+  if (error) {
+    console.error('[CheckTrade] Failed to record pair matches:', error);
+  }
+}
+
+// Match opposite positions on the same symbol from any other account on the network
+async function detectOppositeTrading(
+  currentTrade: any,
+  windowTrades: any[]
+): Promise<FraudIndicator[]> {
+  const account = accountOf(currentTrade);
+  // Without an account the trade can't be told apart from its counterparts or recorded as a pair
+  if (!account) return [];
+  const currentTime = new Date(currentTrade.created_at).getTime();
+
+  // Closest opposite trade per counterpart account
+  const closest = new Map<string, { trade: any; timeDiff: number }>();
+  for (const trade of windowTrades) {
+    if (!isOppositeContract(currentTrade.contract_type, trade.contract_type, currentTrade.barrier, trade.barrier)) continue;
+    const counterpartAccount = accountOf(trade);
+    if (!counterpartAccount || counterpartAccount === account) continue;
+
+    const timeDiff = Math.abs(currentTime - new Date(trade.created_at).getTime());
+    if (timeDiff > OPPOSITE_WINDOW_MS) continue;
+
+    const best = closest.get(counterpartAccount);
+    if (!best || timeDiff < best.timeDiff) closest.set(counterpartAccount, { trade, timeDiff });
+  }
+  if (closest.size === 0) return [];
+
+  const priorPairings = await getPriorPairings(account, [...closest.keys()], currentTrade.id);
+
+  const matches: OppositeMatch[] = [...closest.entries()].map(([counterpartAccount, { trade, timeDiff }]) => {
+    const similarity = amountSimilarity(Number(currentTrade.amount) || 0, Number(trade.amount) || 0);
+    const prior = priorPairings.get(counterpartAccount) || 0;
+
+    let confidence = Math.max(50, 100 - timeDiff / 1000); // Higher confidence for closer trades
+    confidence += (similarity - 0.5) * 20; // Matching stakes look like a hedge, very different ones less so
+    confidence += Math.min(20, prior * 5); // Pairs that keep recurring
+
+    return {
+      counterpart: trade,
+      counterpartAccount,
+      timeDiff,
+      amountSimilarity: similarity,
+      crossAffiliate: !!trade.affiliate_id && trade.affiliate_id !== currentTrade.affiliate_id,
+      priorPairings: prior,
+      confidence: Math.round(Math.max(0, Math.min(99, confidence))),
+    };
+  });
+
+  await recordPairMatches(currentTrade, matches);
+
+  return matches
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, MAX_OPPOSITE_INDICATORS)
+    .map(m => ({
+      type: m.crossAffiliate ? 'cross_affiliate_opposite_trading' : 'opposite_trading',
+      severity: m.timeDiff < 10000 || m.priorPairings >= 3 ? 'critical' : m.timeDiff < 30000 || m.priorPairings >= 1 ? 'high' : 'medium',
+      confidence: m.confidence,
+      description: `Opposite position detected: ${contractLabel(currentTrade.contract_type, currentTrade.barrier)} vs ${contractLabel(m.counterpart.contract_type, m.counterpart.barrier)} on ${currentTrade.symbol} within ${(m.timeDiff / 1000).toFixed(1)}s` +
+        `, stakes ${Math.round(m.amountSimilarity * 100)}% similar` +
+        (m.crossAffiliate ? ', across different affiliates' : '') +
+        (m.priorPairings > 0 ? `, paired ${m.priorPairings} time(s) before` : ''),
+      entities: [currentTrade.id, m.counterpart.id],
+    }));
 }
 
 // Detect rapid trading patterns
@@ -195,7 +345,7 @@ async function analyzeWithAI(
 CURRENT TRADE:
 - ID: ${trade.tradeId}
 - Symbol: ${trade.symbol}
-- Type: ${trade.contractType}
+- Type: ${trade.contractType}${trade.barrier ? ` (barrier ${trade.barrier})` : ''}
 - Amount: $${trade.amount}
 - Profit: $${trade.profit || 'pending'}
 - Status: ${trade.status}
@@ -277,17 +427,30 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
 
     console.log(`[CheckTrade] Analyzing trade ${body.tradeId}...`);
 
+    // The stored row is authoritative; fall back to the request for trades not saved yet
+    const storedTrade = await getTradeRow(body.tradeId);
+    const currentTrade = {
+      id: body.tradeId,
+      client_id: storedTrade?.client_id,
+      affiliate_id: storedTrade?.affiliate_id || body.affiliateId,
+      symbol: storedTrade?.symbol || body.symbol,
+      contract_type: storedTrade?.contract_type || body.contractType,
+      barrier: storedTrade?.barrier ?? body.barrier,
+      amount: storedTrade?.amount ?? body.amount,
+      created_at: storedTrade?.created_at || body.entryTime || new Date().toISOString(),
+    };
+
     // Fetch context data in parallel
-    const [recentTrades, trackingData] = await Promise.all([
-      body.affiliateId ? getRecentTrades(body.affiliateId, body.symbol || '', body.tradeId) : [],
+    const [recentTrades, windowTrades, trackingData] = await Promise.all([
+      body.affiliateId ? getRecentTrades(body.affiliateId, body.tradeId) : [],
+      getSymbolWindowTrades(currentTrade.symbol || '', new Date(currentTrade.created_at).getTime(), body.tradeId),
       body.affiliateId ? getTrackingData(body.affiliateId) : [],
     ]);
 
     // Run pattern detection
     const fraudIndicators: FraudIndicator[] = [];
 
-    const oppositeTrading = detectOppositeTrading(body, recentTrades);
-    if (oppositeTrading) fraudIndicators.push(oppositeTrading);
+    fraudIndicators.push(...await detectOppositeTrading(currentTrade, windowTrades));
 
     const rapidTrading = detectRapidTrading(body, recentTrades);
     if (rapidTrading) fraudIndicators.push(rapidTrading);
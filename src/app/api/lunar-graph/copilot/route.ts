@@ -21,6 +21,7 @@ interface CopilotContext {
       type: string;
       riskScore: number;
       email?: string;
+      riskFactors?: string[];
     }>;
   };
   fraudRings?: Array<{
@@ -81,6 +82,9 @@ You have access to the following data:
 `;
       for (const entity of g.highRiskEntities.slice(0, 20)) {
         prompt += `- ${entity.label} (${entity.type}): Risk ${entity.riskScore}%${entity.email ? `, Email: ${entity.email}` : ''}\n`;
+        if (entity.riskFactors && entity.riskFactors.length > 0) {
+          prompt += `  Score breakdown: ${entity.riskFactors.join(', ')}\n`;
+        }
       }
       prompt += '\n';
     }
@@ -149,7 +153,7 @@ The investigator is focused on these entities: ${context.selectedEntities.join('
 
   prompt += `## YOUR ROLE
 1. Answer questions about the fraud patterns and entities
-2. Explain the evidence and connections
+2. Explain the evidence and connections, citing the score breakdown when asked why an entity is risky
 3. Recommend investigation steps
 4. Help prioritize issues by severity
 5. Provide actionable insights
@@ -0,0 +1,76 @@
+// API Route: Detector Settings
+// Lists the graph pattern detectors and lets a deployment enable, disable and tune them
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getDetectorDefinition,
+  loadDetectorConfigs,
+  saveDetectorConfig,
+  validateDetectorParams,
+} from '@/lib/lunar-graph/detector-registry';
+import { DetectorId, DetectorParams, DetectorsResponse } from '@/types/lunar-graph';
+
+interface UpdateDetectorRequest {
+  id?: string;
+  enabled?: boolean;
+  params?: Record<string, unknown>;
+}
+
+export async function GET(): Promise<NextResponse<DetectorsResponse>> {
+  try {
+    const detectors = await loadDetectorConfigs();
+    return NextResponse.json({ success: true, detectors });
+  } catch (error) {
+    console.error('[API] Error loading detectors:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to load detectors',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest): Promise<NextResponse<DetectorsResponse>> {
+  try {
+    const body: UpdateDetectorRequest = await request.json().catch(() => ({}));
+    const definition = getDetectorDefinition(body.id || '');
+
+    if (!definition) {
+      return NextResponse.json(
+        { success: false, error: `Unknown detector: ${body.id}` },
+        { status: 400 }
+      );
+    }
+
+    if (body.enabled !== undefined && typeof body.enabled !== 'boolean') {
+      return NextResponse.json(
+        { success: false, error: 'enabled must be a boolean' },
+        { status: 400 }
+      );
+    }
+
+    const paramsError = validateDetectorParams(definition, body.params || {});
+    if (paramsError) {
+      return NextResponse.json({ success: false, error: paramsError }, { status: 400 });
+    }
+
+    const updated = await saveDetectorConfig(body.id as DetectorId, {
+      enabled: body.enabled,
+      params: body.params as DetectorParams | undefined,
+    });
+    console.log(`[API] Detector ${updated.id} updated to version ${updated.version} (enabled=${updated.enabled})`);
+
+    return NextResponse.json({ success: true, detectors: [updated] });
+  } catch (error) {
+    console.error('[API] Error updating detector:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to update detector',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,75 @@
+// API Route: Fraud Ring Lifecycle
+// Reads a ring with its change history and records investigator status changes
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  loadFraudRing,
+  loadFraudRingHistory,
+  updateFraudRingStatus,
+} from '@/lib/lunar-graph/fraud-ring-detector';
+import { FraudRingResponse, FraudRingStatus } from '@/types/lunar-graph';
+
+const RING_STATUSES: FraudRingStatus[] = ['active', 'investigating', 'resolved', 'false_positive'];
+
+interface UpdateRingStatusRequest {
+  ringId?: string;
+  status?: FraudRingStatus;
+  changedBy?: string;
+}
+
+export async function GET(request: NextRequest): Promise<NextResponse<FraudRingResponse>> {
+  try {
+    const ringId = request.nextUrl.searchParams.get('id');
+    if (!ringId) {
+      return NextResponse.json({ success: false, error: 'id is required' }, { status: 400 });
+    }
+
+    const [ring, history] = await Promise.all([
+      loadFraudRing(ringId),
+      loadFraudRingHistory(ringId),
+    ]);
+
+    if (!ring) {
+      return NextResponse.json({ success: false, error: 'Fraud ring not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, ring, history });
+  } catch (error) {
+    console.error('[API] Error loading fraud ring:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to load fraud ring',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest): Promise<NextResponse<FraudRingResponse>> {
+  try {
+    const body: UpdateRingStatusRequest = await request.json().catch(() => ({}));
+
+    if (!body.ringId || !body.status || !RING_STATUSES.includes(body.status)) {
+      return NextResponse.json(
+        { success: false, error: `ringId and status (${RING_STATUSES.join(', ')}) are required` },
+        { status: 400 }
+      );
+    }
+
+    const ring = await updateFraudRingStatus(body.ringId, body.status, body.changedBy);
+    const history = await loadFraudRingHistory(ring.id);
+    console.log(`[API] Fraud ring ${ring.id} status set to ${ring.status}`);
+
+    return NextResponse.json({ success: true, ring, history });
+  } catch (error) {
+    console.error('[API] Error updating fraud ring status:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to update fraud ring status',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,44 @@
+// API Route: Analysis Jobs
+// Lists recent analysis jobs with the schedule, and queues a run in the background
+
+import { NextResponse } from 'next/server';
+import { listAnalysisJobs, loadAnalysisSchedule, runAnalysisJob } from '@/lib/lunar-graph/job-runner';
+import { AnalysisJobsResponse } from '@/types/lunar-graph';
+
+export async function GET(): Promise<NextResponse<AnalysisJobsResponse>> {
+  try {
+    const [jobs, schedule] = await Promise.all([listAnalysisJobs(), loadAnalysisSchedule()]);
+    return NextResponse.json({ success: true, jobs, schedule });
+  } catch (error) {
+    console.error('[API] Error loading analysis jobs:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to load analysis jobs',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Starts a run without waiting for it; poll GET for its status
+export async function POST(): Promise<NextResponse<AnalysisJobsResponse>> {
+  try {
+    runAnalysisJob('manual')
+      .then(result => {
+        if (!result.started) console.log('[API] Background analysis skipped: another job is active');
+      })
+      .catch(error => console.error('[API] Background analysis failed:', error));
+
+    return NextResponse.json({ success: true }, { status: 202 });
+  } catch (error) {
+    console.error('[API] Error queueing analysis job:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to queue analysis job',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,34 @@
+// API Route: Analysis Schedule
+// Turns background analysis on or off and sets how often it runs
+
+import { NextRequest, NextResponse } from 'next/server';
+import { saveAnalysisSchedule, validateAnalysisSchedule } from '@/lib/lunar-graph/job-runner';
+import { AnalysisJobsResponse, AnalysisSchedule } from '@/types/lunar-graph';
+
+type UpdateScheduleRequest = Partial<Pick<AnalysisSchedule, 'enabled' | 'intervalMinutes'>>;
+
+// Body: { enabled?, intervalMinutes? }
+export async function POST(request: NextRequest): Promise<NextResponse<AnalysisJobsResponse>> {
+  try {
+    const body: UpdateScheduleRequest = await request.json().catch(() => ({}));
+
+    const validationError = validateAnalysisSchedule(body);
+    if (validationError) {
+      return NextResponse.json({ success: false, error: validationError }, { status: 400 });
+    }
+
+    const schedule = await saveAnalysisSchedule(body);
+    console.log(`[API] Analysis schedule ${schedule.enabled ? `every ${schedule.intervalMinutes} min` : 'disabled'}`);
+
+    return NextResponse.json({ success: true, schedule });
+  } catch (error) {
+    console.error('[API] Error updating analysis schedule:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to update analysis schedule',
+      },
+      { status: 500 }
+    );
+  }
+}
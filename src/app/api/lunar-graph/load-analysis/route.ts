@@ -3,35 +3,40 @@
 
 import { NextResponse } from 'next/server';
 import { supabase, isSupabaseConfigured } from '@/lib/supabase';
+import { loadLatestSucceededJob } from '@/lib/lunar-graph/job-runner';
 import { CombinedAnalysis, AgentAnalysis, LunarAlert, FraudRing } from '@/types/lunar-graph';
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 const db = supabase as any;
 
-async function loadAgentLogs(): Promise<AgentAnalysis[]> {
-  if (!isSupabaseConfigured()) return [];
+// The run id of the latest finished job, or of the latest logs written before jobs were recorded
+async function findLatestRunId(): Promise<string | null> {
+  const job = await loadLatestSucceededJob();
+  if (job) return job.id;
+
+  const { data } = await db
+    .from('agent_analysis_logs')
+    .select('run_id')
+    .not('run_id', 'is', null)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  return data?.run_id ?? null;
+}
+
+async function loadAgentLogs(runId: string | null): Promise<AgentAnalysis[]> {
+  if (!isSupabaseConfigured() || !runId) return [];
 
   try {
-    // Get the most recent analysis logs (grouped by latest timestamp)
     const { data, error } = await db
       .from('agent_analysis_logs')
       .select('*')
-      .order('created_at', { ascending: false })
-      .limit(3);
+      .eq('run_id', runId);
 
     if (error) throw error;
-    if (!data || data.length === 0) return [];
-
-    // Check if all 3 agents are from the same analysis run (within 1 minute of each other)
-    const latestTime = new Date(data[0].created_at).getTime();
-    const sameRun = data.filter((log: any) => {
-      const logTime = new Date(log.created_at).getTime();
-      return Math.abs(latestTime - logTime) < 60000; // 1 minute window
-    });
-
-    if (sameRun.length < 3) return []; // Not a complete analysis
+    if (!data || data.length < 3) return []; // Not a complete analysis
 
-    return sameRun.map((log: any) => ({
+    return data.map((log: any) => ({
       agentType: log.agent_type,
       agentName: log.agent_name,
       status: log.status,
@@ -70,6 +75,8 @@ async function loadAlerts(): Promise<LunarAlert[]> {
       acknowledged: alert.acknowledged,
       aiExplanation: alert.ai_explanation,
       createdAt: alert.created_at,
+      acknowledgedAt: alert.acknowledged_at ?? undefined,
+      acknowledgedBy: alert.acknowledged_by ?? undefined,
     }));
   } catch (err) {
     console.error('[LoadAnalysis] Error loading alerts:', err);
@@ -100,6 +107,8 @@ async function loadFraudRings(): Promise<FraudRing[]> {
       aiSummary: ring.ai_summary,
       status: ring.status,
       createdAt: ring.created_at,
+      updatedAt: ring.updated_at,
+      lastDetectedAt: ring.last_detected_at,
     }));
   } catch (err) {
     console.error('[LoadAnalysis] Error loading fraud rings:', err);
@@ -107,13 +116,16 @@ async function loadFraudRings(): Promise<FraudRing[]> {
   }
 }
 
-async function loadLatestSnapshot(): Promise<{ riskScore: number; summary: string } | null> {
+async function loadLatestSnapshot(runId: string | null): Promise<{ riskScore: number; summary: string } | null> {
   if (!isSupabaseConfigured()) return null;
 
   try {
-    const { data, error } = await db
+    let query = db
       .from('graph_snapshots')
-      .select('*')
+      .select('total_nodes, total_edges, fraud_edges, avg_risk_score');
+    if (runId) query = query.eq('run_id', runId);
+
+    const { data, error } = await query
       .order('created_at', { ascending: false })
       .limit(1)
       .single();
@@ -139,11 +151,12 @@ export async function GET(): Promise<NextResponse> {
   try {
     console.log('[LoadAnalysis] Loading saved analysis...');
 
+    const runId = isSupabaseConfigured() ? await findLatestRunId() : null;
     const [agents, alerts, fraudRings, snapshot] = await Promise.all([
-      loadAgentLogs(),
+      loadAgentLogs(runId),
       loadAlerts(),
       loadFraudRings(),
-      loadLatestSnapshot(),
+      loadLatestSnapshot(runId),
     ]);
 
     // If no data, return empty
@@ -155,6 +168,7 @@ export async function GET(): Promise<NextResponse> {
     }
 
     const analysis: CombinedAnalysis = {
+      runId: runId || undefined,
       timestamp: agents[0]?.completedAt || new Date().toISOString(),
       agents,
       fraudRings,
@@ -0,0 +1,34 @@
+// API Route: Reconcile Trades
+// Checks client-reported trades against Deriv's profit_table, corrects them and raises mismatch alerts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { reconcileTrades } from '@/lib/lunar-graph/trade-reconciliation';
+import { TradeReconciliationResponse } from '@/types/lunar-graph';
+
+interface ReconcileTradesRequest {
+  clientId?: string;
+}
+
+export async function POST(request: NextRequest): Promise<NextResponse<TradeReconciliationResponse>> {
+  try {
+    const body: ReconcileTradesRequest = await request.json().catch(() => ({}));
+    console.log(`[API] Reconciling trades${body.clientId ? ` for client ${body.clientId}` : ''}...`);
+
+    const result = await reconcileTrades({ clientId: body.clientId });
+
+    return NextResponse.json({ success: true, result });
+  } catch (error) {
+    console.error('[API] Error reconciling trades:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to reconcile trades',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET(): Promise<NextResponse> {
+  return NextResponse.json({ status: 'Reconcile Trades API is running' });
+}
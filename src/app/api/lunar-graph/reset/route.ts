@@ -3,6 +3,7 @@
 
 import { NextResponse } from 'next/server';
 import { supabase, isSupabaseConfigured } from '@/lib/supabase';
+import { clearGraphState } from '@/lib/lunar-graph/graph-state';
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 const db = supabase as any;
@@ -24,6 +25,9 @@ export async function POST(): Promise<NextResponse> {
       db.from('fraud_rings').delete().neq('id', '00000000-0000-0000-0000-000000000000'),
       db.from('agent_analysis_logs').delete().neq('id', '00000000-0000-0000-0000-000000000000'),
       db.from('graph_snapshots').delete().neq('id', '00000000-0000-0000-0000-000000000000'),
+      db.from('analysis_jobs').delete().in('status', ['succeeded', 'failed']),
+      // Next build starts from scratch instead of applying changes to the cleared graph
+      clearGraphState(),
     ]);
 
     // Check for errors
@@ -0,0 +1,48 @@
+// API Route: Risk Model Settings
+// Reads and updates the weights and caps used to score knowledge graph nodes
+
+import { NextRequest, NextResponse } from 'next/server';
+import { loadRiskModel, saveRiskModel, validateRiskModel } from '@/lib/lunar-graph/risk-scoring';
+import { RiskModelResponse, RiskScoringModel } from '@/types/lunar-graph';
+
+export async function GET(): Promise<NextResponse<RiskModelResponse>> {
+  try {
+    const config = await loadRiskModel();
+    return NextResponse.json({ success: true, config });
+  } catch (error) {
+    console.error('[API] Error loading risk model:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to load risk model',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Body: partial RiskScoringModel; it replaces the stored overrides as a whole
+export async function POST(request: NextRequest): Promise<NextResponse<RiskModelResponse>> {
+  try {
+    const overrides: Partial<RiskScoringModel> = await request.json().catch(() => ({}));
+
+    const validationError = validateRiskModel(overrides);
+    if (validationError) {
+      return NextResponse.json({ success: false, error: validationError }, { status: 400 });
+    }
+
+    const config = await saveRiskModel(overrides);
+    console.log(`[API] Risk model updated to version ${config.version}`);
+
+    return NextResponse.json({ success: true, config });
+  } catch (error) {
+    console.error('[API] Error updating risk model:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to update risk model',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+// API Route: Pre-Trade Screening
+// Called before a trade is bought - returns allow, flag or block under the partner's policy
+
+import { NextRequest, NextResponse } from 'next/server';
+import { screenTrade } from '@/lib/lunar-graph/trade-screening';
+import { oppositeContractType } from '@/lib/contracts';
+import { TradeScreeningResponse } from '@/types/lunar-graph';
+import { ContractType } from '@/types';
+
+interface ScreenTradeRequest {
+  clientId?: string;
+  affiliateId?: string;
+  symbol?: string;
+  contractType?: ContractType;
+  barrier?: string;
+  amount?: number;
+}
+
+export async function POST(request: NextRequest): Promise<NextResponse<TradeScreeningResponse>> {
+  try {
+    const body: ScreenTradeRequest = await request.json().catch(() => ({}));
+
+    if (!body.symbol || !body.contractType || !oppositeContractType(body.contractType)) {
+      return NextResponse.json({ success: false, error: 'symbol and a supported contractType are required' }, { status: 400 });
+    }
+
+    const result = await screenTrade({
+      clientId: body.clientId,
+      affiliateId: body.affiliateId,
+      symbol: body.symbol,
+      contractType: body.contractType,
+      barrier: body.barrier,
+      amount: Number(body.amount) || 0,
+    });
+
+    return NextResponse.json({ success: true, result });
+  } catch (error) {
+    console.error('[API] Error screening trade:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Screening failed',
+      },
+      { status: 500 }
+    );
+  }
+}
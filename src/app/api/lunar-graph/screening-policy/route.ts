@@ -0,0 +1,60 @@
+// API Route: Screening Policy
+// Reads and updates the allow/flag/block thresholds for the network or one partner
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  DEFAULT_POLICY_ID,
+  loadScreeningPolicy,
+  saveScreeningPolicy,
+  validateScreeningPolicy,
+} from '@/lib/lunar-graph/trade-screening';
+import { ScreeningPolicy, ScreeningPolicyResponse } from '@/types/lunar-graph';
+
+interface UpdatePolicyRequest {
+  affiliateId?: string;
+  policy?: Partial<ScreeningPolicy>;
+}
+
+export async function GET(request: NextRequest): Promise<NextResponse<ScreeningPolicyResponse>> {
+  try {
+    const affiliateId = request.nextUrl.searchParams.get('affiliateId') || undefined;
+    const config = await loadScreeningPolicy(affiliateId);
+    return NextResponse.json({ success: true, config });
+  } catch (error) {
+    console.error('[API] Error loading screening policy:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to load screening policy',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Body: { affiliateId?, policy }; the policy replaces the stored overrides for that partner as a whole
+export async function POST(request: NextRequest): Promise<NextResponse<ScreeningPolicyResponse>> {
+  try {
+    const body: UpdatePolicyRequest = await request.json().catch(() => ({}));
+    const overrides = body.policy || {};
+
+    const validationError = validateScreeningPolicy(overrides);
+    if (validationError) {
+      return NextResponse.json({ success: false, error: validationError }, { status: 400 });
+    }
+
+    const config = await saveScreeningPolicy(body.affiliateId || DEFAULT_POLICY_ID, overrides);
+    console.log(`[API] Screening policy for ${config.affiliateId} updated to version ${config.version}`);
+
+    return NextResponse.json({ success: true, config });
+  } catch (error) {
+    console.error('[API] Error updating screening policy:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to update screening policy',
+      },
+      { status: 500 }
+    );
+  }
+}
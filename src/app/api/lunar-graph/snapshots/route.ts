@@ -0,0 +1,52 @@
+// API Route: Graph Snapshots
+// Lists snapshots, loads one, or diffs two (?from=&to=) for the timeline
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  diffSnapshots,
+  listGraphSnapshots,
+  loadGraphSnapshot,
+} from '@/lib/lunar-graph/graph-snapshots';
+import { SnapshotsResponse } from '@/types/lunar-graph';
+
+export async function GET(request: NextRequest): Promise<NextResponse<SnapshotsResponse>> {
+  try {
+    const params = request.nextUrl.searchParams;
+    const snapshotId = params.get('id');
+    const fromId = params.get('from');
+    const toId = params.get('to');
+
+    if (fromId || toId) {
+      if (!fromId || !toId) {
+        return NextResponse.json({ success: false, error: 'Both from and to are required' }, { status: 400 });
+      }
+
+      const [from, to] = await Promise.all([loadGraphSnapshot(fromId), loadGraphSnapshot(toId)]);
+      if (!from || !to) {
+        return NextResponse.json({ success: false, error: 'Snapshot not found' }, { status: 404 });
+      }
+      return NextResponse.json({ success: true, diff: diffSnapshots(from, to) });
+    }
+
+    if (snapshotId) {
+      const snapshot = await loadGraphSnapshot(snapshotId);
+      if (!snapshot) {
+        return NextResponse.json({ success: false, error: 'Snapshot not found' }, { status: 404 });
+      }
+      return NextResponse.json({ success: true, snapshot });
+    }
+
+    const limit = Math.min(200, Math.max(1, parseInt(params.get('limit') || '50') || 50));
+    const snapshots = await listGraphSnapshots(limit);
+    return NextResponse.json({ success: true, snapshots });
+  } catch (error) {
+    console.error('[API] Error loading snapshots:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to load snapshots',
+      },
+      { status: 500 }
+    );
+  }
+}
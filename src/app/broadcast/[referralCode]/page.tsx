@@ -7,8 +7,15 @@ import dynamic from 'next/dynamic';
 import Link from 'next/link';
 import { getAffiliateByReferralCode, getAffiliateByReferralCodeAsync } from '@/lib/store';
 import { DerivClient } from '@/lib/deriv';
-import { Drawing, CandleData, SYMBOLS } from '@/types';
-import { supabase, isSupabaseConfigured } from '@/lib/supabase';
+import { applyTick } from '@/lib/candles';
+import { BroadcastHost, hostBroadcast } from '@/lib/broadcast-realtime';
+import { drawingLabel } from '@/lib/drawings';
+import { ConnectionBanner } from '@/components/ConnectionBanner';
+import { Drawing, CandleData, DerivConnectionState, SYMBOLS } from '@/types';
+import { BroadcastSignIn } from '@/components/BroadcastSignIn';
+import { BroadcastReplay } from '@/components/BroadcastReplay';
+import { BroadcastChat } from '@/components/BroadcastChat';
+import { isSupabaseConfigured } from '@/lib/supabase';
 
 // Dynamic import for BroadcastChart (client-side only)
 const BroadcastChart = dynamic(() => import('@/components/BroadcastChart'), {
@@ -27,6 +34,7 @@ export default function BroadcastPage() {
   const [affiliateName, setAffiliateName] = useState('Unknown');
   const [isLoading, setIsLoading] = useState(true);
   const [isConnected, setIsConnected] = useState(false);
+  const [connectionState, setConnectionState] = useState<DerivConnectionState>('idle');
   const [symbol, setSymbol] = useState('R_100');
   const [currentPrice, setCurrentPrice] = useState(0);
   const [candles, setCandles] = useState<CandleData[]>([]);
@@ -34,8 +42,11 @@ export default function BroadcastPage() {
   const [symbolDropdownOpen, setSymbolDropdownOpen] = useState(false);
   const [clientCount, setClientCount] = useState(0);
   const [isLive, setIsLive] = useState(false);
+  const [channelConnected, setChannelConnected] = useState(false);
+  const [replayOpen, setReplayOpen] = useState(false);
 
   const derivClientRef = useRef<DerivClient | null>(null);
+  const broadcastHostRef = useRef<BroadcastHost | null>(null);
 
   // Load affiliate info and saved drawings
   useEffect(() => {
@@ -58,14 +69,31 @@ export default function BroadcastPage() {
     setIsLoading(false);
   }, [referralCode]);
 
+  // Realtime channel to connected clients; also reports how many are watching
+  useEffect(() => {
+    const host = hostBroadcast(referralCode, {
+      onViewers: setClientCount,
+      onStatus: setChannelConnected,
+    });
+    broadcastHostRef.current = host;
+
+    return () => {
+      host.close();
+      broadcastHostRef.current = null;
+    };
+  }, [referralCode]);
+
   // Connect to Deriv for live prices
   useEffect(() => {
     const connectDeriv = async () => {
       try {
         const client = new DerivClient();
+        client.onConnectionStateChange((state) => {
+          setConnectionState(state);
+          setIsConnected(state === 'connected');
+        });
         await client.connect();
         derivClientRef.current = client;
-        setIsConnected(true);
 
         // Get initial candle data
         const history = await client.getTickHistory(symbol, 100, 60);
@@ -81,33 +109,7 @@ export default function BroadcastPage() {
             setCurrentPrice(tick.tick.quote);
 
             // Update or add candle
-            setCandles((prev) => {
-              const newCandles = [...prev];
-              const currentMinute = Math.floor(tick.tick!.epoch / 60) * 60;
-              const lastCandle = newCandles[newCandles.length - 1];
-
-              if (lastCandle && lastCandle.time === currentMinute) {
-                // Update existing candle
-                lastCandle.close = tick.tick!.quote;
-                lastCandle.high = Math.max(lastCandle.high, tick.tick!.quote);
-                lastCandle.low = Math.min(lastCandle.low, tick.tick!.quote);
-              } else {
-                // New candle
-                newCandles.push({
-                  time: currentMinute,
-                  open: tick.tick!.quote,
-                  high: tick.tick!.quote,
-                  low: tick.tick!.quote,
-                  close: tick.tick!.quote,
-                });
-                // Keep last 200 candles
-                if (newCandles.length > 200) {
-                  newCandles.shift();
-                }
-              }
-
-              return newCandles;
-            });
+            setCandles((prev) => applyTick(prev, tick.tick!, 60, 200));
           }
         });
       } catch (err) {
@@ -139,34 +141,28 @@ export default function BroadcastPage() {
     setCandles([]);
   };
 
-  // Save broadcast to Supabase
-  const saveBroadcastToSupabase = async (drawingsData: Drawing[], live: boolean) => {
-    if (!isSupabaseConfigured()) return;
+  // Sent through the broadcast route, which checks the signed-in affiliate owns this code, saves it and pushes it to clients
+  const publishBroadcast = (drawingsData: Drawing[], live: boolean): Promise<void> => {
+    const host = broadcastHostRef.current;
+    if (!host) return Promise.reject(new Error('The broadcast channel is not open yet'));
 
-    try {
-      const db = supabase as any;
-
-      // Upsert broadcast data (update if exists, insert if not)
-      const { error } = await db
-        .from('broadcast_drawings')
-        .upsert({
-          referral_code: referralCode,
-          symbol: symbol,
-          drawings: drawingsData,
-          is_live: live,
-          updated_at: new Date().toISOString(),
-        }, {
-          onConflict: 'referral_code,symbol',
-        });
+    return host.publish({
+      referralCode,
+      symbol,
+      isLive: live,
+      drawings: drawingsData,
+      indicators: [],
+      updatedAt: new Date().toISOString(),
+    });
+  };
 
-      if (error) {
-        console.error('[Broadcast] Error saving to Supabase:', error);
-      } else {
-        console.log('[Broadcast] Saved to Supabase, live:', live);
-      }
-    } catch (err) {
-      console.error('[Broadcast] Error saving broadcast:', err);
-    }
+  const showBroadcastError = (err: unknown) => {
+    console.error('[Broadcast] Error publishing broadcast:', err);
+    notifications.show({
+      title: 'Broadcast Failed',
+      message: err instanceof Error ? err.message : 'Your change did not reach clients',
+      color: 'red',
+    });
   };
 
   // Save drawings
@@ -174,46 +170,25 @@ export default function BroadcastPage() {
     setDrawings(newDrawings);
     localStorage.setItem(`broadcast_drawings_${referralCode}`, JSON.stringify(newDrawings));
 
-    // Save to localStorage with format that trade page expects
-    const broadcastData = {
-      drawings: newDrawings,
-      symbol,
-      referralCode,
-      is_live: isLive,
-      updatedAt: new Date().toISOString(),
-    };
-
-    // Save with referral code key
-    localStorage.setItem(`broadcast_${referralCode}_${symbol}`, JSON.stringify(broadcastData));
-
-    // Also save with partner key for trade page to find
-    localStorage.setItem(`broadcast_partner_${symbol}`, JSON.stringify(broadcastData));
-
-    // Save to Supabase if live
+    // While live, every change goes out as it happens
     if (isLive) {
-      saveBroadcastToSupabase(newDrawings, true);
+      publishBroadcast(newDrawings, true).catch(showBroadcastError);
     }
   };
 
   // Toggle live broadcast
   const toggleLive = async () => {
     const newLiveState = !isLive;
-    setIsLive(newLiveState);
-
-    // Update localStorage with new live state
-    const broadcastData = {
-      drawings,
-      symbol,
-      referralCode,
-      is_live: newLiveState,
-      updatedAt: new Date().toISOString(),
-    };
 
-    localStorage.setItem(`broadcast_${referralCode}_${symbol}`, JSON.stringify(broadcastData));
-    localStorage.setItem(`broadcast_partner_${symbol}`, JSON.stringify(broadcastData));
+    // Clients watching see the change immediately; stopping clears their charts
+    try {
+      await publishBroadcast(drawings, newLiveState);
+    } catch (err) {
+      showBroadcastError(err);
+      return;
+    }
 
-    // Save to Supabase
-    await saveBroadcastToSupabase(drawings, newLiveState);
+    setIsLive(newLiveState);
 
     if (newLiveState) {
       notifications.show({
@@ -459,6 +434,20 @@ export default function BroadcastPage() {
           color: #71717a;
         }
 
+        .replay-button {
+          padding: 8px 12px;
+          background: rgba(255, 255, 255, 0.03);
+          border: 1px solid rgba(255, 255, 255, 0.1);
+          border-radius: 6px;
+          color: #a1a1aa;
+          font-size: 12px;
+          cursor: pointer;
+        }
+
+        .replay-button:hover {
+          color: #fafafa;
+        }
+
         .back-link {
           display: flex;
           align-items: center;
@@ -727,21 +716,26 @@ export default function BroadcastPage() {
           </div>
 
           <div className="header-right">
+            {isSupabaseConfigured() && <BroadcastSignIn />}
             <button className="live-button" onClick={toggleLive}>
               <div className="live-dot" />
-              {isLive ? 'LIVE' : 'Go Live'}
+              {isLive ? (channelConnected ? 'LIVE' : 'Reconnecting...') : 'Go Live'}
             </button>
 
-            <div className="client-count">
+            <div className="client-count" title={channelConnected ? 'Clients watching this broadcast' : 'Realtime channel disconnected'}>
               <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
                 <path d="M17 21v-2a4 4 0 0 0-4-4H5a4 4 0 0 0-4 4v2" />
                 <circle cx="9" cy="7" r="4" />
                 <path d="M23 21v-2a4 4 0 0 0-3-3.87" />
                 <path d="M16 3.13a4 4 0 0 1 0 7.75" />
               </svg>
-              {clientCount} viewers
+              {channelConnected ? `${clientCount} ${clientCount === 1 ? 'viewer' : 'viewers'}` : 'Offline'}
             </div>
 
+            <button className="replay-button" onClick={() => setReplayOpen(true)}>
+              Replay
+            </button>
+
             <Link href="/affiliates" className="back-link">
               <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
                 <polyline points="15 18 9 12 15 6" />
@@ -751,6 +745,8 @@ export default function BroadcastPage() {
           </div>
         </header>
 
+        <ConnectionBanner state={connectionState} onRetry={() => derivClientRef.current?.reconnectNow()} />
+
         {/* Main Content */}
         <main className="broadcast-main">
           {/* Chart */}
@@ -802,11 +798,7 @@ export default function BroadcastPage() {
                             style={{ background: drawing.color }}
                           />
                           <span className="drawing-type">
-                            {drawing.type === 'trendline' && 'Trend Line'}
-                            {drawing.type === 'horizontal' && 'Horizontal Line'}
-                            {drawing.type === 'rectangle' && 'Zone'}
-                            {drawing.type === 'arrow' && 'Arrow'}
-                            {drawing.type === 'text' && `"${(drawing as any).text}"`}
+                            {drawingLabel(drawing)}
                           </span>
                         </div>
                         <button
@@ -857,9 +849,21 @@ export default function BroadcastPage() {
               </div>
             </div>
 
+            {/* Chat with clients */}
+            <BroadcastChat
+              referralCode={referralCode}
+              symbol={symbol}
+              role="host"
+              authorName={affiliateName}
+              drawings={drawings}
+            />
           </aside>
         </main>
       </div>
+
+      {replayOpen && (
+        <BroadcastReplay referralCodes={[referralCode]} symbol={symbol} onClose={() => setReplayOpen(false)} />
+      )}
     </>
   );
 }
@@ -16,8 +16,14 @@ import {
 } from '@tabler/icons-react';
 import { Badge, Avatar } from '@mantine/core';
 import { DerivClient } from '@/lib/deriv';
-import { supabase, isSupabaseConfigured } from '@/lib/supabase';
-import { Drawing, TextDrawing, Point, SYMBOLS } from '@/types';
+import { ConnectionBanner } from '@/components/ConnectionBanner';
+import { BroadcastHost, PARTNER_REFERRAL_CODE, hostBroadcast } from '@/lib/broadcast-realtime';
+import { ANALYSIS_TOOLS, AnalysisTool, drawingLabel } from '@/lib/drawings';
+import { BroadcastSignIn } from '@/components/BroadcastSignIn';
+import { BroadcastChat } from '@/components/BroadcastChat';
+import { AnalysisToolIcon } from '@/components/AnalysisToolIcon';
+import { isSupabaseConfigured } from '@/lib/supabase';
+import { Drawing, TextDrawing, Point, Indicator, DerivConnectionState, SYMBOLS } from '@/types';
 
 // Dynamic import for TradingViewChart (client-side only)
 const TradingViewChart = dynamic(() => import('@/components/TradingViewChart'), {
@@ -29,7 +35,7 @@ const TradingViewChart = dynamic(() => import('@/components/TradingViewChart'),
   ),
 });
 
-type DrawingMode = 'select' | 'trendline' | 'horizontal' | 'rectangle' | 'arrow' | 'text' | null;
+type DrawingMode = 'select' | 'trendline' | 'horizontal' | 'rectangle' | 'arrow' | 'text' | 'vertical' | AnalysisTool | null;
 
 const COLORS = [
   '#FF444F',
@@ -45,13 +51,17 @@ const COLORS = [
 export default function BroadcastPage() {
   const [isLoading, setIsLoading] = useState(true);
   const [isConnected, setIsConnected] = useState(false);
+  const [connectionState, setConnectionState] = useState<DerivConnectionState>('idle');
   const [symbol, setSymbol] = useState('1HZ100V');
   const [currentPrice, setCurrentPrice] = useState(0);
   const [drawings, setDrawings] = useState<Drawing[]>([]);
+  const [indicators, setIndicators] = useState<Indicator[]>([]); // The chart's indicator set, sent along with a broadcast
   const [symbolDropdownOpen, setSymbolDropdownOpen] = useState(false);
   const [isLive, setIsLive] = useState(false);
   const [isBroadcasting, setIsBroadcasting] = useState(false);
   const [broadcastLoading, setBroadcastLoading] = useState(false);
+  const [viewerCount, setViewerCount] = useState(0);
+  const [channelConnected, setChannelConnected] = useState(false);
   const [activeNav, setActiveNav] = useState('broadcast');
 
   // Drawing state
@@ -65,6 +75,7 @@ export default function BroadcastPage() {
   const [pendingTextPoint, setPendingTextPoint] = useState<Point | null>(null);
 
   const derivClientRef = useRef<DerivClient | null>(null);
+  const broadcastHostRef = useRef<BroadcastHost | null>(null);
 
   const navItems = [
     { icon: IconHome, label: 'Overview', id: 'dashboard', href: '/' },
@@ -89,14 +100,31 @@ export default function BroadcastPage() {
     setIsLoading(false);
   }, []);
 
+  // Realtime channel to connected clients; also reports how many are watching
+  useEffect(() => {
+    const host = hostBroadcast(PARTNER_REFERRAL_CODE, {
+      onViewers: setViewerCount,
+      onStatus: setChannelConnected,
+    });
+    broadcastHostRef.current = host;
+
+    return () => {
+      host.close();
+      broadcastHostRef.current = null;
+    };
+  }, []);
+
   // Connect to Deriv for live prices (header display)
   useEffect(() => {
     const connectDeriv = async () => {
       try {
         const client = new DerivClient();
+        client.onConnectionStateChange((state) => {
+          setConnectionState(state);
+          setIsConnected(state === 'connected');
+        });
         await client.connect();
         derivClientRef.current = client;
-        setIsConnected(true);
 
         // Subscribe to ticks for current price
         await client.subscribeTicks(symbol, (tick) => {
@@ -132,18 +160,44 @@ export default function BroadcastPage() {
     setSymbolDropdownOpen(false);
   };
 
+  // Sent through the broadcast route, which checks the signed-in partner, saves it and pushes it to clients
+  const publishBroadcast = (drawingsData: Drawing[], indicatorsData: Indicator[], live: boolean): Promise<void> => {
+    const host = broadcastHostRef.current;
+    if (!host) return Promise.reject(new Error('The broadcast channel is not open yet'));
+
+    return host.publish({
+      referralCode: PARTNER_REFERRAL_CODE,
+      symbol,
+      isLive: live,
+      drawings: drawingsData,
+      indicators: indicatorsData,
+      updatedAt: new Date().toISOString(),
+    });
+  };
+
+  // While broadcasting, every drawing or indicator change goes out as it happens
+  const syncLiveBroadcast = (drawingsData: Drawing[], indicatorsData: Indicator[]) => {
+    if (!isBroadcasting) return;
+    publishBroadcast(drawingsData, indicatorsData, true).catch((err) => {
+      console.error('[Broadcast] Error publishing broadcast:', err);
+      notifications.show({
+        title: 'Broadcast Failed',
+        message: err instanceof Error ? err.message : 'Your change did not reach clients',
+        color: 'red',
+      });
+    });
+  };
+
   // Save drawings to localStorage
   const saveDrawings = (newDrawings: Drawing[]) => {
     setDrawings(newDrawings);
     localStorage.setItem('broadcast_partner_drawings', JSON.stringify(newDrawings));
-    localStorage.setItem(
-      `broadcast_partner_${symbol}`,
-      JSON.stringify({
-        drawings: newDrawings,
-        symbol,
-        updatedAt: new Date().toISOString(),
-      })
-    );
+    syncLiveBroadcast(newDrawings, indicators);
+  };
+
+  const handleIndicatorsChange = (newIndicators: Indicator[]) => {
+    setIndicators(newIndicators);
+    syncLiveBroadcast(drawings, newIndicators);
   };
 
   // Handle new drawing completed
@@ -226,10 +280,10 @@ export default function BroadcastPage() {
 
   // Broadcast drawings to database (toggle on/off)
   const toggleBroadcast = async () => {
-    if (drawings.length === 0 && !isBroadcasting) {
+    if (drawings.length === 0 && indicators.length === 0 && !isBroadcasting) {
       notifications.show({
-        title: 'No Drawings',
-        message: 'Draw some analysis on the chart first',
+        title: 'No Analysis',
+        message: 'Draw some analysis or add indicators on the chart first',
         color: 'yellow',
       });
       return;
@@ -238,47 +292,16 @@ export default function BroadcastPage() {
     setBroadcastLoading(true);
     try {
       if (!isBroadcasting) {
-        if (isSupabaseConfigured()) {
-          const { error } = await (supabase as any)
-            .from('broadcast_drawings')
-            .upsert({
-              symbol,
-              drawings: JSON.stringify(drawings),
-              is_live: true,
-              updated_at: new Date().toISOString(),
-            }, { onConflict: 'symbol' });
-
-          if (error) throw error;
-        }
-
-        localStorage.setItem(`broadcast_partner_${symbol}`, JSON.stringify({
-          drawings,
-          symbol,
-          is_live: true,
-          updatedAt: new Date().toISOString(),
-        }));
+        await publishBroadcast(drawings, indicators, true);
 
         setIsBroadcasting(true);
         notifications.show({
           title: 'Analysis Broadcasted',
-          message: `${drawings.length} drawing(s) are now visible to your clients`,
+          message: `${drawings.length} drawing(s) and ${indicators.length} indicator(s) are now visible to your clients`,
           color: 'teal',
         });
       } else {
-        if (isSupabaseConfigured()) {
-          const { error } = await (supabase as any)
-            .from('broadcast_drawings')
-            .upsert({
-              symbol,
-              drawings: JSON.stringify([]),
-              is_live: false,
-              updated_at: new Date().toISOString(),
-            }, { onConflict: 'symbol' });
-
-          if (error) throw error;
-        }
-
-        localStorage.removeItem(`broadcast_partner_${symbol}`);
+        await publishBroadcast([], [], false);
 
         setIsBroadcasting(false);
         notifications.show({
@@ -291,7 +314,7 @@ export default function BroadcastPage() {
       console.error('Broadcast error:', err);
       notifications.show({
         title: 'Broadcast Failed',
-        message: 'Could not save drawings. Check your connection.',
+        message: err instanceof Error ? err.message : 'Could not save drawings. Check your connection.',
         color: 'red',
       });
     } finally {
@@ -651,6 +674,35 @@ export default function BroadcastPage() {
           50% { opacity: 0.5; }
         }
 
+        .broadcast-presence {
+          display: flex;
+          align-items: center;
+          gap: 8px;
+          padding: 8px 12px;
+          background: var(--bg-tertiary);
+          border: 1px solid ${isBroadcasting && channelConnected ? 'rgba(255, 68, 79, 0.4)' : 'var(--border-medium)'};
+          border-radius: 8px;
+          font-size: 12px;
+          color: var(--text-secondary);
+        }
+
+        .presence-badge {
+          display: flex;
+          align-items: center;
+          gap: 6px;
+          font-weight: 700;
+          letter-spacing: 0.5px;
+          color: ${isBroadcasting && channelConnected ? '#FF444F' : 'var(--text-muted)'};
+        }
+
+        .presence-dot {
+          width: 8px;
+          height: 8px;
+          border-radius: 50%;
+          background: ${isBroadcasting && channelConnected ? '#FF444F' : 'var(--text-muted)'};
+          animation: ${isBroadcasting && channelConnected ? 'pulse 1.5s infinite' : 'none'};
+        }
+
         .broadcast-body {
           flex: 1;
           display: flex;
@@ -689,6 +741,7 @@ export default function BroadcastPage() {
           display: flex;
           flex-direction: column;
           gap: 16px;
+          overflow-y: auto;
         }
 
         .panel {
@@ -838,6 +891,7 @@ export default function BroadcastPage() {
 
         {/* Main Content */}
         <main className="main-content">
+          <ConnectionBanner state={connectionState} onRetry={() => derivClientRef.current?.reconnectNow()} />
           {/* Header */}
           <header className="broadcast-header">
             <div className="header-left">
@@ -881,6 +935,14 @@ export default function BroadcastPage() {
             </div>
 
             <div className="header-right">
+              {isSupabaseConfigured() && <BroadcastSignIn />}
+              <div className="broadcast-presence" title={channelConnected ? 'Clients connected to your broadcast channel' : 'Realtime channel disconnected'}>
+                <span className="presence-badge">
+                  <span className="presence-dot" />
+                  {!channelConnected ? 'OFFLINE' : isBroadcasting ? 'LIVE' : 'IDLE'}
+                </span>
+                <span>{viewerCount} {viewerCount === 1 ? 'viewer' : 'viewers'}</span>
+              </div>
               <button className="live-button" onClick={toggleLive}>
                 <div className="live-dot" />
                 {isLive ? 'LIVE' : 'Go Live'}
@@ -936,6 +998,15 @@ export default function BroadcastPage() {
                   }
                   label="H-Line"
                 />
+                <ToolButton
+                  mode="vertical"
+                  icon={
+                    <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                      <line x1="12" y1="4" x2="12" y2="20" />
+                    </svg>
+                  }
+                  label="V-Line"
+                />
                 <ToolButton
                   mode="rectangle"
                   icon={
@@ -970,6 +1041,14 @@ export default function BroadcastPage() {
                 {/* Separator */}
                 <div style={{ width: 1, height: 24, background: 'rgba(255,255,255,0.1)', margin: '0 4px' }} />
 
+                {/* Analysis tools */}
+                {ANALYSIS_TOOLS.map((tool) => (
+                  <ToolButton key={tool.type} mode={tool.type} icon={<AnalysisToolIcon tool={tool.type} size={14} />} label={tool.label} />
+                ))}
+
+                {/* Separator */}
+                <div style={{ width: 1, height: 24, background: 'rgba(255,255,255,0.1)', margin: '0 4px' }} />
+
                 {/* Color picker */}
                 {COLORS.map((color) => (
                   <button
@@ -1043,6 +1122,7 @@ export default function BroadcastPage() {
                   onDrawingSelect={setSelectedDrawing}
                   onTextInputRequest={handleTextInputRequest}
                   referralCode="partner"
+                  onIndicatorsChange={handleIndicatorsChange}
                 />
               </div>
             </div>
@@ -1083,11 +1163,7 @@ export default function BroadcastPage() {
                           <div className="drawing-info">
                             <div className="drawing-color" style={{ background: drawing.color }} />
                             <span className="drawing-type">
-                              {drawing.type === 'trendline' && 'Trend Line'}
-                              {drawing.type === 'horizontal' && 'Horizontal Line'}
-                              {drawing.type === 'rectangle' && 'Zone'}
-                              {drawing.type === 'arrow' && 'Arrow'}
-                              {drawing.type === 'text' && `"${(drawing as any).text}"`}
+                              {drawingLabel(drawing)}
                             </span>
                           </div>
                           <button
@@ -1152,6 +1228,16 @@ export default function BroadcastPage() {
                   </>
                 )}
               </button>
+
+              {/* Chat with clients */}
+              <BroadcastChat
+                referralCode={PARTNER_REFERRAL_CODE}
+                symbol={symbol}
+                role="host"
+                authorName="Partner"
+                drawings={drawings}
+                selectedDrawingId={selectedDrawing}
+              />
             </aside>
           </div>
         </main>
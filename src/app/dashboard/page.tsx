@@ -6,6 +6,7 @@ import { IconGraph, IconSearch, IconRobot, IconAlertTriangle, IconRefresh, IconS
 import Link from 'next/link';
 import { getAccountHierarchy, getTrades, getAlerts, getCorrelations, setCorrelations, getStats, getAllAccounts } from '@/lib/store';
 import { runCorrelationAnalysis, buildGraphData, generateAnalysisSummary } from '@/lib/analysis';
+import { isLongContract } from '@/lib/contracts';
 import type { CorrelationResult, GraphNode, GraphEdge, Alert } from '@/types';
 
 interface CopilotMessage {
@@ -510,7 +511,7 @@ export default function FraudDashboard() {
                               <div key={i} className="grid grid-cols-3 gap-4 text-sm">
                                 <div>
                                   <Text c="dimmed" size="xs">Trade A</Text>
-                                  <Badge color={match.tradeA.contractType === 'CALL' ? 'green' : 'red'} size="xs">
+                                  <Badge color={isLongContract(match.tradeA.contractType) ? 'green' : 'red'} size="xs">
                                     {match.tradeA.contractType}
                                   </Badge>
                                   <Text size="xs" c="white">${match.tradeA.amount}</Text>
@@ -521,7 +522,7 @@ export default function FraudDashboard() {
                                 </div>
                                 <div className="text-right">
                                   <Text c="dimmed" size="xs">Trade B</Text>
-                                  <Badge color={match.tradeB.contractType === 'CALL' ? 'green' : 'red'} size="xs">
+                                  <Badge color={isLongContract(match.tradeB.contractType) ? 'green' : 'red'} size="xs">
                                     {match.tradeB.contractType}
                                   </Badge>
                                   <Text size="xs" c="white">${match.tradeB.amount}</Text>
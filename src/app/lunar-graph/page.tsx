@@ -7,15 +7,20 @@ import {
   KnowledgeGraph,
   CombinedAnalysis,
   FraudRing,
+  FraudRingEvent,
+  FraudRingStatus,
   LunarAlert,
   GraphNodeData,
   GraphEdgeData,
   AgentAnalysis,
+  CopilotMessage,
 } from '@/types/lunar-graph';
 import { FraudRingCardCompact } from '@/components/lunar-graph/FraudRingCard';
 import AlertFeed, { AlertSummary } from '@/components/lunar-graph/AlertFeed';
 import AgentStatusPanel from '@/components/lunar-graph/AgentStatusPanel';
 import InvestigationCopilot from '@/components/lunar-graph/InvestigationCopilot';
+import CasePanel from '@/components/lunar-graph/CasePanel';
+import SnapshotTimeline from '@/components/lunar-graph/SnapshotTimeline';
 
 // Dynamically import Cytoscape component (no SSR)
 const KnowledgeGraphView = dynamic(
@@ -134,10 +139,24 @@ function applyAnalysisToGraph(graph: KnowledgeGraph, analysis: CombinedAnalysis)
     if (minRisk > 0 || boost > 0) {
       // Use the higher of: current + boost, or minimum risk
       const boostedScore = node.riskScore + boost;
-      const newScore = Math.max(boostedScore, minRisk);
+      const newScore = Math.min(100, Math.max(boostedScore, minRisk));
+      // Keep the breakdown adding up to the displayed score
+      const riskBreakdown = node.riskBreakdown && {
+        ...node.riskBreakdown,
+        factors: [
+          ...node.riskBreakdown.factors.filter(f => f.id !== 'analysis_findings'),
+          {
+            id: 'analysis_findings',
+            label: 'Agent findings',
+            points: newScore - node.riskScore,
+            detail: `Named in findings or rings (minimum ${minRisk}, boost ${boost})`,
+          },
+        ],
+      };
       return {
         ...node,
-        riskScore: Math.min(100, newScore),
+        riskScore: newScore,
+        riskBreakdown,
       };
     }
     return node;
@@ -241,13 +260,18 @@ export default function LunarGraphPage() {
   const [selectedNode, setSelectedNode] = useState<GraphNodeData | null>(null);
   const [selectedEdge, setSelectedEdge] = useState<GraphEdgeData | null>(null);
   const [selectedRing, setSelectedRing] = useState<FraudRing | null>(null);
+  const [ringHistory, setRingHistory] = useState<FraudRingEvent[]>([]);
   const [selectedAgent, setSelectedAgent] = useState<AgentAnalysis | null>(null);
   const [selectedAlert, setSelectedAlert] = useState<LunarAlert | null>(null);
   const [isBuilding, setIsBuilding] = useState(false);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [isResetting, setIsResetting] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
-  const [activeTab, setActiveTab] = useState<'graph' | 'copilot'>('graph');
+  const [activeTab, setActiveTab] = useState<'graph' | 'copilot' | 'cases'>('graph');
+  const [investigator, setInvestigator] = useState('');
+  const [activeCaseId, setActiveCaseId] = useState<string | null>(null);
+  const [caseRefreshKey, setCaseRefreshKey] = useState(0);
+  const [timelineHighlights, setTimelineHighlights] = useState<string[]>([]);
   const [error, setError] = useState<string | null>(null);
 
   // Load graph, fraud rings, and saved analysis on mount
@@ -406,12 +430,43 @@ export default function LunarGraphPage() {
   }, []);
 
   // Handle fraud ring selection
-  const handleRingSelect = useCallback((ring: FraudRing) => {
+  const handleRingSelect = useCallback(async (ring: FraudRing) => {
     setSelectedRing(ring);
+    setRingHistory([]);
     setSelectedNode(null);
     setSelectedEdge(null);
     setSelectedAgent(null);
     setSelectedAlert(null);
+
+    try {
+      const response = await fetch(`/api/lunar-graph/fraud-rings?id=${encodeURIComponent(ring.id)}`);
+      const data = await response.json();
+      if (data.success) setRingHistory(data.history || []);
+    } catch (err) {
+      console.error('Failed to load ring history:', err);
+    }
+  }, []);
+
+  // Persist an investigator status change on the selected ring
+  const handleRingStatusChange = useCallback(async (ring: FraudRing, status: FraudRingStatus) => {
+    try {
+      const response = await fetch('/api/lunar-graph/fraud-rings', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ringId: ring.id, status }),
+      });
+      const data = await response.json();
+
+      if (data.success && data.ring) {
+        setSelectedRing(data.ring);
+        setRingHistory(data.history || []);
+        setFraudRings(prev => prev.map(r => (r.id === data.ring.id ? data.ring : r)));
+      } else {
+        setError(data.error || 'Failed to update ring status');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update ring status');
+    }
   }, []);
 
   // Handle agent click - show agent findings
@@ -435,8 +490,43 @@ export default function LunarGraphPage() {
     setActiveTab('graph');
   }, []);
 
+  // Investigator name is kept per browser so the audit trail knows who acted
+  useEffect(() => {
+    setInvestigator(localStorage.getItem('lunar-graph-investigator') || '');
+  }, []);
+
+  const handleInvestigatorChange = useCallback((name: string) => {
+    setInvestigator(name);
+    localStorage.setItem('lunar-graph-investigator', name);
+  }, []);
+
+  // Attach the current copilot transcript to the active case
+  const handleAttachConversation = useCallback(async (messages: CopilotMessage[]) => {
+    if (!activeCaseId) return;
+    if (!investigator.trim()) {
+      setError('Enter your name on the Cases tab before attaching conversations');
+      return;
+    }
+
+    try {
+      const response = await fetch('/api/lunar-graph/cases/attach', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ caseId: activeCaseId, actor: investigator, conversation: messages }),
+      });
+      const data = await response.json();
+      if (data.success) {
+        setCaseRefreshKey(key => key + 1);
+      } else {
+        setError(data.error || 'Failed to attach conversation');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to attach conversation');
+    }
+  }, [activeCaseId, investigator]);
+
   // Get highlighted nodes for the graph
-  const highlightedNodes = selectedRing?.entities || [];
+  const highlightedNodes = selectedRing?.entities || timelineHighlights;
 
   return (
     <>
@@ -757,6 +847,15 @@ export default function LunarGraphPage() {
                   </svg>
                   Investigation Copilot
                 </button>
+                <button
+                  onClick={() => setActiveTab('cases')}
+                  className={`lg-tab ${activeTab === 'cases' ? 'lg-tab-active' : 'lg-tab-inactive'}`}
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" width="15" height="15" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                    <rect x="2" y="7" width="20" height="14" rx="2"/><path d="M16 7V5a2 2 0 0 0-2-2h-4a2 2 0 0 0-2 2v2"/>
+                  </svg>
+                  Cases
+                </button>
               </div>
 
               {/* Main Content Area */}
@@ -769,7 +868,7 @@ export default function LunarGraphPage() {
                     highlightedNodes={highlightedNodes}
                     height={500}
                   />
-                ) : (
+                ) : activeTab === 'copilot' ? (
                   <InvestigationCopilot
                     selectedEntities={selectedRing?.entities || (selectedNode ? [selectedNode.id] : [])}
                     fraudRingId={selectedRing?.id}
@@ -777,10 +876,40 @@ export default function LunarGraphPage() {
                     analysis={analysis}
                     fraudRings={fraudRings}
                     height={500}
+                    onAttachConversation={activeCaseId ? handleAttachConversation : undefined}
+                  />
+                ) : (
+                  <CasePanel
+                    investigator={investigator}
+                    onInvestigatorChange={handleInvestigatorChange}
+                    activeCaseId={activeCaseId}
+                    onActiveCaseChange={setActiveCaseId}
+                    selectedRing={selectedRing}
+                    selectedAlert={selectedAlert}
+                    selectedEntities={selectedRing ? [] : selectedNode ? [selectedNode.id] : selectedAlert?.entities || []}
+                    refreshKey={caseRefreshKey}
+                    height={500}
                   />
                 )}
               </div>
 
+              {/* Snapshot Timeline */}
+              {activeTab === 'graph' && (
+                <div className="lg-panel lg-animate lg-delay-2">
+                  <div className="lg-panel-header">
+                    <span className="lg-panel-title">Timeline</span>
+                    {timelineHighlights.length > 0 && (
+                      <button onClick={() => setTimelineHighlights([])} className="lg-detail-close">
+                        Clear highlight
+                      </button>
+                    )}
+                  </div>
+                  <div className="lg-panel-body">
+                    <SnapshotTimeline onHighlight={setTimelineHighlights} refreshKey={analysis?.runId} />
+                  </div>
+                </div>
+              )}
+
               {/* Selected Item Details */}
               {(selectedNode || selectedEdge || selectedRing || selectedAgent || selectedAlert) && (
                 <div className="lg-detail-panel lg-animate">
@@ -821,6 +950,22 @@ export default function LunarGraphPage() {
                           </>
                         )}
                       </div>
+                      {selectedNode.riskBreakdown && selectedNode.riskBreakdown.factors.length > 0 && (
+                        <div className="lg-detail-grid" style={{ marginTop: 10 }}>
+                          {selectedNode.riskBreakdown.factors.map(factor => (
+                            <div key={factor.id} style={{ display: 'contents' }} title={factor.detail}>
+                              <div className="lg-detail-key">{factor.label}:</div>
+                              <div className="lg-detail-value">+{factor.points}</div>
+                            </div>
+                          ))}
+                          {selectedNode.riskBreakdown.rawScore > selectedNode.riskScore && (
+                            <>
+                              <div className="lg-detail-key">Capped:</div>
+                              <div className="lg-detail-value">{selectedNode.riskBreakdown.rawScore} → {selectedNode.riskScore}</div>
+                            </>
+                          )}
+                        </div>
+                      )}
                     </div>
                   )}
 
@@ -884,6 +1029,36 @@ export default function LunarGraphPage() {
                         </div>
                       </div>
 
+                      {/* Investigation status */}
+                      <div style={{ display: 'flex', gap: 6, marginBottom: 12 }}>
+                        {(['active', 'investigating', 'resolved', 'false_positive'] as FraudRingStatus[]).map(status => (
+                          <button
+                            key={status}
+                            onClick={() => handleRingStatusChange(selectedRing, status)}
+                            disabled={selectedRing.status === status}
+                            className={`lg-detail-badge ${selectedRing.status === status ? 'bg-blue-500/20 text-blue-400' : 'bg-white/5 text-gray-400'}`}
+                            style={{ cursor: selectedRing.status === status ? 'default' : 'pointer', border: 'none' }}
+                          >
+                            {status.replace('_', ' ').toUpperCase()}
+                          </button>
+                        ))}
+                      </div>
+
+                      {/* Ring history */}
+                      {ringHistory.length > 0 && (
+                        <div style={{ marginBottom: 12, fontSize: 11, color: 'rgba(255,255,255,0.5)', fontFamily: "'JetBrains Mono', monospace" }}>
+                          {ringHistory.slice(0, 8).map(event => (
+                            <div key={event.id} style={{ marginBottom: 4 }}>
+                              <span style={{ color: 'rgba(255,255,255,0.3)' }}>{new Date(event.createdAt).toLocaleString()}</span>{' '}
+                              {event.type === 'status_changed' && `${event.statusBefore} → ${event.statusAfter}`}
+                              {event.type === 'membership_changed' && `+${event.addedEntities.length} / -${event.removedEntities.length} entities`}
+                              {event.type === 'exposure_changed' && `exposure $${(event.exposureBefore || 0).toFixed(0)} → $${(event.exposureAfter || 0).toFixed(0)}`}
+                              {(event.type === 'created' || event.type === 'redetected') && event.type}
+                            </div>
+                          ))}
+                        </div>
+                      )}
+
                       {/* AI Summary with markdown */}
                       {selectedRing.aiSummary && (
                         <div className="max-h-[300px] overflow-y-auto" style={{ borderTop: '1px solid rgba(255,255,255,0.06)', paddingTop: 12 }}>
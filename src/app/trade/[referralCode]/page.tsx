@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useRef, useMemo, useCallback } from 'react';
 import { useParams, useSearchParams } from 'next/navigation';
 import { notifications } from '@mantine/notifications';
 import dynamic from 'next/dynamic';
@@ -16,14 +16,28 @@ const TradingViewChart = dynamic(() => import('@/components/TradingViewChart'),
   ),
 });
 import { DerivClient, generateOAuthUrl } from '@/lib/deriv';
-import { Trade, Drawing, TrendlineDrawing, HorizontalLineDrawing, RectangleDrawing, ArrowDrawing, TextDrawing } from '@/types';
+import { ConnectionBanner } from '@/components/ConnectionBanner';
+import { PriceAlertManager } from '@/components/PriceAlertManager';
+import { BroadcastReplay } from '@/components/BroadcastReplay';
+import { BroadcastChat } from '@/components/BroadcastChat';
+import { Trade, Drawing, TrendlineDrawing, HorizontalLineDrawing, RectangleDrawing, ArrowDrawing, TextDrawing, ContractType, ContractCategory, ContractCategoryOption, BroadcastUpdate, DerivConnectionState, DurationUnit, Indicator, LimitOrderAmounts, PendingOrder, PriceAlert, PriceAlertCondition, ProposalParams } from '@/types';
+import { createPendingOrder, isOrderTriggered, loadPendingOrders, pendingOrderParams, savePendingOrders } from '@/lib/pending-orders';
+import { sanitizeIndicators } from '@/lib/indicators';
+import { sanitizeDrawings } from '@/lib/drawings';
+import { PARTNER_REFERRAL_CODE, watchBroadcast } from '@/lib/broadcast-realtime';
+import { createPriceAlert, deletePriceAlertAsync, describePriceAlert, isPriceAlertTriggered, loadPriceAlertsAsync, markPriceAlertTriggeredAsync, requestBrowserNotificationPermission, savePriceAlertAsync, showBrowserNotification, validatePriceAlert } from '@/lib/price-alerts';
+import { DEFAULT_CONTRACT_CATALOGUE, contractLabel, defaultDuration, durationUnitsFor, isLongContract, limitOrderAmount, validateDuration } from '@/lib/contracts';
 import { supabase, isSupabaseConfigured } from '@/lib/supabase';
 import { v4 as uuidv4 } from 'uuid';
 
 interface OpenPosition {
   contractId: number;
   symbol: string;
-  direction: 'CALL' | 'PUT';
+  direction: 'CALL' | 'PUT'; // Long or short side, for TP/SL and the chart
+  contractType: ContractType;
+  barrier?: string;
+  multiplier?: number;
+  brokerLimits?: boolean; // TP/SL held by Deriv as limit_order (Multipliers) instead of the fallback watcher
   entryPrice: number;
   currentPrice: number;
   profit: number;
@@ -34,6 +48,18 @@ interface OpenPosition {
   stopLoss?: number;
 }
 
+// Latest re-priced proposal for one side of the selected contract
+type LiveProposal = { id: string; askPrice: number; payout: number } | { error: string };
+
+const DURATION_UNIT_LABELS: Record<DurationUnit | 'endtime', string> = {
+  t: 'Ticks',
+  s: 'Sec',
+  m: 'Min',
+  h: 'Hours',
+  d: 'Days',
+  endtime: 'End time',
+};
+
 type AuthState = 'checking' | 'unauthenticated' | 'creating_account' | 'authenticated';
 
 export default function TradingPage() {
@@ -66,6 +92,7 @@ export default function TradingPage() {
   // Trading states
   const [isLoading, setIsLoading] = useState(true);
   const [isConnected, setIsConnected] = useState(false);
+  const [connectionState, setConnectionState] = useState<DerivConnectionState>('idle');
   const [clientId, setClientId] = useState('');
   const [balance, setBalance] = useState(10000);
   const [accountId, setAccountId] = useState('');
@@ -88,7 +115,19 @@ export default function TradingPage() {
   const [limitPrice, setLimitPrice] = useState<number>(0);
   const [takeProfit, setTakeProfit] = useState<string>('');
   const [stopLoss, setStopLoss] = useState<string>('');
-  const [leverage, setLeverage] = useState<number>(10);
+  const [leverage, setLeverage] = useState<number>(10); // Multiplier for Multipliers contracts
+  const [pendingOrders, setPendingOrders] = useState<PendingOrder[]>([]);
+  const pendingOrdersLoadedRef = useRef(false);
+  const triggeringOrdersRef = useRef<Set<string>>(new Set());
+
+  // Contract selection, from the symbol's contracts_for
+  const [contractCatalogue, setContractCatalogue] = useState<ContractCategoryOption[]>(DEFAULT_CONTRACT_CATALOGUE);
+  const [contractCategory, setContractCategory] = useState<ContractCategory>('risefall');
+  const [barrier, setBarrier] = useState<string>('');
+  const [durationUnit, setDurationUnit] = useState<DurationUnit | 'endtime'>('m');
+  const [durationValue, setDurationValue] = useState<number>(5);
+  const [endTime, setEndTime] = useState<string>(''); // datetime-local value
+  const [liveProposals, setLiveProposals] = useState<Partial<Record<ContractType, LiveProposal>>>({});
 
   const [openPositions, setOpenPositions] = useState<OpenPosition[]>([]);
   const [tradeHistory, setTradeHistory] = useState<Trade[]>([]);
@@ -97,7 +136,21 @@ export default function TradingPage() {
   // Affiliate signals
   const [affiliateSignals, setAffiliateSignals] = useState<Drawing[]>([]);
   const [showSignals, setShowSignals] = useState(false);
+  const [affiliateIndicators, setAffiliateIndicators] = useState<Indicator[]>([]);
   const [analysisLoading, setAnalysisLoading] = useState(false);
+  // Live analysis pushed over the broadcast channels, latest per `${referralCode}:${symbol}`
+  const [liveBroadcasts, setLiveBroadcasts] = useState<Record<string, BroadcastUpdate>>({});
+  const previousLiveBroadcastRef = useRef<BroadcastUpdate | undefined>(undefined);
+  const [replayOpen, setReplayOpen] = useState(false);
+
+  // Price alerts - checked on every tick of their symbol; symbols other than the charted one get their own stream
+  const [priceAlerts, setPriceAlerts] = useState<PriceAlert[]>([]);
+  const [alertMenu, setAlertMenu] = useState<{ price: number; x: number; y: number } | null>(null);
+  const priceAlertsRef = useRef<PriceAlert[]>([]);
+  const alertPricesRef = useRef<Record<string, number>>({});
+  // Symbols other than the charted one streamed for price alerts or pending orders, and their latest quotes
+  const watchSubscriptionsRef = useRef<Set<string>>(new Set());
+  const [watchedPrices, setWatchedPrices] = useState<Record<string, number>>({});
 
   const derivClientRef = useRef<DerivClient | null>(null);
   const lastPriceRef = useRef<number>(0);
@@ -319,9 +372,14 @@ export default function TradingPage() {
         const derivClient = new DerivClient();
         derivClientRef.current = derivClient;
 
+        // Live proposals and pending-order checks pause while the connection is down and restart once it is back
+        derivClient.onConnectionStateChange((state) => {
+          setConnectionState(state);
+          setIsConnected(state === 'connected');
+        });
+
         // Connect and authorize with the user's token
         const authResponse = await derivClient.connect(userToken);
-        setIsConnected(true);
         console.log('[Trade] Auth response:', JSON.stringify(authResponse.authorize));
         // Use fullname (trimmed) or loginid as fallback for user name
         const fullName = (authResponse.authorize?.fullname || '').trim();
@@ -378,6 +436,7 @@ export default function TradingPage() {
           if (newPrice < lowPrice || lowPrice === 0) setLowPrice(newPrice);
           lastPriceRef.current = newPrice;
           setCurrentPrice(newPrice);
+          evaluatePriceAlerts(defaultSymbol, newPrice);
         });
 
         // Load trade history - use client.id directly since setClientId is async
@@ -463,12 +522,62 @@ export default function TradingPage() {
     };
   }, [authState, userToken, referralCode]);
 
+  // Listen to this affiliate's broadcast channel and the partner-wide one
+  useEffect(() => {
+    if (!referralCode) return;
+
+    const codes = Array.from(new Set([referralCode, PARTNER_REFERRAL_CODE]));
+    const stops = codes.map(code => watchBroadcast(code, {
+      onUpdate: (update) => {
+        setLiveBroadcasts(prev => {
+          const key = `${update.referralCode}:${update.symbol}`;
+          const next = { ...prev };
+          if (update.isLive) {
+            next[key] = update;
+          } else {
+            delete next[key];
+          }
+          return next;
+        });
+      },
+    }));
+
+    return () => stops.forEach(stop => stop());
+  }, [referralCode]);
+
+  // The affiliate's own broadcast wins over the partner-wide one
+  const liveBroadcast = symbol
+    ? liveBroadcasts[`${referralCode}:${symbol}`] ?? liveBroadcasts[`${PARTNER_REFERRAL_CODE}:${symbol}`]
+    : undefined;
+
+  // Shown analysis follows every change the affiliate pushes; an ended broadcast is taken off the chart
+  useEffect(() => {
+    const previous = previousLiveBroadcastRef.current;
+    previousLiveBroadcastRef.current = liveBroadcast;
+    if (!showSignals) return;
+
+    if (liveBroadcast) {
+      setAffiliateSignals(liveBroadcast.drawings);
+      setAffiliateIndicators(liveBroadcast.indicators);
+    } else if (previous && previous.symbol === symbol) {
+      setShowSignals(false);
+      setAffiliateSignals([]);
+      setAffiliateIndicators([]);
+      notifications.show({
+        title: 'Broadcast Ended',
+        message: 'Your partner stopped broadcasting analysis',
+        color: 'yellow',
+      });
+    }
+  }, [liveBroadcast, showSignals, symbol]);
+
   // Fetch broadcast analysis from database
   const fetchAnalysis = async () => {
     if (!symbol) return;
     setAnalysisLoading(true);
     try {
       let drawings: Drawing[] = [];
+      let indicators: Indicator[] = [];
 
       // Try supabase first - look for this specific affiliate's broadcast
       if (isSupabaseConfigured()) {
@@ -496,40 +605,20 @@ export default function TradingPage() {
         }
 
         if (data?.drawings) {
-          const parsed = typeof data.drawings === 'string' ? JSON.parse(data.drawings) : data.drawings;
-          if (Array.isArray(parsed)) {
-            drawings = parsed;
-          }
+          drawings = sanitizeDrawings(typeof data.drawings === 'string' ? JSON.parse(data.drawings) : data.drawings);
         }
+        indicators = sanitizeIndicators(data?.indicators);
       }
 
-      // Fallback to localStorage - check referral-code specific key first
-      if (drawings.length === 0) {
-        const specificData = localStorage.getItem(`broadcast_${referralCode}_${symbol}`);
-        if (specificData) {
-          const parsed = JSON.parse(specificData);
-          if (parsed.is_live && parsed.drawings && Array.isArray(parsed.drawings)) {
-            drawings = parsed.drawings;
-          }
-        }
-      }
-
-      // Also check generic partner key as fallback
-      if (drawings.length === 0) {
-        const partnerData = localStorage.getItem(`broadcast_partner_${symbol}`);
-        if (partnerData) {
-          const parsed = JSON.parse(partnerData);
-          if (parsed.is_live && parsed.drawings && Array.isArray(parsed.drawings)) {
-            // Only use if it matches this referral code or has no referral code
-            if (!parsed.referralCode || parsed.referralCode === referralCode) {
-              drawings = parsed.drawings;
-            }
-          }
-        }
+      // The realtime channel carries the affiliate's latest changes, newer than the saved row
+      if (liveBroadcast) {
+        drawings = liveBroadcast.drawings;
+        indicators = liveBroadcast.indicators;
       }
 
       setAffiliateSignals(drawings);
-      if (drawings.length > 0) {
+      setAffiliateIndicators(indicators);
+      if (drawings.length > 0 || indicators.length > 0) {
         setShowSignals(true);
       } else {
         notifications.show({
@@ -867,6 +956,7 @@ export default function TradingPage() {
     setUserToken(null);
     setAuthState('unauthenticated');
     setIsConnected(false);
+    setConnectionState('idle');
   };
 
   const handleSymbolChange = async (newSymbol: string) => {
@@ -875,6 +965,9 @@ export default function TradingPage() {
     setSymbolDropdownOpen(false);
     await derivClientRef.current.unsubscribeTicks(symbol);
 
+    // The old symbol's quote must not stand in for the new one's, in the display or for alerts
+    lastPriceRef.current = 0;
+    setCurrentPrice(0);
     setSymbol(newSymbol);
 
     const history = await derivClientRef.current.getTickHistory(newSymbol, 100, 60);
@@ -898,16 +991,182 @@ export default function TradingPage() {
       }
       lastPriceRef.current = newPrice;
       setCurrentPrice(newPrice);
+      evaluatePriceAlerts(newSymbol, newPrice);
+    });
+  };
+
+  // Load the contract types the symbol offers
+  useEffect(() => {
+    if (!symbol || !isConnected || !derivClientRef.current) return;
+
+    let cancelled = false;
+    derivClientRef.current.getContractsFor(symbol).then(catalogue => {
+      if (cancelled) return;
+      setContractCatalogue(catalogue);
+      if (!catalogue.some(c => c.category === contractCategory)) {
+        selectContractCategory(catalogue[0]);
+      }
+    }).catch(err => {
+      console.error('[Trade] Failed to load contracts for', symbol, err);
+      if (!cancelled) setContractCatalogue(DEFAULT_CONTRACT_CATALOGUE);
     });
+
+    return () => { cancelled = true; };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [symbol, isConnected]);
+
+  const selectedContract = contractCatalogue.find(c => c.category === contractCategory) || contractCatalogue[0];
+
+  const selectContractCategory = (option: ContractCategoryOption) => {
+    setContractCategory(option.category);
+    setBarrier(option.barrier === 'price' ? '+1.00' : option.barrier === 'digit' ? '5' : '');
+    if (option.multipliers?.length) setLeverage(option.multipliers[0]);
+
+    const duration = defaultDuration(option.contracts[0]);
+    setDurationUnit(duration.unit);
+    setDurationValue(duration.duration);
+  };
+
+  // Duration part of the proposal for the current selection, or why it is not valid
+  const getDurationParams = (): { params: Pick<ProposalParams, 'duration' | 'durationUnit' | 'dateExpiry'>; error: string | null } => {
+    if (!selectedContract.hasDuration) return { params: {}, error: null };
+
+    const contract = selectedContract.contracts[0];
+    if (durationUnit === 'endtime') {
+      const expiry = Math.floor(new Date(endTime).getTime() / 1000);
+      if (!endTime || Number.isNaN(expiry)) return { params: {}, error: 'Choose an end time' };
+      const error = validateDuration(contract, expiry - Math.floor(Date.now() / 1000), 's');
+      return { params: { dateExpiry: expiry }, error };
+    }
+
+    return {
+      params: { duration: durationValue, durationUnit },
+      error: validateDuration(contract, durationValue, durationUnit),
+    };
+  };
+
+  const durationSelection = getDurationParams();
+
+  // Stream live prices for both sides of the selected contract while the order inputs stay put
+  useEffect(() => {
+    const client = derivClientRef.current;
+    setLiveProposals({});
+    if (!symbol || !isConnected || !client || amount <= 0) return;
+    if (durationSelection.error || (selectedContract.barrier !== 'none' && !barrier.trim())) return;
+
+    let cancelled = false;
+    const subscriptionIds: string[] = [];
+
+    const timer = setTimeout(() => {
+      for (const contract of selectedContract.contracts) {
+        const setSide = (proposal: LiveProposal) => {
+          if (!cancelled) setLiveProposals(prev => ({ ...prev, [contract.contractType]: proposal }));
+        };
+
+        client.subscribeProposal({
+          symbol,
+          amount,
+          contractType: contract.contractType,
+          ...durationSelection.params,
+          barrier: selectedContract.barrier !== 'none' ? barrier.trim() : undefined,
+          multiplier: selectedContract.category === 'multipliers' ? leverage : undefined,
+        }, (data) => {
+          setSide(data.error
+            ? { error: data.error.message }
+            : { id: data.proposal.id, askPrice: data.proposal.ask_price, payout: data.proposal.payout });
+        }).then(subscriptionId => {
+          if (cancelled) client.forgetProposal(subscriptionId);
+          else subscriptionIds.push(subscriptionId);
+        }).catch(err => setSide({ error: err.message || 'Price unavailable' }));
+      }
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      subscriptionIds.forEach(id => client.forgetProposal(id));
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [symbol, isConnected, amount, selectedContract, durationUnit, durationValue, endTime, barrier, leverage]);
+
+  // Pending limit orders survive a reload
+  useEffect(() => {
+    setPendingOrders(loadPendingOrders(referralCode));
+  }, [referralCode]);
+
+  useEffect(() => {
+    // The first run happens before the stored orders are in state
+    if (!pendingOrdersLoadedRef.current) {
+      pendingOrdersLoadedRef.current = true;
+      return;
+    }
+    savePendingOrders(referralCode, pendingOrders);
+  }, [referralCode, pendingOrders]);
+
+  // TP/SL lines dragged on the chart: move the broker-side limit_order, or just the fallback watcher's levels
+  const handlePositionLimitsChange = async (contractId: number, updates: { takeProfit?: number; stopLoss?: number }) => {
+    const pos = openPositions.find(p => p.contractId === contractId);
+    if (!pos) return;
+
+    if (!pos.brokerLimits || !pos.multiplier || !derivClientRef.current) {
+      setOpenPositions(prev => prev.map(p => p.contractId === contractId ? { ...p, ...updates } : p));
+      return;
+    }
+
+    const position = { entryPrice: pos.entryPrice, stake: pos.buyPrice, multiplier: pos.multiplier, long: pos.direction === 'CALL' };
+    const limits: { takeProfit?: number | null; stopLoss?: number | null } = {};
+    for (const kind of ['takeProfit', 'stopLoss'] as const) {
+      if (!(kind in updates) || updates[kind] === pos[kind]) continue;
+      const price = updates[kind];
+      // No level clears the limit on purpose; a level on the wrong side of entry must not clear it by accident
+      if (!price) {
+        limits[kind] = null;
+        continue;
+      }
+      const amount = limitOrderAmount(kind, price, position);
+      if (amount === null) {
+        notifications.show({
+          title: 'TP/SL Not Updated',
+          message: `${kind === 'takeProfit' ? 'Take profit' : 'Stop loss'} must be on the ${
+            (kind === 'takeProfit') === position.long ? 'upper' : 'lower'
+          } side of the entry price`,
+          color: 'red',
+        });
+        // Put the chart lines back where the broker still has them
+        setOpenPositions(prev => [...prev]);
+        return;
+      }
+      limits[kind] = amount;
+    }
+    if (Object.keys(limits).length === 0) return;
+
+    try {
+      await derivClientRef.current.updateContractLimits(contractId, limits);
+      // The contract stream reports the new levels; show them straight away meanwhile
+      setOpenPositions(prev => prev.map(p => p.contractId === contractId ? { ...p, ...updates } : p));
+    } catch (err: any) {
+      notifications.show({
+        title: 'TP/SL Not Updated',
+        message: err.message || 'Deriv rejected the new take profit / stop loss',
+        color: 'red',
+      });
+      // Put the chart lines back where the broker still has them
+      setOpenPositions(prev => [...prev]);
+    }
+  };
+
+  const cancelPendingOrder = (orderId: string) => {
+    setPendingOrders(prev => prev.filter(o => o.id !== orderId));
   };
 
-  // Auto TP/SL - Check if price hits take profit or stop loss
+  // Fallback TP/SL - only for contracts Deriv cannot hold a limit_order on. It watches the price from
+  // this tab, so it stops working when the tab is closed; Multipliers use broker-side limits instead
   useEffect(() => {
     if (!currentPrice || openPositions.length === 0 || !derivClientRef.current) return;
 
     openPositions.forEach(async (pos) => {
-      // Skip if already closing this position
-      if (closingPositionsRef.current.has(pos.contractId)) return;
+      // Skip if already closing this position, or if Deriv enforces its TP/SL
+      if (closingPositionsRef.current.has(pos.contractId) || pos.brokerLimits) return;
 
       let shouldClose = false;
       let reason = '';
@@ -953,35 +1212,323 @@ export default function TradingPage() {
     });
   }, [currentPrice, openPositions]);
 
-  const executeTrade = async (direction: 'CALL' | 'PUT') => {
+  // Pending-order engine - buy limit orders once their symbol's tick stream crosses their price
+  useEffect(() => {
+    if (!isConnected || pendingOrders.length === 0) return;
+
+    const priceOf = (orderSymbol: string) => orderSymbol === symbol ? currentPrice : watchedPrices[orderSymbol];
+    const triggered = pendingOrders.filter(o =>
+      !triggeringOrdersRef.current.has(o.id) && isOrderTriggered(o, priceOf(o.symbol))
+    );
+    if (triggered.length === 0) return;
+
+    triggered.forEach(o => triggeringOrdersRef.current.add(o.id));
+
+    // An order only leaves the list once it is bought; a failed buy stays listed as failed rather than retrying every tick
+    (async () => {
+      for (const order of triggered) {
+        console.log(`[Limit Order] ${order.id} triggered at ${priceOf(order.symbol)} (limit ${order.limitPrice})`);
+        const bought = await submitOrder(pendingOrderParams(order), undefined, order.limitPrices);
+        setPendingOrders(prev => bought
+          ? prev.filter(o => o.id !== order.id)
+          : prev.map(o => o.id === order.id ? { ...o, failedAt: new Date().toISOString() } : o)
+        );
+        triggeringOrdersRef.current.delete(order.id);
+      }
+    })();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [currentPrice, watchedPrices, symbol, isConnected, pendingOrders]);
+
+  // Load the client's price alerts
+  useEffect(() => {
+    if (!clientId) return;
+    loadPriceAlertsAsync(clientId)
+      .then(alerts => {
+        priceAlertsRef.current = alerts;
+        setPriceAlerts(alerts);
+      })
+      .catch(err => console.error('[Trade] Failed to load price alerts:', err));
+  }, [clientId]);
+
+  const evaluatePriceAlerts = useCallback((alertSymbol: string, price: number) => {
+    const previousPrice = alertPricesRef.current[alertSymbol];
+    alertPricesRef.current[alertSymbol] = price;
+
+    const fired = priceAlertsRef.current.filter(a => a.symbol === alertSymbol && isPriceAlertTriggered(a, previousPrice, price));
+    if (fired.length === 0) return;
+
+    const triggeredAt = new Date().toISOString();
+    const updated = fired.map(a => ({ ...a, status: 'triggered' as const, triggeredAt, triggeredPrice: price }));
+    priceAlertsRef.current = priceAlertsRef.current.map(a => updated.find(u => u.id === a.id) ?? a);
+    setPriceAlerts(priceAlertsRef.current);
+
+    updated.forEach(alert => {
+      const message = `${describePriceAlert(alert)} - now ${price.toFixed(2)}${alert.note ? ` (${alert.note})` : ''}`;
+      notifications.show({ title: 'Price Alert', message, color: 'violet', autoClose: 10000 });
+      showBrowserNotification('Price Alert', message);
+      markPriceAlertTriggeredAsync(alert).catch(err => console.error('[Trade] Failed to save triggered alert:', err));
+    });
+  }, []);
+
+  // Alerts and pending orders on the charted symbol are checked from its tick stream above; other symbols
+  // need a stream of their own
+  useEffect(() => {
+    const client = derivClientRef.current;
+    if (!client || !isConnected) return;
+
+    const wanted = new Set([
+      ...priceAlerts.filter(a => a.status === 'active').map(a => a.symbol),
+      ...pendingOrders.filter(o => !o.failedAt).map(o => o.symbol),
+    ]);
+    wanted.delete(symbol);
+
+    watchSubscriptionsRef.current.forEach(watchSymbol => {
+      if (wanted.has(watchSymbol)) return;
+      watchSubscriptionsRef.current.delete(watchSymbol);
+      // A quote from before the stream stopped must not trigger anything when it restarts
+      setWatchedPrices(prev => {
+        const next = { ...prev };
+        delete next[watchSymbol];
+        return next;
+      });
+      // The charted symbol's stream now belongs to the price display
+      if (watchSymbol !== symbol) client.unsubscribeTicks(watchSymbol);
+    });
+
+    wanted.forEach(watchSymbol => {
+      if (watchSubscriptionsRef.current.has(watchSymbol)) return;
+      watchSubscriptionsRef.current.add(watchSymbol);
+      client.subscribeTicks(watchSymbol, (data) => {
+        if (!data.tick) return;
+        const quote = data.tick.quote;
+        evaluatePriceAlerts(watchSymbol, quote);
+        setWatchedPrices(prev => ({ ...prev, [watchSymbol]: quote }));
+      }).catch(err => {
+        watchSubscriptionsRef.current.delete(watchSymbol);
+        console.error(`[Trade] Failed to watch ${watchSymbol} for price alerts and pending orders:`, err);
+      });
+    });
+  }, [priceAlerts, pendingOrders, symbol, isConnected, evaluatePriceAlerts]);
+
+  const handleCreatePriceAlert = async (condition: PriceAlertCondition, value: number, note?: string) => {
+    if (!clientId || !symbol) {
+      notifications.show({ title: 'Price Alert', message: 'Sign in to set price alerts', color: 'red' });
+      return;
+    }
+
+    const alert = createPriceAlert(clientId, symbol, condition, value, currentPrice, note);
+    requestBrowserNotificationPermission();
+    try {
+      await savePriceAlertAsync(alert);
+      priceAlertsRef.current = [alert, ...priceAlertsRef.current];
+      setPriceAlerts(priceAlertsRef.current);
+      notifications.show({ title: 'Price Alert Set', message: describePriceAlert(alert), color: 'violet' });
+    } catch (err) {
+      console.error('[Trade] Failed to save price alert:', err);
+      notifications.show({ title: 'Price Alert', message: 'Could not save the alert. Please try again.', color: 'red' });
+    }
+  };
+
+  const handleDeletePriceAlert = async (alert: PriceAlert) => {
+    try {
+      await deletePriceAlertAsync(alert);
+      priceAlertsRef.current = priceAlertsRef.current.filter(a => a.id !== alert.id);
+      setPriceAlerts(priceAlertsRef.current);
+    } catch (err) {
+      console.error('[Trade] Failed to delete price alert:', err);
+    }
+  };
+
+  // Right-click on the chart: alert on the clicked level, in whichever direction reaches it
+  const handleChartAlertChoice = (condition: PriceAlertCondition) => {
+    if (!alertMenu) return;
+    const level = Number(alertMenu.price.toFixed(2));
+    setAlertMenu(null);
+    const error = validatePriceAlert(condition, level, currentPrice);
+    if (error) {
+      notifications.show({ title: 'Price Alert', message: error, color: 'red' });
+      return;
+    }
+    handleCreatePriceAlert(condition, level);
+  };
+
+  const chartAlertLevels = useMemo(
+    () => priceAlerts.filter(a => a.status === 'active' && a.symbol === symbol && a.condition !== 'percent_move').map(a => a.value),
+    [priceAlerts, symbol]
+  );
+
+  // Order buttons: buy now at the streamed price, or park a pending order for the limit price
+  const executeTrade = async (contractType: ContractType) => {
     if (!derivClientRef.current || isBuying || !symbol) return;
 
+    const tradeBarrier = selectedContract.barrier !== 'none' ? barrier.trim() : undefined;
+
+    if (selectedContract.barrier !== 'none' && !tradeBarrier) {
+      notifications.show({
+        title: 'Barrier Required',
+        message: selectedContract.barrier === 'digit' ? 'Choose a digit from 0 to 9.' : 'Enter a barrier, e.g. +1.00',
+        color: 'red',
+      });
+      return;
+    }
+    if (durationSelection.error) {
+      notifications.show({ title: 'Invalid Duration', message: durationSelection.error, color: 'red' });
+      return;
+    }
+
+    const isMultiplier = selectedContract.category === 'multipliers';
+    const entryPrice = orderType === 'limit' ? (limitPrice || currentPrice) : currentPrice;
+    const limitPrices = {
+      takeProfit: Number(takeProfit) || undefined,
+      stopLoss: Number(stopLoss) || undefined,
+    };
+
+    // Multipliers send TP/SL to Deriv as profit/loss amounts, measured from the expected entry
+    let limitOrder: LimitOrderAmounts | undefined;
+    if (isMultiplier && (limitPrices.takeProfit || limitPrices.stopLoss)) {
+      const position = { entryPrice, stake: amount, multiplier: leverage, long: isLongContract(contractType) };
+      limitOrder = {};
+      for (const kind of ['takeProfit', 'stopLoss'] as const) {
+        const price = limitPrices[kind];
+        if (!price) continue;
+        const value = limitOrderAmount(kind, price, position);
+        if (value === null) {
+          notifications.show({
+            title: 'Invalid TP/SL',
+            message: `${kind === 'takeProfit' ? 'Take profit' : 'Stop loss'} is on the wrong side of ${formatPrice(entryPrice)} for ${contractLabel(contractType)}.`,
+            color: 'red',
+          });
+          return;
+        }
+        limitOrder[kind] = value;
+      }
+    }
+
+    const order: ProposalParams = {
+      symbol,
+      amount,
+      contractType,
+      ...durationSelection.params,
+      barrier: tradeBarrier,
+      multiplier: isMultiplier ? leverage : undefined,
+      limitOrder,
+    };
+
+    if (orderType === 'limit') {
+      const price = limitPrice || currentPrice;
+      if (!price || !currentPrice) {
+        notifications.show({ title: 'Limit Price Required', message: 'Enter the price to buy at.', color: 'red' });
+        return;
+      }
+      const pending = createPendingOrder(order, price, currentPrice, limitPrices);
+      setPendingOrders(prev => [...prev, pending]);
+      notifications.show({
+        title: 'Limit Order Placed',
+        message: `${contractLabel(contractType, tradeBarrier)} on ${symbol} when price ${pending.trigger === 'above' ? 'reaches' : 'falls to'} ${formatPrice(price)}`,
+        color: 'blue',
+      });
+      return;
+    }
+
+    const liveProposal = liveProposals[contractType];
+    if (!liveProposal || 'error' in liveProposal) {
+      notifications.show({
+        title: 'Price Unavailable',
+        message: liveProposal && 'error' in liveProposal ? liveProposal.error : 'Waiting for a live price...',
+        color: 'red',
+      });
+      return;
+    }
+
+    await submitOrder(order, { id: liveProposal.id, askPrice: liveProposal.askPrice }, limitPrices);
+  };
+
+  // Screens and buys a contract, at the given proposal or at a freshly priced one
+  const submitOrder = async (
+    order: ProposalParams,
+    quote?: { id: string; askPrice: number },
+    limitPrices?: { takeProfit?: number; stopLoss?: number }
+  ): Promise<boolean> => {
+    if (!derivClientRef.current) return false;
+
+    const { symbol, amount, contractType, barrier: tradeBarrier, multiplier: tradeMultiplier } = order;
+    const direction = isLongContract(contractType) ? 'CALL' : 'PUT';
+
     setIsBuying(true);
 
     try {
-      const proposal = await derivClientRef.current.getProposal({
-        symbol,
-        amount,
-        contractType: direction,
-        duration: 5,
-        durationUnit: 'm',
+      // Get the actual client ID from Supabase to ensure proper linking
+      let tradeClientId = clientId;
+      try {
+        const clients = await getClientsAsync();
+        const dbClient = clients.find(c => c.referralCode === referralCode);
+        if (dbClient) {
+          tradeClientId = dbClient.id;
+          console.log('[Trade] Using client ID from DB:', tradeClientId);
+        } else {
+          console.log('[Trade] No client found for referralCode:', referralCode, 'using state clientId:', clientId);
+        }
+      } catch (err) {
+        console.log('[Trade] Failed to lookup client, using state clientId:', clientId);
+      }
+
+      // Screen against open trades across the network before buying
+      const screening = await fetch('/api/lunar-graph/screen-trade', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          clientId: tradeClientId,
+          affiliateId,
+          symbol,
+          contractType,
+          barrier: tradeBarrier,
+          amount,
+        }),
+      }).then(res => res.json()).catch(err => {
+        // Screening outages must not stop trading; the post-trade check still runs
+        console.error('[Screening] Pre-trade screening failed:', err);
+        return null;
       });
 
-      const buyResponse = await derivClientRef.current.buy(
-        proposal.proposal.id,
-        proposal.proposal.ask_price
-      );
+      if (screening?.success && screening.result.decision === 'block') {
+        notifications.show({
+          title: 'Trade Held for Review',
+          message: screening.result.reason || 'This trade was held by risk screening.',
+          color: 'orange',
+          autoClose: 10000,
+        });
+        return false;
+      }
+      if (screening?.success && screening.result.decision === 'flag') {
+        console.log('[Screening] Trade flagged for review:', screening.result);
+      }
+
+      // Buy the streamed proposal the trader has been looking at; pending orders are priced when they trigger
+      if (!quote) {
+        const proposal = await derivClientRef.current.getProposal(order);
+        quote = { id: proposal.proposal.id, askPrice: proposal.proposal.ask_price };
+      }
+      // With broker-side TP/SL the contract is bought from its parameters so limit_order goes with it
+      const buyResponse = order.limitOrder
+        ? await derivClientRef.current.buyWithParameters(order, quote.askPrice)
+        : await derivClientRef.current.buy(quote.id, quote.askPrice);
 
       const position: OpenPosition = {
         contractId: buyResponse.buy.contract_id,
         symbol,
         direction,
+        contractType,
+        barrier: tradeBarrier,
+        multiplier: tradeMultiplier,
+        brokerLimits: !!tradeMultiplier,
         entryPrice: currentPrice,
         currentPrice,
         profit: 0,
         buyPrice: buyResponse.buy.buy_price,
         payout: buyResponse.buy.payout,
         startTime: buyResponse.buy.start_time,
+        takeProfit: limitPrices?.takeProfit,
+        stopLoss: limitPrices?.stopLoss,
       };
       setOpenPositions(prev => [...prev, position]);
 
@@ -990,7 +1537,9 @@ export default function TradingPage() {
         accountId: clientId,
         accountType: 'client',
         contractId: buyResponse.buy.contract_id,
-        contractType: direction,
+        contractType,
+        barrier: tradeBarrier,
+        multiplier: tradeMultiplier,
         symbol,
         amount,
         buyPrice: buyResponse.buy.buy_price,
@@ -1001,26 +1550,13 @@ export default function TradingPage() {
       // Save trade to both memory and Supabase
       addTrade(trade);
 
-      // Get the actual client ID from Supabase to ensure proper linking
-      let tradeClientId = clientId;
-      try {
-        const clients = await getClientsAsync();
-        const dbClient = clients.find(c => c.referralCode === referralCode);
-        if (dbClient) {
-          tradeClientId = dbClient.id;
-          console.log('[Trade] Using client ID from DB:', tradeClientId);
-        } else {
-          console.log('[Trade] No client found for referralCode:', referralCode, 'using state clientId:', clientId);
-        }
-      } catch (err) {
-        console.log('[Trade] Failed to lookup client, using state clientId:', clientId);
-      }
-
       addTradeAsync({
         accountId: tradeClientId,
         accountType: 'client',
         contractId: buyResponse.buy.contract_id,
-        contractType: direction,
+        contractType,
+        barrier: tradeBarrier,
+        multiplier: tradeMultiplier,
         symbol,
         amount,
         buyPrice: buyResponse.buy.buy_price,
@@ -1041,7 +1577,17 @@ export default function TradingPage() {
         setOpenPositions(prev =>
           prev.map(p =>
             p.contractId === poc.contract_id
-              ? { ...p, currentPrice: poc.current_spot, profit: poc.profit }
+              ? {
+                  ...p,
+                  currentPrice: poc.current_spot,
+                  profit: poc.profit,
+                  entryPrice: poc.entry_spot || p.entryPrice,
+                  // Deriv is the source of truth for broker-side limits
+                  ...(p.brokerLimits && poc.limit_order ? {
+                    takeProfit: Number(poc.limit_order.take_profit?.value) || undefined,
+                    stopLoss: Number(poc.limit_order.stop_loss?.value) || undefined,
+                  } : {}),
+                }
               : p
           )
         );
@@ -1088,6 +1634,7 @@ export default function TradingPage() {
                   affiliateId: affiliateId,
                   symbol: currentTrade.symbol,
                   contractType: currentTrade.contractType,
+                  barrier: currentTrade.barrier,
                   amount: currentTrade.amount,
                   profit: poc.profit,
                   status: poc.status,
@@ -1114,17 +1661,19 @@ export default function TradingPage() {
 
       notifications.show({
         title: 'Trade Executed',
-        message: `${direction === 'CALL' ? 'RISE' : 'FALL'} trade placed on ${symbol}`,
+        message: `${contractLabel(contractType, tradeBarrier).toUpperCase()} trade placed on ${symbol}`,
         color: direction === 'CALL' ? 'green' : 'red',
       });
 
       setBalance(buyResponse.buy.balance_after);
+      return true;
     } catch (err: any) {
       notifications.show({
         title: 'Trade Failed',
         message: err.message || 'Failed to execute trade',
         color: 'red',
       });
+      return false;
     } finally {
       setIsBuying(false);
     }
@@ -2219,6 +2768,32 @@ export default function TradingPage() {
           border-color: #f0b90b;
         }
 
+        .contract-picker {
+          display: flex;
+          flex-wrap: wrap;
+          gap: 6px;
+        }
+
+        .contract-option {
+          padding: 6px 10px;
+          background: #2b3139;
+          border: 1px solid #2b3139;
+          border-radius: 4px;
+          color: #848e9c;
+          font-size: 12px;
+          cursor: pointer;
+          transition: all 0.15s;
+        }
+
+        .contract-option:hover {
+          color: #eaecef;
+        }
+
+        .contract-option.active {
+          border-color: #f0b90b;
+          color: #f0b90b;
+        }
+
         /* Show Analysis Button */
         .show-analysis-btn {
           width: 100%;
@@ -2249,6 +2824,21 @@ export default function TradingPage() {
           cursor: wait;
         }
 
+        .replay-sessions-btn {
+          width: 100%;
+          margin-top: 8px;
+          padding: 8px 12px;
+          background: none;
+          border: none;
+          color: #848e9c;
+          font-size: 12px;
+          cursor: pointer;
+        }
+
+        .replay-sessions-btn:hover {
+          color: #eaecef;
+        }
+
         /* Affiliate Signals Panel */
         .signals-panel {
           margin-top: 16px;
@@ -2846,6 +3436,8 @@ export default function TradingPage() {
       `}</style>
 
       <div className="terminal">
+        <ConnectionBanner state={connectionState} onRetry={() => derivClientRef.current?.reconnectNow()} />
+
         {/* Top Ticker Bar */}
         <div className="ticker-bar">
           <div className="ticker-inner">
@@ -2936,15 +3528,13 @@ export default function TradingPage() {
                     direction: pos.direction,
                     takeProfit: pos.takeProfit,
                     stopLoss: pos.stopLoss,
+                    brokerLimits: pos.brokerLimits,
                   }))}
-                  onUpdatePosition={(id, updates) => {
-                    setOpenPositions(prev => prev.map(pos =>
-                      pos.contractId === id
-                        ? { ...pos, ...updates }
-                        : pos
-                    ));
-                  }}
+                  onUpdatePosition={handlePositionLimitsChange}
                   drawings={showSignals ? affiliateSignals : undefined}
+                  indicators={showSignals && affiliateIndicators.length > 0 ? affiliateIndicators : undefined}
+                  alertLevels={chartAlertLevels}
+                  onPriceContextMenu={(price, pos) => setAlertMenu({ price, ...pos })}
                 />
               )}
             </div>
@@ -2957,8 +3547,8 @@ export default function TradingPage() {
                   onClick={() => setActiveTab('positions')}
                 >
                   Positions
-                  {openPositions.length > 0 && (
-                    <span className="positions-tab-badge">{openPositions.length}</span>
+                  {openPositions.length + pendingOrders.length > 0 && (
+                    <span className="positions-tab-badge">{openPositions.length + pendingOrders.length}</span>
                   )}
                 </button>
                 <button
@@ -2972,14 +3562,31 @@ export default function TradingPage() {
               <div className="positions-body">
                 {activeTab === 'positions' && (
                   <>
-                    {openPositions.length === 0 ? (
+                    {pendingOrders.map((order) => (
+                      <div key={order.id} className="position-row">
+                        <span className="position-symbol">{order.symbol}</span>
+                        <span className={`position-side ${isLongContract(order.contractType) ? 'long' : 'short'}`}>
+                          {contractLabel(order.contractType, order.barrier)}
+                        </span>
+                        <span className="position-value">${order.amount.toFixed(2)}</span>
+                        <span className="position-value">
+                          Limit {order.trigger === 'above' ? '≥' : '≤'} {formatPrice(order.limitPrice)}
+                        </span>
+                        <span className="position-value">{order.multiplier ? `${order.multiplier}x` : ''}</span>
+                        <span className="position-pnl">{order.failedAt ? 'Failed' : 'Pending'}</span>
+                        <button className="position-close" onClick={() => cancelPendingOrder(order.id)}>
+                          Cancel
+                        </button>
+                      </div>
+                    ))}
+                    {openPositions.length === 0 && pendingOrders.length === 0 ? (
                       <div className="positions-empty">No open positions</div>
                     ) : (
                       openPositions.map((pos) => (
                         <div key={pos.contractId} className="position-row">
                           <span className="position-symbol">{pos.symbol}</span>
                           <span className={`position-side ${pos.direction === 'CALL' ? 'long' : 'short'}`}>
-                            {pos.direction === 'CALL' ? 'Long' : 'Short'}
+                            {contractLabel(pos.contractType, pos.barrier)}
                           </span>
                           <span className="position-value">${pos.buyPrice.toFixed(2)}</span>
                           <span className="position-value">{formatPrice(pos.entryPrice)}</span>
@@ -3008,8 +3615,8 @@ export default function TradingPage() {
                             {new Date(trade.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
                           </span>
                           <span className="history-symbol">{trade.symbol}</span>
-                          <span className={`history-side ${trade.contractType === 'CALL' ? 'long' : 'short'}`}>
-                            {trade.contractType === 'CALL' ? 'Long' : 'Short'}
+                          <span className={`history-side ${isLongContract(trade.contractType) ? 'long' : 'short'}`}>
+                            {contractLabel(trade.contractType, trade.barrier)}
                           </span>
                           <span className="history-amount">${trade.amount.toFixed(2)}</span>
                           <span className={`history-pnl ${(trade.profit ?? 0) >= 0 ? 'profit' : 'loss'}`}>
@@ -3044,35 +3651,126 @@ export default function TradingPage() {
             </div>
 
             <div className="order-body">
-              {/* Leverage */}
+              {/* Contract Type */}
               <div className="order-field">
                 <div className="order-field-label">
-                  <span>Leverage</span>
-                  <span style={{ color: '#f0b90b' }}>{leverage}x</span>
+                  <span>Contract</span>
                 </div>
-                <div className="leverage-slider">
-                  <input
-                    type="range"
-                    min="1"
-                    max="100"
-                    value={leverage}
-                    onChange={(e) => setLeverage(Number(e.target.value))}
-                    className="slider"
-                  />
-                  <div className="leverage-presets">
-                    {[5, 10, 25, 50, 100].map((lev) => (
+                <div className="contract-picker">
+                  {contractCatalogue.map((option) => (
+                    <button
+                      key={option.category}
+                      className={`contract-option ${selectedContract.category === option.category ? 'active' : ''}`}
+                      onClick={() => selectContractCategory(option)}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+
+                {selectedContract.barrier === 'price' && (
+                  <div className="order-input-wrap" style={{ marginTop: '8px' }}>
+                    <input
+                      type="text"
+                      className="order-input"
+                      value={barrier}
+                      onChange={(e) => setBarrier(e.target.value)}
+                      placeholder="+1.00"
+                    />
+                    <span className="order-input-suffix">Barrier</span>
+                  </div>
+                )}
+
+                {selectedContract.barrier === 'digit' && (
+                  <div className="order-presets" style={{ marginTop: '8px' }}>
+                    {Array.from({ length: 10 }, (_, d) => String(d)).map((digit) => (
                       <button
-                        key={lev}
-                        className={`leverage-preset ${leverage === lev ? 'active' : ''}`}
-                        onClick={() => setLeverage(lev)}
+                        key={digit}
+                        className={`order-preset ${barrier === digit ? 'active' : ''}`}
+                        onClick={() => setBarrier(digit)}
                       >
-                        {lev}x
+                        {digit}
                       </button>
                     ))}
                   </div>
-                </div>
+                )}
               </div>
 
+              {/* Duration */}
+              {selectedContract.hasDuration && (
+                <div className="order-field">
+                  <div className="order-field-label">
+                    <span>Duration</span>
+                    {durationSelection.error && (
+                      <span style={{ color: '#f6465d', fontSize: '11px' }}>{durationSelection.error}</span>
+                    )}
+                  </div>
+                  <div className="order-presets">
+                    {[...durationUnitsFor(selectedContract.contracts[0]), 'endtime' as const].map((unit) => (
+                      <button
+                        key={unit}
+                        className={`order-preset ${durationUnit === unit ? 'active' : ''}`}
+                        onClick={() => setDurationUnit(unit)}
+                      >
+                        {DURATION_UNIT_LABELS[unit]}
+                      </button>
+                    ))}
+                  </div>
+                  <div className="order-input-wrap" style={{ marginTop: '8px' }}>
+                    {durationUnit === 'endtime' ? (
+                      <input
+                        type="datetime-local"
+                        className="order-input"
+                        value={endTime}
+                        onChange={(e) => setEndTime(e.target.value)}
+                      />
+                    ) : (
+                      <>
+                        <input
+                          type="number"
+                          className="order-input"
+                          value={durationValue}
+                          onChange={(e) => setDurationValue(Number(e.target.value))}
+                          min={1}
+                        />
+                        <span className="order-input-suffix">{DURATION_UNIT_LABELS[durationUnit]}</span>
+                      </>
+                    )}
+                  </div>
+                </div>
+              )}
+
+              {/* Leverage - the multiplier of a Multipliers contract, from the symbol's offered range */}
+              {selectedContract.multipliers && (
+                <div className="order-field">
+                  <div className="order-field-label">
+                    <span>Leverage</span>
+                    <span style={{ color: '#f0b90b' }}>{leverage}x</span>
+                  </div>
+                  <div className="leverage-slider">
+                    <input
+                      type="range"
+                      min="0"
+                      max={selectedContract.multipliers.length - 1}
+                      value={Math.max(0, selectedContract.multipliers.indexOf(leverage))}
+                      onChange={(e) => setLeverage(selectedContract.multipliers![Number(e.target.value)])}
+                      className="slider"
+                    />
+                    <div className="leverage-presets">
+                      {selectedContract.multipliers.map((lev) => (
+                        <button
+                          key={lev}
+                          className={`leverage-preset ${leverage === lev ? 'active' : ''}`}
+                          onClick={() => setLeverage(lev)}
+                        >
+                          {lev}x
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                </div>
+              )}
+
               {/* Size / Amount */}
               <div className="order-field">
                 <div className="order-field-label">
@@ -3159,38 +3857,60 @@ export default function TradingPage() {
 
               {/* Order Info */}
               <div className="order-info">
+                {selectedContract.contracts.map((contract) => {
+                  const live = liveProposals[contract.contractType];
+                  return (
+                    <div key={contract.contractType} className="order-info-row">
+                      <span>{contract.label} payout</span>
+                      <span>
+                        {!live ? '—' : 'error' in live ? (
+                          <span style={{ color: '#f6465d' }}>{live.error}</span>
+                        ) : (
+                          live.payout ? `$${live.payout.toFixed(2)} for $${live.askPrice.toFixed(2)}` : `Cost $${live.askPrice.toFixed(2)}`
+                        )}
+                      </span>
+                    </div>
+                  );
+                })}
                 <div className="order-info-row">
                   <span>Entry Price</span>
-                  <span>{formatPrice(currentPrice)}</span>
-                </div>
-                <div className="order-info-row">
-                  <span>Position Size</span>
-                  <span>${(amount * leverage).toLocaleString()}</span>
-                </div>
-                <div className="order-info-row">
-                  <span>Liquidation Price</span>
-                  <span style={{ color: '#f6465d' }}>~${(currentPrice * 0.95).toFixed(2)}</span>
+                  <span>{formatPrice(orderType === 'limit' ? (limitPrice || currentPrice) : currentPrice)}</span>
                 </div>
+                {selectedContract.multipliers && (
+                  <>
+                    <div className="order-info-row">
+                      <span>Position Size</span>
+                      <span>${(amount * leverage).toLocaleString()}</span>
+                    </div>
+                    {/* A Multipliers contract stops out once the loss equals the stake */}
+                    <div className="order-info-row">
+                      <span>Stop Out (Up / Down)</span>
+                      <span style={{ color: '#f6465d' }}>
+                        ~{formatPrice(currentPrice * (1 - 1 / leverage))} / ~{formatPrice(currentPrice * (1 + 1 / leverage))}
+                      </span>
+                    </div>
+                  </>
+                )}
               </div>
 
               {/* Trade Buttons */}
               <div className="trade-buttons">
                 <button
                   className="trade-btn long"
-                  onClick={() => executeTrade('CALL')}
+                  onClick={() => executeTrade(selectedContract.contracts[0].contractType)}
                   disabled={isBuying || !symbol}
                 >
-                  <span className="trade-btn-label">{isBuying ? 'Opening...' : `Long ${leverage}x`}</span>
-                  <span className="trade-btn-sub">Buy / Open Long</span>
+                  <span className="trade-btn-label">{isBuying ? 'Opening...' : selectedContract.contracts[0].label}</span>
+                  <span className="trade-btn-sub">{orderType === 'limit' ? `${selectedContract.label} limit` : selectedContract.label}</span>
                 </button>
 
                 <button
                   className="trade-btn short"
-                  onClick={() => executeTrade('PUT')}
+                  onClick={() => executeTrade(selectedContract.contracts[1].contractType)}
                   disabled={isBuying || !symbol}
                 >
-                  <span className="trade-btn-label">{isBuying ? 'Opening...' : `Short ${leverage}x`}</span>
-                  <span className="trade-btn-sub">Sell / Open Short</span>
+                  <span className="trade-btn-label">{isBuying ? 'Opening...' : selectedContract.contracts[1].label}</span>
+                  <span className="trade-btn-sub">{orderType === 'limit' ? `${selectedContract.label} limit` : selectedContract.label}</span>
                 </button>
               </div>
 
@@ -3201,6 +3921,7 @@ export default function TradingPage() {
                   if (showSignals) {
                     setShowSignals(false);
                     setAffiliateSignals([]);
+                    setAffiliateIndicators([]);
                   } else {
                     fetchAnalysis();
                   }
@@ -3224,12 +3945,21 @@ export default function TradingPage() {
                       <path d="M16.24 7.76a6 6 0 0 1 0 8.49m-8.48-.01a6 6 0 0 1 0-8.49m11.31-2.82a10 10 0 0 1 0 14.14m-14.14 0a10 10 0 0 1 0-14.14" />
                     </svg>
                     Show Analysis
+                    {liveBroadcast && (
+                      <span style={{ marginLeft: 4, padding: '1px 6px', borderRadius: 4, background: 'rgba(255, 68, 79, 0.15)', color: '#FF444F', fontSize: 10, fontWeight: 700 }}>
+                        LIVE
+                      </span>
+                    )}
                   </>
                 )}
               </button>
 
+              <button className="replay-sessions-btn" onClick={() => setReplayOpen(true)} disabled={!symbol}>
+                Replay your partner&apos;s sessions
+              </button>
+
               {/* Analysis info when showing */}
-              {showSignals && affiliateSignals.length > 0 && (
+              {showSignals && (affiliateSignals.length > 0 || affiliateIndicators.length > 0) && (
                 <div className="signals-panel">
                   <div className="signals-header">
                     <div className="signals-title">
@@ -3237,11 +3967,14 @@ export default function TradingPage() {
                         <circle cx="12" cy="12" r="2" />
                         <path d="M16.24 7.76a6 6 0 0 1 0 8.49m-8.48-.01a6 6 0 0 1 0-8.49" />
                       </svg>
-                      <span style={{ color: '#FF444F' }}>Partner Analysis</span>
-                      <span style={{ fontSize: 11, color: '#848e9c' }}>{affiliateSignals.length} drawing{affiliateSignals.length !== 1 ? 's' : ''}</span>
+                      <span style={{ color: '#FF444F' }}>{liveBroadcast ? 'Partner Analysis · LIVE' : 'Partner Analysis'}</span>
+                      <span style={{ fontSize: 11, color: '#848e9c' }}>
+                        {affiliateSignals.length} drawing{affiliateSignals.length !== 1 ? 's' : ''}
+                        {affiliateIndicators.length > 0 && `, ${affiliateIndicators.length} indicator${affiliateIndicators.length !== 1 ? 's' : ''}`}
+                      </span>
                     </div>
                     <button
-                      onClick={() => { setShowSignals(false); setAffiliateSignals([]); }}
+                      onClick={() => { setShowSignals(false); setAffiliateSignals([]); setAffiliateIndicators([]); }}
                       style={{ background: 'none', border: 'none', color: '#848e9c', cursor: 'pointer', padding: 4 }}
                     >
                       <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
@@ -3252,6 +3985,30 @@ export default function TradingPage() {
                 </div>
               )}
 
+              {/* Chat with the partner whose analysis is live, or the client's own affiliate */}
+              {symbol && (
+                <div style={{ marginTop: 16 }}>
+                  <BroadcastChat
+                    referralCode={liveBroadcast?.referralCode ?? referralCode}
+                    symbol={symbol}
+                    role="viewer"
+                    authorName={userName || 'Trader'}
+                    derivToken={userToken}
+                    drawings={liveBroadcast?.drawings ?? affiliateSignals}
+                    height={320}
+                  />
+                </div>
+              )}
+
+              {/* Price Alerts */}
+              <PriceAlertManager
+                alerts={priceAlerts}
+                symbol={symbol}
+                currentPrice={currentPrice}
+                onCreate={handleCreatePriceAlert}
+                onDelete={handleDeletePriceAlert}
+              />
+
               {/* Live Price */}
               <div className="live-price-display">
                 <div className="live-price-label">
@@ -3265,6 +4022,64 @@ export default function TradingPage() {
 
         </div>
       </div>
+
+      {replayOpen && symbol && (
+        <BroadcastReplay
+          referralCodes={Array.from(new Set([referralCode, PARTNER_REFERRAL_CODE]))}
+          symbol={symbol}
+          onClose={() => setReplayOpen(false)}
+        />
+      )}
+
+      {/* Chart right-click: price alert on the clicked level */}
+      {alertMenu && (
+        <>
+          <div
+            onClick={() => setAlertMenu(null)}
+            onContextMenu={(e) => { e.preventDefault(); setAlertMenu(null); }}
+            style={{ position: 'fixed', inset: 0, zIndex: 10000 }}
+          />
+          <div
+            style={{
+              position: 'fixed',
+              left: alertMenu.x,
+              top: alertMenu.y,
+              zIndex: 10001,
+              minWidth: 200,
+              padding: 6,
+              background: '#1e2329',
+              border: '1px solid #2b3139',
+              borderRadius: 6,
+              boxShadow: '0 10px 40px rgba(0,0,0,0.5)',
+              fontSize: 12,
+            }}
+          >
+            <div style={{ padding: '4px 8px', color: '#848e9c' }}>{symbol} @ {alertMenu.price.toFixed(2)}</div>
+            {(alertMenu.price > currentPrice
+              ? [{ condition: 'crosses_above' as const, label: 'Alert when price crosses above' }]
+              : [{ condition: 'crosses_below' as const, label: 'Alert when price crosses below' }]
+            ).map(option => (
+              <button
+                key={option.condition}
+                onClick={() => handleChartAlertChoice(option.condition)}
+                style={{
+                  display: 'block',
+                  width: '100%',
+                  padding: '6px 8px',
+                  background: 'none',
+                  border: 'none',
+                  borderRadius: 4,
+                  color: '#eaecef',
+                  textAlign: 'left',
+                  cursor: 'pointer',
+                }}
+              >
+                {option.label} {alertMenu.price.toFixed(2)}
+              </button>
+            ))}
+          </div>
+        </>
+      )}
     </>
   );
 }
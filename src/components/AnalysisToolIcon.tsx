@@ -0,0 +1,79 @@
+'use client';
+
+import { AnalysisTool } from '@/lib/drawings';
+
+interface AnalysisToolIconProps {
+  tool: AnalysisTool;
+  size?: number;
+}
+
+// Toolbar icons for the analysis drawing tools, shared by the broadcast chart and the partner page
+export function AnalysisToolIcon({ tool, size = 16 }: AnalysisToolIconProps) {
+  switch (tool) {
+    case 'fibretracement':
+      return (
+        <svg width={size} height={size} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+          <line x1="3" y1="5" x2="21" y2="5" />
+          <line x1="3" y1="10" x2="21" y2="10" />
+          <line x1="3" y1="14" x2="21" y2="14" />
+          <line x1="3" y1="19" x2="21" y2="19" />
+        </svg>
+      );
+    case 'fibextension':
+      return (
+        <svg width={size} height={size} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+          <polyline points="3 19 10 9 14 14" />
+          <line x1="14" y1="4" x2="21" y2="4" />
+          <line x1="14" y1="9" x2="21" y2="9" />
+        </svg>
+      );
+    case 'channel':
+      return (
+        <svg width={size} height={size} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+          <line x1="3" y1="15" x2="17" y2="5" />
+          <line x1="7" y1="19" x2="21" y2="9" />
+        </svg>
+      );
+    case 'pricerange':
+      return (
+        <svg width={size} height={size} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+          <line x1="5" y1="4" x2="19" y2="4" />
+          <line x1="5" y1="20" x2="19" y2="20" />
+          <polyline points="9 8 12 5 15 8" />
+          <polyline points="9 16 12 19 15 16" />
+        </svg>
+      );
+    case 'timerange':
+      return (
+        <svg width={size} height={size} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+          <line x1="4" y1="5" x2="4" y2="19" />
+          <line x1="20" y1="5" x2="20" y2="19" />
+          <polyline points="8 9 5 12 8 15" />
+          <polyline points="16 9 19 12 16 15" />
+        </svg>
+      );
+    case 'measure':
+      return (
+        <svg width={size} height={size} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+          <rect x="3" y="8" width="18" height="8" rx="1" />
+          <line x1="7" y1="8" x2="7" y2="12" />
+          <line x1="11" y1="8" x2="11" y2="12" />
+          <line x1="15" y1="8" x2="15" y2="12" />
+        </svg>
+      );
+    case 'longposition':
+      return (
+        <svg width={size} height={size} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+          <rect x="4" y="4" width="16" height="8" />
+          <rect x="4" y="12" width="16" height="6" strokeDasharray="2 2" />
+        </svg>
+      );
+    case 'shortposition':
+      return (
+        <svg width={size} height={size} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+          <rect x="4" y="6" width="16" height="6" strokeDasharray="2 2" />
+          <rect x="4" y="12" width="16" height="8" />
+        </svg>
+      );
+  }
+}
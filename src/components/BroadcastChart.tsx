@@ -15,6 +15,20 @@ import {
   Point,
   CandleData,
 } from '@/types';
+import {
+  ANALYSIS_TOOLS,
+  DrawingProjection,
+  createAnalysisDrawing,
+  createVerticalLine,
+  flipPosition,
+  hitTestAnchor,
+  hitTestDrawing,
+  isAnalysisTool,
+  moveDrawingAnchor,
+  renderAnalysisDrawing,
+  translateDrawing,
+} from '@/lib/drawings';
+import { AnalysisToolIcon } from '@/components/AnalysisToolIcon';
 
 interface BroadcastChartProps {
   symbol: string;
@@ -37,6 +51,15 @@ interface DrawingState {
   mode: DrawingMode;
 }
 
+// A drawing being moved in select mode: by one of its anchors, or whole when `anchor` is null
+interface DragState {
+  id: string;
+  anchor: number | null;
+  origin: Point;
+  original: Drawing;
+  latest: Drawing | null;
+}
+
 const COLORS = [
   '#FF444F', // Red (primary)
   '#22c55e', // Green
@@ -86,6 +109,8 @@ export default function BroadcastChart({
   const startPixelRef = useRef<{ x: number; y: number } | null>(null);
   const startPointRef = useRef<Point | null>(null);
   const isDrawingRef = useRef(false);
+  const dragRef = useRef<DragState | null>(null);
+  const drawingsRef = useRef(drawings);
 
   // Check if we're in drawing mode
   const isDrawingMode = drawingState.mode !== null && drawingState.mode !== 'select';
@@ -173,6 +198,10 @@ export default function BroadcastChart({
     };
   }, []);
 
+  useEffect(() => {
+    drawingsRef.current = drawings;
+  }, [drawings]);
+
   // Enable/disable chart interaction based on drawing mode
   useEffect(() => {
     if (!chartRef.current) return;
@@ -395,6 +424,29 @@ export default function BroadcastChart({
     return { x, y: pixelY };
   }, [candles, timeToLogical]);
 
+  // Where times and prices fall on the overlay, for the shared drawing helpers
+  const getProjection = useCallback((): DrawingProjection | null => {
+    if (!chartRef.current || !candleSeriesRef.current || !containerRef.current) return null;
+    const chart = chartRef.current;
+    const series = candleSeriesRef.current;
+    const timeScale = chart.timeScale();
+
+    return {
+      timeToX: (time) => {
+        const x = timeScale.timeToCoordinate(time as Time);
+        if (x !== null) return x;
+        const logical = timeToLogical(time);
+        return logical === null ? null : (timeScale as any).logicalToCoordinate(logical);
+      },
+      priceToY: (price) => series.priceToCoordinate(price),
+      left: 0,
+      right: containerRef.current.clientWidth - chart.priceScale('right').width(),
+      top: 0,
+      bottom: containerRef.current.clientHeight - timeScale.height(),
+      barSeconds: getCandleInterval(),
+    };
+  }, [timeToLogical, getCandleInterval]);
+
   // Render all drawings on canvas
   const renderDrawings = useCallback(() => {
     if (!drawingCanvasRef.current || !containerRef.current) return;
@@ -409,6 +461,8 @@ export default function BroadcastChart({
     ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
     ctx.clearRect(0, 0, rect.width, rect.height);
 
+    const projection = getProjection();
+
     // Render each drawing
     drawings.forEach((drawing) => {
       const isSelected = selectedDrawing === drawing.id;
@@ -432,6 +486,8 @@ export default function BroadcastChart({
         case 'pricemarker':
           renderPriceMarker(ctx, drawing as PriceMarkerDrawing, isSelected);
           break;
+        default:
+          if (projection) renderAnalysisDrawing(ctx, drawing, projection, isSelected);
       }
     });
 
@@ -494,11 +550,26 @@ export default function BroadcastChart({
           ctx.stroke();
           ctx.setLineDash([]);
           break;
+
+        default: {
+          const start = startPointRef.current || drawingState.startPoint;
+          const current = getChartCoordsFromPixel(currentPx.x, currentPx.y);
+          if (isAnalysisTool(drawingState.mode) && projection && start && current) {
+            const preview = createAnalysisDrawing(
+              drawingState.mode,
+              start,
+              current,
+              { referralCode, symbol, color: selectedColor, lineWidth },
+              candles
+            );
+            renderAnalysisDrawing(ctx, preview, projection, false);
+          }
+        }
       }
 
       ctx.restore();
     }
-  }, [drawings, selectedDrawing, drawingState, chartToPixelCoords, selectedColor, lineWidth]);
+  }, [drawings, selectedDrawing, drawingState, chartToPixelCoords, getChartCoordsFromPixel, getProjection, selectedColor, lineWidth, referralCode, symbol, candles]);
 
   // Render trendline
   const renderTrendline = (ctx: CanvasRenderingContext2D, drawing: TrendlineDrawing, isSelected: boolean) => {
@@ -883,6 +954,15 @@ export default function BroadcastChart({
       return;
     }
 
+    if (drawingState.mode === 'vertical') {
+      const time = chartPoint?.x ?? crosshairData?.time;
+      if (time === undefined) return;
+      const newDrawings = [...drawings, createVerticalLine(time, { referralCode, symbol, color: selectedColor, lineWidth })];
+      setDrawings(newDrawings);
+      onDrawingsChange(newDrawings);
+      return;
+    }
+
     if (drawingState.mode === 'text') {
       // Show text input
       if (chartPoint) {
@@ -911,7 +991,7 @@ export default function BroadcastChart({
       startPixel: { x: pixelX, y: pixelY },
       currentPixel: { x: pixelX, y: pixelY },
     });
-  }, [drawingState.mode, selectedColor, lineWidth, drawings, readOnly, getChartCoordsFromPixel, referralCode, symbol, onDrawingsChange, isDrawingMode, currentPrice]);
+  }, [drawingState.mode, selectedColor, lineWidth, drawings, readOnly, getChartCoordsFromPixel, referralCode, symbol, onDrawingsChange, isDrawingMode, currentPrice, crosshairData]);
 
   const handleMouseMove = useCallback((e: React.MouseEvent<HTMLCanvasElement>) => {
     if (!drawingState.isDrawing && !isDrawingRef.current) return;
@@ -1027,6 +1107,17 @@ export default function BroadcastChart({
           updatedAt: new Date(),
         } as ArrowDrawing;
         break;
+
+      default:
+        if (isAnalysisTool(drawingState.mode)) {
+          newDrawing = createAnalysisDrawing(
+            drawingState.mode,
+            startChartPoint,
+            endChartPoint,
+            { referralCode, symbol, color: selectedColor, lineWidth },
+            candles
+          );
+        }
     }
 
     if (newDrawing) {
@@ -1049,7 +1140,96 @@ export default function BroadcastChart({
       startPixel: null,
       currentPixel: null,
     });
-  }, [drawingState, selectedColor, lineWidth, drawings, referralCode, symbol, onDrawingsChange, getChartCoordsFromPixel]);
+  }, [drawingState, selectedColor, lineWidth, drawings, referralCode, symbol, onDrawingsChange, getChartCoordsFromPixel, candles]);
+
+  // In select mode, a press on a drawing selects it and starts moving it (or the handle under the cursor)
+  // instead of panning the chart; a press on empty chart clears the selection
+  const handleSelectMouseDown = useCallback((e: React.MouseEvent<HTMLDivElement>) => {
+    if (readOnly || isDrawingMode || e.button !== 0 || !containerRef.current) return;
+
+    const projection = getProjection();
+    if (!projection) return;
+
+    const rect = containerRef.current.getBoundingClientRect();
+    const pixelX = e.clientX - rect.left;
+    const pixelY = e.clientY - rect.top;
+
+    const selected = drawings.find((d) => d.id === selectedDrawing);
+    const anchor = selected ? hitTestAnchor(selected, pixelX, pixelY, projection) : null;
+    const target = anchor !== null
+      ? selected
+      : [...drawings].reverse().find((d) => hitTestDrawing(d, pixelX, pixelY, projection));
+
+    if (!target) {
+      setSelectedDrawing(null);
+      return;
+    }
+
+    const origin = getChartCoordsFromPixel(pixelX, pixelY);
+    if (!origin) return;
+
+    e.preventDefault();
+    e.stopPropagation();
+    setSelectedDrawing(target.id);
+    dragRef.current = { id: target.id, anchor, origin, original: target, latest: null };
+    chartRef.current?.applyOptions({ handleScroll: false, handleScale: false });
+  }, [readOnly, isDrawingMode, getProjection, drawings, selectedDrawing, getChartCoordsFromPixel]);
+
+  // Drags follow the window so they keep going when the cursor leaves the chart
+  useEffect(() => {
+    const handleDragMove = (e: MouseEvent) => {
+      const drag = dragRef.current;
+      if (!drag || !containerRef.current) return;
+
+      const rect = containerRef.current.getBoundingClientRect();
+      const point = getChartCoordsFromPixel(e.clientX - rect.left, e.clientY - rect.top);
+      if (!point) return;
+
+      const updated = drag.anchor !== null
+        ? moveDrawingAnchor(drag.original, drag.anchor, point)
+        : translateDrawing(drag.original, point.x - drag.origin.x, point.y - drag.origin.y);
+      drag.latest = updated;
+      setDrawings((prev) => prev.map((d) => (d.id === drag.id ? updated : d)));
+    };
+
+    const handleDragEnd = () => {
+      const drag = dragRef.current;
+      if (!drag) return;
+
+      dragRef.current = null;
+      chartRef.current?.applyOptions({ handleScroll: true, handleScale: true });
+
+      const latest = drag.latest;
+      if (!latest) return;
+      const newDrawings = drawingsRef.current.map((d) => (d.id === drag.id ? latest : d));
+      setDrawings(newDrawings);
+      onDrawingsChange(newDrawings);
+    };
+
+    window.addEventListener('mousemove', handleDragMove);
+    window.addEventListener('mouseup', handleDragEnd);
+    return () => {
+      window.removeEventListener('mousemove', handleDragMove);
+      window.removeEventListener('mouseup', handleDragEnd);
+    };
+  }, [getChartCoordsFromPixel, onDrawingsChange]);
+
+  // Apply an edit to one drawing and broadcast it
+  const updateDrawing = (id: string, update: (drawing: Drawing) => Drawing) => {
+    const newDrawings = drawings.map((d) => (d.id === id ? { ...update(d), updatedAt: new Date() } : d));
+    setDrawings(newDrawings);
+    onDrawingsChange(newDrawings);
+  };
+
+  // Picking a color recolors the selected drawing as well as the next one drawn
+  const selectColor = (color: string) => {
+    setSelectedColor(color);
+    if (selectedDrawing) {
+      updateDrawing(selectedDrawing, (d) => (d.type === 'rectangle' ? { ...d, color, fillColor: color } : { ...d, color }));
+    }
+  };
+
+  const selected = drawings.find((d) => d.id === selectedDrawing);
 
   // Handle text input submit
   const handleTextSubmit = () => {
@@ -1201,6 +1381,15 @@ export default function BroadcastChart({
               }
               label="H-Line"
             />
+            <ToolButton
+              mode="vertical"
+              icon={
+                <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                  <line x1="12" y1="4" x2="12" y2="20" />
+                </svg>
+              }
+              label="V-Line"
+            />
             <ToolButton
               mode="rectangle"
               icon={
@@ -1233,12 +1422,19 @@ export default function BroadcastChart({
             />
           </div>
 
+          {/* Analysis tools */}
+          <div style={{ display: 'flex', flexWrap: 'wrap', gap: 6 }}>
+            {ANALYSIS_TOOLS.map((tool) => (
+              <ToolButton key={tool.type} mode={tool.type} icon={<AnalysisToolIcon tool={tool.type} />} label={tool.label} />
+            ))}
+          </div>
+
           {/* Color picker */}
           <div style={{ display: 'flex', gap: 4, marginTop: 4 }}>
             {COLORS.map((color) => (
               <button
                 key={color}
-                onClick={() => setSelectedColor(color)}
+                onClick={() => selectColor(color)}
                 style={{
                   width: 24,
                   height: 24,
@@ -1286,6 +1482,40 @@ export default function BroadcastChart({
             </button>
           </div>
 
+          {/* Selected drawing options */}
+          {selected && (selected.type === 'fibretracement' || selected.type === 'fibextension') && (
+            <button
+              onClick={() => updateDrawing(selected.id, (d) => (d.type === 'fibretracement' || d.type === 'fibextension' ? { ...d, extendRight: !d.extendRight } : d))}
+              style={{
+                padding: '6px 10px',
+                background: selected.extendRight ? 'rgba(255, 68, 79, 0.2)' : 'rgba(255, 255, 255, 0.05)',
+                border: `1px solid ${selected.extendRight ? '#FF444F' : 'rgba(255, 255, 255, 0.1)'}`,
+                borderRadius: 4,
+                color: selected.extendRight ? '#FF444F' : '#a1a1aa',
+                fontSize: 11,
+                cursor: 'pointer',
+              }}
+            >
+              Extend levels right
+            </button>
+          )}
+          {selected && (selected.type === 'longposition' || selected.type === 'shortposition') && (
+            <button
+              onClick={() => updateDrawing(selected.id, (d) => (d.type === 'longposition' || d.type === 'shortposition' ? flipPosition(d) : d))}
+              style={{
+                padding: '6px 10px',
+                background: 'rgba(255, 255, 255, 0.05)',
+                border: '1px solid rgba(255, 255, 255, 0.1)',
+                borderRadius: 4,
+                color: '#a1a1aa',
+                fontSize: 11,
+                cursor: 'pointer',
+              }}
+            >
+              Flip to {selected.type === 'longposition' ? 'short' : 'long'}
+            </button>
+          )}
+
           {/* Drawing count */}
           <div style={{ fontSize: 10, color: '#71717a', marginTop: 2 }}>
             {drawings.length} drawing{drawings.length !== 1 ? 's' : ''}
@@ -1296,6 +1526,7 @@ export default function BroadcastChart({
       {/* Chart container */}
       <div
         ref={containerRef}
+        onMouseDownCapture={handleSelectMouseDown}
         style={{
           width: '100%',
           height: '100%',
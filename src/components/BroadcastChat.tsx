@@ -0,0 +1,374 @@
+'use client';
+
+import { ReactNode, useEffect, useRef, useState } from 'react';
+import { BroadcastChatMessage, BroadcastModeration, BroadcastModerationAction, BroadcastRole, Drawing } from '@/types';
+import {
+  ChatIdentity,
+  fetchChatMessages,
+  joinChat,
+  fetchChatModeration,
+  liftChatModeration,
+  mergeChatMessage,
+  moderateChatParticipant,
+  pinChatMessage,
+  pinnedDrawingLabel,
+  sendChatMessage,
+} from '@/lib/broadcast-chat';
+import { watchBroadcastChat } from '@/lib/broadcast-realtime';
+
+// Viewers pick a display name once; it is reused on every broadcast
+const CHAT_NAME_KEY = 'lunar-chat-name';
+const MAX_MESSAGE_LENGTH = 500;
+
+const inputStyle = {
+  width: '100%',
+  padding: '8px 10px',
+  background: '#2b3139',
+  border: '1px solid #2b3139',
+  borderRadius: 4,
+  color: '#eaecef',
+  fontSize: 13,
+};
+
+const actionStyle = {
+  background: 'none',
+  border: 'none',
+  padding: '0 4px',
+  color: '#848e9c',
+  fontSize: 11,
+  cursor: 'pointer',
+};
+
+function formatTime(iso: string): string {
+  return new Date(iso).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+}
+
+interface BroadcastChatLogProps {
+  messages: BroadcastChatMessage[];
+  drawings: Drawing[]; // Resolves what pinned messages point at
+  renderActions?: (message: BroadcastChatMessage) => ReactNode;
+  emptyText?: string;
+}
+
+// Read-only message list, shared by the live panel and session replay
+export function BroadcastChatLog({ messages, drawings, renderActions, emptyText = 'No messages yet' }: BroadcastChatLogProps) {
+  const endRef = useRef<HTMLDivElement>(null);
+  const pinned = messages.filter(m => m.pinnedDrawingId);
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [messages.length]);
+
+  return (
+    <>
+      {pinned.length > 0 && (
+        <div style={{ padding: '6px 8px', marginBottom: 6, background: 'rgba(240, 185, 11, 0.08)', borderRadius: 6 }}>
+          {pinned.map(message => (
+            <div key={message.id} style={{ fontSize: 11, color: '#eaecef', padding: '2px 0' }}>
+              <span style={{ color: '#f0b90b' }}>📌 {pinnedDrawingLabel(drawings, message.pinnedDrawingId!)}:</span> {message.text}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div style={{ flex: 1, overflowY: 'auto', minHeight: 0 }}>
+        {messages.length === 0 && <div style={{ fontSize: 12, color: '#848e9c', padding: '8px 0' }}>{emptyText}</div>}
+        {messages.map(message => (
+          <div key={message.id} style={{ padding: '5px 0', borderBottom: '1px solid rgba(255,255,255,0.05)', fontSize: 12 }}>
+            <div style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+              <span style={{ fontWeight: 600, color: message.role === 'host' ? '#f0b90b' : '#eaecef' }}>{message.authorName}</span>
+              {message.role === 'host' && (
+                <span style={{ padding: '0 4px', borderRadius: 3, background: 'rgba(240, 185, 11, 0.15)', color: '#f0b90b', fontSize: 9, fontWeight: 700 }}>
+                  HOST
+                </span>
+              )}
+              <span style={{ color: '#5e6673', fontSize: 10 }}>{formatTime(message.createdAt)}</span>
+              {renderActions && <span style={{ marginLeft: 'auto', whiteSpace: 'nowrap' }}>{renderActions(message)}</span>}
+            </div>
+            <div style={{ color: '#eaecef', wordBreak: 'break-word', marginTop: 2 }}>{message.text}</div>
+            {message.pinnedDrawingId && (
+              <div style={{ fontSize: 10, color: '#f0b90b', marginTop: 2 }}>
+                📌 Pinned to {pinnedDrawingLabel(drawings, message.pinnedDrawingId)}
+              </div>
+            )}
+          </div>
+        ))}
+        <div ref={endRef} />
+      </div>
+    </>
+  );
+}
+
+interface BroadcastChatProps {
+  referralCode: string;
+  symbol: string;
+  role: BroadcastRole;
+  authorName: string; // The affiliate's name, or the viewer's default until they pick one
+  derivToken?: string | null; // Viewers: proves the Deriv login id messages are posted and moderated under
+  drawings: Drawing[];
+  selectedDrawingId?: string | null; // Host: preselects the drawing Pin attaches a message to
+  height?: number | string;
+}
+
+/**
+ * Live chat for one broadcast symbol. The affiliate's panel adds pinning to the selected drawing and
+ * muting or banning the author of a message; both sides see changes as they happen.
+ */
+export function BroadcastChat({
+  referralCode,
+  symbol,
+  role,
+  authorName,
+  derivToken,
+  drawings,
+  selectedDrawingId,
+  height = 360,
+}: BroadcastChatProps) {
+  const isHost = role === 'host';
+  const [messages, setMessages] = useState<BroadcastChatMessage[]>([]);
+  const [moderation, setModeration] = useState<BroadcastModeration[]>([]);
+  const [connected, setConnected] = useState(false);
+  const [draft, setDraft] = useState('');
+  const [name, setName] = useState(authorName);
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [pinTarget, setPinTarget] = useState<string>('');
+  const [identity, setIdentity] = useState<ChatIdentity | null>(null);
+
+  // Selecting a drawing on the chart makes it the pin target
+  useEffect(() => {
+    if (selectedDrawingId) setPinTarget(selectedDrawingId);
+  }, [selectedDrawingId]);
+
+  const pinDrawingId = drawings.some(d => d.id === pinTarget) ? pinTarget : null;
+
+  useEffect(() => {
+    if (isHost) return;
+    const saved = localStorage.getItem(CHAT_NAME_KEY);
+    if (saved) setName(saved);
+  }, [isHost]);
+
+  useEffect(() => {
+    if (isHost) setName(authorName);
+  }, [isHost, authorName]);
+
+  useEffect(() => {
+    setIdentity(null);
+    if (isHost || !derivToken) return;
+    let cancelled = false;
+    joinChat(referralCode, derivToken)
+      .then(joined => {
+        if (!cancelled) setIdentity(joined);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Could not join the chat');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isHost, referralCode, derivToken]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setMessages([]);
+    setError(null);
+
+    fetchChatMessages(referralCode, symbol)
+      .then(history => {
+        if (!cancelled) setMessages(prev => history.reduce(mergeChatMessage, prev));
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Could not load the chat');
+      });
+
+    const stop = watchBroadcastChat(referralCode, {
+      onMessage: (message) => {
+        if (message.symbol === symbol) setMessages(prev => mergeChatMessage(prev, message));
+      },
+      onStatus: setConnected,
+    });
+
+    return () => {
+      cancelled = true;
+      stop();
+    };
+  }, [referralCode, symbol]);
+
+  const refreshModeration = () => {
+    fetchChatModeration(referralCode)
+      .then(setModeration)
+      .catch(err => console.error('[BroadcastChat] Failed to load moderation:', err));
+  };
+
+  useEffect(() => {
+    if (isHost) refreshModeration();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isHost, referralCode]);
+
+  const send = async () => {
+    const text = draft.trim();
+    if (!text || sending) return;
+    if (!isHost && !identity) {
+      setError('Connect your account to chat');
+      return;
+    }
+
+    setSending(true);
+    setError(null);
+    try {
+      const message = await sendChatMessage({
+        referralCode,
+        symbol,
+        text,
+        authorName: name.trim(),
+        chatToken: identity?.chatToken,
+        asHost: isHost,
+      });
+      setMessages(prev => mergeChatMessage(prev, message));
+      setDraft('');
+      if (!isHost) localStorage.setItem(CHAT_NAME_KEY, name.trim());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Message not sent');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const togglePin = async (message: BroadcastChatMessage) => {
+    const drawingId = message.pinnedDrawingId ? null : pinDrawingId;
+    if (!message.pinnedDrawingId && !drawingId) return;
+    try {
+      const updated = await pinChatMessage(referralCode, message.id, drawingId);
+      setMessages(prev => mergeChatMessage(prev, updated));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not pin the message');
+    }
+  };
+
+  const moderate = async (message: BroadcastChatMessage, action: BroadcastModerationAction) => {
+    try {
+      await moderateChatParticipant(referralCode, message.authorId, message.authorName, action);
+      refreshModeration();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Could not ${action} ${message.authorName}`);
+    }
+  };
+
+  const lift = async (restrictedId: string) => {
+    try {
+      await liftChatModeration(referralCode, restrictedId);
+      refreshModeration();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not lift the restriction');
+    }
+  };
+
+  const hostActions = (message: BroadcastChatMessage) => {
+    const restricted = moderation.some(m => m.participantId === message.authorId);
+    return (
+      <>
+        <button
+          style={{ ...actionStyle, color: message.pinnedDrawingId ? '#f0b90b' : '#848e9c' }}
+          onClick={() => togglePin(message)}
+          disabled={!message.pinnedDrawingId && !pinDrawingId}
+          title={message.pinnedDrawingId ? 'Unpin' : pinDrawingId ? `Pin to ${pinnedDrawingLabel(drawings, pinDrawingId)}` : 'Choose a drawing to pin to'}
+        >
+          {message.pinnedDrawingId ? 'Unpin' : 'Pin'}
+        </button>
+        {message.role === 'viewer' && !restricted && (
+          <>
+            <button style={actionStyle} onClick={() => moderate(message, 'mute')} title="Mute for 10 minutes">Mute</button>
+            <button style={{ ...actionStyle, color: '#f6465d' }} onClick={() => moderate(message, 'ban')}>Ban</button>
+          </>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', flexShrink: 0, height, padding: 12, background: '#1e2329', borderRadius: 8, fontFamily: 'Inter, sans-serif' }}>
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginBottom: 8, fontSize: 13, fontWeight: 600, color: '#eaecef' }}>
+        <span>Chat · {symbol}</span>
+        <span style={{ display: 'flex', alignItems: 'center', gap: 4, fontSize: 11, fontWeight: 400, color: '#848e9c' }}>
+          <span style={{ width: 6, height: 6, borderRadius: '50%', background: connected ? '#0ecb81' : '#848e9c' }} />
+          {connected ? 'Live' : 'Connecting...'}
+        </span>
+      </div>
+
+      {isHost && drawings.length > 0 && (
+        <select
+          value={pinDrawingId ?? ''}
+          onChange={(e) => setPinTarget(e.target.value)}
+          style={{ ...inputStyle, marginBottom: 6, padding: '4px 8px', fontSize: 11 }}
+        >
+          <option value="">Pin messages to...</option>
+          {drawings.map(d => (
+            <option key={d.id} value={d.id}>{pinnedDrawingLabel(drawings, d.id)}</option>
+          ))}
+        </select>
+      )}
+
+      {isHost && moderation.length > 0 && (
+        <div style={{ marginBottom: 6, fontSize: 11, color: '#848e9c' }}>
+          {moderation.map(m => (
+            <div key={m.participantId} style={{ display: 'flex', justifyContent: 'space-between', padding: '2px 0' }}>
+              <span>
+                {m.participantName} · {m.action === 'ban' ? 'banned' : `muted until ${formatTime(m.expiresAt!)}`}
+              </span>
+              <button style={actionStyle} onClick={() => lift(m.participantId)}>Lift</button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <BroadcastChatLog
+        messages={messages}
+        drawings={drawings}
+        renderActions={isHost ? hostActions : undefined}
+        emptyText={isHost ? 'Messages from your clients show up here' : 'Ask your partner about their analysis'}
+      />
+
+      {error && <div style={{ fontSize: 11, color: '#f6465d', marginTop: 6 }}>{error}</div>}
+
+      {!isHost && (
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Your name"
+          maxLength={40}
+          style={{ ...inputStyle, marginTop: 8, padding: '6px 10px', fontSize: 12 }}
+        />
+      )}
+      <div style={{ display: 'flex', gap: 6, marginTop: 6 }}>
+        <input
+          type="text"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') send();
+          }}
+          placeholder={isHost ? 'Explain your setup...' : 'Message'}
+          maxLength={MAX_MESSAGE_LENGTH}
+          style={inputStyle}
+        />
+        <button
+          onClick={send}
+          disabled={sending || !draft.trim()}
+          style={{
+            padding: '8px 12px',
+            background: 'rgba(240, 185, 11, 0.12)',
+            border: '1px solid rgba(240, 185, 11, 0.4)',
+            borderRadius: 4,
+            color: '#f0b90b',
+            fontSize: 12,
+            fontWeight: 600,
+            cursor: sending ? 'wait' : 'pointer',
+          }}
+        >
+          Send
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,272 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import dynamic from 'next/dynamic';
+import { BroadcastRecording, BroadcastSessionSummary } from '@/types';
+import {
+  REPLAY_SPEEDS,
+  fetchBroadcastRecording,
+  fetchBroadcastSessions,
+  replayBounds,
+  replayFrameAt,
+  tickCountAt,
+} from '@/lib/broadcast-replay';
+import { BroadcastChatLog } from '@/components/BroadcastChat';
+
+const TradingViewChart = dynamic(() => import('@/components/TradingViewChart'), {
+  ssr: false,
+  loading: () => (
+    <div style={{ height: '100%', display: 'flex', alignItems: 'center', justifyContent: 'center', color: '#666' }}>
+      Loading chart...
+    </div>
+  ),
+});
+
+// Playback clock resolution
+const FRAME_MS = 200;
+
+interface BroadcastReplayProps {
+  referralCodes: string[]; // Sessions of all these broadcasts are listed together
+  symbol: string;
+  onClose: () => void;
+}
+
+function formatClock(ms: number): string {
+  return new Date(ms).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+}
+
+function formatDuration(ms: number): string {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+// Full-screen player for recorded broadcast sessions: pick a session, then scrub or play it back at speed
+export function BroadcastReplay({ referralCodes, symbol, onClose }: BroadcastReplayProps) {
+  const [sessions, setSessions] = useState<BroadcastSessionSummary[] | null>(null);
+  const [recording, setRecording] = useState<BroadcastRecording | null>(null);
+  const [loadingId, setLoadingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [position, setPosition] = useState(0); // ms timestamp within the session
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(REPLAY_SPEEDS[2]);
+
+  const codesKey = referralCodes.join(',');
+
+  useEffect(() => {
+    let cancelled = false;
+    setSessions(null);
+    setError(null);
+
+    Promise.all(codesKey.split(',').map(code => fetchBroadcastSessions(code, symbol)))
+      .then(lists => {
+        if (!cancelled) setSessions(lists.flat().sort((a, b) => b.startedAt.localeCompare(a.startedAt)));
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Could not load sessions');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [codesKey, symbol]);
+
+  const openSession = async (id: string) => {
+    setLoadingId(id);
+    setError(null);
+    setPlaying(false);
+    try {
+      const loaded = await fetchBroadcastRecording(id);
+      setRecording(loaded);
+      setPosition(replayBounds(loaded).start);
+      setPlaying(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not load the session');
+    } finally {
+      setLoadingId(null);
+    }
+  };
+
+  const bounds = useMemo(() => (recording ? replayBounds(recording) : null), [recording]);
+
+  useEffect(() => {
+    if (!playing || !bounds) return;
+    const timer = setInterval(() => {
+      setPosition(prev => Math.min(bounds.end, prev + FRAME_MS * speed));
+    }, FRAME_MS);
+    return () => clearInterval(timer);
+  }, [playing, speed, bounds]);
+
+  useEffect(() => {
+    if (bounds && position >= bounds.end) setPlaying(false);
+  }, [position, bounds]);
+
+  const frame = useMemo(() => (recording ? replayFrameAt(recording, position) : null), [recording, position]);
+  const tickCount = recording ? tickCountAt(recording.ticks, position) : 0;
+  const replayTicks = useMemo(() => recording?.ticks.slice(0, tickCount) ?? [], [recording, tickCount]);
+  const replayMessages = useMemo(
+    () => recording?.messages.filter(m => new Date(m.createdAt).getTime() <= position) ?? [],
+    [recording, position]
+  );
+
+  const togglePlay = () => {
+    if (!bounds) return;
+    if (!playing && position >= bounds.end) setPosition(bounds.start);
+    setPlaying(!playing);
+  };
+
+  const buttonStyle = {
+    padding: '4px 10px',
+    background: 'transparent',
+    border: '1px solid #2b3139',
+    borderRadius: 4,
+    color: '#848e9c',
+    fontSize: 12,
+    cursor: 'pointer',
+  };
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        inset: 0,
+        zIndex: 1000,
+        background: 'rgba(0, 0, 0, 0.7)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        fontFamily: 'Inter, sans-serif',
+      }}
+      onClick={onClose}
+    >
+      <div
+        style={{
+          width: '92vw',
+          height: '86vh',
+          display: 'flex',
+          flexDirection: 'column',
+          background: '#0b0e11',
+          border: '1px solid #2b3139',
+          borderRadius: 12,
+          overflow: 'hidden',
+          color: '#eaecef',
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', padding: '12px 16px', borderBottom: '1px solid #1e2329' }}>
+          <span style={{ fontSize: 14, fontWeight: 600 }}>Session Replay · {symbol}</span>
+          <button style={{ ...buttonStyle, border: 'none', fontSize: 18 }} onClick={onClose} title="Close">
+            ×
+          </button>
+        </div>
+
+        <div style={{ flex: 1, display: 'flex', minHeight: 0 }}>
+          <div style={{ width: 230, borderRight: '1px solid #1e2329', overflowY: 'auto', padding: 8 }}>
+            {error && <div style={{ fontSize: 12, color: '#f6465d', padding: 8 }}>{error}</div>}
+            {!sessions && !error && <div style={{ fontSize: 12, color: '#848e9c', padding: 8 }}>Loading sessions...</div>}
+            {sessions?.length === 0 && (
+              <div style={{ fontSize: 12, color: '#848e9c', padding: 8 }}>No recorded sessions on {symbol} yet</div>
+            )}
+            {sessions?.map(session => {
+              const selected = recording?.id === session.id;
+              return (
+                <button
+                  key={session.id}
+                  onClick={() => openSession(session.id)}
+                  disabled={loadingId !== null}
+                  style={{
+                    display: 'block',
+                    width: '100%',
+                    textAlign: 'left',
+                    padding: '8px 10px',
+                    marginBottom: 4,
+                    background: selected ? '#1e2329' : 'transparent',
+                    border: `1px solid ${selected ? '#f0b90b' : '#1e2329'}`,
+                    borderRadius: 6,
+                    color: '#eaecef',
+                    fontSize: 12,
+                    cursor: loadingId ? 'wait' : 'pointer',
+                  }}
+                >
+                  <div style={{ display: 'flex', justifyContent: 'space-between' }}>
+                    <span>{new Date(session.startedAt).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}</span>
+                    {!session.endedAt && <span style={{ color: '#FF444F', fontWeight: 700, fontSize: 10 }}>LIVE</span>}
+                  </div>
+                  <div style={{ color: '#848e9c', fontSize: 11, marginTop: 2 }}>
+                    {loadingId === session.id
+                      ? 'Loading...'
+                      : `${session.operationCount} change${session.operationCount !== 1 ? 's' : ''}${session.endedAt ? ` · ${formatDuration(new Date(session.endedAt).getTime() - new Date(session.startedAt).getTime())}` : ''}`}
+                  </div>
+                </button>
+              );
+            })}
+          </div>
+
+          <div style={{ flex: 1, display: 'flex', flexDirection: 'column', minWidth: 0 }}>
+            <div style={{ flex: 1, minHeight: 0 }}>
+              {recording && frame ? (
+                <TradingViewChart
+                  symbol={recording.symbol}
+                  drawings={frame.drawings}
+                  indicators={frame.indicators}
+                  referralCode={recording.referralCode}
+                  replayTicks={replayTicks}
+                />
+              ) : (
+                <div style={{ height: '100%', display: 'flex', alignItems: 'center', justifyContent: 'center', color: '#848e9c', fontSize: 13 }}>
+                  Pick a session to replay
+                </div>
+              )}
+            </div>
+
+            {recording && bounds && frame && (
+              <div style={{ display: 'flex', alignItems: 'center', gap: 10, padding: '10px 16px', borderTop: '1px solid #1e2329', fontSize: 12 }}>
+                <button style={{ ...buttonStyle, color: '#f0b90b', minWidth: 64 }} onClick={togglePlay}>
+                  {playing ? 'Pause' : 'Play'}
+                </button>
+                <input
+                  type="range"
+                  min={bounds.start}
+                  max={bounds.end}
+                  step={1000}
+                  value={position}
+                  onChange={(e) => setPosition(Number(e.target.value))}
+                  style={{ flex: 1 }}
+                />
+                <span style={{ color: '#eaecef', fontFamily: 'monospace' }}>{formatClock(position)}</span>
+                <span style={{ color: '#848e9c' }}>
+                  {formatDuration(position - bounds.start)} / {formatDuration(bounds.end - bounds.start)}
+                </span>
+                <span style={{ color: '#848e9c' }}>
+                  {frame.applied}/{recording.operations.length} changes
+                </span>
+                <div style={{ display: 'flex', gap: 4 }}>
+                  {REPLAY_SPEEDS.map(s => (
+                    <button
+                      key={s}
+                      style={{ ...buttonStyle, padding: '4px 6px', color: s === speed ? '#f0b90b' : '#848e9c', borderColor: s === speed ? '#f0b90b' : '#2b3139' }}
+                      onClick={() => setSpeed(s)}
+                    >
+                      {s}x
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+
+          {recording && frame && (
+            <div style={{ width: 260, display: 'flex', flexDirection: 'column', borderLeft: '1px solid #1e2329', padding: 12, minHeight: 0 }}>
+              <div style={{ fontSize: 13, fontWeight: 600, marginBottom: 8 }}>Chat</div>
+              <BroadcastChatLog
+                messages={replayMessages}
+                drawings={frame.drawings}
+                emptyText={recording.messages.length > 0 ? 'No messages yet at this point' : 'No chat in this session'}
+              />
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { onBroadcastSessionChange, sendBroadcastSignInLink, signOutOfBroadcast } from '@/lib/broadcast-realtime';
+
+// Header control for the affiliate's session; broadcasts are only accepted from the account that owns the referral code
+export function BroadcastSignIn() {
+  const [email, setEmail] = useState<string | null>(null);
+  const [input, setInput] = useState('');
+  const [open, setOpen] = useState(false);
+  const [status, setStatus] = useState<'idle' | 'sending' | 'sent'>('idle');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => onBroadcastSessionChange(setEmail), []);
+
+  const submit = async () => {
+    if (!input.trim()) return;
+    setStatus('sending');
+    setError(null);
+    try {
+      await sendBroadcastSignInLink(input);
+      setStatus('sent');
+    } catch (err) {
+      setStatus('idle');
+      setError(err instanceof Error ? err.message : 'Could not send the sign-in link');
+    }
+  };
+
+  const chipStyle = {
+    padding: '8px 12px',
+    background: 'rgba(255, 255, 255, 0.03)',
+    border: '1px solid rgba(255, 255, 255, 0.1)',
+    borderRadius: 8,
+    color: '#848e9c',
+    fontSize: 12,
+    cursor: 'pointer',
+  };
+
+  if (email) {
+    return (
+      <button style={chipStyle} onClick={() => signOutOfBroadcast()} title="Sign out">
+        {email}
+      </button>
+    );
+  }
+
+  return (
+    <div style={{ position: 'relative' }}>
+      <button style={{ ...chipStyle, color: '#f0b90b', borderColor: 'rgba(240, 185, 11, 0.4)' }} onClick={() => setOpen(!open)}>
+        Sign in to broadcast
+      </button>
+
+      {open && (
+        <div
+          style={{
+            position: 'absolute',
+            top: 40,
+            right: 0,
+            zIndex: 20,
+            width: 260,
+            padding: 12,
+            background: '#1e2329',
+            border: '1px solid #2b3139',
+            borderRadius: 8,
+            boxShadow: '0 8px 24px rgba(0,0,0,0.4)',
+            fontSize: 12,
+            color: '#eaecef',
+          }}
+        >
+          {status === 'sent' ? (
+            <div>Check {input.trim()} for a sign-in link.</div>
+          ) : (
+            <>
+              <div style={{ color: '#848e9c', marginBottom: 8 }}>Use the email on your affiliate account.</div>
+              <input
+                type="email"
+                value={input}
+                onChange={(e) => setInput(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && submit()}
+                placeholder="you@example.com"
+                style={{
+                  width: '100%',
+                  padding: '8px 10px',
+                  marginBottom: 8,
+                  background: '#2b3139',
+                  border: '1px solid #2b3139',
+                  borderRadius: 4,
+                  color: '#eaecef',
+                  fontSize: 13,
+                }}
+              />
+              {error && <div style={{ color: '#f6465d', marginBottom: 8 }}>{error}</div>}
+              <button
+                onClick={submit}
+                disabled={status === 'sending'}
+                style={{ ...chipStyle, width: '100%', color: '#f0b90b', borderColor: 'rgba(240, 185, 11, 0.4)' }}
+              >
+                {status === 'sending' ? 'Sending...' : 'Email me a sign-in link'}
+              </button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+'use client';
+
+import { DerivConnectionState } from '@/types';
+
+interface ConnectionBannerProps {
+  state: DerivConnectionState;
+  onRetry?: () => void;
+}
+
+// Shown while a Deriv connection that was up is lost; hidden while connected or before the first connect
+export function ConnectionBanner({ state, onRetry }: ConnectionBannerProps) {
+  if (state !== 'reconnecting' && state !== 'disconnected') return null;
+
+  const reconnecting = state === 'reconnecting';
+
+  return (
+    <div
+      role="status"
+      style={{
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        gap: '12px',
+        padding: '8px 16px',
+        fontSize: '13px',
+        fontWeight: 500,
+        color: '#fff',
+        background: reconnecting ? '#b7791f' : '#c53030',
+      }}
+    >
+      <span>
+        {reconnecting
+          ? 'Connection to Deriv lost. Reconnecting… prices and positions will resume automatically.'
+          : 'Disconnected from Deriv. Prices and positions are not updating.'}
+      </span>
+      {!reconnecting && onRetry && (
+        <button
+          onClick={onRetry}
+          style={{
+            padding: '4px 12px',
+            fontSize: '12px',
+            fontWeight: 600,
+            color: '#c53030',
+            background: '#fff',
+            border: 'none',
+            borderRadius: '4px',
+            cursor: 'pointer',
+          }}
+        >
+          Retry
+        </button>
+      )}
+    </div>
+  );
+}
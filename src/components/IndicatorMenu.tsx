@@ -0,0 +1,157 @@
+'use client';
+
+import { useState } from 'react';
+import { Indicator, IndicatorType } from '@/types';
+import { INDICATOR_CATALOGUE, INDICATOR_TYPES, createIndicator, indicatorLabel } from '@/lib/indicators';
+
+interface IndicatorMenuProps {
+  indicators: Indicator[];
+  onChange?: (indicators: Indicator[]) => void; // Omitted for a read-only view, e.g. a partner's broadcast
+  theme?: 'dark' | 'light';
+}
+
+// Chart overlay for adding, tuning and removing indicators
+export function IndicatorMenu({ indicators, onChange, theme = 'dark' }: IndicatorMenuProps) {
+  const [open, setOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const dark = theme === 'dark';
+  const text = dark ? '#eaecef' : '#1e2329';
+  const muted = dark ? '#848e9c' : '#666';
+  const border = dark ? 'rgba(255,255,255,0.1)' : 'rgba(0,0,0,0.1)';
+  const readOnly = !onChange;
+
+  const update = (id: string, changes: Partial<Indicator>) => {
+    onChange?.(indicators.map(ind => (ind.id === id ? ({ ...ind, ...changes } as Indicator) : ind)));
+  };
+
+  const add = (type: IndicatorType) => {
+    const indicator = createIndicator(type);
+    onChange?.([...indicators, indicator]);
+    setEditingId(indicator.id);
+  };
+
+  const remove = (id: string) => {
+    onChange?.(indicators.filter(ind => ind.id !== id));
+    if (editingId === id) setEditingId(null);
+  };
+
+  const buttonStyle = {
+    padding: '2px 8px',
+    background: 'transparent',
+    border: `1px solid ${border}`,
+    borderRadius: 4,
+    color: muted,
+    fontSize: 11,
+    cursor: 'pointer',
+  };
+
+  return (
+    <div style={{ position: 'absolute', top: 6, right: 76, zIndex: 5, fontFamily: 'Inter, sans-serif' }}>
+      <button
+        onClick={() => setOpen(!open)}
+        style={{ ...buttonStyle, background: dark ? '#1e2329' : '#f5f5f5', color: open ? text : muted }}
+      >
+        Indicators{indicators.length > 0 ? ` (${indicators.length})` : ''}
+      </button>
+
+      {open && (
+        <div
+          style={{
+            position: 'absolute',
+            top: 26,
+            right: 0,
+            width: 260,
+            padding: 10,
+            background: dark ? '#1e2329' : '#fff',
+            border: `1px solid ${border}`,
+            borderRadius: 6,
+            boxShadow: '0 8px 24px rgba(0,0,0,0.4)',
+            color: text,
+            fontSize: 12,
+          }}
+        >
+          {readOnly && (
+            <div style={{ color: muted, fontSize: 11, marginBottom: 8 }}>Showing your partner&apos;s indicators</div>
+          )}
+
+          {indicators.length === 0 && (
+            <div style={{ color: muted, fontSize: 11, marginBottom: 8 }}>No indicators on this chart</div>
+          )}
+
+          {indicators.map(indicator => {
+            const definition = INDICATOR_CATALOGUE[indicator.type];
+            const editing = editingId === indicator.id && !readOnly;
+            return (
+              <div key={indicator.id} style={{ padding: '6px 0', borderBottom: `1px solid ${border}` }}>
+                <div style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+                  <input
+                    type="color"
+                    value={indicator.color}
+                    disabled={readOnly}
+                    onChange={(e) => update(indicator.id, { color: e.target.value })}
+                    style={{ width: 18, height: 18, padding: 0, border: 'none', background: 'none', cursor: readOnly ? 'default' : 'pointer' }}
+                  />
+                  <span style={{ flex: 1, opacity: indicator.visible ? 1 : 0.5 }}>{indicatorLabel(indicator)}</span>
+                  {!readOnly && (
+                    <>
+                      <button style={buttonStyle} onClick={() => update(indicator.id, { visible: !indicator.visible })}>
+                        {indicator.visible ? 'Hide' : 'Show'}
+                      </button>
+                      <button style={buttonStyle} onClick={() => setEditingId(editing ? null : indicator.id)}>
+                        {editing ? 'Done' : 'Edit'}
+                      </button>
+                      <button style={{ ...buttonStyle, color: '#f6465d' }} onClick={() => remove(indicator.id)}>
+                        ×
+                      </button>
+                    </>
+                  )}
+                </div>
+
+                {editing && (
+                  <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 6, marginTop: 6 }}>
+                    {definition.params.map(field => (
+                      <label key={field.key} style={{ display: 'flex', flexDirection: 'column', gap: 2, color: muted, fontSize: 10 }}>
+                        {field.label}
+                        <input
+                          type="number"
+                          min={field.min}
+                          max={field.max}
+                          step={field.step}
+                          value={(indicator as unknown as Record<string, number>)[field.key]}
+                          onChange={(e) => {
+                            const value = Number(e.target.value);
+                            if (!Number.isFinite(value)) return;
+                            update(indicator.id, { [field.key]: Math.min(field.max, Math.max(field.min, value)) } as Partial<Indicator>);
+                          }}
+                          style={{
+                            padding: '3px 6px',
+                            background: dark ? '#0b0e11' : '#fff',
+                            border: `1px solid ${border}`,
+                            borderRadius: 4,
+                            color: text,
+                            fontSize: 12,
+                          }}
+                        />
+                      </label>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+
+          {!readOnly && (
+            <div style={{ display: 'flex', flexWrap: 'wrap', gap: 4, marginTop: 8 }}>
+              {INDICATOR_TYPES.map(type => (
+                <button key={type} style={buttonStyle} onClick={() => add(type)}>
+                  + {INDICATOR_CATALOGUE[type].label}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,156 @@
+'use client';
+
+import { useState } from 'react';
+import { PriceAlert, PriceAlertCondition } from '@/types';
+import { describePriceAlert, validatePriceAlert } from '@/lib/price-alerts';
+
+interface PriceAlertManagerProps {
+  alerts: PriceAlert[];
+  symbol: string;
+  currentPrice: number;
+  onCreate: (condition: PriceAlertCondition, value: number, note?: string) => void;
+  onDelete: (alert: PriceAlert) => void;
+}
+
+const CONDITIONS: { value: PriceAlertCondition; label: string }[] = [
+  { value: 'crosses_above', label: 'Crosses above' },
+  { value: 'crosses_below', label: 'Crosses below' },
+  { value: 'percent_move', label: 'Moves %' },
+];
+
+const inputStyle = {
+  width: '100%',
+  padding: '8px 10px',
+  background: '#2b3139',
+  border: '1px solid #2b3139',
+  borderRadius: 4,
+  color: '#eaecef',
+  fontSize: 13,
+};
+
+// Order panel section for creating price alerts and managing the client's existing ones
+export function PriceAlertManager({ alerts, symbol, currentPrice, onCreate, onDelete }: PriceAlertManagerProps) {
+  const [condition, setCondition] = useState<PriceAlertCondition>('crosses_above');
+  const [value, setValue] = useState('');
+  const [note, setNote] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const active = alerts.filter(a => a.status === 'active');
+  const triggered = alerts.filter(a => a.status === 'triggered').slice(0, 5);
+
+  const submit = () => {
+    const number = Number(value);
+    const validation = validatePriceAlert(condition, number, currentPrice);
+    if (validation) {
+      setError(validation);
+      return;
+    }
+    onCreate(condition, number, note);
+    setValue('');
+    setNote('');
+    setError(null);
+  };
+
+  const row = (alert: PriceAlert) => (
+    <div
+      key={alert.id}
+      style={{
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        gap: 8,
+        padding: '6px 0',
+        borderBottom: '1px solid rgba(255,255,255,0.05)',
+        fontSize: 12,
+        color: alert.status === 'active' ? '#eaecef' : '#848e9c',
+      }}
+    >
+      <div style={{ minWidth: 0 }}>
+        <div>{describePriceAlert(alert)}</div>
+        {alert.note && <div style={{ fontSize: 11, color: '#848e9c' }}>{alert.note}</div>}
+        {alert.status === 'triggered' && alert.triggeredPrice !== undefined && (
+          <div style={{ fontSize: 11, color: '#f0b90b' }}>
+            Fired at {alert.triggeredPrice.toFixed(2)}
+            {alert.triggeredAt && ` · ${new Date(alert.triggeredAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`}
+          </div>
+        )}
+      </div>
+      <button
+        onClick={() => onDelete(alert)}
+        style={{ background: 'none', border: 'none', color: '#848e9c', cursor: 'pointer', fontSize: 14, padding: 2 }}
+        title="Delete alert"
+      >
+        ×
+      </button>
+    </div>
+  );
+
+  return (
+    <div style={{ marginTop: 16, padding: 14, background: '#1e2329', borderRadius: 8 }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: 10, fontSize: 13, fontWeight: 600, color: '#eaecef' }}>
+        <span>Price Alerts</span>
+        <span style={{ fontSize: 11, fontWeight: 400, color: '#848e9c' }}>{active.length} active</span>
+      </div>
+
+      <div style={{ display: 'flex', gap: 6, marginBottom: 6 }}>
+        <select
+          value={condition}
+          onChange={(e) => {
+            setCondition(e.target.value as PriceAlertCondition);
+            setError(null);
+          }}
+          style={{ ...inputStyle, width: '50%' }}
+        >
+          {CONDITIONS.map(c => (
+            <option key={c.value} value={c.value}>{c.label}</option>
+          ))}
+        </select>
+        <input
+          type="number"
+          value={value}
+          onChange={(e) => {
+            setValue(e.target.value);
+            setError(null);
+          }}
+          placeholder={condition === 'percent_move' ? '%' : currentPrice ? currentPrice.toFixed(2) : 'Price'}
+          step={condition === 'percent_move' ? '0.1' : '0.01'}
+          style={{ ...inputStyle, width: '50%' }}
+        />
+      </div>
+      <input
+        type="text"
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+        placeholder="Note (optional)"
+        maxLength={80}
+        style={{ ...inputStyle, marginBottom: 6 }}
+      />
+      {error && <div style={{ fontSize: 11, color: '#f6465d', marginBottom: 6 }}>{error}</div>}
+      <button
+        onClick={submit}
+        disabled={!symbol}
+        style={{
+          width: '100%',
+          padding: '8px 12px',
+          background: 'rgba(240, 185, 11, 0.12)',
+          border: '1px solid rgba(240, 185, 11, 0.4)',
+          borderRadius: 4,
+          color: '#f0b90b',
+          fontSize: 12,
+          fontWeight: 600,
+          cursor: 'pointer',
+        }}
+      >
+        Alert me on {symbol || '—'}
+      </button>
+
+      {active.length > 0 && <div style={{ marginTop: 10 }}>{active.map(row)}</div>}
+      {triggered.length > 0 && (
+        <div style={{ marginTop: 10 }}>
+          <div style={{ fontSize: 11, color: '#848e9c', marginBottom: 2 }}>Recently triggered</div>
+          {triggered.map(row)}
+        </div>
+      )}
+    </div>
+  );
+}
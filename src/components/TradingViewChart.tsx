@@ -1,8 +1,11 @@
 'use client';
 
-import { useEffect, useRef, memo, useState, useCallback } from 'react';
+import { useEffect, useRef, memo, useState, useCallback, useMemo } from 'react';
 import {
+  BroadcastTick,
+  ChartTimeframe,
   Drawing,
+  Indicator,
   TrendlineDrawing,
   HorizontalLineDrawing,
   RectangleDrawing,
@@ -10,6 +13,11 @@ import {
   TextDrawing,
   Point,
 } from '@/types';
+import { WS_URL } from '@/lib/deriv';
+import { computeIndicator, loadIndicators, saveIndicators } from '@/lib/indicators';
+import { DEFAULT_TIMEFRAME, TIMEFRAMES, aggregateTicks, applyTick, historyRequest, parseHistory, prependHistory, timeframeGranularity } from '@/lib/candles';
+import { AnalysisTool, DrawingProjection, createAnalysisDrawing, createVerticalLine, hitTestDrawing, isAnalysisTool, renderAnalysisDrawing } from '@/lib/drawings';
+import { IndicatorMenu } from '@/components/IndicatorMenu';
 
 interface Position {
   id: number;
@@ -17,9 +25,10 @@ interface Position {
   direction: 'CALL' | 'PUT';
   takeProfit?: number;
   stopLoss?: number;
+  brokerLimits?: boolean; // TP/SL enforced by Deriv; otherwise by the page's local fallback watcher
 }
 
-type DrawingMode = 'select' | 'trendline' | 'horizontal' | 'rectangle' | 'arrow' | 'text' | null;
+type DrawingMode = 'select' | 'trendline' | 'horizontal' | 'rectangle' | 'arrow' | 'text' | 'vertical' | AnalysisTool | null;
 
 interface TradingViewChartProps {
   symbol: string;
@@ -37,6 +46,15 @@ interface TradingViewChartProps {
   onDrawingSelect?: (id: string | null) => void;
   onTextInputRequest?: (chartPoint: Point, pixelPos: { x: number; y: number }) => void;
   referralCode?: string;
+  // Indicators: when given they are shown read-only (e.g. a partner's broadcast); otherwise the
+  // chart keeps the viewer's own set per symbol and reports changes through onIndicatorsChange
+  indicators?: Indicator[];
+  onIndicatorsChange?: (indicators: Indicator[]) => void;
+  // Price alerts: levels to mark, and right-click on the price pane to create one
+  alertLevels?: number[];
+  onPriceContextMenu?: (price: number, pixelPos: { x: number; y: number }) => void;
+  // Replay: when given, the chart plots these ticks instead of the live feed
+  replayTicks?: BroadcastTick[];
 }
 
 interface Candle {
@@ -56,6 +74,21 @@ interface InProgressDrawing {
 // Stable empty arrays to prevent infinite re-renders from new [] references
 const EMPTY_POSITIONS: Position[] = [];
 const EMPTY_DRAWINGS: Drawing[] | undefined = undefined;
+const EMPTY_LEVELS: number[] = [];
+
+// History is loaded in batches; panning to within BACKFILL_MARGIN candles of the oldest one loads the next
+const HISTORY_BATCH = 300;
+const BACKFILL_MARGIN = 20;
+const MAX_CANDLES = 5000;
+const INITIAL_HISTORY_REQ_ID = 1;
+const BACKFILL_REQ_ID = 2;
+const TIMEFRAME_STORAGE_KEY = 'lunar-chart-timeframe';
+
+// Oscillator pane below the candles, resized by dragging the divider
+const PANE_GAP = 8;
+const DEFAULT_OSCILLATOR_HEIGHT = 120;
+const MIN_OSCILLATOR_HEIGHT = 60;
+const MAX_OSCILLATOR_SHARE = 0.6;
 
 function TradingViewChart({
   symbol,
@@ -73,6 +106,11 @@ function TradingViewChart({
   onDrawingSelect,
   onTextInputRequest,
   referralCode = 'partner',
+  indicators,
+  onIndicatorsChange,
+  alertLevels = EMPTY_LEVELS,
+  onPriceContextMenu,
+  replayTicks,
 }: TradingViewChartProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
@@ -80,13 +118,21 @@ function TradingViewChart({
   const [dimensions, setDimensions] = useState({ width: 0, height: 0 });
   const wsRef = useRef<WebSocket | null>(null);
   const candlesRef = useRef<Candle[]>([]);
+  const [timeframe, setTimeframe] = useState<ChartTimeframe>(() => {
+    if (typeof window === 'undefined') return DEFAULT_TIMEFRAME;
+    const stored = localStorage.getItem(TIMEFRAME_STORAGE_KEY);
+    return TIMEFRAMES.some(t => t.value === stored) ? (stored as ChartTimeframe) : DEFAULT_TIMEFRAME;
+  });
+  const granularity = timeframeGranularity(timeframe);
+  const backfillRef = useRef({ loading: false, exhausted: false });
+  const isReplay = replayTicks !== undefined;
 
   // Chart interaction state
   const [offset, setOffset] = useState(0);
   const [zoom, setZoom] = useState(1);
   const [isDragging, setIsDragging] = useState(false);
   const [dragStart, setDragStart] = useState({ x: 0, y: 0 });
-  const [dragType, setDragType] = useState<'pan' | 'tp' | 'sl' | null>(null);
+  const [dragType, setDragType] = useState<'pan' | 'tp' | 'sl' | 'pane' | null>(null);
   const [dragPositionId, setDragPositionId] = useState<number | null>(null);
   const [localPositions, setLocalPositions] = useState<Position[]>([]);
 
@@ -94,8 +140,34 @@ function TradingViewChart({
   const [inProgressDrawing, setInProgressDrawing] = useState<InProgressDrawing | null>(null);
   const inProgressRef = useRef<InProgressDrawing | null>(null);
 
+  // Indicator state
+  const [ownIndicators, setOwnIndicators] = useState<Indicator[]>([]);
+  const [oscillatorHeight, setOscillatorHeight] = useState(DEFAULT_OSCILLATOR_HEIGHT);
+  const activeIndicators = indicators ?? ownIndicators;
+
   const isDrawingActive = drawingMode != null && drawingMode !== 'select';
 
+  // Load the viewer's indicators for this symbol
+  useEffect(() => {
+    const stored = loadIndicators(symbol);
+    setOwnIndicators(stored);
+    onIndicatorsChange?.(stored);
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [symbol]);
+
+  const handleIndicatorsChange = useCallback((next: Indicator[]) => {
+    setOwnIndicators(next);
+    saveIndicators(symbol, next);
+    onIndicatorsChange?.(next);
+  }, [symbol, onIndicatorsChange]);
+
+  const indicatorOutputs = useMemo(
+    () => activeIndicators.filter(ind => ind.visible).map(ind => computeIndicator(ind, candles)),
+    [activeIndicators, candles]
+  );
+  const overlayOutputs = useMemo(() => indicatorOutputs.filter(o => o.pane === 'price'), [indicatorOutputs]);
+  const oscillatorOutputs = useMemo(() => indicatorOutputs.filter(o => o.pane === 'oscillator'), [indicatorOutputs]);
+
   // Sync positions - use functional update to avoid unnecessary re-renders
   useEffect(() => {
     setLocalPositions(prev => {
@@ -107,18 +179,21 @@ function TradingViewChart({
 
   // Fetch historical data and subscribe to live updates
   useEffect(() => {
-    const APP_ID = process.env.NEXT_PUBLIC_DERIV_APP_ID || '1089';
-    const ws = new WebSocket(`wss://ws.derivws.com/websockets/v3?app_id=${APP_ID}`);
+    if (isReplay) {
+      wsRef.current = null;
+      setOffset(0);
+      return;
+    }
+
+    const ws = new WebSocket(WS_URL);
     wsRef.current = ws;
+    candlesRef.current = [];
+    backfillRef.current = { loading: false, exhausted: false };
+    setCandles([]);
+    setOffset(0);
 
     ws.onopen = () => {
-      ws.send(JSON.stringify({
-        ticks_history: symbol,
-        end: 'latest',
-        count: 200,
-        style: 'candles',
-        granularity: 60,
-      }));
+      ws.send(JSON.stringify({ ...historyRequest(symbol, granularity, HISTORY_BATCH), req_id: INITIAL_HISTORY_REQ_ID }));
 
       ws.send(JSON.stringify({
         ticks: symbol,
@@ -129,56 +204,69 @@ function TradingViewChart({
     ws.onmessage = (event) => {
       const data = JSON.parse(event.data);
 
-      if (data.candles) {
-        const newCandles = data.candles.map((c: any) => ({
-          time: c.epoch,
-          open: c.open,
-          high: c.high,
-          low: c.low,
-          close: c.close,
-        }));
-        candlesRef.current = newCandles;
-        setCandles(newCandles);
+      if (data.req_id === INITIAL_HISTORY_REQ_ID) {
+        const history = parseHistory(data);
+        candlesRef.current = history;
+        setCandles(history);
+        backfillRef.current.exhausted = history.length < HISTORY_BATCH;
+        return;
       }
 
-      if (data.tick) {
-        const tick = data.tick;
-        const currentCandles = [...candlesRef.current];
-
-        if (currentCandles.length > 0) {
-          const lastCandle = currentCandles[currentCandles.length - 1];
-          const tickMinute = Math.floor(tick.epoch / 60) * 60;
-          const lastCandleMinute = Math.floor(lastCandle.time / 60) * 60;
-
-          if (tickMinute === lastCandleMinute) {
-            lastCandle.close = tick.quote;
-            lastCandle.high = Math.max(lastCandle.high, tick.quote);
-            lastCandle.low = Math.min(lastCandle.low, tick.quote);
-          } else {
-            currentCandles.push({
-              time: tick.epoch,
-              open: tick.quote,
-              high: tick.quote,
-              low: tick.quote,
-              close: tick.quote,
-            });
-            if (currentCandles.length > 200) {
-              currentCandles.shift();
-            }
-          }
-          candlesRef.current = currentCandles;
-          setCandles([...currentCandles]);
+      if (data.req_id === BACKFILL_REQ_ID) {
+        backfillRef.current.loading = false;
+        const merged = prependHistory(parseHistory(data), candlesRef.current);
+        // Nothing older came back: the start of the symbol's history is reached
+        if (data.error || merged.length === candlesRef.current.length) {
+          backfillRef.current.exhausted = true;
+          return;
         }
+        candlesRef.current = merged;
+        backfillRef.current.exhausted = merged.length >= MAX_CANDLES;
+        setCandles(merged);
+        return;
+      }
+
+      if (data.tick && candlesRef.current.length > 0) {
+        candlesRef.current = applyTick(candlesRef.current, data.tick, granularity, MAX_CANDLES);
+        setCandles(candlesRef.current);
       }
     };
 
     return () => {
+      ws.onmessage = null;
       if (ws.readyState === WebSocket.OPEN) {
         ws.send(JSON.stringify({ forget_all: 'ticks' }));
-        ws.close();
       }
+      ws.close();
     };
-  }, [symbol]);
+  }, [symbol, granularity, isReplay]);
+
+  // Replayed ticks are re-aggregated as playback moves; there is no older history to load
+  useEffect(() => {
+    if (!replayTicks) return;
+    const replayed = aggregateTicks(replayTicks, granularity);
+    candlesRef.current = replayed;
+    backfillRef.current = { loading: false, exhausted: true };
+    setCandles(replayed);
+  }, [replayTicks, granularity]);
+
+  // Load older history as the view nears the oldest loaded candle
+  useEffect(() => {
+    const ws = wsRef.current;
+    const state = backfillRef.current;
+    if (!ws || ws.readyState !== WebSocket.OPEN || candles.length === 0 || state.loading || state.exhausted) return;
+
+    const startIdx = candles.length - Math.floor(50 / zoom) - offset;
+    if (startIdx > BACKFILL_MARGIN) return;
+
+    state.loading = true;
+    ws.send(JSON.stringify({ ...historyRequest(symbol, granularity, HISTORY_BATCH, candles[0].time - 1), req_id: BACKFILL_REQ_ID }));
+  }, [candles, offset, zoom, symbol, granularity]);
+
+  const handleTimeframeChange = (next: ChartTimeframe) => {
+    setTimeframe(next);
+    localStorage.setItem(TIMEFRAME_STORAGE_KEY, next);
+  };
 
   // Handle resize
   useEffect(() => {
@@ -200,7 +288,13 @@ function TradingViewChart({
   const getChartParams = useCallback(() => {
     const padding = { top: 20, right: 70, bottom: 30, left: 10 };
     const chartWidth = dimensions.width - padding.left - padding.right;
-    const chartHeight = dimensions.height - padding.top - padding.bottom;
+    const plotHeight = dimensions.height - padding.top - padding.bottom;
+    // chartHeight is the price pane; oscillators take the area under it
+    const oscillatorArea = oscillatorOutputs.length > 0
+      ? Math.max(MIN_OSCILLATOR_HEIGHT, Math.min(oscillatorHeight, plotHeight * MAX_OSCILLATOR_SHARE))
+      : 0;
+    const chartHeight = oscillatorArea > 0 ? plotHeight - oscillatorArea - PANE_GAP : plotHeight;
+    const oscillatorTop = padding.top + chartHeight + PANE_GAP;
 
     const visibleCandles = Math.floor(50 / zoom);
     const startIdx = Math.max(0, candles.length - visibleCandles - offset);
@@ -208,10 +302,18 @@ function TradingViewChart({
     const visible = candles.slice(startIdx, endIdx);
 
     if (visible.length === 0) {
-      return { padding, chartWidth, chartHeight, visible: [], minPrice: 0, maxPrice: 0, priceRange: 1, startIdx, candleGap: 0 };
+      return { padding, chartWidth, chartHeight, visible: [], minPrice: 0, maxPrice: 0, priceRange: 1, startIdx, candleGap: 0, oscillatorTop, oscillatorArea };
     }
 
     const prices = visible.flatMap(c => [c.high, c.low]);
+    overlayOutputs.forEach(output => {
+      output.lines.forEach(line => {
+        for (let i = startIdx; i < endIdx; i++) {
+          const value = line.values[i];
+          if (value !== null) prices.push(value);
+        }
+      });
+    });
     localPositions.forEach(pos => {
       prices.push(pos.entryPrice);
       if (pos.takeProfit) prices.push(pos.takeProfit);
@@ -224,8 +326,8 @@ function TradingViewChart({
     const priceRange = maxPrice - minPrice || 1;
     const candleGap = chartWidth / visible.length;
 
-    return { padding, chartWidth, chartHeight, visible, minPrice, maxPrice, priceRange, startIdx, candleGap };
-  }, [candles, dimensions, offset, zoom, localPositions, currentPrice]);
+    return { padding, chartWidth, chartHeight, visible, minPrice, maxPrice, priceRange, startIdx, candleGap, oscillatorTop, oscillatorArea };
+  }, [candles, dimensions, offset, zoom, localPositions, currentPrice, overlayOutputs, oscillatorOutputs.length, oscillatorHeight]);
 
   // Convert price to Y coordinate
   const priceToY = useCallback((price: number, params: ReturnType<typeof getChartParams>) => {
@@ -330,6 +432,17 @@ function TradingViewChart({
     return { x: time, y: price };
   }, [candles, logicalToTime, yToPrice]);
 
+  // The price pane as the shared drawing helpers see it; tick charts measure bars by the average tick gap
+  const drawingProjection = useCallback((params: ReturnType<typeof getChartParams>): DrawingProjection => ({
+    timeToX: (time) => chartPointToPixel({ x: time, y: 0 }, params)?.x ?? null,
+    priceToY: (price) => priceToY(price, params),
+    left: params.padding.left,
+    right: params.padding.left + params.chartWidth,
+    top: params.padding.top,
+    bottom: params.padding.top + params.chartHeight,
+    barSeconds: granularity || getCandleInterval(),
+  }), [chartPointToPixel, priceToY, granularity, getCandleInterval]);
+
   // --- Mouse handlers ---
 
   const handleMouseDown = useCallback((e: React.MouseEvent) => {
@@ -364,6 +477,14 @@ function TradingViewChart({
         return;
       }
 
+      if (drawingMode === 'vertical') {
+        // Single click creates vertical line
+        if (chartPoint && onDrawingComplete) {
+          onDrawingComplete(createVerticalLine(chartPoint.x, { referralCode, symbol, color: selectedColor, lineWidth: drawingLineWidth }));
+        }
+        return;
+      }
+
       if (drawingMode === 'text') {
         // Single click requests text input
         if (chartPoint && onTextInputRequest) {
@@ -372,7 +493,7 @@ function TradingViewChart({
         return;
       }
 
-      // Drag-based tools (trendline, rectangle, arrow)
+      // Drag-based tools (trendline, rectangle, arrow and the analysis tools)
       if (chartPoint) {
         const ipd: InProgressDrawing = {
           startPixel: { x, y },
@@ -400,6 +521,13 @@ function TradingViewChart({
       }
     }
 
+    // Divider between the price and oscillator panes
+    if (params.oscillatorArea > 0 && !isDrawingActive && Math.abs(y - (params.oscillatorTop - PANE_GAP / 2)) < 6) {
+      setDragType('pane');
+      setIsDragging(true);
+      return;
+    }
+
     // Check if clicking on a TP/SL line (trade page behavior)
     for (const pos of localPositions) {
       if (pos.takeProfit) {
@@ -452,6 +580,11 @@ function TradingViewChart({
       const sensitivity = 0.5 / zoom;
       setOffset(prev => Math.max(0, Math.min(candles.length - 10, prev + dx * sensitivity)));
       setDragStart({ x: e.clientX, y: e.clientY });
+    } else if (dragType === 'pane') {
+      const params = getChartParams();
+      const plotHeight = dimensions.height - params.padding.top - params.padding.bottom;
+      const height = dimensions.height - params.padding.bottom - y - PANE_GAP / 2;
+      setOscillatorHeight(Math.max(MIN_OSCILLATOR_HEIGHT, Math.min(plotHeight * MAX_OSCILLATOR_SHARE, height)));
     } else if ((dragType === 'tp' || dragType === 'sl') && dragPositionId !== null) {
       const params = getChartParams();
       const newPrice = yToPrice(y, params);
@@ -467,7 +600,7 @@ function TradingViewChart({
         return pos;
       }));
     }
-  }, [isDragging, dragType, dragStart, dragPositionId, zoom, candles.length, getChartParams, yToPrice]);
+  }, [isDragging, dragType, dragStart, dragPositionId, zoom, candles.length, getChartParams, yToPrice, dimensions]);
 
   const handleMouseUp = useCallback((e: React.MouseEvent) => {
     // Complete a drawing if in progress
@@ -532,6 +665,16 @@ function TradingViewChart({
                 updatedAt: now,
               } as ArrowDrawing);
               break;
+            default:
+              if (isAnalysisTool(drawingMode)) {
+                onDrawingComplete(createAnalysisDrawing(
+                  drawingMode,
+                  startPoint,
+                  endPoint,
+                  { referralCode, symbol, color: selectedColor, lineWidth: drawingLineWidth },
+                  candles
+                ));
+              }
           }
         }
       }
@@ -553,7 +696,7 @@ function TradingViewChart({
     setIsDragging(false);
     setDragType(null);
     setDragPositionId(null);
-  }, [dragType, dragPositionId, localPositions, onUpdatePosition, onDrawingComplete, getChartParams, pixelToChartPoint, drawingMode, referralCode, symbol, selectedColor, drawingLineWidth]);
+  }, [dragType, dragPositionId, localPositions, onUpdatePosition, onDrawingComplete, getChartParams, pixelToChartPoint, drawingMode, referralCode, symbol, selectedColor, drawingLineWidth, candles]);
 
   const handleWheel = useCallback((e: React.WheelEvent) => {
     e.preventDefault();
@@ -561,6 +704,20 @@ function TradingViewChart({
     setZoom(prev => Math.max(0.5, Math.min(5, prev * delta)));
   }, []);
 
+  // Right click on the price pane offers the price under the cursor, e.g. for a price alert
+  const handleContextMenu = useCallback((e: React.MouseEvent) => {
+    if (!onPriceContextMenu) return;
+    const rect = canvasRef.current?.getBoundingClientRect();
+    if (!rect) return;
+
+    const y = e.clientY - rect.top;
+    const params = getChartParams();
+    if (params.visible.length === 0 || y < params.padding.top || y > params.padding.top + params.chartHeight) return;
+
+    e.preventDefault();
+    onPriceContextMenu(yToPrice(y, params), { x: e.clientX, y: e.clientY });
+  }, [onPriceContextMenu, getChartParams, yToPrice]);
+
   // Double click to add TP/SL (only when not in drawing mode)
   const handleDoubleClick = useCallback((e: React.MouseEvent) => {
     if (isDrawingActive) return;
@@ -649,7 +806,7 @@ function TradingViewChart({
         return px >= pos.x - 10 && px <= pos.x + 100 && py >= pos.y - d.fontSize - 10 && py <= pos.y + 10;
       }
       default:
-        return false;
+        return hitTestDrawing(drawing, px, py, drawingProjection(params));
     }
   };
 
@@ -713,24 +870,100 @@ function TradingViewChart({
       ctx.fillText(price.toFixed(2), width - padding.right + 5, y + 3);
     }
 
+    // Tick charts are a line through every quote
+    if (granularity === 0) {
+      ctx.strokeStyle = '#f0b90b';
+      ctx.lineWidth = 1.5;
+      ctx.beginPath();
+      visible.forEach((candle, i) => {
+        const x = padding.left + i * candleGap + candleGap / 2;
+        if (i === 0) ctx.moveTo(x, scaleY(candle.close));
+        else ctx.lineTo(x, scaleY(candle.close));
+      });
+      ctx.stroke();
+    }
+
     // Draw candles
-    visible.forEach((candle, i) => {
-      const x = padding.left + i * candleGap + candleGap / 2;
-      const isGreen = candle.close >= candle.open;
+    if (granularity > 0) {
+      visible.forEach((candle, i) => {
+        const x = padding.left + i * candleGap + candleGap / 2;
+        const isGreen = candle.close >= candle.open;
 
-      ctx.strokeStyle = isGreen ? '#0ecb81' : '#f6465d';
-      ctx.lineWidth = 1;
+        ctx.strokeStyle = isGreen ? '#0ecb81' : '#f6465d';
+        ctx.lineWidth = 1;
+        ctx.beginPath();
+        ctx.moveTo(x, scaleY(candle.high));
+        ctx.lineTo(x, scaleY(candle.low));
+        ctx.stroke();
+
+        const bodyTop = scaleY(Math.max(candle.open, candle.close));
+        const bodyBottom = scaleY(Math.min(candle.open, candle.close));
+        const bodyHeight = Math.max(1, bodyBottom - bodyTop);
+
+        ctx.fillStyle = isGreen ? '#0ecb81' : '#f6465d';
+        ctx.fillRect(x - candleWidth / 2, bodyTop, candleWidth, bodyHeight);
+      });
+    }
+
+    // --- Indicators ---
+    const endIdx = params.startIdx + visible.length;
+    const indexToX = (index: number) => padding.left + (index - params.startIdx) * candleGap + candleGap / 2;
+    const lastVisibleValue = (values: (number | null)[]) => {
+      for (let i = endIdx - 1; i >= params.startIdx; i--) {
+        if (values[i] !== null) return values[i] as number;
+      }
+      return null;
+    };
+
+    const strokeSeries = (values: (number | null)[], color: string, toY: (value: number) => number, dashed?: boolean) => {
+      ctx.strokeStyle = color;
+      ctx.lineWidth = 1.5;
+      if (dashed) ctx.setLineDash([4, 3]);
       ctx.beginPath();
-      ctx.moveTo(x, scaleY(candle.high));
-      ctx.lineTo(x, scaleY(candle.low));
+      let penDown = false;
+      for (let i = params.startIdx; i < endIdx; i++) {
+        const value = values[i];
+        if (value === null) {
+          penDown = false;
+          continue;
+        }
+        if (penDown) ctx.lineTo(indexToX(i), toY(value));
+        else ctx.moveTo(indexToX(i), toY(value));
+        penDown = true;
+      }
       ctx.stroke();
+      ctx.setLineDash([]);
+    };
 
-      const bodyTop = scaleY(Math.max(candle.open, candle.close));
-      const bodyBottom = scaleY(Math.min(candle.open, candle.close));
-      const bodyHeight = Math.max(1, bodyBottom - bodyTop);
+    // Overlays on the price pane, with a legend under the symbol label
+    overlayOutputs.forEach((output, n) => {
+      if (output.fillBetween) {
+        const upper = output.lines[output.fillBetween[0]].values;
+        const lower = output.lines[output.fillBetween[1]].values;
+        const indices: number[] = [];
+        for (let i = params.startIdx; i < endIdx; i++) {
+          if (upper[i] !== null && lower[i] !== null) indices.push(i);
+        }
+        if (indices.length > 1) {
+          ctx.fillStyle = output.indicator.color;
+          ctx.globalAlpha = 0.08;
+          ctx.beginPath();
+          ctx.moveTo(indexToX(indices[0]), scaleY(upper[indices[0]] as number));
+          indices.forEach(i => ctx.lineTo(indexToX(i), scaleY(upper[i] as number)));
+          [...indices].reverse().forEach(i => ctx.lineTo(indexToX(i), scaleY(lower[i] as number)));
+          ctx.closePath();
+          ctx.fill();
+          ctx.globalAlpha = 1;
+        }
+      }
+
+      output.lines.forEach(line => strokeSeries(line.values, line.color, scaleY, line.dashed));
 
-      ctx.fillStyle = isGreen ? '#0ecb81' : '#f6465d';
-      ctx.fillRect(x - candleWidth / 2, bodyTop, candleWidth, bodyHeight);
+      const value = lastVisibleValue(output.lines[0].values);
+      ctx.fillStyle = output.indicator.color;
+      ctx.font = '10px Inter, sans-serif';
+      ctx.textAlign = 'left';
+      ctx.fillText(`${output.label}${value !== null ? `  ${value.toFixed(2)}` : ''}`, padding.left + 2, padding.top + 18 + n * 13);
     });
 
     // Draw position lines
@@ -749,6 +982,10 @@ function TradingViewChart({
       ctx.font = 'bold 10px Inter, sans-serif';
       ctx.fillText(pos.entryPrice.toFixed(2), width - padding.right + 5, entryY + 4);
 
+      // Levels only the open page enforces are labelled as such
+      const limitLabelWidth = pos.brokerLimits ? 50 : 70;
+      const limitLabelSuffix = pos.brokerLimits ? '' : ' local';
+
       if (pos.takeProfit) {
         const tpY = scaleY(pos.takeProfit);
         ctx.strokeStyle = '#00bcd4';
@@ -761,10 +998,10 @@ function TradingViewChart({
         ctx.setLineDash([]);
 
         ctx.fillStyle = '#00bcd4';
-        ctx.fillRect(padding.left, tpY - 10, 50, 20);
+        ctx.fillRect(padding.left, tpY - 10, limitLabelWidth, 20);
         ctx.fillStyle = '#fff';
         ctx.font = 'bold 10px Inter, sans-serif';
-        ctx.fillText('TP', padding.left + 5, tpY + 4);
+        ctx.fillText(`TP${limitLabelSuffix}`, padding.left + 5, tpY + 4);
 
         ctx.fillStyle = '#00bcd4';
         ctx.fillRect(width - padding.right, tpY - 10, 65, 20);
@@ -784,10 +1021,10 @@ function TradingViewChart({
         ctx.setLineDash([]);
 
         ctx.fillStyle = '#ff5722';
-        ctx.fillRect(padding.left, slY - 10, 50, 20);
+        ctx.fillRect(padding.left, slY - 10, limitLabelWidth, 20);
         ctx.fillStyle = '#fff';
         ctx.font = 'bold 10px Inter, sans-serif';
-        ctx.fillText('SL', padding.left + 5, slY + 4);
+        ctx.fillText(`SL${limitLabelSuffix}`, padding.left + 5, slY + 4);
 
         ctx.fillStyle = '#ff5722';
         ctx.fillRect(width - padding.right, slY - 10, 65, 20);
@@ -796,6 +1033,28 @@ function TradingViewChart({
       }
     });
 
+    // Draw price alert levels
+    alertLevels.forEach(level => {
+      const alertY = scaleY(level);
+      if (alertY < padding.top || alertY > padding.top + chartHeight) return;
+
+      ctx.strokeStyle = '#a855f7';
+      ctx.lineWidth = 1;
+      ctx.setLineDash([2, 3]);
+      ctx.beginPath();
+      ctx.moveTo(padding.left, alertY);
+      ctx.lineTo(width - padding.right, alertY);
+      ctx.stroke();
+      ctx.setLineDash([]);
+
+      ctx.fillStyle = '#a855f7';
+      ctx.fillRect(width - padding.right, alertY - 10, 65, 20);
+      ctx.fillStyle = '#fff';
+      ctx.font = 'bold 10px Inter, sans-serif';
+      ctx.textAlign = 'left';
+      ctx.fillText(level.toFixed(2), width - padding.right + 5, alertY + 4);
+    });
+
     // Draw current price line
     if (currentPrice) {
       const priceY = scaleY(currentPrice);
@@ -964,10 +1223,94 @@ function TradingViewChart({
             }
             break;
           }
+          default:
+            renderAnalysisDrawing(ctx, drawing, drawingProjection(params), isSelected);
         }
       });
     }
 
+    // --- Oscillator pane ---
+    if (params.oscillatorArea > 0) {
+      const paneHeight = params.oscillatorArea / oscillatorOutputs.length;
+      const axisColor = theme === 'dark' ? '#848e9c' : '#666';
+
+      // Covers drawings that run past the bottom of the price pane
+      ctx.fillStyle = theme === 'dark' ? '#0b0e11' : '#ffffff';
+      ctx.fillRect(0, params.oscillatorTop - PANE_GAP, width, params.oscillatorArea + PANE_GAP);
+
+      ctx.strokeStyle = theme === 'dark' ? 'rgba(255,255,255,0.15)' : 'rgba(0,0,0,0.15)';
+      ctx.lineWidth = 1;
+      ctx.beginPath();
+      ctx.moveTo(0, params.oscillatorTop - PANE_GAP / 2);
+      ctx.lineTo(width, params.oscillatorTop - PANE_GAP / 2);
+      ctx.stroke();
+
+      oscillatorOutputs.forEach((output, n) => {
+        const top = params.oscillatorTop + n * paneHeight;
+
+        let [min, max] = output.range ?? [Infinity, -Infinity];
+        if (!output.range) {
+          const series = [...output.lines.map(line => line.values), ...(output.histogram ? [output.histogram] : [])];
+          series.forEach(values => {
+            for (let i = params.startIdx; i < endIdx; i++) {
+              const value = values[i];
+              if (value === null) continue;
+              min = Math.min(min, value);
+              max = Math.max(max, value);
+            }
+          });
+          output.levels?.forEach(level => {
+            min = Math.min(min, level);
+            max = Math.max(max, level);
+          });
+          if (!Number.isFinite(min)) [min, max] = [0, 1];
+        }
+        const span = max - min || 1;
+        const toY = (value: number) => top + 4 + (1 - (value - min) / span) * (paneHeight - 8);
+
+        if (n > 0) {
+          ctx.strokeStyle = theme === 'dark' ? 'rgba(255,255,255,0.08)' : 'rgba(0,0,0,0.08)';
+          ctx.beginPath();
+          ctx.moveTo(padding.left, top);
+          ctx.lineTo(width - padding.right, top);
+          ctx.stroke();
+        }
+
+        output.levels?.forEach(level => {
+          ctx.strokeStyle = theme === 'dark' ? 'rgba(255,255,255,0.2)' : 'rgba(0,0,0,0.2)';
+          ctx.lineWidth = 1;
+          ctx.setLineDash([3, 3]);
+          ctx.beginPath();
+          ctx.moveTo(padding.left, toY(level));
+          ctx.lineTo(width - padding.right, toY(level));
+          ctx.stroke();
+          ctx.setLineDash([]);
+        });
+
+        if (output.histogram) {
+          const zeroY = toY(0);
+          for (let i = params.startIdx; i < endIdx; i++) {
+            const value = output.histogram[i];
+            if (value === null) continue;
+            ctx.fillStyle = value >= 0 ? 'rgba(14,203,129,0.5)' : 'rgba(246,70,93,0.5)';
+            const y = toY(value);
+            ctx.fillRect(indexToX(i) - candleWidth / 2, Math.min(y, zeroY), candleWidth, Math.max(1, Math.abs(zeroY - y)));
+          }
+        }
+
+        output.lines.forEach(line => strokeSeries(line.values, line.color, toY, line.dashed));
+
+        const value = lastVisibleValue(output.lines[0].values);
+        ctx.font = '10px Inter, sans-serif';
+        ctx.textAlign = 'left';
+        ctx.fillStyle = output.indicator.color;
+        ctx.fillText(`${output.label}${value !== null ? `  ${value.toFixed(2)}` : ''}`, padding.left + 2, top + 12);
+        ctx.fillStyle = axisColor;
+        ctx.fillText(max.toFixed(2), width - padding.right + 5, top + 12);
+        ctx.fillText(min.toFixed(2), width - padding.right + 5, top + paneHeight - 4);
+      });
+    }
+
     // --- Render in-progress drawing preview ---
     const ipd = inProgressRef.current;
     if (ipd) {
@@ -1012,13 +1355,26 @@ function TradingViewChart({
           ctx.fill();
           break;
         }
+        default: {
+          const currentPoint = pixelToChartPoint(cp.x, cp.y, params);
+          if (isAnalysisTool(drawingMode) && currentPoint) {
+            const preview = createAnalysisDrawing(
+              drawingMode,
+              ipd.startPoint,
+              currentPoint,
+              { referralCode, symbol, color: selectedColor, lineWidth: drawingLineWidth },
+              candles
+            );
+            renderAnalysisDrawing(ctx, preview, drawingProjection(params), false);
+          }
+        }
       }
 
       ctx.restore();
     }
 
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [candles, dimensions, theme, currentPrice, offset, zoom, localPositions, drawings, selectedDrawing, inProgressDrawing, drawingMode, selectedColor, drawingLineWidth]);
+  }, [candles, dimensions, theme, currentPrice, offset, zoom, localPositions, drawings, selectedDrawing, inProgressDrawing, drawingMode, selectedColor, drawingLineWidth, overlayOutputs, oscillatorOutputs, oscillatorHeight, granularity, alertLevels]);
 
   // Helper: draw selection handle
   const drawHandle = (ctx: CanvasRenderingContext2D, x: number, y: number, color: string) => {
@@ -1035,6 +1391,7 @@ function TradingViewChart({
   const getCursor = () => {
     if (isDrawingActive) return 'crosshair';
     if (isDragging) {
+      if (dragType === 'pane') return 'row-resize';
       return dragType === 'pan' ? 'grabbing' : 'ns-resize';
     }
     return 'crosshair';
@@ -1072,20 +1429,45 @@ function TradingViewChart({
         onMouseLeave={handleMouseUp}
         onWheel={handleWheel}
         onDoubleClick={handleDoubleClick}
+        onContextMenu={handleContextMenu}
       />
       <div
         style={{
           position: 'absolute',
-          top: 8,
+          top: 6,
           left: 12,
+          display: 'flex',
+          alignItems: 'center',
+          gap: 2,
           color: theme === 'dark' ? '#848e9c' : '#666',
           fontSize: '12px',
           fontFamily: 'Inter, sans-serif',
-          pointerEvents: 'none',
         }}
       >
-        {symbol} • 1m
+        <span style={{ marginRight: 6, pointerEvents: 'none' }}>{symbol}</span>
+        {TIMEFRAMES.map(option => (
+          <button
+            key={option.value}
+            onClick={() => handleTimeframeChange(option.value)}
+            style={{
+              padding: '1px 6px',
+              background: option.value === timeframe ? (theme === 'dark' ? '#2b3139' : '#eaecef') : 'transparent',
+              border: 'none',
+              borderRadius: 3,
+              color: option.value === timeframe ? (theme === 'dark' ? '#eaecef' : '#1e2329') : 'inherit',
+              fontSize: '11px',
+              cursor: 'pointer',
+            }}
+          >
+            {option.label}
+          </button>
+        ))}
       </div>
+      <IndicatorMenu
+        indicators={activeIndicators}
+        onChange={indicators ? undefined : handleIndicatorsChange}
+        theme={theme}
+      />
       <div
         style={{
           position: 'absolute',
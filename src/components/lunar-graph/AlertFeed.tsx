@@ -87,6 +87,14 @@ function AlertTypeIcon({ type }: { type: string }) {
           <line x1="12" y1="16" x2="12.01" y2="16"/>
         </svg>
       );
+    case 'trade_mismatch':
+      return (
+        <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-amber-400" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+          <line x1="12" y1="1" x2="12" y2="23"/>
+          <path d="M17 5H9.5a3.5 3.5 0 0 0 0 7h5a3.5 3.5 0 0 1 0 7H6"/>
+          <line x1="4" y1="4" x2="20" y2="20"/>
+        </svg>
+      );
     default:
       return (
         <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-blue-400" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
@@ -0,0 +1,394 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import {
+  InvestigationCase,
+  CaseAuditEntry,
+  CaseStatus,
+  CasePriority,
+  FraudRing,
+  LunarAlert,
+} from '@/types/lunar-graph';
+
+interface CasePanelProps {
+  investigator: string;
+  onInvestigatorChange: (name: string) => void;
+  activeCaseId: string | null;
+  onActiveCaseChange: (caseId: string | null) => void;
+  selectedRing?: FraudRing | null;
+  selectedAlert?: LunarAlert | null;
+  selectedEntities?: string[];
+  refreshKey?: number; // Bump to reload the active case after an outside change
+  height?: number;
+}
+
+const STATUSES: CaseStatus[] = ['open', 'in_progress', 'pending_review', 'closed'];
+const PRIORITIES: CasePriority[] = ['low', 'medium', 'high', 'critical'];
+
+function getPriorityStyles(priority: CasePriority): string {
+  switch (priority) {
+    case 'critical':
+      return 'bg-red-500/20 text-red-400';
+    case 'high':
+      return 'bg-orange-500/20 text-orange-400';
+    case 'medium':
+      return 'bg-yellow-500/20 text-yellow-400';
+    default:
+      return 'bg-blue-500/20 text-blue-400';
+  }
+}
+
+function formatLabel(value: string): string {
+  return value.replace(/_/g, ' ');
+}
+
+function formatSla(investigationCase: InvestigationCase): { label: string; overdue: boolean } {
+  if (investigationCase.status === 'closed') return { label: 'Closed', overdue: false };
+
+  const remainingMs = new Date(investigationCase.slaDueAt).getTime() - Date.now();
+  const hours = Math.round(Math.abs(remainingMs) / 3600000);
+  const span = hours >= 48 ? `${Math.round(hours / 24)}d` : `${hours}h`;
+  return remainingMs < 0
+    ? { label: `Overdue ${span}`, overdue: true }
+    : { label: `Due in ${span}`, overdue: false };
+}
+
+function describeAudit(entry: CaseAuditEntry): string {
+  const d = entry.details;
+  switch (entry.action) {
+    case 'status_changed':
+    case 'priority_changed':
+      return `${formatLabel(entry.action)}: ${formatLabel(String(d.from))} → ${formatLabel(String(d.to))}`;
+    case 'assigned':
+      return d.to ? `assigned to ${d.to}` : 'unassigned';
+    case 'alerts_linked':
+      return `linked ${(d.alertIds as string[]).length} alert(s)`;
+    case 'rings_linked':
+      return `linked ${(d.fraudRingIds as string[]).length} ring(s)`;
+    case 'entities_linked':
+      return `linked ${(d.entities as string[]).length} entit${(d.entities as string[]).length === 1 ? 'y' : 'ies'}`;
+    case 'evidence_attached':
+      return `attached ${d.type}: ${d.title}`;
+    case 'conversation_attached':
+      return `attached copilot conversation (${d.messageCount} messages)`;
+    default:
+      return formatLabel(entry.action);
+  }
+}
+
+export default function CasePanel({
+  investigator,
+  onInvestigatorChange,
+  activeCaseId,
+  onActiveCaseChange,
+  selectedRing,
+  selectedAlert,
+  selectedEntities = [],
+  refreshKey = 0,
+  height = 500,
+}: CasePanelProps) {
+  const [cases, setCases] = useState<InvestigationCase[]>([]);
+  const [activeCase, setActiveCase] = useState<InvestigationCase | null>(null);
+  const [audit, setAudit] = useState<CaseAuditEntry[]>([]);
+  const [newTitle, setNewTitle] = useState('');
+  const [newPriority, setNewPriority] = useState<CasePriority>('medium');
+  const [note, setNote] = useState('');
+  const [evidenceTitle, setEvidenceTitle] = useState('');
+  const [evidenceUrl, setEvidenceUrl] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadCases = useCallback(async () => {
+    try {
+      const response = await fetch('/api/lunar-graph/cases');
+      const data = await response.json();
+      if (data.success) setCases(data.cases || []);
+    } catch (err) {
+      console.error('Failed to load cases:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadCases();
+  }, [loadCases]);
+
+  useEffect(() => {
+    if (!activeCaseId) {
+      setActiveCase(null);
+      setAudit([]);
+      return;
+    }
+
+    const loadActiveCase = async () => {
+      try {
+        const response = await fetch(`/api/lunar-graph/cases?id=${encodeURIComponent(activeCaseId)}`);
+        const data = await response.json();
+        if (data.success) {
+          setActiveCase(data.case);
+          setAudit(data.audit || []);
+        } else {
+          setError(data.error || 'Failed to load case');
+        }
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load case');
+      }
+    };
+    loadActiveCase();
+  }, [activeCaseId, refreshKey]);
+
+  // Every mutation returns the fresh case and audit trail
+  const submit = useCallback(async (url: string, payload: Record<string, unknown>): Promise<boolean> => {
+    if (!investigator.trim()) {
+      setError('Enter your name before changing cases');
+      return false;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...payload, actor: investigator }),
+      });
+      const data = await response.json();
+      if (!data.success) {
+        setError(data.error || 'Request failed');
+        return false;
+      }
+
+      setActiveCase(data.case);
+      setAudit(data.audit || []);
+      setCases(prev => [data.case, ...prev.filter(c => c.id !== data.case.id)]);
+      onActiveCaseChange(data.case.id);
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed');
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  }, [investigator, onActiveCaseChange]);
+
+  const selectionLinks = {
+    alertIds: selectedAlert ? [selectedAlert.id] : [],
+    fraudRingIds: selectedRing ? [selectedRing.id] : [],
+    entities: selectedEntities,
+  };
+  const hasSelection = selectionLinks.alertIds.length + selectionLinks.fraudRingIds.length + selectionLinks.entities.length > 0;
+
+  const handleCreate = async () => {
+    const title = newTitle.trim() || selectedRing?.name || selectedAlert?.title;
+    if (!title) {
+      setError('Give the case a title');
+      return;
+    }
+    if (await submit('/api/lunar-graph/cases', { title, priority: newPriority, assignee: investigator, ...selectionLinks })) {
+      setNewTitle('');
+    }
+  };
+
+  const handleAddNote = async () => {
+    if (!activeCase || !note.trim()) return;
+    if (await submit('/api/lunar-graph/cases/attach', { caseId: activeCase.id, note })) setNote('');
+  };
+
+  const handleAddEvidence = async () => {
+    if (!activeCase || !evidenceTitle.trim() || !evidenceUrl.trim()) return;
+    const ok = await submit('/api/lunar-graph/cases/attach', {
+      caseId: activeCase.id,
+      evidence: { type: 'link', title: evidenceTitle, url: evidenceUrl },
+    });
+    if (ok) {
+      setEvidenceTitle('');
+      setEvidenceUrl('');
+    }
+  };
+
+  const inputClass = 'w-full bg-white/5 border border-white/10 rounded px-2 py-1.5 text-xs text-white placeholder-gray-500 focus:outline-none focus:border-white/30';
+  const buttonClass = 'px-3 py-1.5 rounded text-xs font-medium bg-white/10 text-white hover:bg-white/20 transition-colors disabled:opacity-40';
+
+  return (
+    <div className="flex flex-col gap-3 overflow-y-auto p-1" style={{ height }}>
+      <input
+        value={investigator}
+        onChange={(e) => onInvestigatorChange(e.target.value)}
+        placeholder="Your name (recorded in the audit trail)"
+        className={inputClass}
+      />
+
+      {error && <div className="text-xs text-red-400">{error}</div>}
+
+      {!activeCase ? (
+        <>
+          {/* New case */}
+          <div className="p-3 rounded-lg bg-white/5 border border-white/10 flex flex-col gap-2">
+            <div className="text-xs font-semibold text-gray-300 uppercase tracking-wider">New Case</div>
+            <input
+              value={newTitle}
+              onChange={(e) => setNewTitle(e.target.value)}
+              placeholder={selectedRing?.name || selectedAlert?.title || 'Case title'}
+              className={inputClass}
+            />
+            <div className="flex items-center gap-2">
+              <select
+                value={newPriority}
+                onChange={(e) => setNewPriority(e.target.value as CasePriority)}
+                className={inputClass}
+              >
+                {PRIORITIES.map(p => <option key={p} value={p}>{p}</option>)}
+              </select>
+              <button onClick={handleCreate} disabled={isSaving} className={buttonClass}>
+                Open
+              </button>
+            </div>
+            {hasSelection && (
+              <div className="text-xs text-gray-500">
+                Links current selection: {selectionLinks.fraudRingIds.length} ring, {selectionLinks.alertIds.length} alert, {selectionLinks.entities.length} entities
+              </div>
+            )}
+          </div>
+
+          {/* Case list */}
+          {cases.length === 0 ? (
+            <div className="text-center text-xs text-gray-500 py-6">No cases yet</div>
+          ) : (
+            cases.map(c => {
+              const sla = formatSla(c);
+              return (
+                <div
+                  key={c.id}
+                  onClick={() => onActiveCaseChange(c.id)}
+                  className="p-3 rounded-lg bg-white/5 border border-white/10 hover:border-white/30 cursor-pointer transition-all"
+                >
+                  <div className="flex items-start justify-between gap-2 mb-1">
+                    <h4 className="text-sm font-medium text-white truncate">{c.title}</h4>
+                    <span className={`px-2 py-0.5 rounded text-xs font-medium ${getPriorityStyles(c.priority)}`}>
+                      {c.priority.toUpperCase()}
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-2 text-xs text-gray-400">
+                    <span className="capitalize">{formatLabel(c.status)}</span>
+                    <span>• {c.assignee || 'Unassigned'}</span>
+                    <span className={sla.overdue ? 'text-red-400' : ''}>• {sla.label}</span>
+                  </div>
+                </div>
+              );
+            })
+          )}
+        </>
+      ) : (
+        <>
+          {/* Case header */}
+          <div className="flex items-start justify-between gap-2">
+            <div className="min-w-0">
+              <h3 className="text-sm font-semibold text-white truncate">{activeCase.title}</h3>
+              <p className="text-xs text-gray-500">Opened by {activeCase.createdBy} • {new Date(activeCase.createdAt).toLocaleString()}</p>
+            </div>
+            <button onClick={() => onActiveCaseChange(null)} className="text-xs text-gray-400 hover:text-white">
+              &larr; All cases
+            </button>
+          </div>
+
+          {/* Workflow fields */}
+          <div className="grid grid-cols-2 gap-2">
+            <select
+              value={activeCase.status}
+              onChange={(e) => submit('/api/lunar-graph/cases/update', { caseId: activeCase.id, status: e.target.value })}
+              disabled={isSaving}
+              className={inputClass}
+            >
+              {STATUSES.map(s => <option key={s} value={s}>{formatLabel(s)}</option>)}
+            </select>
+            <select
+              value={activeCase.priority}
+              onChange={(e) => submit('/api/lunar-graph/cases/update', { caseId: activeCase.id, priority: e.target.value })}
+              disabled={isSaving}
+              className={inputClass}
+            >
+              {PRIORITIES.map(p => <option key={p} value={p}>{p}</option>)}
+            </select>
+            <button
+              onClick={() => submit('/api/lunar-graph/cases/update', { caseId: activeCase.id, assignee: investigator })}
+              disabled={isSaving || activeCase.assignee === investigator}
+              className={buttonClass}
+            >
+              {activeCase.assignee ? `Assignee: ${activeCase.assignee}` : 'Assign to me'}
+            </button>
+            <div className={`text-xs self-center ${formatSla(activeCase).overdue ? 'text-red-400' : 'text-gray-400'}`}>
+              SLA {new Date(activeCase.slaDueAt).toLocaleString()} ({formatSla(activeCase).label})
+            </div>
+          </div>
+
+          {/* Links */}
+          <div className="text-xs text-gray-400">
+            {activeCase.fraudRingIds.length} rings • {activeCase.alertIds.length} alerts • {activeCase.entities.length} entities • {activeCase.conversations.length} conversations
+          </div>
+          {hasSelection && (
+            <button
+              onClick={() => submit('/api/lunar-graph/cases/attach', { caseId: activeCase.id, ...selectionLinks })}
+              disabled={isSaving}
+              className={buttonClass}
+            >
+              Link current selection
+            </button>
+          )}
+
+          {/* Notes */}
+          <div className="flex flex-col gap-2">
+            <div className="text-xs font-semibold text-gray-300 uppercase tracking-wider">Notes ({activeCase.notes.length})</div>
+            {activeCase.notes.map(n => (
+              <div key={n.id} className="p-2 rounded bg-white/5 text-xs">
+                <div className="text-gray-500 mb-1">{n.author} • {new Date(n.createdAt).toLocaleString()}</div>
+                <div className="text-gray-300 whitespace-pre-wrap">{n.content}</div>
+              </div>
+            ))}
+            <textarea
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Add a note"
+              rows={2}
+              className={inputClass}
+            />
+            <button onClick={handleAddNote} disabled={isSaving || !note.trim()} className={buttonClass}>
+              Add note
+            </button>
+          </div>
+
+          {/* Evidence */}
+          <div className="flex flex-col gap-2">
+            <div className="text-xs font-semibold text-gray-300 uppercase tracking-wider">Evidence ({activeCase.evidence.length})</div>
+            {activeCase.evidence.map(e => (
+              <div key={e.id} className="text-xs">
+                {e.url ? (
+                  <a href={e.url} target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:text-blue-300">{e.title}</a>
+                ) : (
+                  <span className="text-gray-300">{e.title}</span>
+                )}
+                <span className="text-gray-500"> • {e.type} • {e.addedBy}</span>
+              </div>
+            ))}
+            <div className="flex gap-2">
+              <input value={evidenceTitle} onChange={(e) => setEvidenceTitle(e.target.value)} placeholder="Title" className={inputClass} />
+              <input value={evidenceUrl} onChange={(e) => setEvidenceUrl(e.target.value)} placeholder="https://..." className={inputClass} />
+            </div>
+            <button onClick={handleAddEvidence} disabled={isSaving || !evidenceTitle.trim() || !evidenceUrl.trim()} className={buttonClass}>
+              Attach link
+            </button>
+          </div>
+
+          {/* Audit trail */}
+          <div className="flex flex-col gap-1">
+            <div className="text-xs font-semibold text-gray-300 uppercase tracking-wider">Audit Trail</div>
+            {audit.map(entry => (
+              <div key={entry.id} className="text-xs text-gray-400">
+                <span className="text-gray-500">{new Date(entry.createdAt).toLocaleString()}</span>{' '}
+                <span className="text-gray-300">{entry.actor}</span> {describeAudit(entry)}
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -18,6 +18,7 @@ interface InvestigationCopilotProps {
   analysis?: CombinedAnalysis | null;
   fraudRings?: FraudRing[];
   height?: number;
+  onAttachConversation?: (messages: CopilotMessage[]) => void; // Shown when a case is active
 }
 
 // Helper to render inline bold text like "**Type**: value"
@@ -67,6 +68,7 @@ export default function InvestigationCopilot({
   analysis,
   fraudRings = [],
   height = 400,
+  onAttachConversation,
 }: InvestigationCopilotProps) {
   const [messages, setMessages] = useState<CopilotMessage[]>([INITIAL_MESSAGE]);
   const [input, setInput] = useState('');
@@ -112,6 +114,7 @@ export default function InvestigationCopilot({
             type: n.type,
             riskScore: n.riskScore,
             email: n.metadata.email,
+            riskFactors: n.riskBreakdown?.factors.map(f => `${f.label} +${f.points}`),
           })),
       };
     }
@@ -317,6 +320,15 @@ export default function InvestigationCopilot({
               Risk: {analysis.overallRiskScore}/100
             </span>
           )}
+          {onAttachConversation && (
+            <button
+              onClick={() => onAttachConversation(messages.filter(m => m.id !== INITIAL_MESSAGE.id))}
+              disabled={messages.length <= 1}
+              className={`${analysis ? '' : 'ml-auto '}text-xs text-blue-400 hover:text-blue-300 transition-colors disabled:opacity-40`}
+            >
+              Attach to case
+            </button>
+          )}
         </div>
         {(selectedEntities.length > 0 || fraudRings.length > 0) && (
           <div className="mt-1 text-xs text-gray-400">
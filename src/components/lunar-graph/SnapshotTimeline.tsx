@@ -0,0 +1,170 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { GraphSnapshotSummary, SnapshotDiff } from '@/types/lunar-graph';
+
+interface SnapshotTimelineProps {
+  onHighlight?: (nodeIds: string[]) => void;
+  refreshKey?: string; // Reload the list when this changes (e.g. a new analysis run id)
+}
+
+function formatTime(iso: string): string {
+  return new Date(iso).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+}
+
+function DiffStat({ label, value, color }: { label: string; value: number; color: string }) {
+  return (
+    <div className="text-center">
+      <div className={`text-sm font-medium ${value > 0 ? color : 'text-gray-500'}`}>{value}</div>
+      <div className="text-xs text-gray-500">{label}</div>
+    </div>
+  );
+}
+
+export default function SnapshotTimeline({ onHighlight, refreshKey }: SnapshotTimelineProps) {
+  const [snapshots, setSnapshots] = useState<GraphSnapshotSummary[]>([]); // Oldest first
+  const [fromIndex, setFromIndex] = useState(0);
+  const [toIndex, setToIndex] = useState(0);
+  const [diff, setDiff] = useState<SnapshotDiff | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    const loadSnapshots = async () => {
+      try {
+        const response = await fetch('/api/lunar-graph/snapshots');
+        const data = await response.json();
+        if (data.success) {
+          const ordered: GraphSnapshotSummary[] = [...(data.snapshots || [])].reverse();
+          setSnapshots(ordered);
+          setFromIndex(Math.max(0, ordered.length - 2));
+          setToIndex(Math.max(0, ordered.length - 1));
+        }
+      } catch (err) {
+        console.error('Failed to load snapshots:', err);
+      }
+    };
+    loadSnapshots();
+  }, [refreshKey]);
+
+  useEffect(() => {
+    const from = snapshots[fromIndex];
+    const to = snapshots[toIndex];
+    if (!from || !to || from.id === to.id) {
+      setDiff(null);
+      return;
+    }
+
+    const loadDiff = async () => {
+      setIsLoading(true);
+      try {
+        const response = await fetch(`/api/lunar-graph/snapshots?from=${from.id}&to=${to.id}`);
+        const data = await response.json();
+        setDiff(data.success ? data.diff : null);
+      } catch (err) {
+        console.error('Failed to diff snapshots:', err);
+        setDiff(null);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    loadDiff();
+  }, [snapshots, fromIndex, toIndex]);
+
+  if (snapshots.length < 2) {
+    return (
+      <div className="text-center text-xs text-gray-500 py-3">
+        Run analysis at least twice to compare graph snapshots
+      </div>
+    );
+  }
+
+  const highlightChanges = () => {
+    if (!diff || !onHighlight) return;
+    onHighlight([...new Set([
+      ...diff.newNodes.map(n => n.id),
+      ...diff.newFraudEdges.flatMap(e => [e.source, e.target]),
+      ...diff.riskMovements.map(m => m.nodeId),
+      ...diff.grownRings.flatMap(r => r.addedEntities),
+    ])]);
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      {/* Scrubbers */}
+      <div className="grid grid-cols-2 gap-3">
+        <label className="text-xs text-gray-400">
+          From: {formatTime(snapshots[fromIndex].createdAt)}
+          <input
+            type="range"
+            min={0}
+            max={snapshots.length - 1}
+            value={fromIndex}
+            onChange={(e) => setFromIndex(Number(e.target.value))}
+            className="w-full"
+          />
+        </label>
+        <label className="text-xs text-gray-400">
+          To: {formatTime(snapshots[toIndex].createdAt)}
+          <input
+            type="range"
+            min={0}
+            max={snapshots.length - 1}
+            value={toIndex}
+            onChange={(e) => setToIndex(Number(e.target.value))}
+            className="w-full"
+          />
+        </label>
+      </div>
+
+      {isLoading && <div className="text-xs text-gray-500">Comparing snapshots...</div>}
+
+      {diff && !isLoading && (
+        <>
+          <div className="grid grid-cols-4 gap-2">
+            <DiffStat label="New nodes" value={diff.newNodes.length} color="text-blue-400" />
+            <DiffStat label="New fraud edges" value={diff.newFraudEdges.length} color="text-red-400" />
+            <DiffStat label="Risk moves" value={diff.riskMovements.length} color="text-orange-400" />
+            <DiffStat label="Rings grew" value={diff.grownRings.length + diff.newRings.length} color="text-red-400" />
+          </div>
+
+          {diff.riskMovements.length > 0 && (
+            <div className="text-xs">
+              {diff.riskMovements.slice(0, 5).map(m => (
+                <div key={m.nodeId} className="flex justify-between text-gray-400">
+                  <span className="truncate">{m.label}</span>
+                  <span className={m.delta > 0 ? 'text-red-400' : 'text-green-400'}>
+                    {m.before} → {m.after} ({m.delta > 0 ? '+' : ''}{m.delta})
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {(diff.grownRings.length > 0 || diff.newRings.length > 0) && (
+            <div className="text-xs">
+              {diff.newRings.map(r => (
+                <div key={r.id} className="text-gray-400">
+                  <span className="text-red-400">New</span> {r.name}: {r.entities.length} entities, ${r.exposure.toFixed(0)}
+                </div>
+              ))}
+              {diff.grownRings.map(r => (
+                <div key={r.ringId} className="text-gray-400">
+                  <span className="text-orange-400">Grew</span> {r.name}: +{r.addedEntities.length} entities, ${r.exposureBefore.toFixed(0)} → ${r.exposureAfter.toFixed(0)}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {onHighlight && (
+            <button
+              onClick={highlightChanges}
+              className="text-xs text-blue-400 hover:text-blue-300 transition-colors self-start"
+            >
+              Highlight changes on graph
+            </button>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
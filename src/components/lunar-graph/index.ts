@@ -5,3 +5,5 @@ export { default as InvestigationCopilot } from './InvestigationCopilot';
 export { default as FraudRingCard, FraudRingCardCompact } from './FraudRingCard';
 export { default as AlertFeed, AlertSummary } from './AlertFeed';
 export { default as AgentStatusPanel, AgentStatusCompact } from './AgentStatusPanel';
+export { default as CasePanel } from './CasePanel';
+export { default as SnapshotTimeline } from './SnapshotTimeline';
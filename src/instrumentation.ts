@@ -0,0 +1,9 @@
+// Server startup hook (Next.js instrumentation)
+// Starts the background analysis scheduler once per Node.js server process
+
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { startAnalysisScheduler } = await import('@/lib/lunar-graph/job-runner');
+    startAnalysisScheduler();
+  }
+}
@@ -2,6 +2,7 @@
 
 import { Trade, CorrelationResult, GraphNode, GraphEdge } from '@/types';
 import { getTrades, getAllAccounts, getAffiliates, getClients, getPartner } from './store';
+import { isOppositeContract } from './contracts';
 
 // Analyze timing correlation between two accounts
 function analyzeTimingCorrelation(tradesA: Trade[], tradesB: Trade[]): { score: number; matches: Array<{ tradeA: Trade; tradeB: Trade; timeDelta: number }> } {
@@ -34,10 +35,7 @@ function analyzeDirectionCorrelation(matches: Array<{ tradeA: Trade; tradeB: Tra
 
   let oppositeCount = 0;
   for (const { tradeA, tradeB } of matches) {
-    if (
-      (tradeA.contractType === 'CALL' && tradeB.contractType === 'PUT') ||
-      (tradeA.contractType === 'PUT' && tradeB.contractType === 'CALL')
-    ) {
+    if (isOppositeContract(tradeA.contractType, tradeB.contractType, tradeA.barrier, tradeB.barrier)) {
       oppositeCount++;
     }
   }
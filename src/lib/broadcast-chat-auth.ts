@@ -0,0 +1,47 @@
+// Broadcast chat identity
+// Viewers prove who they are once with their Deriv token; the server answers with a signed chat token for their
+// Deriv login id, which every later message carries instead of an id the browser could make up
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { withDerivSession } from '@/lib/deriv-server';
+
+const CHAT_TOKEN_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Without BROADCAST_CHAT_SECRET tokens are signed with a per-process key and stop working on restart
+const memory = globalThis as typeof globalThis & { __lunarBroadcastChatSecret?: string };
+
+function chatSecret(): string {
+  if (process.env.BROADCAST_CHAT_SECRET) return process.env.BROADCAST_CHAT_SECRET;
+  return memory.__lunarBroadcastChatSecret ?? (memory.__lunarBroadcastChatSecret = randomBytes(32).toString('hex'));
+}
+
+function sign(payload: string): string {
+  return createHmac('sha256', chatSecret()).update(payload).digest('base64url');
+}
+
+// Resolves the Deriv login id a token belongs to; rejects with Deriv's error (code InvalidToken) otherwise
+export async function resolveDerivLoginIdAsync(derivToken: string): Promise<string> {
+  const response = await withDerivSession(null, request => request({ authorize: derivToken }));
+  const loginId = response?.authorize?.loginid;
+  if (typeof loginId !== 'string' || !loginId) throw new Error('Deriv did not return a login id');
+  return loginId;
+}
+
+export function issueChatToken(participantId: string): string {
+  const payload = `${Buffer.from(participantId).toString('base64url')}.${Date.now() + CHAT_TOKEN_TTL_MS}`;
+  return `${payload}.${sign(payload)}`;
+}
+
+// The participant a chat token was issued to, or null if it is malformed, tampered with or expired
+export function verifyChatToken(token: unknown): string | null {
+  if (typeof token !== 'string') return null;
+  const [encodedId, expiresAt, signature] = token.split('.');
+  if (!encodedId || !expiresAt || !signature) return null;
+
+  const expected = Buffer.from(sign(`${encodedId}.${expiresAt}`));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+  if (!(Number(expiresAt) > Date.now())) return null;
+
+  return Buffer.from(encodedId, 'base64url').toString() || null;
+}
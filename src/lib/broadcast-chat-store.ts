@@ -0,0 +1,269 @@
+// Broadcast chat store
+// Server-side chat for affiliate broadcasts: messages per referral code and symbol, pins, mutes and bans
+
+import { BroadcastChatMessage, BroadcastModeration, BroadcastModerationAction, BroadcastRole } from '@/types';
+import { supabaseAdmin, isSupabaseConfigured } from '@/lib/supabase';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const db = supabaseAdmin as any;
+
+const MAX_CHAT_MESSAGE_LENGTH = 500;
+const MAX_AUTHOR_NAME_LENGTH = 40;
+const MUTE_MINUTES = 10;
+const MAX_LISTED_MESSAGES = 200;
+const MAX_MEMORY_MESSAGES = 2000;
+
+export interface NewChatMessage {
+  referralCode: string;
+  symbol: string;
+  authorId: string;
+  authorName: string;
+  role: BroadcastRole;
+  text: string;
+}
+
+// Without Supabase, chat lives in server memory next to the broadcast hub
+interface MemoryChat {
+  messages: BroadcastChatMessage[];
+  moderation: BroadcastModeration[];
+}
+
+const memory = globalThis as typeof globalThis & { __lunarBroadcastChat?: MemoryChat };
+const memoryChat = memory.__lunarBroadcastChat ?? (memory.__lunarBroadcastChat = { messages: [], moderation: [] });
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function mapMessageRow(row: any): BroadcastChatMessage {
+  return {
+    id: row.id,
+    referralCode: row.referral_code,
+    symbol: row.symbol,
+    authorId: row.author_id,
+    authorName: row.author_name,
+    role: row.role,
+    text: row.body,
+    pinnedDrawingId: row.pinned_drawing_id || undefined,
+    createdAt: row.created_at,
+  };
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function mapModerationRow(row: any): BroadcastModeration {
+  return {
+    referralCode: row.referral_code,
+    participantId: row.participant_id,
+    participantName: row.participant_name,
+    action: row.action,
+    expiresAt: row.expires_at || undefined,
+    createdAt: row.created_at,
+  };
+}
+
+function isActive(moderation: BroadcastModeration, now = Date.now()): boolean {
+  return !moderation.expiresAt || new Date(moderation.expiresAt).getTime() > now;
+}
+
+// ============ VALIDATION ============
+
+export function validateChatMessage(input: Partial<NewChatMessage>): string | null {
+  if (!input.referralCode || !input.symbol) return 'referralCode and symbol are required';
+  if (!input.authorId) return 'Connect your account to chat';
+  if (!input.authorName?.trim()) return 'Enter a name to chat';
+  if (input.authorName.trim().length > MAX_AUTHOR_NAME_LENGTH) return `Names are limited to ${MAX_AUTHOR_NAME_LENGTH} characters`;
+  if (!input.text?.trim()) return 'Message is empty';
+  if (input.text.trim().length > MAX_CHAT_MESSAGE_LENGTH) return `Messages are limited to ${MAX_CHAT_MESSAGE_LENGTH} characters`;
+  return null;
+}
+
+// Why a moderated participant's message is refused
+export function describeModeration(moderation: BroadcastModeration): string {
+  if (moderation.action === 'ban') return 'You have been banned from this chat';
+  const minutes = moderation.expiresAt
+    ? Math.max(1, Math.ceil((new Date(moderation.expiresAt).getTime() - Date.now()) / 60000))
+    : MUTE_MINUTES;
+  return `You are muted for ${minutes} more minute${minutes !== 1 ? 's' : ''}`;
+}
+
+// ============ MESSAGES ============
+
+// Oldest first; `from`/`to` bound a session's replay, otherwise the latest messages are returned
+export async function listChatMessagesAsync(
+  referralCode: string,
+  symbol: string,
+  range: { from?: string; to?: string } = {}
+): Promise<BroadcastChatMessage[]> {
+  if (!isSupabaseConfigured()) {
+    return memoryChat.messages
+      .filter(m =>
+        m.referralCode === referralCode &&
+        m.symbol === symbol &&
+        (!range.from || m.createdAt >= range.from) &&
+        (!range.to || m.createdAt <= range.to)
+      )
+      .slice(-MAX_LISTED_MESSAGES);
+  }
+
+  let query = db
+    .from('broadcast_chat_messages')
+    .select('*')
+    .eq('referral_code', referralCode)
+    .eq('symbol', symbol)
+    .order('created_at', { ascending: false })
+    .limit(MAX_LISTED_MESSAGES);
+
+  if (range.from) query = query.gte('created_at', range.from);
+  if (range.to) query = query.lte('created_at', range.to);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data || []).map(mapMessageRow).reverse();
+}
+
+export async function postChatMessageAsync(input: NewChatMessage): Promise<BroadcastChatMessage> {
+  if (!isSupabaseConfigured()) {
+    const message: BroadcastChatMessage = {
+      id: crypto.randomUUID(),
+      referralCode: input.referralCode,
+      symbol: input.symbol,
+      authorId: input.authorId,
+      authorName: input.authorName.trim(),
+      role: input.role,
+      text: input.text.trim(),
+      createdAt: new Date().toISOString(),
+    };
+    memoryChat.messages.push(message);
+    memoryChat.messages.splice(0, Math.max(0, memoryChat.messages.length - MAX_MEMORY_MESSAGES));
+    return message;
+  }
+
+  const { data, error } = await db
+    .from('broadcast_chat_messages')
+    .insert({
+      referral_code: input.referralCode,
+      symbol: input.symbol,
+      author_id: input.authorId,
+      author_name: input.authorName.trim(),
+      role: input.role,
+      body: input.text.trim(),
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return mapMessageRow(data);
+}
+
+// Pins a message to a drawing, or unpins it with null; returns null if the message is not in this chat
+export async function pinChatMessageAsync(
+  referralCode: string,
+  messageId: string,
+  drawingId: string | null
+): Promise<BroadcastChatMessage | null> {
+  if (!isSupabaseConfigured()) {
+    const index = memoryChat.messages.findIndex(m => m.id === messageId && m.referralCode === referralCode);
+    if (index === -1) return null;
+    const message = { ...memoryChat.messages[index], pinnedDrawingId: drawingId || undefined };
+    memoryChat.messages[index] = message;
+    return message;
+  }
+
+  const { data, error } = await db
+    .from('broadcast_chat_messages')
+    .update({ pinned_drawing_id: drawingId })
+    .eq('id', messageId)
+    .eq('referral_code', referralCode)
+    .select()
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? mapMessageRow(data) : null;
+}
+
+// ============ MODERATION ============
+
+export async function listModerationAsync(referralCode: string): Promise<BroadcastModeration[]> {
+  if (!isSupabaseConfigured()) {
+    return memoryChat.moderation.filter(m => m.referralCode === referralCode && isActive(m));
+  }
+
+  const { data, error } = await db
+    .from('broadcast_chat_moderation')
+    .select('*')
+    .eq('referral_code', referralCode)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return (data || []).map(mapModerationRow).filter((m: BroadcastModeration) => isActive(m));
+}
+
+export async function getActiveModerationAsync(referralCode: string, participantId: string): Promise<BroadcastModeration | null> {
+  if (!isSupabaseConfigured()) {
+    return memoryChat.moderation.find(m => m.referralCode === referralCode && m.participantId === participantId && isActive(m)) ?? null;
+  }
+
+  const { data, error } = await db
+    .from('broadcast_chat_moderation')
+    .select('*')
+    .eq('referral_code', referralCode)
+    .eq('participant_id', participantId)
+    .maybeSingle();
+
+  if (error) throw error;
+  const moderation = data ? mapModerationRow(data) : null;
+  return moderation && isActive(moderation) ? moderation : null;
+}
+
+// Replaces whatever applied to the participant before: a ban can follow a mute and vice versa
+export async function moderateParticipantAsync(
+  referralCode: string,
+  participantId: string,
+  participantName: string,
+  action: BroadcastModerationAction,
+  createdBy?: string
+): Promise<BroadcastModeration> {
+  const moderation: BroadcastModeration = {
+    referralCode,
+    participantId,
+    participantName: participantName.trim().slice(0, MAX_AUTHOR_NAME_LENGTH) || participantId,
+    action,
+    expiresAt: action === 'mute' ? new Date(Date.now() + MUTE_MINUTES * 60000).toISOString() : undefined,
+    createdAt: new Date().toISOString(),
+  };
+
+  if (!isSupabaseConfigured()) {
+    memoryChat.moderation = memoryChat.moderation.filter(m => !(m.referralCode === referralCode && m.participantId === participantId));
+    memoryChat.moderation.push(moderation);
+    return moderation;
+  }
+
+  const { data, error } = await db
+    .from('broadcast_chat_moderation')
+    .upsert({
+      referral_code: referralCode,
+      participant_id: participantId,
+      participant_name: moderation.participantName,
+      action,
+      expires_at: moderation.expiresAt ?? null,
+      created_by: createdBy ?? null,
+      created_at: moderation.createdAt,
+    }, { onConflict: 'referral_code,participant_id' })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return mapModerationRow(data);
+}
+
+export async function liftModerationAsync(referralCode: string, participantId: string): Promise<void> {
+  if (!isSupabaseConfigured()) {
+    memoryChat.moderation = memoryChat.moderation.filter(m => !(m.referralCode === referralCode && m.participantId === participantId));
+    return;
+  }
+
+  const { error } = await db
+    .from('broadcast_chat_moderation')
+    .delete()
+    .eq('referral_code', referralCode)
+    .eq('participant_id', participantId);
+
+  if (error) throw error;
+}
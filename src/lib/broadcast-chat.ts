@@ -0,0 +1,115 @@
+// Broadcast chat
+// Client calls to /api/broadcast/chat, plus helpers the chat panel and replay share
+
+import { BroadcastChatMessage, BroadcastModeration, BroadcastModerationAction, Drawing } from '@/types';
+import { broadcastAccessToken } from '@/lib/broadcast-realtime';
+import { drawingLabel } from '@/lib/drawings';
+
+const CHAT_ENDPOINT = '/api/broadcast/chat';
+
+async function requestJson(url: string, init?: RequestInit) {
+  const token = await broadcastAccessToken();
+  const response = await fetch(url, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+  });
+  const body = await response.json().catch(() => null);
+  if (!response.ok || !body?.success) {
+    throw new Error(body?.error || `Request failed (${response.status})`);
+  }
+  return body;
+}
+
+function postAction(payload: Record<string, unknown>) {
+  return requestJson(CHAT_ENDPOINT, { method: 'POST', body: JSON.stringify(payload) });
+}
+
+// ============ MESSAGES ============
+
+export interface ChatIdentity {
+  participantId: string; // The viewer's Deriv login id
+  chatToken: string;
+}
+
+// Viewers trade their Deriv token for a chat token once; messages then carry the token, not a self-chosen id
+export async function joinChat(referralCode: string, derivToken: string): Promise<ChatIdentity> {
+  const body = await postAction({ action: 'join', referralCode, derivToken });
+  return { participantId: body.participantId, chatToken: body.chatToken };
+}
+
+export async function fetchChatMessages(referralCode: string, symbol: string): Promise<BroadcastChatMessage[]> {
+  const params = new URLSearchParams({ referralCode, symbol });
+  const body = await requestJson(`${CHAT_ENDPOINT}?${params}`);
+  return body.messages;
+}
+
+// Viewers post under the login id their chat token names; the affiliate posts as the host of their referral code
+export async function sendChatMessage(message: {
+  referralCode: string;
+  symbol: string;
+  text: string;
+  authorName: string;
+  chatToken?: string;
+  asHost?: boolean;
+}): Promise<BroadcastChatMessage> {
+  const body = await postAction({
+    action: 'send',
+    referralCode: message.referralCode,
+    symbol: message.symbol,
+    text: message.text,
+    authorName: message.authorName,
+    chatToken: message.chatToken,
+    role: message.asHost ? 'host' : 'viewer',
+  });
+  return body.message;
+}
+
+export async function pinChatMessage(referralCode: string, messageId: string, drawingId: string | null): Promise<BroadcastChatMessage> {
+  const body = await postAction({ action: 'pin', referralCode, messageId, drawingId });
+  return body.message;
+}
+
+// Inserts a new message or replaces a re-pinned one, keeping the list in posting order
+export function mergeChatMessage(messages: BroadcastChatMessage[], message: BroadcastChatMessage): BroadcastChatMessage[] {
+  const index = messages.findIndex(m => m.id === message.id);
+  if (index !== -1) {
+    const next = [...messages];
+    next[index] = message;
+    return next;
+  }
+  return [...messages, message].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+// ============ MODERATION ============
+
+export async function fetchChatModeration(referralCode: string): Promise<BroadcastModeration[]> {
+  const params = new URLSearchParams({ referralCode, moderation: '1' });
+  const body = await requestJson(`${CHAT_ENDPOINT}?${params}`);
+  return body.moderation;
+}
+
+export async function moderateChatParticipant(
+  referralCode: string,
+  participantId: string,
+  participantName: string,
+  action: BroadcastModerationAction
+): Promise<BroadcastModeration> {
+  const body = await postAction({ action, referralCode, participantId, participantName });
+  return body.moderation;
+}
+
+export async function liftChatModeration(referralCode: string, participantId: string): Promise<void> {
+  await postAction({ action: 'lift', referralCode, participantId });
+}
+
+// ============ DISPLAY ============
+
+// Short name for the drawing a message is pinned to
+export function pinnedDrawingLabel(drawings: Drawing[], drawingId: string): string {
+  const drawing = drawings.find(d => d.id === drawingId);
+  if (!drawing) return 'a removed drawing';
+  return drawingLabel(drawing);
+}
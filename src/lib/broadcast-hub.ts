@@ -0,0 +1,110 @@
+// Broadcast hub
+// In-process fan-out behind the /api/broadcast SSE route, the stand-in for Supabase Realtime when it is not configured
+
+import { BroadcastChatMessage, BroadcastRole, BroadcastUpdate } from '@/types';
+
+export type BroadcastHubEvent = 'update' | 'viewers' | 'chat';
+
+// Chat panels listen alongside hosts and viewers without counting as either
+export type BroadcastHubRole = BroadcastRole | 'chat';
+
+type Send = (event: BroadcastHubEvent, data: unknown) => void;
+
+interface Room {
+  updates: Map<string, BroadcastUpdate>; // Latest live update per symbol, replayed to viewers as they join
+  listeners: Map<string, { role: BroadcastHubRole; send: Send }>;
+}
+
+// Kept on globalThis so every route bundle, and dev-mode reloads, share the same rooms
+const hub = globalThis as typeof globalThis & { __lunarBroadcastRooms?: Map<string, Room> };
+const rooms = hub.__lunarBroadcastRooms ?? (hub.__lunarBroadcastRooms = new Map<string, Room>());
+
+function getRoom(referralCode: string): Room {
+  let room = rooms.get(referralCode);
+  if (!room) {
+    room = { updates: new Map(), listeners: new Map() };
+    rooms.set(referralCode, room);
+  }
+  return room;
+}
+
+function viewerCount(room: Room): number {
+  let count = 0;
+  room.listeners.forEach(listener => {
+    if (listener.role === 'viewer') count++;
+  });
+  return count;
+}
+
+function announceViewers(room: Room): void {
+  const count = viewerCount(room);
+  room.listeners.forEach(listener => {
+    if (listener.role === 'host') listener.send('viewers', { count });
+  });
+}
+
+function pruneRoom(referralCode: string, room: Room): void {
+  if (room.listeners.size === 0 && room.updates.size === 0) {
+    rooms.delete(referralCode);
+  }
+}
+
+// ============ ROOMS ============
+
+// Returns the function that removes the listener again
+export function joinBroadcastRoom(referralCode: string, role: BroadcastHubRole, send: Send): () => void {
+  const room = getRoom(referralCode);
+  const id = crypto.randomUUID();
+  room.listeners.set(id, { role, send });
+
+  if (role === 'viewer') {
+    room.updates.forEach(update => send('update', update));
+  }
+  announceViewers(room);
+
+  return () => {
+    if (!room.listeners.delete(id)) return;
+    announceViewers(room);
+    pruneRoom(referralCode, room);
+  };
+}
+
+// The latest live update for a symbol, if the affiliate is broadcasting it
+export function getBroadcastUpdate(referralCode: string, symbol: string): BroadcastUpdate | null {
+  return rooms.get(referralCode)?.updates.get(symbol) ?? null;
+}
+
+// Returns how many viewers the update reached
+export function publishBroadcastUpdate(update: BroadcastUpdate): number {
+  const room = getRoom(update.referralCode);
+
+  if (update.isLive) {
+    room.updates.set(update.symbol, update);
+  } else {
+    room.updates.delete(update.symbol);
+  }
+
+  let delivered = 0;
+  room.listeners.forEach(listener => {
+    if (listener.role !== 'viewer') return;
+    listener.send('update', update);
+    delivered++;
+  });
+
+  pruneRoom(update.referralCode, room);
+  return delivered;
+}
+
+// New and re-pinned messages go to every open chat panel of the referral code
+export function publishChatMessage(message: BroadcastChatMessage): number {
+  const room = rooms.get(message.referralCode);
+  if (!room) return 0;
+
+  let delivered = 0;
+  room.listeners.forEach(listener => {
+    if (listener.role !== 'chat') return;
+    listener.send('chat', message);
+    delivered++;
+  });
+  return delivered;
+}
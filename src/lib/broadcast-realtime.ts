@@ -0,0 +1,288 @@
+// Broadcast realtime
+// Pushes an affiliate's analysis to connected client charts. Writes always go through /api/broadcast; clients
+// follow the table over Supabase Realtime when configured, or the route's SSE stand-in otherwise
+
+import { v4 as uuidv4 } from 'uuid';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { BroadcastChatMessage, BroadcastRole, BroadcastUpdate } from '@/types';
+import { supabase, isSupabaseConfigured } from '@/lib/supabase';
+import { sanitizeIndicators } from '@/lib/indicators';
+import { sanitizeDrawings } from '@/lib/drawings';
+
+const SSE_ENDPOINT = '/api/broadcast';
+
+// Partner-wide broadcasts from /broadcast go out under this code; every client's trade page listens to it
+export const PARTNER_REFERRAL_CODE = 'partner';
+
+export interface BroadcastHost {
+  publish: (update: BroadcastUpdate) => Promise<void>; // Rejects with the route's error, e.g. when signed out
+  close: () => void;
+}
+
+export interface BroadcastHostHandlers {
+  onViewers: (count: number) => void;
+  onStatus?: (connected: boolean) => void;
+}
+
+export interface BroadcastViewerHandlers {
+  onUpdate: (update: BroadcastUpdate) => void;
+  onStatus?: (connected: boolean) => void;
+}
+
+export interface BroadcastChatHandlers {
+  onMessage: (message: BroadcastChatMessage) => void; // New messages and pin changes alike
+  onStatus?: (connected: boolean) => void;
+}
+
+// Updates come from another browser (or the SSE route); anything malformed is dropped
+export function sanitizeBroadcastUpdate(value: unknown): BroadcastUpdate | null {
+  if (!value || typeof value !== 'object') return null;
+  const raw = value as Record<string, unknown>;
+  if (typeof raw.referralCode !== 'string' || !raw.referralCode) return null;
+  if (typeof raw.symbol !== 'string' || !raw.symbol) return null;
+
+  return {
+    referralCode: raw.referralCode,
+    symbol: raw.symbol,
+    isLive: raw.isLive === true,
+    drawings: sanitizeDrawings(raw.drawings),
+    indicators: sanitizeIndicators(raw.indicators),
+    updatedAt: typeof raw.updatedAt === 'string' ? raw.updatedAt : new Date().toISOString(),
+  };
+}
+
+function channelFor(referralCode: string, role: BroadcastRole): RealtimeChannel {
+  return supabase.channel(`broadcast:${referralCode}`, {
+    config: {
+      broadcast: { self: false },
+      presence: { key: `${role}-${uuidv4()}` },
+    },
+  });
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function mapBroadcastRow(row: any): unknown {
+  if (!row) return null;
+  return {
+    referralCode: row.referral_code,
+    symbol: row.symbol,
+    isLive: row.is_live,
+    drawings: typeof row.drawings === 'string' ? JSON.parse(row.drawings) : row.drawings,
+    indicators: row.indicators,
+    updatedAt: row.updated_at,
+  };
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function mapChatRow(row: any): BroadcastChatMessage | null {
+  if (!row?.id) return null;
+  return {
+    id: row.id,
+    referralCode: row.referral_code,
+    symbol: row.symbol,
+    authorId: row.author_id,
+    authorName: row.author_name,
+    role: row.role,
+    text: row.body,
+    pinnedDrawingId: row.pinned_drawing_id || undefined,
+    createdAt: row.created_at,
+  };
+}
+
+function sseUrl(referralCode: string, role: BroadcastRole | 'chat'): string {
+  return `${SSE_ENDPOINT}?referralCode=${encodeURIComponent(referralCode)}&role=${role}`;
+}
+
+// ============ AFFILIATE SIGN-IN ============
+
+// Magic link back to the current page; the route matches the signed-in email against the affiliate's
+export async function sendBroadcastSignInLink(email: string): Promise<void> {
+  const { error } = await supabase.auth.signInWithOtp({
+    email: email.trim(),
+    options: { emailRedirectTo: window.location.href, shouldCreateUser: true },
+  });
+  if (error) throw error;
+}
+
+export async function signOutOfBroadcast(): Promise<void> {
+  await supabase.auth.signOut();
+}
+
+// Calls back with the signed-in email (or null) now and on every change; returns the unsubscribe function
+export function onBroadcastSessionChange(callback: (email: string | null) => void): () => void {
+  supabase.auth.getSession().then(({ data }) => callback(data.session?.user.email ?? null));
+  const { data } = supabase.auth.onAuthStateChange((_event, session) => callback(session?.user.email ?? null));
+  return () => data.subscription.unsubscribe();
+}
+
+// The affiliate's Supabase access token, sent to the broadcast routes as a Bearer token
+export async function broadcastAccessToken(): Promise<string | null> {
+  if (!isSupabaseConfigured()) return null;
+  const { data } = await supabase.auth.getSession();
+  return data.session?.access_token ?? null;
+}
+
+// ============ AFFILIATE SIDE ============
+
+async function postUpdate(update: BroadcastUpdate): Promise<void> {
+  const token = await broadcastAccessToken();
+  const response = await fetch(SSE_ENDPOINT, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+    body: JSON.stringify(update),
+  });
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error || `Broadcast failed (${response.status})`);
+  }
+}
+
+/**
+ * Opens the affiliate's side of the channel for presence, so it can report how many clients watch.
+ * Without Supabase the hub only lives in server memory, so the latest update per symbol is re-sent
+ * whenever the stream reconnects.
+ */
+export function hostBroadcast(referralCode: string, handlers: BroadcastHostHandlers): BroadcastHost {
+  if (isSupabaseConfigured()) {
+    const channel = channelFor(referralCode, 'host');
+
+    channel
+      .on('presence', { event: 'sync' }, () => {
+        const viewers = Object.values(channel.presenceState<{ role: BroadcastRole }>())
+          .flat()
+          .filter(p => p.role === 'viewer').length;
+        handlers.onViewers(viewers);
+      })
+      .subscribe(async (status) => {
+        if (status === 'SUBSCRIBED') {
+          await channel.track({ role: 'host' });
+          handlers.onStatus?.(true);
+        } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT' || status === 'CLOSED') {
+          handlers.onStatus?.(false);
+        }
+      });
+
+    return {
+      publish: postUpdate,
+      close: () => {
+        supabase.removeChannel(channel);
+      },
+    };
+  }
+
+  const latest = new Map<string, BroadcastUpdate>();
+  const source = new EventSource(sseUrl(referralCode, 'host'));
+  source.addEventListener('viewers', (event) => {
+    const { count } = JSON.parse((event as MessageEvent).data);
+    handlers.onViewers(Number(count) || 0);
+  });
+  source.onopen = () => {
+    handlers.onStatus?.(true);
+    latest.forEach(update => {
+      postUpdate(update).catch(err => console.error('[BroadcastRealtime] Failed to re-send update:', err));
+    });
+  };
+  source.onerror = () => handlers.onStatus?.(false);
+
+  return {
+    publish: (update) => {
+      latest.set(update.symbol, update);
+      return postUpdate(update);
+    },
+    close: () => source.close(),
+  };
+}
+
+// ============ CLIENT SIDE ============
+
+// Listens to an affiliate's broadcasts; returns the function that stops listening
+export function watchBroadcast(referralCode: string, handlers: BroadcastViewerHandlers): () => void {
+  const receive = (value: unknown) => {
+    const update = sanitizeBroadcastUpdate(value);
+    if (update && update.referralCode === referralCode) handlers.onUpdate(update);
+  };
+
+  if (isSupabaseConfigured()) {
+    const channel = channelFor(referralCode, 'viewer');
+
+    channel
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'broadcast_drawings', filter: `referral_code=eq.${referralCode}` },
+        (payload) => receive(mapBroadcastRow(payload.new))
+      )
+      .subscribe(async (status) => {
+        if (status === 'SUBSCRIBED') {
+          await channel.track({ role: 'viewer' });
+          handlers.onStatus?.(true);
+        } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT' || status === 'CLOSED') {
+          handlers.onStatus?.(false);
+        }
+      });
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }
+
+  const source = new EventSource(sseUrl(referralCode, 'viewer'));
+  source.addEventListener('update', (event) => {
+    try {
+      receive(JSON.parse((event as MessageEvent).data));
+    } catch (err) {
+      console.error('[BroadcastRealtime] Malformed update:', err);
+    }
+  });
+  source.onopen = () => handlers.onStatus?.(true);
+  source.onerror = () => handlers.onStatus?.(false);
+
+  return () => source.close();
+}
+
+// ============ CHAT ============
+
+// Follows an affiliate's chat on every symbol; returns the function that stops listening
+export function watchBroadcastChat(referralCode: string, handlers: BroadcastChatHandlers): () => void {
+  if (isSupabaseConfigured()) {
+    const channel = supabase.channel(`broadcast-chat:${referralCode}:${uuidv4()}`);
+
+    channel
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'broadcast_chat_messages', filter: `referral_code=eq.${referralCode}` },
+        (payload) => {
+          const message = mapChatRow(payload.new);
+          if (message) handlers.onMessage(message);
+        }
+      )
+      .subscribe((status) => {
+        if (status === 'SUBSCRIBED') {
+          handlers.onStatus?.(true);
+        } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT' || status === 'CLOSED') {
+          handlers.onStatus?.(false);
+        }
+      });
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }
+
+  const source = new EventSource(sseUrl(referralCode, 'chat'));
+  source.addEventListener('chat', (event) => {
+    try {
+      const message = JSON.parse((event as MessageEvent).data) as BroadcastChatMessage;
+      if (message?.id && message.referralCode === referralCode) handlers.onMessage(message);
+    } catch (err) {
+      console.error('[BroadcastRealtime] Malformed chat message:', err);
+    }
+  });
+  source.onopen = () => handlers.onStatus?.(true);
+  source.onerror = () => handlers.onStatus?.(false);
+
+  return () => source.close();
+}
@@ -0,0 +1,96 @@
+// Broadcast replay
+// Loads recorded sessions from /api/broadcast/sessions and rebuilds a session's chart at any moment of it
+
+import { BroadcastRecording, BroadcastSessionSummary, BroadcastTick, Drawing, Indicator } from '@/types';
+import { sanitizeIndicators } from '@/lib/indicators';
+
+const SESSIONS_ENDPOINT = '/api/broadcast/sessions';
+
+// Playback rates offered by the player; 1 is real time
+export const REPLAY_SPEEDS = [1, 2, 5, 10, 30, 60];
+
+export interface ReplayFrame {
+  drawings: Drawing[];
+  indicators: Indicator[];
+  applied: number; // Operations that have happened by this moment
+}
+
+async function getJson(url: string) {
+  const response = await fetch(url);
+  const body = await response.json().catch(() => null);
+  if (!response.ok || !body?.success) {
+    throw new Error(body?.error || `Request failed (${response.status})`);
+  }
+  return body;
+}
+
+// ============ LOADING ============
+
+export async function fetchBroadcastSessions(referralCode: string, symbol?: string): Promise<BroadcastSessionSummary[]> {
+  const params = new URLSearchParams({ referralCode });
+  if (symbol) params.set('symbol', symbol);
+  const body = await getJson(`${SESSIONS_ENDPOINT}?${params}`);
+  return body.sessions;
+}
+
+export async function fetchBroadcastRecording(id: string): Promise<BroadcastRecording> {
+  const body = await getJson(`${SESSIONS_ENDPOINT}?id=${encodeURIComponent(id)}`);
+  return body.recording;
+}
+
+// ============ PLAYBACK ============
+
+// Replays run from going live to stopping; a live session runs up to its latest tick or operation
+export function replayBounds(recording: BroadcastRecording): { start: number; end: number } {
+  const start = new Date(recording.startedAt).getTime();
+  if (recording.endedAt) return { start, end: new Date(recording.endedAt).getTime() };
+
+  const lastTick = recording.ticks.length > 0 ? recording.ticks[recording.ticks.length - 1].epoch * 1000 : start;
+  const lastOperation = recording.operations.length > 0
+    ? new Date(recording.operations[recording.operations.length - 1].at).getTime()
+    : start;
+  return { start, end: Math.max(start, lastTick, lastOperation) };
+}
+
+// Drawings and indicators as they stood at `time` (ms)
+export function replayFrameAt(recording: BroadcastRecording, time: number): ReplayFrame {
+  const drawings = new Map<string, Drawing>();
+  let indicators: Indicator[] = [];
+  let applied = 0;
+
+  for (const operation of recording.operations) {
+    if (new Date(operation.at).getTime() > time) break;
+    applied++;
+
+    switch (operation.type) {
+      case 'add':
+      case 'update':
+        if (operation.drawing) drawings.set(operation.drawing.id, operation.drawing);
+        break;
+      case 'remove':
+        if (operation.drawingId) drawings.delete(operation.drawingId);
+        break;
+      case 'indicators':
+        indicators = sanitizeIndicators(operation.indicators);
+        break;
+    }
+  }
+
+  return { drawings: Array.from(drawings.values()), indicators, applied };
+}
+
+// How many of the (sorted) ticks had arrived by `time` (ms)
+export function tickCountAt(ticks: BroadcastTick[], time: number): number {
+  const epoch = time / 1000;
+  let low = 0;
+  let high = ticks.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (ticks[mid].epoch <= epoch) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+}
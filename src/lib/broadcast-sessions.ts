@@ -0,0 +1,342 @@
+// Broadcast sessions
+// Each live session is recorded as a timeline of drawing operations, with the symbol's ticks from Deriv for replay
+
+import {
+  BroadcastOperation,
+  BroadcastRecording,
+  BroadcastSessionSummary,
+  BroadcastTick,
+  BroadcastUpdate,
+  Drawing,
+} from '@/types';
+import { supabaseAdmin, isSupabaseConfigured } from '@/lib/supabase';
+import { withDerivSession } from '@/lib/deriv-server';
+import { historyRequest, parseHistory } from '@/lib/candles';
+import { listChatMessagesAsync } from '@/lib/broadcast-chat-store';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const db = supabaseAdmin as any;
+
+// Ticks from before the session started, so a replay opens on some price history
+const REPLAY_LEAD_IN_SECONDS = 15 * 60;
+const TICKS_PER_REQUEST = 5000; // ticks_history's upper limit
+const MAX_RECORDED_TICKS = 20000;
+const MAX_LISTED_SESSIONS = 20;
+const MAX_MEMORY_SESSIONS = 50;
+
+export type BroadcastState = Pick<BroadcastUpdate, 'drawings' | 'indicators' | 'isLive'>;
+
+// Drawing ids by what happened to them between two versions of a broadcast
+export interface DrawingChanges {
+  added: string[];
+  removed: string[];
+  modified: string[];
+}
+
+// Chat is stored on its own and joined in when a recording is loaded
+type StoredSession = Omit<BroadcastRecording, 'messages'>;
+
+// Without Supabase, sessions live in server memory next to the broadcast hub
+const memory = globalThis as typeof globalThis & { __lunarBroadcastSessions?: StoredSession[] };
+const memorySessions = memory.__lunarBroadcastSessions ?? (memory.__lunarBroadcastSessions = []);
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function mapSessionRow(row: any): BroadcastSessionSummary {
+  return {
+    id: row.id,
+    referralCode: row.referral_code,
+    symbol: row.symbol,
+    startedAt: row.started_at,
+    endedAt: row.ended_at || undefined,
+    operationCount: row.broadcast_session_operations?.[0]?.count ?? 0,
+  };
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function mapOperationRow(row: any): BroadcastOperation {
+  return {
+    at: row.occurred_at,
+    type: row.type,
+    drawingId: row.drawing_id || undefined,
+    drawing: row.drawing || undefined,
+    indicators: row.indicators || undefined,
+  };
+}
+
+// ============ OPERATIONS ============
+
+export function diffDrawings(before: Drawing[], after: Drawing[]): DrawingChanges {
+  const previous = new Map(before.map(d => [d.id, JSON.stringify(d)]));
+  const next = new Set(after.map(d => d.id));
+
+  return {
+    added: after.filter(d => !previous.has(d.id)).map(d => d.id),
+    removed: before.filter(d => !next.has(d.id)).map(d => d.id),
+    modified: after.filter(d => previous.has(d.id) && previous.get(d.id) !== JSON.stringify(d)).map(d => d.id),
+  };
+}
+
+// Operations that turn `previous` into `next`; a session that is just starting records everything as added
+export function broadcastOperations(previous: BroadcastState | null, next: BroadcastState, at: string): BroadcastOperation[] {
+  const before = previous?.drawings ?? [];
+  const changes = diffDrawings(before, next.drawings);
+  const byId = new Map(next.drawings.map(d => [d.id, d]));
+
+  const operations: BroadcastOperation[] = [
+    ...changes.removed.map((id): BroadcastOperation => ({ at, type: 'remove', drawingId: id })),
+    ...changes.added.map((id): BroadcastOperation => ({ at, type: 'add', drawingId: id, drawing: byId.get(id) })),
+    ...changes.modified.map((id): BroadcastOperation => ({ at, type: 'update', drawingId: id, drawing: byId.get(id) })),
+  ];
+
+  const indicatorsChanged = JSON.stringify(previous?.indicators ?? []) !== JSON.stringify(next.indicators);
+  if (indicatorsChanged) {
+    operations.push({ at, type: 'indicators', indicators: next.indicators });
+  }
+
+  return operations;
+}
+
+// ============ TICKS ============
+
+/**
+ * The symbol's ticks from REPLAY_LEAD_IN_SECONDS before `from` up to `to`, keeping the newest when
+ * there are more than MAX_RECORDED_TICKS. Pages backwards through ticks_history since each call is capped.
+ */
+async function fetchSessionTicks(symbol: string, from: number, to: number): Promise<BroadcastTick[]> {
+  const start = from - REPLAY_LEAD_IN_SECONDS;
+
+  return withDerivSession(null, async (request) => {
+    const byEpoch = new Map<number, number>();
+    let end = to;
+
+    while (byEpoch.size < MAX_RECORDED_TICKS) {
+      const batch = parseHistory(await request(historyRequest(symbol, 0, TICKS_PER_REQUEST, end, start)));
+      const before = byEpoch.size;
+      batch.forEach(tick => byEpoch.set(tick.time, tick.close));
+
+      if (batch.length < TICKS_PER_REQUEST || byEpoch.size === before) break;
+      end = batch[0].time - 1;
+      if (end < start) break;
+    }
+
+    return Array.from(byEpoch, ([epoch, quote]) => ({ epoch, quote }))
+      .sort((a, b) => a.epoch - b.epoch)
+      .slice(-MAX_RECORDED_TICKS);
+  });
+}
+
+function toEpoch(iso: string): number {
+  return Math.floor(new Date(iso).getTime() / 1000);
+}
+
+// ============ STORAGE ============
+
+async function endSessionsAsync(referralCode: string, symbol: string, at: string): Promise<void> {
+  if (!isSupabaseConfigured()) {
+    const open = memorySessions.filter(s => s.referralCode === referralCode && s.symbol === symbol && !s.endedAt);
+    open.forEach(session => {
+      session.endedAt = at;
+      fetchSessionTicks(symbol, toEpoch(session.startedAt), toEpoch(at))
+        .then(ticks => { session.ticks = ticks; })
+        .catch(err => console.error('[BroadcastSessions] Failed to record ticks:', err));
+    });
+    return;
+  }
+
+  const { data, error } = await db
+    .from('broadcast_sessions')
+    .update({ ended_at: at })
+    .eq('referral_code', referralCode)
+    .eq('symbol', symbol)
+    .is('ended_at', null)
+    .select('id, started_at');
+
+  if (error) throw error;
+
+  // Ticks are fetched after the response so stopping a broadcast is not held up by Deriv; a session
+  // whose ticks never arrive has them fetched when it is replayed instead
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  (data || []).forEach((row: any) => {
+    fetchSessionTicks(symbol, toEpoch(row.started_at), toEpoch(at))
+      .then(async (ticks) => {
+        const { error: ticksError } = await db.from('broadcast_sessions').update({ ticks }).eq('id', row.id);
+        if (ticksError) throw ticksError;
+      })
+      .catch(err => console.error('[BroadcastSessions] Failed to record ticks:', err));
+  });
+}
+
+async function startSessionAsync(referralCode: string, symbol: string, at: string, startedBy?: string): Promise<string> {
+  // A session left open by a page that never sent its stop ends where the new one starts
+  await endSessionsAsync(referralCode, symbol, at);
+
+  if (!isSupabaseConfigured()) {
+    const session: StoredSession = {
+      id: crypto.randomUUID(),
+      referralCode,
+      symbol,
+      startedAt: at,
+      operationCount: 0,
+      operations: [],
+      ticks: [],
+    };
+    memorySessions.unshift(session);
+    memorySessions.splice(MAX_MEMORY_SESSIONS);
+    return session.id;
+  }
+
+  const { data, error } = await db
+    .from('broadcast_sessions')
+    .insert({ referral_code: referralCode, symbol, started_at: at, started_by: startedBy || null })
+    .select('id')
+    .single();
+
+  if (error) throw error;
+  return data.id;
+}
+
+async function findOpenSessionAsync(referralCode: string, symbol: string): Promise<string | null> {
+  if (!isSupabaseConfigured()) {
+    return memorySessions.find(s => s.referralCode === referralCode && s.symbol === symbol && !s.endedAt)?.id ?? null;
+  }
+
+  const { data, error } = await db
+    .from('broadcast_sessions')
+    .select('id')
+    .eq('referral_code', referralCode)
+    .eq('symbol', symbol)
+    .is('ended_at', null)
+    .order('started_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.id ?? null;
+}
+
+async function appendOperationsAsync(sessionId: string, operations: BroadcastOperation[]): Promise<void> {
+  if (!isSupabaseConfigured()) {
+    const session = memorySessions.find(s => s.id === sessionId);
+    if (session) {
+      session.operations.push(...operations);
+      session.operationCount = session.operations.length;
+    }
+    return;
+  }
+
+  const { error } = await db.from('broadcast_session_operations').insert(
+    operations.map(op => ({
+      session_id: sessionId,
+      occurred_at: op.at,
+      type: op.type,
+      drawing_id: op.drawingId || null,
+      drawing: op.drawing || null,
+      indicators: op.indicators || null,
+    }))
+  );
+
+  if (error) throw error;
+}
+
+// ============ RECORDING ============
+
+/**
+ * Records one broadcast write: going live opens a session, changes while live append operations
+ * and stopping closes the session. Stopping clears the drawings, which is not recorded as removals.
+ */
+export async function recordBroadcastUpdateAsync(
+  previous: BroadcastState | null,
+  update: BroadcastUpdate,
+  startedBy?: string
+): Promise<void> {
+  const at = new Date().toISOString();
+  const wasLive = Boolean(previous?.isLive);
+
+  if (!update.isLive) {
+    if (wasLive) await endSessionsAsync(update.referralCode, update.symbol, at);
+    return;
+  }
+
+  const openId = wasLive ? await findOpenSessionAsync(update.referralCode, update.symbol) : null;
+  const sessionId = openId ?? await startSessionAsync(update.referralCode, update.symbol, at, startedBy);
+  const operations = broadcastOperations(openId ? previous : null, update, at);
+
+  if (operations.length > 0) {
+    await appendOperationsAsync(sessionId, operations);
+  }
+}
+
+export async function listBroadcastSessionsAsync(referralCode: string, symbol?: string): Promise<BroadcastSessionSummary[]> {
+  if (!isSupabaseConfigured()) {
+    return memorySessions
+      .filter(s => s.referralCode === referralCode && (!symbol || s.symbol === symbol))
+      .slice(0, MAX_LISTED_SESSIONS)
+      .map(s => ({
+        id: s.id,
+        referralCode: s.referralCode,
+        symbol: s.symbol,
+        startedAt: s.startedAt,
+        endedAt: s.endedAt,
+        operationCount: s.operationCount,
+      }));
+  }
+
+  let query = db
+    .from('broadcast_sessions')
+    .select('id, referral_code, symbol, started_at, ended_at, broadcast_session_operations(count)')
+    .eq('referral_code', referralCode)
+    .order('started_at', { ascending: false })
+    .limit(MAX_LISTED_SESSIONS);
+
+  if (symbol) query = query.eq('symbol', symbol);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data || []).map(mapSessionRow);
+}
+
+// Ticks of a live session, or one whose ticks were never stored, are fetched up to now
+export async function loadBroadcastRecordingAsync(id: string): Promise<BroadcastRecording | null> {
+  let recording: StoredSession | null = null;
+  let storedTicks: BroadcastTick[] | null = null;
+
+  if (!isSupabaseConfigured()) {
+    const session = memorySessions.find(s => s.id === id);
+    if (!session) return null;
+    recording = { ...session, operations: [...session.operations] };
+    storedTicks = session.endedAt && session.ticks.length > 0 ? session.ticks : null;
+  } else {
+    const { data: row, error } = await db
+      .from('broadcast_sessions')
+      .select('id, referral_code, symbol, started_at, ended_at, ticks, broadcast_session_operations(count)')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!row) return null;
+
+    const { data: operations, error: operationsError } = await db
+      .from('broadcast_session_operations')
+      .select('*')
+      .eq('session_id', id)
+      .order('id', { ascending: true });
+
+    if (operationsError) throw operationsError;
+
+    recording = { ...mapSessionRow(row), operations: (operations || []).map(mapOperationRow), ticks: [] };
+    storedTicks = Array.isArray(row.ticks) ? row.ticks : null;
+  }
+
+  recording.ticks = storedTicks ?? await fetchSessionTicks(
+    recording.symbol,
+    toEpoch(recording.startedAt),
+    recording.endedAt ? toEpoch(recording.endedAt) : Math.floor(Date.now() / 1000)
+  );
+
+  const messages = await listChatMessagesAsync(recording.referralCode, recording.symbol, {
+    from: recording.startedAt,
+    to: recording.endedAt,
+  });
+
+  return { ...recording, messages };
+}
@@ -0,0 +1,125 @@
+// Broadcast store
+// Server-side writes to broadcast_drawings: only the owner of a referral code may change its broadcast, and every change is audited
+
+import { BroadcastUpdate, Drawing } from '@/types';
+import { supabaseAdmin } from '@/lib/supabase';
+import { PARTNER_REFERRAL_CODE } from '@/lib/broadcast-realtime';
+import { DrawingChanges, diffDrawings, recordBroadcastUpdateAsync } from '@/lib/broadcast-sessions';
+import { sanitizeIndicators } from '@/lib/indicators';
+import { sanitizeDrawings } from '@/lib/drawings';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const db = supabaseAdmin as any;
+
+export interface BroadcastActor {
+  userId: string;
+  email: string;
+}
+
+export type BroadcastAuthResult =
+  | { actor: BroadcastActor }
+  | { error: string; status: 401 | 403 };
+
+export type BroadcastAuditAction = 'go_live' | 'update' | 'stop';
+
+function parseDrawings(value: unknown): Drawing[] {
+  return sanitizeDrawings(typeof value === 'string' ? JSON.parse(value) : value);
+}
+
+// ============ AUTHORIZATION ============
+
+/**
+ * Resolves the Supabase session in the Authorization header and checks the signed-in email owns
+ * `referralCode`: the affiliate with that code, or any partner account for the partner-wide broadcast.
+ */
+export async function authorizeBroadcastWriter(
+  authorization: string | null,
+  referralCode: string
+): Promise<BroadcastAuthResult> {
+  const token = authorization?.startsWith('Bearer ') ? authorization.slice('Bearer '.length).trim() : '';
+  if (!token) return { error: 'Sign in to broadcast', status: 401 };
+
+  const { data, error } = await db.auth.getUser(token);
+  if (error || !data?.user?.email) return { error: 'Your session has expired. Sign in again.', status: 401 };
+
+  const email = String(data.user.email).toLowerCase();
+  const matches = (row: { email: string | null }) => (row.email || '').toLowerCase() === email;
+
+  let owns = false;
+  if (referralCode === PARTNER_REFERRAL_CODE) {
+    const { data: partners, error: partnersError } = await db.from('partners').select('email');
+    if (partnersError) throw partnersError;
+    owns = (partners || []).some(matches);
+  } else {
+    const { data: affiliate, error: affiliateError } = await db
+      .from('affiliates')
+      .select('email')
+      .eq('referral_code', referralCode)
+      .maybeSingle();
+    if (affiliateError) throw affiliateError;
+    owns = Boolean(affiliate && matches(affiliate));
+  }
+
+  if (!owns) return { error: `${email} does not own the ${referralCode} broadcast`, status: 403 };
+  return { actor: { userId: data.user.id, email } };
+}
+
+// ============ WRITES ============
+
+export async function saveBroadcastAsync(update: BroadcastUpdate, actor: BroadcastActor): Promise<DrawingChanges> {
+  const { data: existing, error: loadError } = await db
+    .from('broadcast_drawings')
+    .select('drawings, indicators, is_live')
+    .eq('referral_code', update.referralCode)
+    .eq('symbol', update.symbol)
+    .maybeSingle();
+
+  if (loadError) throw loadError;
+
+  const previousDrawings = parseDrawings(existing?.drawings);
+  const changes = diffDrawings(previousDrawings, update.drawings);
+  const action: BroadcastAuditAction = !update.isLive ? 'stop' : existing?.is_live ? 'update' : 'go_live';
+
+  const { error: saveError } = await db.from('broadcast_drawings').upsert({
+    referral_code: update.referralCode,
+    symbol: update.symbol,
+    drawings: update.drawings,
+    indicators: update.indicators,
+    is_live: update.isLive,
+    updated_at: new Date().toISOString(),
+  }, { onConflict: 'referral_code,symbol' });
+
+  if (saveError) throw saveError;
+
+  const { error: auditError } = await db.from('broadcast_audit_log').insert({
+    referral_code: update.referralCode,
+    symbol: update.symbol,
+    action,
+    actor_user_id: actor.userId,
+    actor_email: actor.email,
+    added_drawing_ids: changes.added,
+    removed_drawing_ids: changes.removed,
+    modified_drawing_ids: changes.modified,
+    drawing_count: update.drawings.length,
+    indicator_count: update.indicators.length,
+  });
+
+  if (auditError) throw auditError;
+
+  // The broadcast is saved either way; a gap in its recording only affects replays
+  try {
+    const previous = existing
+      ? { drawings: previousDrawings, indicators: sanitizeIndicators(existing.indicators), isLive: Boolean(existing.is_live) }
+      : null;
+    await recordBroadcastUpdateAsync(previous, update, actor.email);
+  } catch (err) {
+    console.error('[BroadcastStore] Failed to record session:', err);
+  }
+
+  console.log(
+    `[BroadcastStore] ${actor.email} ${action} ${update.referralCode}/${update.symbol}: ` +
+    `+${changes.added.length} -${changes.removed.length} ~${changes.modified.length}`
+  );
+
+  return changes;
+}
@@ -0,0 +1,124 @@
+// Chart candles
+// Timeframes, Deriv history parsing and a live aggregator that folds ticks into candles of any granularity
+
+import { CandleData, ChartTimeframe } from '@/types';
+
+export interface TimeframeOption {
+  value: ChartTimeframe;
+  label: string;
+  granularity: number; // Seconds per candle; 0 for a tick chart
+}
+
+// Granularities Deriv's ticks_history accepts for style: 'candles'
+export const TIMEFRAMES: TimeframeOption[] = [
+  { value: 'ticks', label: 'Ticks', granularity: 0 },
+  { value: '1m', label: '1m', granularity: 60 },
+  { value: '5m', label: '5m', granularity: 300 },
+  { value: '15m', label: '15m', granularity: 900 },
+  { value: '1h', label: '1h', granularity: 3600 },
+  { value: '4h', label: '4h', granularity: 14400 },
+  { value: '1d', label: '1d', granularity: 86400 },
+];
+
+export const DEFAULT_TIMEFRAME: ChartTimeframe = '1m';
+
+export function timeframeGranularity(timeframe: ChartTimeframe): number {
+  return TIMEFRAMES.find(t => t.value === timeframe)?.granularity ?? 60;
+}
+
+// ticks_history request for `count` candles (or ticks) ending at `end`, optionally none before `start`
+export function historyRequest(
+  symbol: string,
+  granularity: number,
+  count: number,
+  end: number | 'latest' = 'latest',
+  start?: number
+): Record<string, unknown> {
+  const range = start !== undefined ? { start, end } : { end };
+  return granularity > 0
+    ? { ticks_history: symbol, ...range, count, style: 'candles', granularity }
+    : { ticks_history: symbol, ...range, count, style: 'ticks' };
+}
+
+// Candles from a ticks_history response; a tick history becomes one flat candle per tick
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function parseHistory(response: any): CandleData[] {
+  if (Array.isArray(response?.candles)) {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    return response.candles.map((c: any) => ({
+      time: c.epoch,
+      open: Number(c.open),
+      high: Number(c.high),
+      low: Number(c.low),
+      close: Number(c.close),
+    }));
+  }
+  if (response?.history?.prices && response?.history?.times) {
+    const { prices, times } = response.history;
+    return times.map((time: number, i: number) => {
+      const price = Number(prices[i]);
+      return { time, open: price, high: price, low: price, close: price };
+    });
+  }
+  return [];
+}
+
+// Older history in front of what is already loaded; candles present in both keep the loaded version
+export function prependHistory(older: CandleData[], current: CandleData[]): CandleData[] {
+  if (current.length === 0) return older;
+  const firstTime = current[0].time;
+  return [...older.filter(c => c.time < firstTime), ...current];
+}
+
+/**
+ * Folds a tick into the series: updates the candle whose bucket holds the tick or opens the next one.
+ * With granularity 0 every tick is its own point. Returns a new array; the last candle is replaced, not mutated.
+ */
+export function applyTick(
+  candles: CandleData[],
+  tick: { epoch: number; quote: number },
+  granularity: number,
+  maxCandles: number
+): CandleData[] {
+  const bucket = granularity > 0 ? Math.floor(tick.epoch / granularity) * granularity : tick.epoch;
+  const last = candles[candles.length - 1];
+
+  // Ticks arriving out of order or for an already closed candle are ignored
+  if (last && bucket < last.time) return candles;
+
+  if (last && bucket === last.time) {
+    if (granularity === 0) return candles;
+    const updated = {
+      ...last,
+      close: tick.quote,
+      high: Math.max(last.high, tick.quote),
+      low: Math.min(last.low, tick.quote),
+    };
+    return [...candles.slice(0, -1), updated];
+  }
+
+  const next = [...candles, { time: bucket, open: tick.quote, high: tick.quote, low: tick.quote, close: tick.quote }];
+  return next.length > maxCandles ? next.slice(next.length - maxCandles) : next;
+}
+
+// Candles for a whole tick series at once, e.g. a recorded broadcast being replayed
+export function aggregateTicks(ticks: { epoch: number; quote: number }[], granularity: number): CandleData[] {
+  const candles: CandleData[] = [];
+
+  for (const tick of ticks) {
+    const bucket = granularity > 0 ? Math.floor(tick.epoch / granularity) * granularity : tick.epoch;
+    const last = candles[candles.length - 1];
+
+    if (last && bucket < last.time) continue;
+    if (last && bucket === last.time) {
+      if (granularity === 0) continue;
+      last.close = tick.quote;
+      last.high = Math.max(last.high, tick.quote);
+      last.low = Math.min(last.low, tick.quote);
+      continue;
+    }
+    candles.push({ time: bucket, open: tick.quote, high: tick.quote, low: tick.quote, close: tick.quote });
+  }
+
+  return candles;
+}
@@ -0,0 +1,305 @@
+// Deriv contract catalogue
+// Contract categories offered on the trade page, built from contracts_for, and what counts as an opposite position
+
+import { ContractCategory, ContractCategoryOption, ContractOption, ContractType, DurationUnit } from '@/types';
+
+interface CategoryDefinition {
+  label: string;
+  barrier: ContractCategoryOption['barrier'];
+  hasDuration: boolean;
+  contractTypes: [ContractType, ContractType];
+  labels: [string, string];
+  // Which contracts_for entries belong to this category
+  matches: (entry: ContractsForEntry) => boolean;
+}
+
+// The subset of a contracts_for `available` entry that the catalogue reads
+export interface ContractsForEntry {
+  contract_category: string;
+  contract_type: string;
+  barrier_category?: string;
+  barriers?: number;
+  min_contract_duration?: string;
+  max_contract_duration?: string;
+  multiplier_range?: number[];
+}
+
+export const CONTRACT_CATEGORIES: Record<ContractCategory, CategoryDefinition> = {
+  risefall: {
+    label: 'Rise/Fall',
+    barrier: 'none',
+    hasDuration: true,
+    contractTypes: ['CALL', 'PUT'],
+    labels: ['Rise', 'Fall'],
+    matches: e => e.contract_category === 'callput' && e.barrier_category === 'euro_atm',
+  },
+  higherlower: {
+    label: 'Higher/Lower',
+    barrier: 'price',
+    hasDuration: true,
+    contractTypes: ['CALL', 'PUT'],
+    labels: ['Higher', 'Lower'],
+    matches: e => e.contract_category === 'callput' && e.barrier_category === 'euro_non_atm',
+  },
+  touchnotouch: {
+    label: 'Touch/No Touch',
+    barrier: 'price',
+    hasDuration: true,
+    contractTypes: ['ONETOUCH', 'NOTOUCH'],
+    labels: ['Touch', 'No Touch'],
+    matches: e => e.contract_category === 'touchnotouch',
+  },
+  matchesdiffers: {
+    label: 'Matches/Differs',
+    barrier: 'digit',
+    hasDuration: true,
+    contractTypes: ['DIGITMATCH', 'DIGITDIFF'],
+    labels: ['Matches', 'Differs'],
+    matches: e => e.contract_category === 'digits',
+  },
+  evenodd: {
+    label: 'Even/Odd',
+    barrier: 'none',
+    hasDuration: true,
+    contractTypes: ['DIGITEVEN', 'DIGITODD'],
+    labels: ['Even', 'Odd'],
+    matches: e => e.contract_category === 'digits',
+  },
+  overunder: {
+    label: 'Over/Under',
+    barrier: 'digit',
+    hasDuration: true,
+    contractTypes: ['DIGITOVER', 'DIGITUNDER'],
+    labels: ['Over', 'Under'],
+    matches: e => e.contract_category === 'digits',
+  },
+  multipliers: {
+    label: 'Multipliers',
+    barrier: 'none',
+    hasDuration: false,
+    contractTypes: ['MULTUP', 'MULTDOWN'],
+    labels: ['Up', 'Down'],
+    matches: e => e.contract_category === 'multiplier',
+  },
+};
+
+// Used until contracts_for answers, and when it fails
+export const DEFAULT_CONTRACT_CATALOGUE: ContractCategoryOption[] = [
+  {
+    category: 'risefall',
+    label: 'Rise/Fall',
+    barrier: 'none',
+    hasDuration: true,
+    contracts: [
+      { contractType: 'CALL', label: 'Rise', durations: [{ min: '1m', max: '1d' }] },
+      { contractType: 'PUT', label: 'Fall', durations: [{ min: '1m', max: '1d' }] },
+    ],
+  },
+];
+
+// ============ CATALOGUE ============
+
+export function buildContractCatalogue(available: ContractsForEntry[]): ContractCategoryOption[] {
+  const catalogue: ContractCategoryOption[] = [];
+
+  for (const [category, definition] of Object.entries(CONTRACT_CATEGORIES) as Array<[ContractCategory, CategoryDefinition]>) {
+    const entries = available.filter(definition.matches);
+
+    const contracts = definition.contractTypes.map((contractType, i): ContractOption | null => {
+      const forType = entries.filter(e => e.contract_type === contractType);
+      if (forType.length === 0) return null;
+
+      const durations = forType
+        .filter(e => e.min_contract_duration && e.max_contract_duration)
+        .map(e => ({ min: e.min_contract_duration!, max: e.max_contract_duration! }))
+        .filter((d, idx, all) => all.findIndex(o => o.min === d.min && o.max === d.max) === idx);
+
+      return { contractType, label: definition.labels[i], durations };
+    });
+
+    // Both sides must be on offer, otherwise the category is left out
+    if (!contracts[0] || !contracts[1]) continue;
+
+    const multipliers = entries.find(e => e.multiplier_range?.length)?.multiplier_range;
+    catalogue.push({
+      category,
+      label: definition.label,
+      barrier: definition.barrier,
+      hasDuration: definition.hasDuration,
+      contracts: [contracts[0], contracts[1]],
+      ...(multipliers ? { multipliers } : {}),
+    });
+  }
+
+  return catalogue.length > 0 ? catalogue : DEFAULT_CONTRACT_CATALOGUE;
+}
+
+// ============ DURATIONS ============
+
+const UNIT_SECONDS: Record<Exclude<DurationUnit, 't'>, number> = { s: 1, m: 60, h: 3600, d: 86400 };
+
+export function parseDuration(value: string): { duration: number; unit: DurationUnit } | null {
+  const match = value.match(/^(\d+)([tsmhd])$/);
+  return match ? { duration: Number(match[1]), unit: match[2] as DurationUnit } : null;
+}
+
+function toSeconds(duration: number, unit: Exclude<DurationUnit, 't'>): number {
+  return duration * UNIT_SECONDS[unit];
+}
+
+// Five minutes where the contract allows it (the old fixed duration), otherwise its shortest duration
+export function defaultDuration(option: ContractOption): { duration: number; unit: DurationUnit } {
+  const fiveMinutes = toSeconds(5, 'm');
+
+  for (const range of option.durations) {
+    const min = parseDuration(range.min);
+    const max = parseDuration(range.max);
+    if (!min || !max || min.unit === 't' || max.unit === 't') continue;
+    if (toSeconds(min.duration, min.unit) <= fiveMinutes && fiveMinutes <= toSeconds(max.duration, max.unit)) {
+      return { duration: 5, unit: 'm' };
+    }
+  }
+
+  const shortest = option.durations.map(d => parseDuration(d.min)).find(Boolean);
+  return shortest || { duration: 5, unit: 'm' };
+}
+
+function rangesFor(option: ContractOption, ticks: boolean) {
+  return option.durations
+    .map(d => ({ min: parseDuration(d.min), max: parseDuration(d.max), raw: d }))
+    .filter(r => r.min && r.max && (r.min.unit === 't') === ticks) as Array<{
+      min: { duration: number; unit: DurationUnit };
+      max: { duration: number; unit: DurationUnit };
+      raw: { min: string; max: string };
+    }>;
+}
+
+// Units the duration picker should offer for a contract (days are left to end-time)
+export function durationUnitsFor(option: ContractOption): Array<Exclude<DurationUnit, 'd'>> {
+  const units: Array<Exclude<DurationUnit, 'd'>> = [];
+  if (rangesFor(option, true).length > 0) units.push('t');
+
+  const longest = Math.max(0, ...rangesFor(option, false).map(r =>
+    toSeconds(r.max.duration, r.max.unit as Exclude<DurationUnit, 't'>)
+  ));
+  for (const unit of ['s', 'm', 'h'] as const) {
+    if (longest >= UNIT_SECONDS[unit]) units.push(unit);
+  }
+  return units;
+}
+
+// Checks a duration against the contract's contracts_for min/max; returns an error message or null
+export function validateDuration(option: ContractOption, duration: number, unit: DurationUnit): string | null {
+  if (!Number.isInteger(duration) || duration <= 0) return 'Duration must be a whole number above 0';
+
+  if (unit === 't') {
+    const ranges = rangesFor(option, true);
+    if (ranges.length === 0) return 'Tick durations are not offered for this contract';
+    if (ranges.some(r => duration >= r.min.duration && duration <= r.max.duration)) return null;
+    return `Must be ${ranges.map(r => `${r.raw.min}-${r.raw.max}`).join(' or ')}`;
+  }
+
+  const ranges = rangesFor(option, false);
+  if (ranges.length === 0) return 'Only tick durations are offered for this contract';
+
+  const seconds = toSeconds(duration, unit);
+  const fits = ranges.some(r =>
+    seconds >= toSeconds(r.min.duration, r.min.unit as Exclude<DurationUnit, 't'>) &&
+    seconds <= toSeconds(r.max.duration, r.max.unit as Exclude<DurationUnit, 't'>)
+  );
+  return fits ? null : `Must be ${ranges.map(r => `${r.raw.min}-${r.raw.max}`).join(' or ')}`;
+}
+
+// ============ DIRECTION ============
+
+const OPPOSITE_CONTRACT_TYPES: Record<ContractType, ContractType> = {
+  CALL: 'PUT',
+  PUT: 'CALL',
+  ONETOUCH: 'NOTOUCH',
+  NOTOUCH: 'ONETOUCH',
+  DIGITMATCH: 'DIGITDIFF',
+  DIGITDIFF: 'DIGITMATCH',
+  DIGITEVEN: 'DIGITODD',
+  DIGITODD: 'DIGITEVEN',
+  DIGITOVER: 'DIGITUNDER',
+  DIGITUNDER: 'DIGITOVER',
+  MULTUP: 'MULTDOWN',
+  MULTDOWN: 'MULTUP',
+};
+
+const LONG_CONTRACT_TYPES = new Set<string>(
+  Object.values(CONTRACT_CATEGORIES).map(d => d.contractTypes[0])
+);
+
+export function oppositeContractType(contractType: string): ContractType | null {
+  return OPPOSITE_CONTRACT_TYPES[contractType as ContractType] || null;
+}
+
+// Long side of its pair (CALL, ONETOUCH, DIGITMATCH, ...), used for colouring and Long/Short labels
+export function isLongContract(contractType: string): boolean {
+  return LONG_CONTRACT_TYPES.has(contractType);
+}
+
+export function contractLabel(contractType: string, barrier?: string | null): string {
+  for (const definition of Object.values(CONTRACT_CATEGORIES)) {
+    const i = definition.contractTypes.indexOf(contractType as ContractType);
+    if (i === -1) continue;
+    // CALL/PUT are Rise/Fall without a barrier and Higher/Lower with one
+    if (definition.barrier === 'none' && barrier && definition.contractTypes[0] === 'CALL') continue;
+    if (definition.barrier !== 'none' && !barrier && definition.contractTypes[0] === 'CALL') continue;
+    return barrier && definition.barrier !== 'none' ? `${definition.labels[i]} ${barrier}` : definition.labels[i];
+  }
+  return contractType;
+}
+
+/**
+ * Whether two trades on the same market take opposing sides, so that between them one always wins.
+ * Barriers are compared where they decide that: a digit prediction has to be the same digit,
+ * Over X / Under Y only hedge when Y > X, and Touch/No Touch need the same barrier.
+ * Unknown barriers (older trades) count as opposite.
+ */
+export function isOppositeContract(
+  typeA: string,
+  typeB: string,
+  barrierA?: string | null,
+  barrierB?: string | null
+): boolean {
+  if (OPPOSITE_CONTRACT_TYPES[typeA as ContractType] !== typeB) return false;
+  if (barrierA == null || barrierB == null) return true;
+
+  switch (typeA) {
+    case 'DIGITMATCH':
+    case 'DIGITDIFF':
+    case 'ONETOUCH':
+    case 'NOTOUCH':
+      return barrierA === barrierB;
+    case 'DIGITOVER':
+      return Number(barrierB) > Number(barrierA);
+    case 'DIGITUNDER':
+      return Number(barrierA) > Number(barrierB);
+    default:
+      return true;
+  }
+}
+
+// ============ LIMIT ORDERS ============
+
+/**
+ * Converts a TP/SL price into the profit/loss amount Deriv's limit_order expects for a Multipliers
+ * contract (stake x multiplier x relative move). Returns null when the price is on the wrong side
+ * of entry for that kind of order.
+ */
+export function limitOrderAmount(
+  kind: 'takeProfit' | 'stopLoss',
+  price: number,
+  position: { entryPrice: number; stake: number; multiplier: number; long: boolean }
+): number | null {
+  const { entryPrice, stake, multiplier, long } = position;
+  if (!price || !entryPrice) return null;
+
+  const move = (price - entryPrice) / entryPrice;
+  const favourable = long ? move > 0 : move < 0;
+  if ((kind === 'takeProfit') !== favourable) return null;
+
+  return Math.round(stake * multiplier * Math.abs(move) * 100) / 100;
+}
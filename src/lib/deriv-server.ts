@@ -0,0 +1,89 @@
+// Server-side Deriv API access
+// Short-lived connections, authorized with a client's own token for lookups the server must not take from the browser
+
+import WebSocket from 'ws';
+import { WS_URL } from '@/lib/deriv';
+
+const CONNECT_TIMEOUT_MS = 10000;
+const REQUEST_TIMEOUT_MS = 15000;
+
+// Deriv's error code (e.g. InvalidToken, ContractNotFound) is kept on the thrown error
+export type DerivApiError = Error & { code?: string };
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type DerivRequest = <T = any>(message: Record<string, unknown>) => Promise<T>;
+
+function apiError(message: string, code?: string): DerivApiError {
+  const error: DerivApiError = new Error(message);
+  error.code = code;
+  return error;
+}
+
+function openSocket(): Promise<WebSocket> {
+  return new Promise((resolve, reject) => {
+    const socket = new WebSocket(WS_URL);
+    const timer = setTimeout(() => {
+      socket.terminate();
+      reject(apiError('Timed out connecting to Deriv'));
+    }, CONNECT_TIMEOUT_MS);
+
+    socket.once('open', () => {
+      clearTimeout(timer);
+      resolve(socket);
+    });
+    socket.once('error', (error) => {
+      clearTimeout(timer);
+      reject(error);
+    });
+  });
+}
+
+/**
+ * Opens a connection, authorizes it with `token`, hands `fn` a request function and closes the
+ * connection when `fn` settles. Authorization failures reject with the Deriv error code.
+ * Public calls such as ticks_history pass a null token and skip authorization.
+ */
+export async function withDerivSession<T>(token: string | null, fn: (request: DerivRequest) => Promise<T>): Promise<T> {
+  const socket = await openSocket();
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const pending = new Map<number, { resolve: (data: any) => void; reject: (error: Error) => void }>();
+  let reqId = 1;
+
+  socket.on('message', (raw) => {
+    try {
+      const data = JSON.parse(raw.toString());
+      const handler = pending.get(data.req_id);
+      if (!handler) return; // Subscription pushes; server lookups do not subscribe
+      pending.delete(data.req_id);
+      if (data.error) {
+        handler.reject(apiError(data.error.message, data.error.code));
+      } else {
+        handler.resolve(data);
+      }
+    } catch (error) {
+      console.error('[DerivServer] Error parsing message:', error);
+    }
+  });
+
+  socket.on('close', () => {
+    pending.forEach(handler => handler.reject(apiError('Deriv connection closed')));
+    pending.clear();
+  });
+
+  const request: DerivRequest = (message) => new Promise((resolve, reject) => {
+    const id = reqId++;
+    pending.set(id, { resolve, reject });
+    socket.send(JSON.stringify({ ...message, req_id: id }));
+
+    setTimeout(() => {
+      if (pending.delete(id)) reject(apiError('Request timeout'));
+    }, REQUEST_TIMEOUT_MS);
+  });
+
+  try {
+    if (token) await request({ authorize: token });
+    return await fn(request);
+  } finally {
+    socket.close();
+  }
+}
@@ -7,18 +7,27 @@ import {
   DerivBuyResponse,
   DerivOpenContractResponse,
   DerivBalanceResponse,
-  CandleData
+  DerivConnectionState,
+  CandleData,
+  ContractCategoryOption,
+  ProposalParams
 } from '@/types';
+import { buildContractCatalogue } from '@/lib/contracts';
+import { historyRequest, parseHistory } from '@/lib/candles';
 
 // Use environment variables or fallback to defaults
 // App ID - Register your own at https://api.deriv.com/dashboard
 const APP_ID = process.env.NEXT_PUBLIC_DERIV_APP_ID || '1089';
-const WS_URL = `wss://ws.derivws.com/websockets/v3?app_id=${APP_ID}`;
+// NEXT_PUBLIC_DERIV_WS_URL points the app at another server, e.g. the local mock (npm run mock:deriv)
+export const WS_URL = process.env.NEXT_PUBLIC_DERIV_WS_URL
+  ? `${process.env.NEXT_PUBLIC_DERIV_WS_URL}?app_id=${APP_ID}`
+  : `wss://ws.derivws.com/websockets/v3?app_id=${APP_ID}`;
 
 // Log the app_id being used (for debugging)
 if (typeof window !== 'undefined') {
   console.log('[Deriv Config] Using APP_ID:', APP_ID);
   console.log('[Deriv Config] ENV APP_ID:', process.env.NEXT_PUBLIC_DERIV_APP_ID);
+  console.log('[Deriv Config] WebSocket:', WS_URL);
 }
 
 // API token for demo trading - get one from https://app.deriv.com/account/api-token
@@ -125,92 +134,233 @@ export function parseDerivReferralLink(link: string): {
   }
 }
 
+// Reconnection backoff: 1s, 2s, 4s ... capped at 30s, giving up after 10 attempts
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30000;
+const MAX_RECONNECT_ATTEMPTS = 10;
+// Deriv drops connections idle for 2 minutes; a ping also detects sockets that died silently
+const HEARTBEAT_INTERVAL_MS = 30000;
+const HEARTBEAT_TIMEOUT_MS = 10000;
+const REQUEST_TIMEOUT_MS = 30000;
+
 export class DerivClient {
   private ws: WebSocket | null = null;
   private messageHandlers: Map<string, (data: any) => void> = new Map();
   private subscriptionHandlers: Map<string, (data: any) => void> = new Map();
+  // Requests that (re)start each live stream, keyed like subscriptionHandlers, replayed after a reconnect
+  private activeSubscriptions: Map<string, Record<string, unknown>> = new Map();
+  // Latest tick subscription id per symbol, so one symbol's stream can be dropped without the others
+  private tickSubscriptionIds: Map<string, string> = new Map();
+  private stateListeners: Set<(state: DerivConnectionState) => void> = new Set();
+  private connectionState: DerivConnectionState = 'idle';
+  private mode: 'authorized' | 'public' | null = null;
+  private token: string | null = null;
   private isAuthorized = false;
   private reconnectAttempts = 0;
-  private maxReconnectAttempts = 5;
-  private messageQueue: Array<{ message: any; resolve: (data: any) => void; reject: (err: Error) => void }> = [];
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
   private reqId = 1;
 
   async connect(token?: string): Promise<DerivAuthorizeResponse> {
+    this.mode = 'authorized';
+    this.token = token || API_TOKEN;
+    this.setConnectionState('connecting');
+
+    try {
+      await this.openSocket();
+      console.log('Deriv WebSocket connected');
+      const authResponse = await this.authorize(this.token);
+      this.handleConnected();
+      return authResponse;
+    } catch (err) {
+      this.setConnectionState('idle');
+      throw err;
+    }
+  }
+
+  // Connect without authorization (for public API calls like account creation)
+  async connectPublic(): Promise<void> {
+    this.mode = 'public';
+    this.token = null;
+    this.setConnectionState('connecting');
+
+    try {
+      await this.openSocket();
+      console.log('Deriv WebSocket connected (public)');
+      this.handleConnected();
+    } catch (err) {
+      this.setConnectionState('idle');
+      throw err;
+    }
+  }
+
+  getConnectionState(): DerivConnectionState {
+    return this.connectionState;
+  }
+
+  // Listens for connection state changes; returns the unsubscribe function
+  onConnectionStateChange(listener: (state: DerivConnectionState) => void): () => void {
+    this.stateListeners.add(listener);
+    return () => {
+      this.stateListeners.delete(listener);
+    };
+  }
+
+  // Skips the backoff wait, e.g. from a "Retry" button after the client gave up
+  reconnectNow(): void {
+    if (!this.mode || this.connectionState === 'connected' || this.connectionState === 'connecting') return;
+    this.clearReconnectTimer();
+    this.reconnectAttempts = 0;
+    this.setConnectionState('reconnecting');
+    this.reconnect();
+  }
+
+  private setConnectionState(state: DerivConnectionState): void {
+    if (state === this.connectionState) return;
+    this.connectionState = state;
+    this.stateListeners.forEach(listener => listener(state));
+  }
+
+  private openSocket(): Promise<void> {
     return new Promise((resolve, reject) => {
-      try {
-        this.ws = new WebSocket(WS_URL);
-
-        this.ws.onopen = async () => {
-          console.log('Deriv WebSocket connected');
-          this.reconnectAttempts = 0;
-
-          // Authorize with provided token or default
-          try {
-            const authResponse = await this.authorize(token || API_TOKEN);
-            resolve(authResponse);
-          } catch (err) {
-            reject(err);
-          }
-        };
+      const socket = new WebSocket(WS_URL);
+      this.ws = socket;
 
-        this.ws.onmessage = (event) => {
-          try {
-            const data = JSON.parse(event.data);
-            this.handleMessage(data);
-          } catch (err) {
-            console.error('Error parsing message:', err);
-          }
-        };
+      socket.onopen = () => resolve();
 
-        this.ws.onerror = (error) => {
-          console.error('WebSocket error:', error);
-        };
+      socket.onmessage = (event) => {
+        try {
+          const data = JSON.parse(event.data);
+          this.handleMessage(data);
+        } catch (err) {
+          console.error('Error parsing message:', err);
+        }
+      };
 
-        this.ws.onclose = () => {
-          console.log('WebSocket closed');
-          this.isAuthorized = false;
-          this.handleReconnect();
-        };
-      } catch (err) {
-        reject(err);
-      }
+      socket.onerror = (error) => {
+        console.error('WebSocket error:', error);
+        reject(new Error('WebSocket connection failed'));
+      };
+
+      socket.onclose = () => {
+        console.log('WebSocket closed');
+        reject(new Error('WebSocket closed'));
+        this.handleClose(socket);
+      };
     });
   }
 
-  // Connect without authorization (for public API calls like account creation)
-  async connectPublic(): Promise<void> {
-    return new Promise((resolve, reject) => {
-      try {
-        this.ws = new WebSocket(WS_URL);
+  private handleConnected(): void {
+    this.reconnectAttempts = 0;
+    this.startHeartbeat();
+    this.setConnectionState('connected');
+  }
 
-        this.ws.onopen = () => {
-          console.log('Deriv WebSocket connected (public)');
-          this.reconnectAttempts = 0;
-          resolve();
-        };
+  private handleClose(socket: WebSocket): void {
+    // A socket that has already been replaced (or dropped by the heartbeat) closing late
+    if (socket !== this.ws) return;
 
-        this.ws.onmessage = (event) => {
-          try {
-            const data = JSON.parse(event.data);
-            this.handleMessage(data);
-          } catch (err) {
-            console.error('Error parsing message:', err);
-          }
-        };
+    this.ws = null;
+    this.isAuthorized = false;
+    this.stopHeartbeat();
+    this.failPendingRequests('WebSocket connection lost');
 
-        this.ws.onerror = (error) => {
-          console.error('WebSocket error:', error);
-          reject(error);
-        };
+    // Only connections that were up get retried; a failed first connect is reported to its caller
+    if (this.connectionState === 'connected' || this.connectionState === 'reconnecting') {
+      this.scheduleReconnect();
+    }
+  }
 
-        this.ws.onclose = () => {
-          console.log('WebSocket closed');
-          this.isAuthorized = false;
-        };
+  private scheduleReconnect(): void {
+    if (this.reconnectAttempts >= MAX_RECONNECT_ATTEMPTS) {
+      console.log('[Deriv] Giving up reconnecting');
+      this.setConnectionState('disconnected');
+      return;
+    }
+
+    const delay = Math.min(RECONNECT_MAX_DELAY_MS, RECONNECT_BASE_DELAY_MS * 2 ** this.reconnectAttempts);
+    this.reconnectAttempts++;
+    console.log(`Reconnecting... attempt ${this.reconnectAttempts} in ${delay}ms`);
+    this.setConnectionState('reconnecting');
+    this.clearReconnectTimer();
+    this.reconnectTimer = setTimeout(() => this.reconnect(), delay);
+  }
+
+  private async reconnect(): Promise<void> {
+    this.reconnectTimer = null;
+    try {
+      await this.openSocket();
+      if (this.mode === 'authorized' && this.token) {
+        await this.authorize(this.token);
+      }
+      await this.replaySubscriptions();
+      console.log('[Deriv] Reconnected');
+      this.handleConnected();
+    } catch (err) {
+      console.error('[Deriv] Reconnect failed:', err);
+      // A failed socket schedules the next attempt from onclose; a failed authorize leaves it open
+      if (this.ws && this.ws.readyState === WebSocket.OPEN) {
+        this.dropSocket();
+      }
+    }
+  }
+
+  // Re-sends every live stream request and hands its first response to the stream's handler
+  private async replaySubscriptions(): Promise<void> {
+    // Proposal streams get new ids, so their owners re-subscribe when the state returns to connected
+    for (const key of Array.from(this.subscriptionHandlers.keys())) {
+      if (key.startsWith('proposal_')) this.subscriptionHandlers.delete(key);
+    }
+
+    for (const [key, request] of Array.from(this.activeSubscriptions.entries())) {
+      try {
+        const response = await this.send({ ...request });
+        this.subscriptionHandlers.get(key)?.(response);
       } catch (err) {
-        reject(err);
+        console.error(`[Deriv] Failed to resubscribe ${key}:`, err);
       }
-    });
+    }
+  }
+
+  // Closes the socket without waiting for the close handshake, which a dead connection may never finish
+  private dropSocket(): void {
+    const socket = this.ws;
+    if (!socket) return;
+    socket.onclose = null;
+    socket.close();
+    this.handleClose(socket);
+  }
+
+  private startHeartbeat(): void {
+    this.stopHeartbeat();
+    this.heartbeatTimer = setInterval(async () => {
+      try {
+        await this.send({ ping: 1 }, HEARTBEAT_TIMEOUT_MS);
+      } catch (err) {
+        console.log('[Deriv] Heartbeat failed, reconnecting:', err);
+        this.dropSocket();
+      }
+    }, HEARTBEAT_INTERVAL_MS);
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
+  private clearReconnectTimer(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+
+  private failPendingRequests(message: string): void {
+    const handlers = Array.from(this.messageHandlers.values());
+    this.messageHandlers.clear();
+    handlers.forEach(handler => handler({ error: { message } }));
   }
 
   private handleMessage(data: any): void {
@@ -228,11 +378,15 @@ export class DerivClient {
 
     // Handle subscriptions
     if (msgType === 'tick') {
+      if (data.subscription?.id) this.tickSubscriptionIds.set(data.tick?.symbol, data.subscription.id);
       const handler = this.subscriptionHandlers.get(`tick_${data.tick?.symbol}`);
       if (handler) handler(data);
     } else if (msgType === 'proposal_open_contract') {
       const handler = this.subscriptionHandlers.get(`contract_${data.proposal_open_contract?.contract_id}`);
       if (handler) handler(data);
+    } else if (msgType === 'proposal') {
+      const handler = this.subscriptionHandlers.get(`proposal_${data.subscription?.id}`);
+      if (handler) handler(data);
     } else if (msgType === 'balance') {
       const handler = this.subscriptionHandlers.get('balance');
       if (handler) handler(data);
@@ -242,15 +396,7 @@ export class DerivClient {
     }
   }
 
-  private handleReconnect(): void {
-    if (this.reconnectAttempts < this.maxReconnectAttempts) {
-      this.reconnectAttempts++;
-      console.log(`Reconnecting... attempt ${this.reconnectAttempts}`);
-      setTimeout(() => this.connect(), 2000 * this.reconnectAttempts);
-    }
-  }
-
-  private send<T>(message: any): Promise<T> {
+  private send<T>(message: any, timeoutMs = REQUEST_TIMEOUT_MS): Promise<T> {
     return new Promise((resolve, reject) => {
       if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
         reject(new Error('WebSocket not connected'));
@@ -270,13 +416,12 @@ export class DerivClient {
 
       this.ws.send(JSON.stringify(message));
 
-      // Timeout after 30 seconds
       setTimeout(() => {
         if (this.messageHandlers.has(reqId.toString())) {
           this.messageHandlers.delete(reqId.toString());
           reject(new Error('Request timeout'));
         }
-      }, 30000);
+      }, timeoutMs);
     });
   }
 
@@ -299,7 +444,9 @@ export class DerivClient {
   }
 
   async getBalance(subscribe = true): Promise<DerivBalanceResponse> {
-    return this.send<DerivBalanceResponse>({ balance: 1, subscribe: subscribe ? 1 : 0 });
+    const response = await this.send<DerivBalanceResponse>({ balance: 1, subscribe: subscribe ? 1 : 0 });
+    if (subscribe) this.activeSubscriptions.set('balance', { balance: 1, subscribe: 1 });
+    return response;
   }
 
   subscribeToBalance(callback: (balance: DerivBalanceResponse) => void): void {
@@ -314,65 +461,106 @@ export class DerivClient {
       return;
     }
     this.subscriptionHandlers.set(`tick_${symbol}`, callback);
+    this.activeSubscriptions.set(`tick_${symbol}`, { ticks: symbol, subscribe: 1 });
     try {
-      await this.send({ ticks: symbol, subscribe: 1 });
+      const response = await this.send<any>({ ticks: symbol, subscribe: 1 });
+      if (response.subscription?.id) this.tickSubscriptionIds.set(symbol, response.subscription.id);
     } catch (err: any) {
       // Ignore "already subscribed" errors
       if (err.message?.includes('already subscribed')) {
         console.log(`[Deriv] Already subscribed to ${symbol}`);
         return;
       }
+      this.subscriptionHandlers.delete(`tick_${symbol}`);
+      this.activeSubscriptions.delete(`tick_${symbol}`);
       throw err;
     }
   }
 
   async unsubscribeTicks(symbol: string): Promise<void> {
     this.subscriptionHandlers.delete(`tick_${symbol}`);
+    this.activeSubscriptions.delete(`tick_${symbol}`);
+    const subscriptionId = this.tickSubscriptionIds.get(symbol);
+    this.tickSubscriptionIds.delete(symbol);
     try {
-      await this.send({ forget_all: 'ticks' });
+      await this.send(subscriptionId ? { forget: subscriptionId } : { forget_all: 'ticks' });
     } catch (err) {
       console.log('[Deriv] Error unsubscribing:', err);
     }
   }
 
-  async getTickHistory(symbol: string, count = 100, granularity = 60): Promise<CandleData[]> {
-    const response = await this.send<any>({
-      ticks_history: symbol,
-      end: 'latest',
-      count,
-      style: 'candles',
-      granularity,
-    });
-
-    if (response.candles) {
-      return response.candles.map((c: any) => ({
-        time: c.epoch,
-        open: c.open,
-        high: c.high,
-        low: c.low,
-        close: c.close,
-      }));
-    }
-    return [];
+  // granularity 0 returns ticks as flat candles; `end` (epoch) pages back through older history
+  async getTickHistory(symbol: string, count = 100, granularity = 60, end: number | 'latest' = 'latest'): Promise<CandleData[]> {
+    const response = await this.send<any>(historyRequest(symbol, granularity, count, end));
+    return parseHistory(response);
   }
 
-  async getProposal(params: {
-    symbol: string;
-    amount: number;
-    contractType: 'CALL' | 'PUT';
-    duration: number;
-    durationUnit: 's' | 'm' | 'h' | 't';
-  }): Promise<DerivProposalResponse> {
-    return this.send<DerivProposalResponse>({
+  private buildProposalRequest(params: ProposalParams): Record<string, unknown> {
+    const request: Record<string, unknown> = {
       proposal: 1,
       amount: params.amount,
       basis: 'stake',
       contract_type: params.contractType,
       currency: 'USD',
-      duration: params.duration,
-      duration_unit: params.durationUnit,
       symbol: params.symbol,
+    };
+
+    // Multipliers run until closed and take a multiplier instead of a duration
+    if (params.dateExpiry !== undefined) {
+      request.date_expiry = params.dateExpiry;
+    } else if (params.duration !== undefined) {
+      request.duration = params.duration;
+      request.duration_unit = params.durationUnit || 'm';
+    }
+    if (params.barrier !== undefined && params.barrier !== '') request.barrier = params.barrier;
+    if (params.multiplier !== undefined) request.multiplier = params.multiplier;
+    if (params.limitOrder && (params.limitOrder.takeProfit || params.limitOrder.stopLoss)) {
+      request.limit_order = {
+        ...(params.limitOrder.takeProfit ? { take_profit: params.limitOrder.takeProfit } : {}),
+        ...(params.limitOrder.stopLoss ? { stop_loss: params.limitOrder.stopLoss } : {}),
+      };
+    }
+
+    return request;
+  }
+
+  async getProposal(params: ProposalParams): Promise<DerivProposalResponse> {
+    return this.send<DerivProposalResponse>(this.buildProposalRequest(params));
+  }
+
+  // Streams re-priced proposals until forgotten; resolves with the subscription id
+  async subscribeProposal(
+    params: ProposalParams,
+    callback: (proposal: DerivProposalResponse) => void
+  ): Promise<string> {
+    const response = await this.send<DerivProposalResponse>({ ...this.buildProposalRequest(params), subscribe: 1 });
+    const subscriptionId = response.subscription?.id || '';
+    if (subscriptionId) {
+      this.subscriptionHandlers.set(`proposal_${subscriptionId}`, callback);
+    }
+    callback(response);
+    return subscriptionId;
+  }
+
+  async forgetProposal(subscriptionId: string): Promise<void> {
+    if (!subscriptionId) return;
+    this.subscriptionHandlers.delete(`proposal_${subscriptionId}`);
+    try {
+      await this.send({ forget: subscriptionId });
+    } catch (err) {
+      console.log('[Deriv] Error forgetting proposal:', err);
+    }
+  }
+
+  // Contract categories the symbol offers, with their durations and multipliers
+  async getContractsFor(symbol: string): Promise<ContractCategoryOption[]> {
+    const response = await this.send<any>({
+      contracts_for: symbol,
+      currency: 'USD',
+      product_type: 'basic',
     });
+
+    return buildContractCatalogue(response.contracts_for?.available || []);
   }
 
   async buy(proposalId: string, price: number): Promise<DerivBuyResponse> {
@@ -383,12 +571,46 @@ export class DerivClient {
     });
   }
 
+  // Buys straight from contract parameters, so limit_order (TP/SL) is attached at purchase
+  async buyWithParameters(params: ProposalParams, maxPrice: number): Promise<DerivBuyResponse> {
+    const parameters = this.buildProposalRequest(params);
+    delete parameters.proposal;
+    return this.send<DerivBuyResponse>({
+      buy: 1,
+      price: maxPrice,
+      parameters,
+      subscribe: 1,
+    });
+  }
+
+  // Moves or cancels (null) the broker-side TP/SL of an open Multipliers contract
+  async updateContractLimits(
+    contractId: number,
+    limits: { takeProfit?: number | null; stopLoss?: number | null }
+  ): Promise<any> {
+    return this.send({
+      contract_update: 1,
+      contract_id: contractId,
+      limit_order: {
+        ...(limits.takeProfit !== undefined ? { take_profit: limits.takeProfit } : {}),
+        ...(limits.stopLoss !== undefined ? { stop_loss: limits.stopLoss } : {}),
+      },
+    });
+  }
+
+  // The stream itself is started by buy's subscribe flag; after a reconnect it is re-requested by id
   subscribeToContract(contractId: number, callback: (update: DerivOpenContractResponse) => void): void {
     this.subscriptionHandlers.set(`contract_${contractId}`, callback);
+    this.activeSubscriptions.set(`contract_${contractId}`, {
+      proposal_open_contract: 1,
+      contract_id: contractId,
+      subscribe: 1,
+    });
   }
 
   unsubscribeFromContract(contractId: number): void {
     this.subscriptionHandlers.delete(`contract_${contractId}`);
+    this.activeSubscriptions.delete(`contract_${contractId}`);
   }
 
   async sell(contractId: number, price = 0): Promise<any> {
@@ -471,17 +693,29 @@ export class DerivClient {
 
   subscribeToTransactions(callback: (data: any) => void): void {
     this.subscriptionHandlers.set('transaction', callback);
+    this.activeSubscriptions.set('transaction', { transaction: 1, subscribe: 1 });
     this.send({ transaction: 1, subscribe: 1 });
   }
 
   disconnect(): void {
+    // Stop reconnecting before closing, so onclose sees a client that meant to go away
+    this.mode = null;
+    this.token = null;
+    this.clearReconnectTimer();
+    this.stopHeartbeat();
+    this.stateListeners.clear();
+    this.connectionState = 'idle';
+
     if (this.ws) {
-      this.ws.close();
+      const socket = this.ws;
       this.ws = null;
+      socket.close();
     }
     this.isAuthorized = false;
     this.messageHandlers.clear();
     this.subscriptionHandlers.clear();
+    this.activeSubscriptions.clear();
+    this.tickSubscriptionIds.clear();
   }
 
   isConnected(): boolean {
@@ -0,0 +1,874 @@
+// Drawings
+// Geometry, hit-testing and canvas rendering shared by the broadcast and trading charts, and validation of
+// drawings read back from broadcast_drawings
+
+import { v4 as uuidv4 } from 'uuid';
+import {
+  BaseDrawing,
+  ChannelDrawing,
+  Drawing,
+  DrawingType,
+  FibonacciDrawing,
+  Point,
+  PositionDrawing,
+  RangeDrawing,
+  VerticalLineDrawing,
+} from '@/types';
+
+export const FIB_RETRACEMENT_LEVELS = [0, 0.236, 0.382, 0.5, 0.618, 0.786, 1];
+export const FIB_EXTENSION_LEVELS = [0, 0.618, 1, 1.272, 1.618, 2, 2.618];
+
+const DRAWING_TYPES: DrawingType[] = [
+  'trendline', 'horizontal', 'rectangle', 'arrow', 'text', 'pricemarker',
+  'fibretracement', 'fibextension', 'channel', 'vertical', 'pricerange', 'timerange', 'measure', 'longposition', 'shortposition',
+];
+
+// Analysis tools drawn by dragging from one point to another, on top of trendline, rectangle and arrow
+export type AnalysisTool =
+  | 'fibretracement'
+  | 'fibextension'
+  | 'channel'
+  | 'pricerange'
+  | 'timerange'
+  | 'measure'
+  | 'longposition'
+  | 'shortposition';
+
+export const ANALYSIS_TOOLS: { type: AnalysisTool; label: string }[] = [
+  { type: 'fibretracement', label: 'Fib' },
+  { type: 'fibextension', label: 'Fib Ext' },
+  { type: 'channel', label: 'Channel' },
+  { type: 'pricerange', label: 'Price' },
+  { type: 'timerange', label: 'Date' },
+  { type: 'measure', label: 'Measure' },
+  { type: 'longposition', label: 'Long' },
+  { type: 'shortposition', label: 'Short' },
+];
+
+export type DrawingStyle = Pick<BaseDrawing, 'referralCode' | 'symbol' | 'color' | 'lineWidth'>;
+
+export interface PixelPoint {
+  x: number;
+  y: number;
+}
+
+// How a chart places times and prices on its canvas, and the plot area drawings are clipped to
+export interface DrawingProjection {
+  timeToX: (time: number) => number | null;
+  priceToY: (price: number) => number | null;
+  left: number;
+  right: number;
+  top: number;
+  bottom: number;
+  barSeconds: number; // Candle interval, for bar counts
+}
+
+export interface PriceBar {
+  time: number;
+  high: number;
+  low: number;
+}
+
+const HIT_THRESHOLD = 8;
+const HANDLE_HIT_RADIUS = 8;
+const PROFIT_FILL = 'rgba(14, 203, 129, 0.18)';
+const LOSS_FILL = 'rgba(246, 70, 93, 0.18)';
+
+export function isAnalysisTool(mode: unknown): mode is AnalysisTool {
+  return ANALYSIS_TOOLS.some(tool => tool.type === mode);
+}
+
+function toPixel(projection: DrawingProjection, point: Point): PixelPoint | null {
+  const x = projection.timeToX(point.x);
+  const y = projection.priceToY(point.y);
+  return x === null || y === null ? null : { x, y };
+}
+
+function distToSegment(px: number, py: number, a: PixelPoint, b: PixelPoint): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lenSq = dx * dx + dy * dy;
+  if (lenSq === 0) return Math.hypot(px - a.x, py - a.y);
+  const t = Math.max(0, Math.min(1, ((px - a.x) * dx + (py - a.y) * dy) / lenSq));
+  return Math.hypot(px - (a.x + t * dx), py - (a.y + t * dy));
+}
+
+function insideBox(px: number, py: number, a: PixelPoint, b: PixelPoint, margin = 0): boolean {
+  return px >= Math.min(a.x, b.x) - margin && px <= Math.max(a.x, b.x) + margin &&
+    py >= Math.min(a.y, b.y) - margin && py <= Math.max(a.y, b.y) + margin;
+}
+
+// Price on the line through two points at `time`
+function priceOnLine(start: Point, end: Point, time: number): number {
+  if (end.x === start.x) return start.y;
+  return start.y + ((end.y - start.y) * (time - start.x)) / (end.x - start.x);
+}
+
+// ============ CREATION ============
+
+/**
+ * Offset for a new channel's parallel line: far enough to take in every bar between the baseline's ends,
+ * on the side price strays furthest. Falls back to half the baseline's move when no bars are in range.
+ */
+function fitChannelOffset(start: Point, end: Point, bars: PriceBar[]): number {
+  const from = Math.min(start.x, end.x);
+  const to = Math.max(start.x, end.x);
+  let above = 0;
+  let below = 0;
+
+  for (const bar of bars) {
+    if (bar.time < from || bar.time > to) continue;
+    const base = priceOnLine(start, end, bar.time);
+    above = Math.max(above, bar.high - base);
+    below = Math.max(below, base - bar.low);
+  }
+
+  if (above === 0 && below === 0) return Math.abs(end.y - start.y) / 2 || start.y * 0.002;
+  return above >= below ? above : -below;
+}
+
+export function createAnalysisDrawing(tool: AnalysisTool, start: Point, end: Point, style: DrawingStyle, bars: PriceBar[] = []): Drawing {
+  const now = new Date();
+  const base = { id: uuidv4(), ...style, createdAt: now, updatedAt: now };
+
+  switch (tool) {
+    case 'fibretracement':
+    case 'fibextension':
+      return {
+        ...base,
+        type: tool,
+        startPoint: start,
+        endPoint: end,
+        levels: [...(tool === 'fibretracement' ? FIB_RETRACEMENT_LEVELS : FIB_EXTENSION_LEVELS)],
+        extendRight: false,
+      };
+    case 'channel':
+      return { ...base, type: tool, startPoint: start, endPoint: end, offset: fitChannelOffset(start, end, bars), fillOpacity: 0.08 };
+    case 'pricerange':
+    case 'timerange':
+    case 'measure':
+      return { ...base, type: tool, startPoint: start, endPoint: end };
+    case 'longposition':
+    case 'shortposition': {
+      // The drag sets the target distance; the stop starts at the same distance the other way (1:1)
+      const distance = Math.abs(end.y - start.y) || start.y * 0.002;
+      const direction = tool === 'longposition' ? 1 : -1;
+      const barSeconds = bars.length > 1 ? bars[bars.length - 1].time - bars[bars.length - 2].time : 60;
+      return {
+        ...base,
+        type: tool,
+        entry: start,
+        endTime: end.x > start.x ? end.x : start.x + barSeconds * 20,
+        takeProfit: start.y + direction * distance,
+        stopLoss: start.y - direction * distance,
+      };
+    }
+  }
+}
+
+export function createVerticalLine(time: number, style: DrawingStyle): VerticalLineDrawing {
+  const now = new Date();
+  return { id: uuidv4(), type: 'vertical', ...style, time, createdAt: now, updatedAt: now };
+}
+
+// ============ MEASUREMENTS ============
+
+export function fibonacciLevelPrice(drawing: FibonacciDrawing, level: number): number {
+  const move = drawing.endPoint.y - drawing.startPoint.y;
+  return drawing.type === 'fibretracement' ? drawing.endPoint.y - move * level : drawing.startPoint.y + move * level;
+}
+
+export interface RangeMeasurement {
+  priceChange: number;
+  percentChange: number;
+  seconds: number;
+  bars: number;
+}
+
+export function measureRange(start: Point, end: Point, barSeconds: number): RangeMeasurement {
+  const seconds = end.x - start.x;
+  return {
+    priceChange: end.y - start.y,
+    percentChange: start.y !== 0 ? ((end.y - start.y) / start.y) * 100 : 0,
+    seconds,
+    bars: barSeconds > 0 ? Math.round(seconds / barSeconds) : 0,
+  };
+}
+
+export function formatSpan(seconds: number): string {
+  const total = Math.abs(Math.round(seconds));
+  const days = Math.floor(total / 86400);
+  const hours = Math.floor((total % 86400) / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  if (minutes > 0) return `${minutes}m`;
+  return `${total}s`;
+}
+
+// Reward per unit of risk; 0 when the stop sits on the entry
+export function positionRewardRatio(drawing: PositionDrawing): number {
+  const risk = Math.abs(drawing.entry.y - drawing.stopLoss);
+  return risk > 0 ? Math.abs(drawing.takeProfit - drawing.entry.y) / risk : 0;
+}
+
+export function drawingLabel(drawing: Drawing): string {
+  switch (drawing.type) {
+    case 'trendline':
+      return 'Trend Line';
+    case 'horizontal':
+      return drawing.label ? `${drawing.label} line` : 'Horizontal Line';
+    case 'rectangle':
+      return 'Zone';
+    case 'arrow':
+      return 'Arrow';
+    case 'text':
+      return `"${drawing.text}"`;
+    case 'pricemarker':
+      return `${drawing.side === 'buy' ? 'Buy' : 'Sell'} ${drawing.label || drawing.price}`;
+    case 'fibretracement':
+      return 'Fib Retracement';
+    case 'fibextension':
+      return 'Fib Extension';
+    case 'channel':
+      return 'Parallel Channel';
+    case 'vertical':
+      return drawing.label ? `${drawing.label} line` : 'Vertical Line';
+    case 'pricerange':
+      return 'Price Range';
+    case 'timerange':
+      return 'Date Range';
+    case 'measure':
+      return 'Measure';
+    case 'longposition':
+      return 'Long Position';
+    case 'shortposition':
+      return 'Short Position';
+  }
+}
+
+// ============ EDITING ============
+
+/**
+ * Points that can be dragged to reshape a drawing, in the order moveDrawingAnchor takes them. Lines
+ * spanning the whole chart and text have none; they are moved as a whole.
+ */
+export function drawingAnchors(drawing: Drawing): Point[] {
+  switch (drawing.type) {
+    case 'trendline':
+    case 'arrow':
+    case 'fibretracement':
+    case 'fibextension':
+    case 'pricerange':
+    case 'timerange':
+    case 'measure':
+      return [drawing.startPoint, drawing.endPoint];
+    case 'rectangle':
+      return [
+        drawing.startPoint,
+        drawing.endPoint,
+        { x: drawing.startPoint.x, y: drawing.endPoint.y },
+        { x: drawing.endPoint.x, y: drawing.startPoint.y },
+      ];
+    case 'channel': {
+      const midTime = (drawing.startPoint.x + drawing.endPoint.x) / 2;
+      return [
+        drawing.startPoint,
+        drawing.endPoint,
+        { x: midTime, y: (drawing.startPoint.y + drawing.endPoint.y) / 2 + drawing.offset },
+      ];
+    }
+    case 'longposition':
+    case 'shortposition':
+      return [
+        drawing.entry,
+        { x: drawing.entry.x, y: drawing.takeProfit },
+        { x: drawing.entry.x, y: drawing.stopLoss },
+        { x: drawing.endTime, y: drawing.entry.y },
+      ];
+    default:
+      return [];
+  }
+}
+
+export function moveDrawingAnchor(drawing: Drawing, index: number, point: Point): Drawing {
+  const updatedAt = new Date();
+
+  switch (drawing.type) {
+    case 'trendline':
+    case 'arrow':
+    case 'fibretracement':
+    case 'fibextension':
+    case 'pricerange':
+    case 'timerange':
+    case 'measure':
+      return index === 0 ? { ...drawing, startPoint: point, updatedAt } : { ...drawing, endPoint: point, updatedAt };
+    case 'rectangle':
+      if (index === 0) return { ...drawing, startPoint: point, updatedAt };
+      if (index === 1) return { ...drawing, endPoint: point, updatedAt };
+      if (index === 2) {
+        return { ...drawing, startPoint: { ...drawing.startPoint, x: point.x }, endPoint: { ...drawing.endPoint, y: point.y }, updatedAt };
+      }
+      return { ...drawing, startPoint: { ...drawing.startPoint, y: point.y }, endPoint: { ...drawing.endPoint, x: point.x }, updatedAt };
+    case 'channel':
+      if (index === 0) return { ...drawing, startPoint: point, updatedAt };
+      if (index === 1) return { ...drawing, endPoint: point, updatedAt };
+      return { ...drawing, offset: point.y - (drawing.startPoint.y + drawing.endPoint.y) / 2, updatedAt };
+    case 'longposition':
+    case 'shortposition': {
+      const long = drawing.type === 'longposition';
+      if (index === 0) {
+        // Moving the entry carries the target and stop with it
+        const shift = point.y - drawing.entry.y;
+        return {
+          ...drawing,
+          entry: point,
+          endTime: Math.max(drawing.endTime, point.x),
+          takeProfit: drawing.takeProfit + shift,
+          stopLoss: drawing.stopLoss + shift,
+          updatedAt,
+        };
+      }
+      // Target and stop stay on their side of the entry
+      if (index === 1) {
+        return { ...drawing, takeProfit: long ? Math.max(point.y, drawing.entry.y) : Math.min(point.y, drawing.entry.y), updatedAt };
+      }
+      if (index === 2) {
+        return { ...drawing, stopLoss: long ? Math.min(point.y, drawing.entry.y) : Math.max(point.y, drawing.entry.y), updatedAt };
+      }
+      return { ...drawing, endTime: Math.max(point.x, drawing.entry.x), updatedAt };
+    }
+    case 'text':
+      return { ...drawing, position: point, updatedAt };
+    default:
+      return drawing;
+  }
+}
+
+// Moves a whole drawing by `dt` seconds and `dp` in price
+export function translateDrawing(drawing: Drawing, dt: number, dp: number): Drawing {
+  const shift = (point: Point): Point => ({ x: point.x + dt, y: point.y + dp });
+  const updatedAt = new Date();
+
+  switch (drawing.type) {
+    case 'horizontal':
+    case 'pricemarker':
+      return { ...drawing, price: drawing.price + dp, updatedAt };
+    case 'vertical':
+      return { ...drawing, time: drawing.time + dt, updatedAt };
+    case 'text':
+      return { ...drawing, position: shift(drawing.position), updatedAt };
+    case 'longposition':
+    case 'shortposition':
+      return {
+        ...drawing,
+        entry: shift(drawing.entry),
+        endTime: drawing.endTime + dt,
+        takeProfit: drawing.takeProfit + dp,
+        stopLoss: drawing.stopLoss + dp,
+        updatedAt,
+      };
+    default:
+      return { ...drawing, startPoint: shift(drawing.startPoint), endPoint: shift(drawing.endPoint), updatedAt };
+  }
+}
+
+// Swaps a long position for a short one (or back), mirroring target and stop around the entry
+export function flipPosition(drawing: PositionDrawing): PositionDrawing {
+  return {
+    ...drawing,
+    type: drawing.type === 'longposition' ? 'shortposition' : 'longposition',
+    takeProfit: 2 * drawing.entry.y - drawing.takeProfit,
+    stopLoss: 2 * drawing.entry.y - drawing.stopLoss,
+    updatedAt: new Date(),
+  };
+}
+
+// ============ HIT-TESTING ============
+
+export function hitTestDrawing(drawing: Drawing, px: number, py: number, projection: DrawingProjection): boolean {
+  switch (drawing.type) {
+    case 'trendline':
+    case 'arrow': {
+      const start = toPixel(projection, drawing.startPoint);
+      const end = toPixel(projection, drawing.endPoint);
+      return Boolean(start && end && distToSegment(px, py, start, end) < HIT_THRESHOLD);
+    }
+    case 'horizontal':
+    case 'pricemarker': {
+      const y = projection.priceToY(drawing.price);
+      return y !== null && Math.abs(py - y) < HIT_THRESHOLD;
+    }
+    case 'vertical': {
+      const x = projection.timeToX(drawing.time);
+      return x !== null && Math.abs(px - x) < HIT_THRESHOLD;
+    }
+    case 'text': {
+      const pos = toPixel(projection, drawing.position);
+      if (!pos) return false;
+      const width = drawing.text.length * drawing.fontSize * 0.6;
+      return px >= pos.x - 6 && px <= pos.x + width + 6 && py >= pos.y - drawing.fontSize - 6 && py <= pos.y + 6;
+    }
+    case 'rectangle':
+    case 'pricerange':
+    case 'timerange':
+    case 'measure': {
+      const start = toPixel(projection, drawing.startPoint);
+      const end = toPixel(projection, drawing.endPoint);
+      return Boolean(start && end && insideBox(px, py, start, end, HIT_THRESHOLD / 2));
+    }
+    case 'fibretracement':
+    case 'fibextension': {
+      const start = toPixel(projection, drawing.startPoint);
+      const end = toPixel(projection, drawing.endPoint);
+      if (!start || !end) return false;
+      const right = drawing.extendRight ? projection.right : Math.max(start.x, end.x);
+      if (px < Math.min(start.x, end.x) - HIT_THRESHOLD || px > right + HIT_THRESHOLD) return false;
+      return distToSegment(px, py, start, end) < HIT_THRESHOLD || drawing.levels.some(level => {
+        const y = projection.priceToY(fibonacciLevelPrice(drawing, level));
+        return y !== null && Math.abs(py - y) < HIT_THRESHOLD;
+      });
+    }
+    case 'channel': {
+      const start = toPixel(projection, drawing.startPoint);
+      const end = toPixel(projection, drawing.endPoint);
+      const parallelStart = toPixel(projection, { x: drawing.startPoint.x, y: drawing.startPoint.y + drawing.offset });
+      const parallelEnd = toPixel(projection, { x: drawing.endPoint.x, y: drawing.endPoint.y + drawing.offset });
+      if (!start || !end || !parallelStart || !parallelEnd) return false;
+      if (distToSegment(px, py, start, end) < HIT_THRESHOLD || distToSegment(px, py, parallelStart, parallelEnd) < HIT_THRESHOLD) return true;
+      if (px < Math.min(start.x, end.x) || px > Math.max(start.x, end.x) || end.x === start.x) return false;
+      const t = (px - start.x) / (end.x - start.x);
+      const baseY = start.y + t * (end.y - start.y);
+      const parallelY = parallelStart.y + t * (parallelEnd.y - parallelStart.y);
+      return py >= Math.min(baseY, parallelY) && py <= Math.max(baseY, parallelY);
+    }
+    case 'longposition':
+    case 'shortposition': {
+      const left = projection.timeToX(drawing.entry.x);
+      const right = projection.timeToX(drawing.endTime);
+      const target = projection.priceToY(drawing.takeProfit);
+      const stop = projection.priceToY(drawing.stopLoss);
+      if (left === null || right === null || target === null || stop === null) return false;
+      return insideBox(px, py, { x: left, y: target }, { x: right, y: stop }, HIT_THRESHOLD / 2);
+    }
+  }
+}
+
+// Index of the anchor under the cursor, or null
+export function hitTestAnchor(drawing: Drawing, px: number, py: number, projection: DrawingProjection): number | null {
+  const anchors = drawingAnchors(drawing);
+  for (let i = 0; i < anchors.length; i++) {
+    const pixel = toPixel(projection, anchors[i]);
+    if (pixel && Math.hypot(px - pixel.x, py - pixel.y) <= HANDLE_HIT_RADIUS) return i;
+  }
+  return null;
+}
+
+// ============ RENDERING ============
+
+function drawHandle(ctx: CanvasRenderingContext2D, point: PixelPoint, color: string) {
+  ctx.fillStyle = '#fff';
+  ctx.strokeStyle = color;
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  ctx.arc(point.x, point.y, 5, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.stroke();
+}
+
+function drawTag(ctx: CanvasRenderingContext2D, text: string, x: number, y: number, background: string) {
+  ctx.font = 'bold 11px Inter, sans-serif';
+  const width = ctx.measureText(text).width + 12;
+  ctx.fillStyle = background;
+  ctx.beginPath();
+  ctx.roundRect(x - width / 2, y - 10, width, 20, 4);
+  ctx.fill();
+  ctx.fillStyle = '#fff';
+  ctx.textAlign = 'center';
+  ctx.fillText(text, x, y + 4);
+  ctx.textAlign = 'left';
+}
+
+function drawArrowLine(ctx: CanvasRenderingContext2D, from: PixelPoint, to: PixelPoint) {
+  const head = 7;
+  const angle = Math.atan2(to.y - from.y, to.x - from.x);
+  ctx.beginPath();
+  ctx.moveTo(from.x, from.y);
+  ctx.lineTo(to.x, to.y);
+  ctx.stroke();
+  ctx.beginPath();
+  ctx.moveTo(to.x, to.y);
+  ctx.lineTo(to.x - head * Math.cos(angle - Math.PI / 6), to.y - head * Math.sin(angle - Math.PI / 6));
+  ctx.lineTo(to.x - head * Math.cos(angle + Math.PI / 6), to.y - head * Math.sin(angle + Math.PI / 6));
+  ctx.closePath();
+  ctx.fill();
+}
+
+function formatPrice(value: number): string {
+  return value.toFixed(2);
+}
+
+function formatSigned(value: number, digits = 2): string {
+  return `${value >= 0 ? '+' : ''}${value.toFixed(digits)}`;
+}
+
+function renderFibonacci(ctx: CanvasRenderingContext2D, drawing: FibonacciDrawing, projection: DrawingProjection, isSelected: boolean) {
+  const start = toPixel(projection, drawing.startPoint);
+  const end = toPixel(projection, drawing.endPoint);
+  if (!start || !end) return;
+
+  const left = Math.min(start.x, end.x);
+  const right = drawing.extendRight ? projection.right : Math.max(start.x, end.x);
+  const levels = [...drawing.levels].sort((a, b) => a - b);
+  const ys = levels.map(level => projection.priceToY(fibonacciLevelPrice(drawing, level)));
+
+  // Alternate shading between neighbouring levels
+  ctx.fillStyle = drawing.color;
+  for (let i = 0; i < ys.length - 1; i++) {
+    const top = ys[i];
+    const bottom = ys[i + 1];
+    if (top === null || bottom === null) continue;
+    ctx.globalAlpha = i % 2 === 0 ? 0.08 : 0.04;
+    ctx.fillRect(left, Math.min(top, bottom), right - left, Math.abs(bottom - top));
+  }
+  ctx.globalAlpha = 1;
+
+  ctx.strokeStyle = drawing.color;
+  ctx.lineWidth = isSelected ? drawing.lineWidth + 1 : drawing.lineWidth;
+  ctx.font = '10px Inter, sans-serif';
+  levels.forEach((level, i) => {
+    const y = ys[i];
+    if (y === null) return;
+    ctx.beginPath();
+    ctx.moveTo(left, y);
+    ctx.lineTo(right, y);
+    ctx.stroke();
+    ctx.fillStyle = drawing.color;
+    ctx.fillText(`${level} (${formatPrice(fibonacciLevelPrice(drawing, level))})`, left + 4, y - 3);
+  });
+
+  // The measured move
+  ctx.lineWidth = 1;
+  ctx.setLineDash([4, 4]);
+  ctx.beginPath();
+  ctx.moveTo(start.x, start.y);
+  ctx.lineTo(end.x, end.y);
+  ctx.stroke();
+  ctx.setLineDash([]);
+}
+
+function renderChannel(ctx: CanvasRenderingContext2D, drawing: ChannelDrawing, projection: DrawingProjection, isSelected: boolean) {
+  const start = toPixel(projection, drawing.startPoint);
+  const end = toPixel(projection, drawing.endPoint);
+  const parallelStart = toPixel(projection, { x: drawing.startPoint.x, y: drawing.startPoint.y + drawing.offset });
+  const parallelEnd = toPixel(projection, { x: drawing.endPoint.x, y: drawing.endPoint.y + drawing.offset });
+  if (!start || !end || !parallelStart || !parallelEnd) return;
+
+  ctx.fillStyle = drawing.color;
+  ctx.globalAlpha = drawing.fillOpacity;
+  ctx.beginPath();
+  ctx.moveTo(start.x, start.y);
+  ctx.lineTo(end.x, end.y);
+  ctx.lineTo(parallelEnd.x, parallelEnd.y);
+  ctx.lineTo(parallelStart.x, parallelStart.y);
+  ctx.closePath();
+  ctx.fill();
+  ctx.globalAlpha = 1;
+
+  ctx.strokeStyle = drawing.color;
+  ctx.lineWidth = isSelected ? drawing.lineWidth + 1 : drawing.lineWidth;
+  if (isSelected) {
+    ctx.shadowColor = drawing.color;
+    ctx.shadowBlur = 8;
+  }
+  ctx.beginPath();
+  ctx.moveTo(start.x, start.y);
+  ctx.lineTo(end.x, end.y);
+  ctx.moveTo(parallelStart.x, parallelStart.y);
+  ctx.lineTo(parallelEnd.x, parallelEnd.y);
+  ctx.stroke();
+  ctx.shadowBlur = 0;
+
+  // Median line
+  ctx.lineWidth = 1;
+  ctx.setLineDash([4, 4]);
+  ctx.beginPath();
+  ctx.moveTo((start.x + parallelStart.x) / 2, (start.y + parallelStart.y) / 2);
+  ctx.lineTo((end.x + parallelEnd.x) / 2, (end.y + parallelEnd.y) / 2);
+  ctx.stroke();
+  ctx.setLineDash([]);
+}
+
+function renderVerticalLine(ctx: CanvasRenderingContext2D, drawing: VerticalLineDrawing, projection: DrawingProjection, isSelected: boolean) {
+  const x = projection.timeToX(drawing.time);
+  if (x === null || x < projection.left || x > projection.right) return;
+
+  ctx.strokeStyle = drawing.color;
+  ctx.lineWidth = isSelected ? drawing.lineWidth + 1 : drawing.lineWidth;
+  ctx.setLineDash([5, 5]);
+  if (isSelected) {
+    ctx.shadowColor = drawing.color;
+    ctx.shadowBlur = 8;
+  }
+  ctx.beginPath();
+  ctx.moveTo(x, projection.top);
+  ctx.lineTo(x, projection.bottom);
+  ctx.stroke();
+  ctx.setLineDash([]);
+  ctx.shadowBlur = 0;
+
+  if (drawing.label) {
+    ctx.fillStyle = drawing.color;
+    ctx.font = '12px Inter, sans-serif';
+    ctx.fillText(drawing.label, x + 5, projection.top + 14);
+  }
+
+  const time = new Date(drawing.time * 1000).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  drawTag(ctx, time, x, projection.bottom - 12, drawing.color);
+}
+
+function renderRange(ctx: CanvasRenderingContext2D, drawing: RangeDrawing, projection: DrawingProjection, isSelected: boolean) {
+  const start = toPixel(projection, drawing.startPoint);
+  const end = toPixel(projection, drawing.endPoint);
+  if (!start || !end) return;
+
+  const measurement = measureRange(drawing.startPoint, drawing.endPoint, projection.barSeconds);
+  const rising = measurement.priceChange >= 0;
+  const tint = drawing.type === 'timerange' ? drawing.color : rising ? '#0ecb81' : '#f6465d';
+  const left = Math.min(start.x, end.x);
+  const top = Math.min(start.y, end.y);
+  const width = Math.abs(end.x - start.x);
+  const height = Math.abs(end.y - start.y);
+  const midX = left + width / 2;
+  const midY = top + height / 2;
+
+  ctx.fillStyle = tint;
+  ctx.globalAlpha = 0.12;
+  if (drawing.type === 'timerange') {
+    ctx.fillRect(left, projection.top, width, projection.bottom - projection.top);
+  } else {
+    ctx.fillRect(left, top, width, height);
+  }
+  ctx.globalAlpha = 1;
+
+  ctx.strokeStyle = tint;
+  ctx.fillStyle = tint;
+  ctx.lineWidth = isSelected ? 2 : 1;
+
+  const lines: string[] = [];
+  if (drawing.type !== 'timerange') {
+    drawArrowLine(ctx, { x: midX, y: start.y }, { x: midX, y: end.y });
+    lines.push(`${formatSigned(measurement.priceChange)} (${formatSigned(measurement.percentChange)}%)`);
+  }
+  if (drawing.type !== 'pricerange') {
+    drawArrowLine(ctx, { x: start.x, y: midY }, { x: end.x, y: midY });
+    lines.push(`${Math.abs(measurement.bars)} bars, ${formatSpan(measurement.seconds)}`);
+  }
+
+  const tagY = drawing.type === 'timerange' ? midY - 16 : end.y + (rising ? -16 : 16);
+  lines.forEach((line, i) => drawTag(ctx, line, midX, tagY + (rising || drawing.type === 'timerange' ? -i * 22 : i * 22), tint));
+}
+
+function renderPosition(ctx: CanvasRenderingContext2D, drawing: PositionDrawing, projection: DrawingProjection, isSelected: boolean) {
+  const left = projection.timeToX(drawing.entry.x);
+  const right = projection.timeToX(drawing.endTime);
+  const entryY = projection.priceToY(drawing.entry.y);
+  const targetY = projection.priceToY(drawing.takeProfit);
+  const stopY = projection.priceToY(drawing.stopLoss);
+  if (left === null || right === null || entryY === null || targetY === null || stopY === null) return;
+
+  const width = right - left;
+  ctx.fillStyle = PROFIT_FILL;
+  ctx.fillRect(left, Math.min(entryY, targetY), width, Math.abs(targetY - entryY));
+  ctx.fillStyle = LOSS_FILL;
+  ctx.fillRect(left, Math.min(entryY, stopY), width, Math.abs(stopY - entryY));
+
+  ctx.strokeStyle = drawing.color;
+  ctx.lineWidth = isSelected ? drawing.lineWidth + 1 : drawing.lineWidth;
+  ctx.beginPath();
+  ctx.moveTo(left, entryY);
+  ctx.lineTo(right, entryY);
+  ctx.stroke();
+
+  const midX = left + width / 2;
+  const percent = (price: number) => formatSigned(((price - drawing.entry.y) / drawing.entry.y) * 100);
+  const long = drawing.type === 'longposition';
+  drawTag(ctx, `Target ${formatPrice(drawing.takeProfit)} (${percent(drawing.takeProfit)}%)`, midX, targetY + (long ? -12 : 12), '#0ecb81');
+  drawTag(ctx, `Stop ${formatPrice(drawing.stopLoss)} (${percent(drawing.stopLoss)}%)`, midX, stopY + (long ? 12 : -12), '#f6465d');
+  drawTag(ctx, `${long ? 'Long' : 'Short'} ${formatPrice(drawing.entry.y)} · R:R ${positionRewardRatio(drawing).toFixed(2)}`, midX, entryY, drawing.color);
+}
+
+/**
+ * Renders the analysis tools and vertical lines; the charts draw the original tools themselves.
+ * Selected drawings get their drag handles.
+ */
+export function renderAnalysisDrawing(ctx: CanvasRenderingContext2D, drawing: Drawing, projection: DrawingProjection, isSelected: boolean): void {
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(projection.left, projection.top, projection.right - projection.left, projection.bottom - projection.top);
+  ctx.clip();
+
+  switch (drawing.type) {
+    case 'fibretracement':
+    case 'fibextension':
+      renderFibonacci(ctx, drawing, projection, isSelected);
+      break;
+    case 'channel':
+      renderChannel(ctx, drawing, projection, isSelected);
+      break;
+    case 'vertical':
+      renderVerticalLine(ctx, drawing, projection, isSelected);
+      break;
+    case 'pricerange':
+    case 'timerange':
+    case 'measure':
+      renderRange(ctx, drawing, projection, isSelected);
+      break;
+    case 'longposition':
+    case 'shortposition':
+      renderPosition(ctx, drawing, projection, isSelected);
+      break;
+    default:
+      ctx.restore();
+      return;
+  }
+
+  if (isSelected) {
+    drawingAnchors(drawing).forEach(anchor => {
+      const pixel = toPixel(projection, anchor);
+      if (pixel) drawHandle(ctx, pixel, drawing.color);
+    });
+  }
+  ctx.restore();
+}
+
+// ============ VALIDATION ============
+
+function isPoint(value: unknown): value is Point {
+  if (!value || typeof value !== 'object') return false;
+  const point = value as Record<string, unknown>;
+  return Number.isFinite(point.x) && Number.isFinite(point.y);
+}
+
+function toPoint(value: unknown): Point | null {
+  return isPoint(value) ? { x: Number(value.x), y: Number(value.y) } : null;
+}
+
+function finite(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+/**
+ * Drawings come back from broadcast_drawings JSONB, or from another browser, as plain JSON. Each is
+ * checked against the shape of its type and rebuilt from known fields; anything malformed is dropped.
+ */
+export function sanitizeDrawings(value: unknown): Drawing[] {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((item): Drawing[] => {
+    const drawing = sanitizeDrawing(item);
+    return drawing ? [drawing] : [];
+  });
+}
+
+function sanitizeDrawing(value: unknown): Drawing | null {
+  if (!value || typeof value !== 'object') return null;
+  const raw = value as Record<string, unknown>;
+  if (typeof raw.id !== 'string' || !DRAWING_TYPES.includes(raw.type as DrawingType)) return null;
+
+  const base = {
+    id: raw.id,
+    referralCode: typeof raw.referralCode === 'string' ? raw.referralCode : '',
+    symbol: typeof raw.symbol === 'string' ? raw.symbol : '',
+    color: typeof raw.color === 'string' ? raw.color : '#FF444F',
+    lineWidth: finite(raw.lineWidth) ?? 2,
+    createdAt: raw.createdAt as Date,
+    updatedAt: raw.updatedAt as Date,
+  };
+  const startPoint = toPoint(raw.startPoint);
+  const endPoint = toPoint(raw.endPoint);
+
+  switch (raw.type as DrawingType) {
+    case 'trendline':
+      if (!startPoint || !endPoint) return null;
+      return { ...base, type: 'trendline', startPoint, endPoint, extendLeft: raw.extendLeft === true, extendRight: raw.extendRight === true };
+    case 'horizontal': {
+      const price = finite(raw.price);
+      if (price === null) return null;
+      return { ...base, type: 'horizontal', price, label: typeof raw.label === 'string' ? raw.label : undefined };
+    }
+    case 'rectangle':
+      if (!startPoint || !endPoint) return null;
+      return {
+        ...base,
+        type: 'rectangle',
+        startPoint,
+        endPoint,
+        fillColor: typeof raw.fillColor === 'string' ? raw.fillColor : base.color,
+        fillOpacity: finite(raw.fillOpacity) ?? 0.15,
+      };
+    case 'arrow':
+      if (!startPoint || !endPoint) return null;
+      return { ...base, type: 'arrow', startPoint, endPoint, headSize: finite(raw.headSize) ?? 15 };
+    case 'text': {
+      const position = toPoint(raw.position);
+      if (!position || typeof raw.text !== 'string') return null;
+      return {
+        ...base,
+        type: 'text',
+        position,
+        text: raw.text,
+        fontSize: finite(raw.fontSize) ?? 14,
+        backgroundColor: typeof raw.backgroundColor === 'string' ? raw.backgroundColor : undefined,
+      };
+    }
+    case 'pricemarker': {
+      const price = finite(raw.price);
+      if (price === null) return null;
+      return {
+        ...base,
+        type: 'pricemarker',
+        price,
+        label: typeof raw.label === 'string' ? raw.label : '',
+        side: raw.side === 'buy' ? 'buy' : 'sell',
+      };
+    }
+    case 'fibretracement':
+    case 'fibextension': {
+      if (!startPoint || !endPoint) return null;
+      const type = raw.type as FibonacciDrawing['type'];
+      const levels = Array.isArray(raw.levels) ? raw.levels.filter((level): level is number => finite(level) !== null) : [];
+      return {
+        ...base,
+        type,
+        startPoint,
+        endPoint,
+        levels: levels.length > 0 ? levels : [...(type === 'fibretracement' ? FIB_RETRACEMENT_LEVELS : FIB_EXTENSION_LEVELS)],
+        extendRight: raw.extendRight === true,
+      };
+    }
+    case 'channel': {
+      const offset = finite(raw.offset);
+      if (!startPoint || !endPoint || offset === null) return null;
+      return { ...base, type: 'channel', startPoint, endPoint, offset, fillOpacity: finite(raw.fillOpacity) ?? 0.08 };
+    }
+    case 'vertical': {
+      const time = finite(raw.time);
+      if (time === null) return null;
+      return { ...base, type: 'vertical', time, label: typeof raw.label === 'string' ? raw.label : undefined };
+    }
+    case 'pricerange':
+    case 'timerange':
+    case 'measure':
+      if (!startPoint || !endPoint) return null;
+      return { ...base, type: raw.type as RangeDrawing['type'], startPoint, endPoint };
+    case 'longposition':
+    case 'shortposition': {
+      const entry = toPoint(raw.entry);
+      const endTime = finite(raw.endTime);
+      const takeProfit = finite(raw.takeProfit);
+      const stopLoss = finite(raw.stopLoss);
+      if (!entry || endTime === null || takeProfit === null || stopLoss === null) return null;
+      return { ...base, type: raw.type as PositionDrawing['type'], entry, endTime, takeProfit, stopLoss };
+    }
+  }
+}
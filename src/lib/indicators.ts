@@ -0,0 +1,336 @@
+// Technical indicators
+// Series are aligned with the candles they were computed from (null until enough candles); settings are kept per symbol
+
+import { v4 as uuidv4 } from 'uuid';
+import { CandleData, Indicator, IndicatorPane, IndicatorType } from '@/types';
+
+const STORAGE_PREFIX = 'lunar-chart-indicators';
+
+type Series = (number | null)[];
+
+export interface IndicatorLine {
+  values: Series;
+  color: string;
+  dashed?: boolean;
+}
+
+export interface IndicatorOutput {
+  indicator: Indicator;
+  pane: IndicatorPane;
+  label: string;
+  lines: IndicatorLine[];
+  fillBetween?: [number, number]; // Indices into lines, e.g. the Bollinger envelope
+  histogram?: Series;
+  levels?: number[];
+  range?: [number, number]; // Fixed scale; otherwise fitted to the visible values
+}
+
+export interface IndicatorParamField {
+  key: string;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+}
+
+interface IndicatorDefinition {
+  label: string;
+  pane: IndicatorPane;
+  params: IndicatorParamField[];
+  defaults: Record<string, number>;
+  color: string;
+}
+
+export const INDICATOR_CATALOGUE: Record<IndicatorType, IndicatorDefinition> = {
+  sma: {
+    label: 'SMA',
+    pane: 'price',
+    params: [{ key: 'period', label: 'Period', min: 2, max: 200, step: 1 }],
+    defaults: { period: 20 },
+    color: '#f0b90b',
+  },
+  ema: {
+    label: 'EMA',
+    pane: 'price',
+    params: [{ key: 'period', label: 'Period', min: 2, max: 200, step: 1 }],
+    defaults: { period: 50 },
+    color: '#a855f7',
+  },
+  bollinger: {
+    label: 'Bollinger Bands',
+    pane: 'price',
+    params: [
+      { key: 'period', label: 'Period', min: 2, max: 200, step: 1 },
+      { key: 'stdDev', label: 'Std dev', min: 0.5, max: 5, step: 0.5 },
+    ],
+    defaults: { period: 20, stdDev: 2 },
+    color: '#3b82f6',
+  },
+  rsi: {
+    label: 'RSI',
+    pane: 'oscillator',
+    params: [
+      { key: 'period', label: 'Period', min: 2, max: 100, step: 1 },
+      { key: 'overbought', label: 'Overbought', min: 50, max: 95, step: 1 },
+      { key: 'oversold', label: 'Oversold', min: 5, max: 50, step: 1 },
+    ],
+    defaults: { period: 14, overbought: 70, oversold: 30 },
+    color: '#ec4899',
+  },
+  macd: {
+    label: 'MACD',
+    pane: 'oscillator',
+    params: [
+      { key: 'fastPeriod', label: 'Fast', min: 2, max: 100, step: 1 },
+      { key: 'slowPeriod', label: 'Slow', min: 3, max: 200, step: 1 },
+      { key: 'signalPeriod', label: 'Signal', min: 2, max: 50, step: 1 },
+    ],
+    defaults: { fastPeriod: 12, slowPeriod: 26, signalPeriod: 9 },
+    color: '#06b6d4',
+  },
+  atr: {
+    label: 'ATR',
+    pane: 'oscillator',
+    params: [{ key: 'period', label: 'Period', min: 2, max: 100, step: 1 }],
+    defaults: { period: 14 },
+    color: '#22c55e',
+  },
+};
+
+export const INDICATOR_TYPES = Object.keys(INDICATOR_CATALOGUE) as IndicatorType[];
+
+export function createIndicator(type: IndicatorType): Indicator {
+  const definition = INDICATOR_CATALOGUE[type];
+  return { id: uuidv4(), type, color: definition.color, visible: true, ...definition.defaults } as Indicator;
+}
+
+// Parameters outside the catalogue's bounds are clamped; unknown types are dropped.
+// Used on stored settings and on indicator sets received with a broadcast.
+export function sanitizeIndicators(value: unknown): Indicator[] {
+  if (!Array.isArray(value)) return [];
+
+  return value.flatMap((item): Indicator[] => {
+    if (!item || typeof item !== 'object') return [];
+    const raw = item as Record<string, unknown>;
+    const definition = INDICATOR_CATALOGUE[raw.type as IndicatorType];
+    if (!definition) return [];
+
+    const params: Record<string, number> = {};
+    for (const field of definition.params) {
+      const number = Number(raw[field.key]);
+      params[field.key] = Number.isFinite(number)
+        ? Math.min(field.max, Math.max(field.min, number))
+        : definition.defaults[field.key];
+    }
+
+    return [{
+      id: typeof raw.id === 'string' ? raw.id : uuidv4(),
+      type: raw.type as IndicatorType,
+      color: typeof raw.color === 'string' ? raw.color : definition.color,
+      visible: raw.visible !== false,
+      ...params,
+    } as Indicator];
+  });
+}
+
+export function indicatorLabel(indicator: Indicator): string {
+  switch (indicator.type) {
+    case 'sma':
+    case 'ema':
+    case 'atr':
+      return `${INDICATOR_CATALOGUE[indicator.type].label} ${indicator.period}`;
+    case 'bollinger':
+      return `BB ${indicator.period}, ${indicator.stdDev}`;
+    case 'rsi':
+      return `RSI ${indicator.period}`;
+    case 'macd':
+      return `MACD ${indicator.fastPeriod}, ${indicator.slowPeriod}, ${indicator.signalPeriod}`;
+  }
+}
+
+// ============ PERSISTENCE ============
+
+function storageKey(symbol: string): string {
+  return `${STORAGE_PREFIX}-${symbol}`;
+}
+
+export function loadIndicators(symbol: string): Indicator[] {
+  if (typeof window === 'undefined') return [];
+
+  try {
+    const stored = localStorage.getItem(storageKey(symbol));
+    return stored ? sanitizeIndicators(JSON.parse(stored)) : [];
+  } catch (err) {
+    console.error('[Indicators] Failed to load indicators:', err);
+    return [];
+  }
+}
+
+export function saveIndicators(symbol: string, indicators: Indicator[]): void {
+  if (typeof window === 'undefined') return;
+
+  if (indicators.length === 0) {
+    localStorage.removeItem(storageKey(symbol));
+  } else {
+    localStorage.setItem(storageKey(symbol), JSON.stringify(indicators));
+  }
+}
+
+// ============ CALCULATIONS ============
+
+function sma(values: Series, period: number): Series {
+  const result: Series = new Array(values.length).fill(null);
+  let sum = 0;
+  let count = 0;
+
+  for (let i = 0; i < values.length; i++) {
+    const value = values[i];
+    if (value === null) {
+      sum = 0;
+      count = 0;
+      continue;
+    }
+    sum += value;
+    count++;
+    if (count > period) {
+      sum -= values[i - period] as number;
+      count = period;
+    }
+    if (count === period) result[i] = sum / period;
+  }
+  return result;
+}
+
+// Seeded with the SMA of the first `period` values, so leading nulls (e.g. the MACD line) are skipped
+function ema(values: Series, period: number): Series {
+  const result: Series = new Array(values.length).fill(null);
+  const k = 2 / (period + 1);
+  let previous: number | null = null;
+  let seed: number[] = [];
+
+  for (let i = 0; i < values.length; i++) {
+    const value = values[i];
+    if (value === null) continue;
+    if (previous === null) {
+      seed.push(value);
+      if (seed.length === period) {
+        previous = seed.reduce((sum, v) => sum + v, 0) / period;
+        result[i] = previous;
+        seed = [];
+      }
+      continue;
+    }
+    previous = value * k + previous * (1 - k);
+    result[i] = previous;
+  }
+  return result;
+}
+
+// Wilder's smoothing, as used by RSI and ATR
+function rma(values: number[], period: number): Series {
+  const result: Series = new Array(values.length).fill(null);
+  if (values.length < period) return result;
+
+  let average = values.slice(0, period).reduce((sum, v) => sum + v, 0) / period;
+  result[period - 1] = average;
+  for (let i = period; i < values.length; i++) {
+    average = (average * (period - 1) + values[i]) / period;
+    result[i] = average;
+  }
+  return result;
+}
+
+function bollinger(closes: number[], period: number, stdDev: number): { middle: Series; upper: Series; lower: Series } {
+  const middle = sma(closes, period);
+  const upper: Series = new Array(closes.length).fill(null);
+  const lower: Series = new Array(closes.length).fill(null);
+
+  for (let i = period - 1; i < closes.length; i++) {
+    const mean = middle[i] as number;
+    let variance = 0;
+    for (let j = i - period + 1; j <= i; j++) variance += (closes[j] - mean) ** 2;
+    const deviation = Math.sqrt(variance / period) * stdDev;
+    upper[i] = mean + deviation;
+    lower[i] = mean - deviation;
+  }
+  return { middle, upper, lower };
+}
+
+function rsi(closes: number[], period: number): Series {
+  const result: Series = new Array(closes.length).fill(null);
+  if (closes.length <= period) return result;
+
+  const gains: number[] = [];
+  const losses: number[] = [];
+  for (let i = 1; i < closes.length; i++) {
+    const change = closes[i] - closes[i - 1];
+    gains.push(Math.max(change, 0));
+    losses.push(Math.max(-change, 0));
+  }
+
+  const averageGain = rma(gains, period);
+  const averageLoss = rma(losses, period);
+  for (let i = period - 1; i < gains.length; i++) {
+    const gain = averageGain[i] as number;
+    const loss = averageLoss[i] as number;
+    result[i + 1] = loss === 0 ? 100 : 100 - 100 / (1 + gain / loss);
+  }
+  return result;
+}
+
+function atr(candles: CandleData[], period: number): Series {
+  const trueRanges = candles.map((candle, i) => {
+    if (i === 0) return candle.high - candle.low;
+    const previousClose = candles[i - 1].close;
+    return Math.max(candle.high - candle.low, Math.abs(candle.high - previousClose), Math.abs(candle.low - previousClose));
+  });
+  return rma(trueRanges, period);
+}
+
+export function computeIndicator(indicator: Indicator, candles: CandleData[]): IndicatorOutput {
+  const closes = candles.map(c => c.close);
+  const base = { indicator, pane: INDICATOR_CATALOGUE[indicator.type].pane, label: indicatorLabel(indicator) };
+
+  switch (indicator.type) {
+    case 'sma':
+      return { ...base, lines: [{ values: sma(closes, indicator.period), color: indicator.color }] };
+    case 'ema':
+      return { ...base, lines: [{ values: ema(closes, indicator.period), color: indicator.color }] };
+    case 'bollinger': {
+      const bands = bollinger(closes, indicator.period, indicator.stdDev);
+      return {
+        ...base,
+        lines: [
+          { values: bands.upper, color: indicator.color },
+          { values: bands.middle, color: indicator.color, dashed: true },
+          { values: bands.lower, color: indicator.color },
+        ],
+        fillBetween: [0, 2],
+      };
+    }
+    case 'rsi':
+      return {
+        ...base,
+        lines: [{ values: rsi(closes, indicator.period), color: indicator.color }],
+        levels: [indicator.oversold, indicator.overbought],
+        range: [0, 100],
+      };
+    case 'macd': {
+      const fast = ema(closes, indicator.fastPeriod);
+      const slow = ema(closes, indicator.slowPeriod);
+      const macdLine = fast.map((value, i) => (value === null || slow[i] === null ? null : value - (slow[i] as number)));
+      const signal = ema(macdLine, indicator.signalPeriod);
+      return {
+        ...base,
+        lines: [
+          { values: macdLine, color: indicator.color },
+          { values: signal, color: '#f59e0b' },
+        ],
+        histogram: macdLine.map((value, i) => (value === null || signal[i] === null ? null : value - (signal[i] as number))),
+        levels: [0],
+      };
+    }
+    case 'atr':
+      return { ...base, lines: [{ values: atr(candles, indicator.period), color: indicator.color }] };
+  }
+}
@@ -9,86 +9,13 @@ import {
   FraudSeverity,
 } from '@/types/lunar-graph';
 import { openRouterClient } from './openrouter-client';
+import { detectCommunities, Community } from './community-detection';
+import { extractFraudRings } from './fraud-ring-detector';
 import { v4 as uuidv4 } from 'uuid';
 
 const AGENT_NAME = 'Agent Alpha';
 const AGENT_TYPE = 'alpha';
 
-interface Cluster {
-  id: string;
-  nodes: string[];
-  avgRiskScore: number;
-  fraudEdgeCount: number;
-  density: number;
-}
-
-// ============ COMMUNITY DETECTION ============
-
-function detectCommunities(graph: KnowledgeGraph): Cluster[] {
-  // Simple community detection based on connected components with fraud edges
-  const clusters: Cluster[] = [];
-  const visited = new Set<string>();
-
-  // Build adjacency map for fraud-related edges only
-  const adjacency: Record<string, Set<string>> = {};
-  for (const edge of graph.edges) {
-    if (edge.isFraudIndicator || edge.type === 'device_match' || edge.type === 'ip_overlap') {
-      if (!adjacency[edge.source]) adjacency[edge.source] = new Set();
-      if (!adjacency[edge.target]) adjacency[edge.target] = new Set();
-      adjacency[edge.source].add(edge.target);
-      adjacency[edge.target].add(edge.source);
-    }
-  }
-
-  // BFS to find connected components
-  for (const startNode of Object.keys(adjacency)) {
-    if (visited.has(startNode)) continue;
-
-    const component: string[] = [];
-    const queue = [startNode];
-
-    while (queue.length > 0) {
-      const node = queue.shift()!;
-      if (visited.has(node)) continue;
-
-      visited.add(node);
-      component.push(node);
-
-      const neighbors = adjacency[node] || new Set();
-      for (const neighbor of neighbors) {
-        if (!visited.has(neighbor)) {
-          queue.push(neighbor);
-        }
-      }
-    }
-
-    if (component.length >= 2) {
-      // Calculate cluster metrics
-      const clusterNodes = graph.nodes.filter(n => component.includes(n.id));
-      const avgRiskScore = clusterNodes.reduce((sum, n) => sum + n.riskScore, 0) / clusterNodes.length;
-
-      const clusterEdges = graph.edges.filter(
-        e => component.includes(e.source) && component.includes(e.target)
-      );
-      const fraudEdgeCount = clusterEdges.filter(e => e.isFraudIndicator).length;
-
-      // Density = actual edges / possible edges
-      const possibleEdges = (component.length * (component.length - 1)) / 2;
-      const density = possibleEdges > 0 ? clusterEdges.length / possibleEdges : 0;
-
-      clusters.push({
-        id: uuidv4(),
-        nodes: component,
-        avgRiskScore,
-        fraudEdgeCount,
-        density,
-      });
-    }
-  }
-
-  return clusters.sort((a, b) => b.avgRiskScore - a.avgRiskScore);
-}
-
 // ============ HUB DETECTION ============
 
 interface HubNode {
@@ -201,7 +128,7 @@ function getSeverity(score: number): FraudSeverity {
 }
 
 function generateFindings(
-  clusters: Cluster[],
+  clusters: Community[],
   hubs: HubNode[],
   similarities: SimilarityPair[],
   graph: KnowledgeGraph
@@ -281,75 +208,18 @@ function generateFindings(
   });
 }
 
-// ============ FRAUD RING EXTRACTION ============
-
-function extractFraudRings(
-  clusters: Cluster[],
-  graph: KnowledgeGraph
-): FraudRing[] {
-  const rings: FraudRing[] = [];
-
-  for (const cluster of clusters.filter(c => c.avgRiskScore >= 50 || c.fraudEdgeCount >= 3)) {
-    // Determine ring type based on edge composition
-    const clusterEdges = graph.edges.filter(
-      e => cluster.nodes.includes(e.source) || cluster.nodes.includes(e.target)
-    );
-
-    const hasOpposite = clusterEdges.some(e => e.type === 'opposite_position');
-    const hasDevice = clusterEdges.some(e => e.type === 'device_match');
-    const hasIP = clusterEdges.some(e => e.type === 'ip_overlap' && e.isFraudIndicator);
-    const hasTiming = clusterEdges.some(e => e.type === 'timing_sync' && e.isFraudIndicator);
-
-    let ringType: FraudRing['type'] = 'timing_coordination';
-    if (hasOpposite) ringType = 'opposite_trading';
-    else if (hasDevice) ringType = 'multi_account';
-    else if (hasIP) ringType = 'ip_clustering';
-
-    // Calculate exposure from trade amounts
-    const tradeNodes = cluster.nodes.filter(id => id.startsWith('trade_'));
-    const exposure = tradeNodes.reduce((sum, id) => {
-      const node = graph.nodes.find(n => n.id === id);
-      return sum + (node?.metadata.amount || 0);
-    }, 0);
-
-    rings.push({
-      id: uuidv4(),
-      name: `Ring ${rings.length + 1}: ${ringType.replace('_', ' ').toUpperCase()}`,
-      type: ringType,
-      severity: getSeverity(cluster.avgRiskScore),
-      confidence: Math.min(95, 50 + cluster.fraudEdgeCount * 10),
-      entities: cluster.nodes,
-      exposure,
-      evidence: clusterEdges
-        .filter(e => e.isFraudIndicator)
-        .map(e => ({
-          type: e.type,
-          description: e.metadata.description || `${e.type} connection`,
-          confidence: e.metadata.confidence || 50,
-          sourceNodes: [e.source],
-          sourceEdges: [e.id],
-          timestamp: e.metadata.detectedAt || new Date().toISOString(),
-        })),
-      aiSummary: '', // Will be filled by AI
-      status: 'active',
-      createdAt: new Date().toISOString(),
-    });
-  }
-
-  return rings;
-}
-
 // ============ MAIN ANALYSIS ============
 
 export async function runAgentAlpha(graph: KnowledgeGraph): Promise<{
   analysis: AgentAnalysis;
   fraudRings: FraudRing[];
+  aiSummarized: Set<string>; // Ids of the rings whose summary came from the model
 }> {
   const startTime = new Date().toISOString();
   console.log('[Agent Alpha] Starting graph anomaly detection...');
 
   // Run detection algorithms
-  const clusters = detectCommunities(graph);
+  const { communities: clusters, modularity } = detectCommunities(graph);
   const hubs = detectHubs(graph);
   const similarities = detectStructuralSimilarity(graph);
 
@@ -358,10 +228,11 @@ export async function runAgentAlpha(graph: KnowledgeGraph): Promise<{
   // Generate findings
   const findings = generateFindings(clusters, hubs, similarities, graph);
 
-  // Extract fraud rings
+  // Extract fraud rings (same rules as the build-graph ring detector)
   const fraudRings = extractFraudRings(clusters, graph);
 
-  // Generate AI summary for each fraud ring
+  // Generate AI summary for each fraud ring; rings the model could not summarise keep a template one
+  const aiSummarized = new Set<string>();
   for (const ring of fraudRings) {
     try {
       const ringContext = JSON.stringify({
@@ -371,6 +242,7 @@ export async function runAgentAlpha(graph: KnowledgeGraph): Promise<{
         evidence: ring.evidence.map(e => e.description),
       });
       ring.aiSummary = await openRouterClient.explainFraudRing(ringContext);
+      aiSummarized.add(ring.id);
     } catch (error) {
       ring.aiSummary = `${ring.type.replace('_', ' ')} fraud ring involving ${ring.entities.length} entities with $${ring.exposure.toFixed(2)} exposure.`;
     }
@@ -392,6 +264,7 @@ export async function runAgentAlpha(graph: KnowledgeGraph): Promise<{
     summary,
     metrics: {
       clustersDetected: clusters.length,
+      modularity,
       hubsDetected: hubs.length,
       similarPairs: similarities.length,
       fraudRingsExtracted: fraudRings.length,
@@ -402,5 +275,5 @@ export async function runAgentAlpha(graph: KnowledgeGraph): Promise<{
 
   console.log(`[Agent Alpha] Analysis complete: ${findings.length} findings, ${fraudRings.length} fraud rings`);
 
-  return { analysis, fraudRings };
+  return { analysis, fraudRings, aiSummarized };
 }
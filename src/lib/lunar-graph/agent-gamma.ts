@@ -7,6 +7,7 @@ import {
   AgentFinding,
   FraudSeverity,
 } from '@/types/lunar-graph';
+import { ContractType } from '@/types';
 import { openRouterClient } from './openrouter-client';
 import { v4 as uuidv4 } from 'uuid';
 
@@ -19,7 +20,7 @@ interface OppositeTradePair {
   tradeA: {
     id: string;
     accountId: string;
-    type: 'CALL' | 'PUT';
+    type: ContractType;
     amount: number;
     timestamp: Date;
     symbol: string;
@@ -27,7 +28,7 @@ interface OppositeTradePair {
   tradeB: {
     id: string;
     accountId: string;
-    type: 'CALL' | 'PUT';
+    type: ContractType;
     amount: number;
     timestamp: Date;
     symbol: string;
@@ -78,7 +79,7 @@ function detectOppositeTrading(graph: KnowledgeGraph): OppositeTradePair[] {
       tradeA: {
         id: edge.source,
         accountId: accountA,
-        type: tradeANode.metadata.contractType as 'CALL' | 'PUT',
+        type: tradeANode.metadata.contractType as ContractType,
         amount: amountA,
         timestamp: new Date(tradeANode.metadata.timestamp || ''),
         symbol: tradeANode.metadata.symbol || '',
@@ -86,7 +87,7 @@ function detectOppositeTrading(graph: KnowledgeGraph): OppositeTradePair[] {
       tradeB: {
         id: edge.target,
         accountId: accountB,
-        type: tradeBNode.metadata.contractType as 'CALL' | 'PUT',
+        type: tradeBNode.metadata.contractType as ContractType,
         amount: amountB,
         timestamp: new Date(tradeBNode.metadata.timestamp || ''),
         symbol: tradeBNode.metadata.symbol || '',
@@ -0,0 +1,226 @@
+// Analysis Runner
+// One full analysis run: reconcile trades, build the graph, run the three agents, reconcile rings and persist the results
+
+import { buildKnowledgeGraph } from './graph-builder';
+import { runAgentAlpha } from './agent-alpha';
+import { runAgentBeta } from './agent-beta';
+import { runAgentGamma } from './agent-gamma';
+import { reconcileFraudRings, FraudRingReconciliation } from './fraud-ring-detector';
+import { saveGraphSnapshot } from './graph-snapshots';
+import { reconcileTrades } from './trade-reconciliation';
+import {
+  CombinedAnalysis,
+  LunarAlert,
+  AgentAnalysis,
+} from '@/types/lunar-graph';
+import { v4 as uuidv4 } from 'uuid';
+import { supabase, isSupabaseConfigured } from '@/lib/supabase';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const db = supabase as any;
+
+function generateAlerts(
+  rings: FraudRingReconciliation,
+  analyses: AgentAnalysis[]
+): LunarAlert[] {
+  const alerts: LunarAlert[] = [];
+
+  // Create alerts for rings seen for the first time
+  for (const ring of rings.created) {
+    alerts.push({
+      id: uuidv4(),
+      type: 'new_fraud_ring',
+      severity: ring.severity,
+      title: `New Fraud Ring Detected: ${ring.name}`,
+      description: ring.aiSummary || `${ring.type.replace('_', ' ')} involving ${ring.entities.length} entities`,
+      entities: ring.entities,
+      fraudRingId: ring.id,
+      acknowledged: false,
+      aiExplanation: ring.aiSummary,
+      createdAt: new Date().toISOString(),
+    });
+  }
+
+  // Re-detected rings that picked up entities or exposure
+  for (const { ring, addedEntities, exposureDelta } of rings.grown) {
+    const changes = [
+      addedEntities.length > 0 ? `+${addedEntities.length} entities` : null,
+      exposureDelta > 0 ? `+$${exposureDelta.toFixed(2)} exposure` : null,
+    ].filter(Boolean).join(', ');
+
+    alerts.push({
+      id: uuidv4(),
+      type: 'risk_escalation',
+      severity: ring.severity,
+      title: `Fraud Ring Grew: ${ring.name} (${changes})`,
+      description: `${ring.name} now involves ${ring.entities.length} entities with $${ring.exposure.toFixed(2)} exposure (status: ${ring.status}).`,
+      entities: addedEntities.length > 0 ? addedEntities : ring.entities,
+      fraudRingId: ring.id,
+      acknowledged: false,
+      createdAt: new Date().toISOString(),
+    });
+  }
+
+  // Create alerts from critical/high findings
+  for (const analysis of analyses) {
+    for (const finding of analysis.findings.filter(f => f.severity === 'critical' || f.severity === 'high')) {
+      alerts.push({
+        id: uuidv4(),
+        type: 'pattern_detected',
+        severity: finding.severity,
+        title: finding.title,
+        description: finding.description,
+        entities: finding.entities,
+        acknowledged: false,
+        createdAt: new Date().toISOString(),
+      });
+    }
+  }
+
+  // Sort by severity
+  const severityOrder = { critical: 0, high: 1, medium: 2, low: 3 };
+  return alerts.sort((a, b) => severityOrder[a.severity] - severityOrder[b.severity]);
+}
+
+async function saveAlerts(alerts: LunarAlert[]): Promise<void> {
+  if (!isSupabaseConfigured() || alerts.length === 0) return;
+
+  try {
+    // Get existing alert titles to check for duplicates
+    const { data: existingAlerts } = await db
+      .from('lunar_alerts')
+      .select('title');
+
+    const existingTitles = new Set(
+      (existingAlerts || []).map((a: any) => a.title)
+    );
+
+    for (const alert of alerts.slice(0, 50)) { // Limit to 50 alerts
+      // Skip if alert with same title exists
+      if (existingTitles.has(alert.title)) {
+        console.log(`[AnalysisRunner] Skipping duplicate alert: ${alert.title}`);
+        continue;
+      }
+
+      await db.from('lunar_alerts').insert({
+        id: alert.id,
+        type: alert.type,
+        severity: alert.severity,
+        title: alert.title,
+        description: alert.description,
+        entities: alert.entities,
+        fraud_ring_id: alert.fraudRingId || null,
+        acknowledged: alert.acknowledged,
+        ai_explanation: alert.aiExplanation || null,
+      });
+
+      // Add to set to prevent duplicates within same batch
+      existingTitles.add(alert.title);
+    }
+  } catch (error) {
+    console.error('[AnalysisRunner] Error saving alerts:', error);
+  }
+}
+
+async function saveAgentLogs(analyses: AgentAnalysis[], runId: string): Promise<void> {
+  if (!isSupabaseConfigured()) return;
+
+  try {
+    for (const analysis of analyses) {
+      await db.from('agent_analysis_logs').insert({
+        run_id: runId,
+        agent_type: analysis.agentType,
+        agent_name: analysis.agentName,
+        status: analysis.status,
+        started_at: analysis.startedAt,
+        completed_at: analysis.completedAt,
+        findings_count: analysis.findings.length,
+        critical_count: analysis.findings.filter(f => f.severity === 'critical').length,
+        high_count: analysis.findings.filter(f => f.severity === 'high').length,
+        summary: analysis.summary,
+        metrics: analysis.metrics,
+        findings: analysis.findings, // Save full findings as JSONB
+      });
+    }
+  } catch (error) {
+    console.error('[AnalysisRunner] Error saving agent logs:', error);
+  }
+}
+
+// runId ties together the agent logs, graph snapshot and job record of this run
+export async function runAnalysis(runId: string): Promise<CombinedAnalysis> {
+  console.log('[AnalysisRunner] Starting fraud analysis...');
+  const startTime = Date.now();
+
+  // Correct client-reported trades first so the agents see Deriv's numbers; a failure only costs accuracy
+  if (isSupabaseConfigured()) {
+    try {
+      await reconcileTrades();
+    } catch (error) {
+      console.error('[AnalysisRunner] Trade reconciliation failed:', error);
+    }
+  }
+
+  // Build the graph first
+  const graph = await buildKnowledgeGraph();
+  console.log(`[AnalysisRunner] Graph built in ${Date.now() - startTime}ms`);
+
+  // Run all 3 agents in parallel
+  const [alphaResult, betaAnalysis, gammaAnalysis] = await Promise.all([
+    runAgentAlpha(graph),
+    runAgentBeta(graph),
+    runAgentGamma(graph),
+  ]);
+
+  console.log(`[AnalysisRunner] All agents completed in ${Date.now() - startTime}ms`);
+
+  // Match detected rings to stored ones so ids, names and investigator status carry over
+  const reconciliation = await reconcileFraudRings(alphaResult.fraudRings, alphaResult.aiSummarized);
+  const allFraudRings = reconciliation.rings;
+  const allAnalyses = [alphaResult.analysis, betaAnalysis, gammaAnalysis];
+
+  // Generate alerts
+  const alerts = generateAlerts(reconciliation, allAnalyses);
+
+  // Calculate overall risk score
+  const totalFindings = allAnalyses.reduce((sum, a) => sum + a.findings.length, 0);
+  const criticalFindings = allAnalyses.reduce(
+    (sum, a) => sum + a.findings.filter(f => f.severity === 'critical').length,
+    0
+  );
+  const highFindings = allAnalyses.reduce(
+    (sum, a) => sum + a.findings.filter(f => f.severity === 'high').length,
+    0
+  );
+
+  const overallRiskScore = Math.min(
+    100,
+    (criticalFindings * 25) + (highFindings * 10) + (allFraudRings.length * 15) + (graph.stats.fraudEdges * 2)
+  );
+
+  // Generate combined summary
+  const summary = `Analysis complete. Scanned ${graph.stats.totalNodes} entities and ${graph.stats.totalEdges} connections. ` +
+    `Detected ${allFraudRings.length} fraud rings with ${totalFindings} total findings. ` +
+    `${criticalFindings} critical and ${highFindings} high-severity issues require attention. ` +
+    `Overall risk score: ${overallRiskScore}/100.`;
+
+  const analysis: CombinedAnalysis = {
+    runId,
+    timestamp: new Date().toISOString(),
+    agents: allAnalyses,
+    fraudRings: allFraudRings,
+    alerts,
+    overallRiskScore,
+    summary,
+  };
+
+  // Save to database
+  await Promise.all([
+    saveAlerts(alerts),
+    saveAgentLogs(allAnalyses, runId),
+    saveGraphSnapshot(graph, allFraudRings, runId),
+  ]).catch(console.error);
+
+  console.log(`[AnalysisRunner] Analysis complete: ${allFraudRings.length} rings, ${alerts.length} alerts, risk=${overallRiskScore}`);
+  return analysis;
+}
@@ -0,0 +1,422 @@
+// Case Management
+// Investigation cases linking alerts, fraud rings, entities and copilot conversations, with an audit trail
+
+import { v4 as uuidv4 } from 'uuid';
+import { supabase, isSupabaseConfigured } from '@/lib/supabase';
+import {
+  InvestigationCase,
+  CaseStatus,
+  CasePriority,
+  CaseNote,
+  CaseEvidence,
+  CaseEvidenceType,
+  CaseAuditEntry,
+  CaseAuditAction,
+  CopilotMessage,
+} from '@/types/lunar-graph';
+import { updateFraudRingStatus } from './fraud-ring-detector';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const db = supabase as any;
+
+export const CASE_STATUSES: CaseStatus[] = ['open', 'in_progress', 'pending_review', 'closed'];
+export const CASE_PRIORITIES: CasePriority[] = ['low', 'medium', 'high', 'critical'];
+export const CASE_EVIDENCE_TYPES: CaseEvidenceType[] = ['link', 'file', 'screenshot', 'text'];
+
+// Time allowed from opening a case to closing it
+export const SLA_HOURS: Record<CasePriority, number> = {
+  critical: 4,
+  high: 24,
+  medium: 72,
+  low: 168,
+};
+
+export function slaDueAt(priority: CasePriority, from: Date = new Date()): string {
+  return new Date(from.getTime() + SLA_HOURS[priority] * 60 * 60 * 1000).toISOString();
+}
+
+export function isCaseOverdue(investigationCase: InvestigationCase, now: Date = new Date()): boolean {
+  return investigationCase.status !== 'closed' && new Date(investigationCase.slaDueAt) < now;
+}
+
+export interface CaseLinks {
+  alertIds?: string[];
+  fraudRingIds?: string[];
+  entities?: string[];
+}
+
+export interface CreateCaseInput extends CaseLinks {
+  title: string;
+  description?: string;
+  priority?: CasePriority;
+  assignee?: string;
+  slaDueAt?: string;
+  createdBy: string;
+}
+
+export interface CaseUpdate {
+  title?: string;
+  description?: string;
+  status?: CaseStatus;
+  priority?: CasePriority;
+  assignee?: string | null;
+  slaDueAt?: string;
+}
+
+export interface CaseFilters {
+  status?: CaseStatus;
+  assignee?: string;
+}
+
+function requireSupabase(): void {
+  if (!isSupabaseConfigured()) throw new Error('Supabase not configured. Case management requires a database connection.');
+}
+
+// ============ ROW MAPPING ============
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function mapCaseRow(row: any): InvestigationCase {
+  return {
+    id: row.id,
+    title: row.title,
+    description: row.description ?? undefined,
+    status: row.status,
+    priority: row.priority,
+    assignee: row.assignee ?? undefined,
+    slaDueAt: row.sla_due_at,
+    alertIds: row.alert_ids || [],
+    fraudRingIds: row.fraud_ring_ids || [],
+    entities: row.entities || [],
+    notes: row.notes || [],
+    evidence: row.evidence || [],
+    conversations: row.conversations || [],
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    closedAt: row.closed_at ?? undefined,
+  };
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function mapAuditRow(row: any): CaseAuditEntry {
+  return {
+    id: row.id,
+    caseId: row.case_id,
+    action: row.action,
+    actor: row.actor,
+    details: row.details || {},
+    createdAt: row.created_at,
+  };
+}
+
+// ============ AUDIT TRAIL ============
+
+async function recordAudit(
+  caseId: string,
+  actor: string,
+  entries: Array<{ action: CaseAuditAction; details: Record<string, unknown> }>
+): Promise<void> {
+  if (entries.length === 0) return;
+
+  const { error } = await db.from('case_audit_log').insert(
+    entries.map(e => ({ case_id: caseId, action: e.action, actor, details: e.details }))
+  );
+  if (error) {
+    console.error('[CaseManagement] Error recording audit entries:', error);
+  }
+}
+
+export async function loadCaseAudit(caseId: string): Promise<CaseAuditEntry[]> {
+  if (!isSupabaseConfigured()) return [];
+
+  try {
+    const { data, error } = await db
+      .from('case_audit_log')
+      .select('*')
+      .eq('case_id', caseId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return (data || []).map(mapAuditRow);
+  } catch (error) {
+    console.error('[CaseManagement] Error loading case audit:', error);
+    return [];
+  }
+}
+
+// ============ LINKED RECORDS ============
+
+// Alerts pulled into a case count as acknowledged by whoever linked them
+async function acknowledgeAlerts(alertIds: string[], actor: string): Promise<void> {
+  if (alertIds.length === 0) return;
+
+  const { error } = await db
+    .from('lunar_alerts')
+    .update({ acknowledged: true, acknowledged_at: new Date().toISOString(), acknowledged_by: actor })
+    .in('id', alertIds)
+    .eq('acknowledged', false);
+
+  if (error) {
+    console.error('[CaseManagement] Error acknowledging alerts:', error);
+  }
+}
+
+// Rings that are still merely detected move to investigating once a case picks them up
+async function markRingsInvestigating(ringIds: string[], actor: string): Promise<void> {
+  if (ringIds.length === 0) return;
+
+  const { data, error } = await db
+    .from('fraud_rings')
+    .select('id')
+    .in('id', ringIds)
+    .eq('status', 'active');
+
+  if (error) {
+    console.error('[CaseManagement] Error loading linked rings:', error);
+    return;
+  }
+
+  for (const row of data || []) {
+    try {
+      await updateFraudRingStatus(row.id, 'investigating', actor);
+    } catch (err) {
+      console.error(`[CaseManagement] Error updating ring ${row.id}:`, err);
+    }
+  }
+}
+
+function newItems(existing: string[], incoming: string[] = []): string[] {
+  const seen = new Set(existing);
+  return [...new Set(incoming)].filter(id => !seen.has(id));
+}
+
+// ============ QUERIES ============
+
+export async function listCases(filters: CaseFilters = {}): Promise<InvestigationCase[]> {
+  if (!isSupabaseConfigured()) return [];
+
+  try {
+    let query = db.from('investigation_cases').select('*');
+    if (filters.status) query = query.eq('status', filters.status);
+    if (filters.assignee) query = query.eq('assignee', filters.assignee);
+
+    const { data, error } = await query.order('sla_due_at', { ascending: true }).limit(100);
+    if (error) throw error;
+
+    return (data || []).map(mapCaseRow);
+  } catch (error) {
+    console.error('[CaseManagement] Error listing cases:', error);
+    return [];
+  }
+}
+
+export async function loadCase(caseId: string): Promise<InvestigationCase | null> {
+  if (!isSupabaseConfigured()) return null;
+
+  const { data } = await db.from('investigation_cases').select('*').eq('id', caseId).maybeSingle();
+  return data ? mapCaseRow(data) : null;
+}
+
+async function requireCase(caseId: string): Promise<InvestigationCase> {
+  const existing = await loadCase(caseId);
+  if (!existing) throw new Error(`Case not found: ${caseId}`);
+  return existing;
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+async function writeCase(caseId: string, changes: Record<string, any>): Promise<InvestigationCase> {
+  const { data, error } = await db
+    .from('investigation_cases')
+    .update(changes)
+    .eq('id', caseId)
+    .select()
+    .single();
+
+  if (error) throw new Error(error.message);
+  return mapCaseRow(data);
+}
+
+interface CaseAppend {
+  notes?: CaseNote[];
+  evidence?: CaseEvidence[];
+  conversations?: InvestigationCase['conversations'];
+  alertIds?: string[];
+  fraudRingIds?: string[];
+  entities?: string[];
+}
+
+// Appends in one UPDATE (see 022_case_item_append.sql), so concurrent saves to a case can't overwrite each other
+async function appendCaseItems(caseId: string, items: CaseAppend): Promise<InvestigationCase> {
+  const { data, error } = await db
+    .rpc('append_case_items', {
+      p_case_id: caseId,
+      p_notes: items.notes || [],
+      p_evidence: items.evidence || [],
+      p_conversations: items.conversations || [],
+      p_alert_ids: items.alertIds || [],
+      p_fraud_ring_ids: items.fraudRingIds || [],
+      p_entities: items.entities || [],
+    })
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  if (!data) throw new Error(`Case not found: ${caseId}`);
+  return mapCaseRow(data);
+}
+
+// ============ MUTATIONS ============
+
+export async function createCase(input: CreateCaseInput): Promise<InvestigationCase> {
+  requireSupabase();
+
+  const priority = input.priority || 'medium';
+  const alertIds = [...new Set(input.alertIds || [])];
+  const fraudRingIds = [...new Set(input.fraudRingIds || [])];
+  const entities = [...new Set(input.entities || [])];
+
+  const { data, error } = await db
+    .from('investigation_cases')
+    .insert({
+      title: input.title,
+      description: input.description || null,
+      priority,
+      assignee: input.assignee || null,
+      sla_due_at: input.slaDueAt || slaDueAt(priority),
+      alert_ids: alertIds,
+      fraud_ring_ids: fraudRingIds,
+      entities,
+      created_by: input.createdBy,
+    })
+    .select()
+    .single();
+
+  if (error) throw new Error(error.message);
+  const created = mapCaseRow(data);
+
+  await recordAudit(created.id, input.createdBy, [{
+    action: 'created',
+    details: { title: created.title, priority, assignee: created.assignee, alertIds, fraudRingIds, entities },
+  }]);
+  await acknowledgeAlerts(alertIds, input.createdBy);
+  await markRingsInvestigating(fraudRingIds, input.createdBy);
+
+  console.log(`[CaseManagement] Opened case ${created.id}: ${created.title}`);
+  return created;
+}
+
+export async function updateCase(caseId: string, update: CaseUpdate, actor: string): Promise<InvestigationCase> {
+  requireSupabase();
+  const existing = await requireCase(caseId);
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const changes: Record<string, any> = {};
+  const audit: Array<{ action: CaseAuditAction; details: Record<string, unknown> }> = [];
+
+  if (update.status && update.status !== existing.status) {
+    changes.status = update.status;
+    changes.closed_at = update.status === 'closed' ? new Date().toISOString() : null;
+    audit.push({ action: 'status_changed', details: { from: existing.status, to: update.status } });
+  }
+  if (update.priority && update.priority !== existing.priority) {
+    changes.priority = update.priority;
+    audit.push({ action: 'priority_changed', details: { from: existing.priority, to: update.priority } });
+  }
+  if (update.assignee !== undefined && (update.assignee || undefined) !== existing.assignee) {
+    changes.assignee = update.assignee || null;
+    audit.push({ action: 'assigned', details: { from: existing.assignee ?? null, to: update.assignee || null } });
+  }
+  if (update.slaDueAt && update.slaDueAt !== existing.slaDueAt) {
+    changes.sla_due_at = update.slaDueAt;
+    audit.push({ action: 'sla_changed', details: { from: existing.slaDueAt, to: update.slaDueAt } });
+  }
+  if (
+    (update.title !== undefined && update.title !== existing.title) ||
+    (update.description !== undefined && update.description !== (existing.description ?? ''))
+  ) {
+    if (update.title !== undefined) changes.title = update.title;
+    if (update.description !== undefined) changes.description = update.description || null;
+    audit.push({ action: 'details_changed', details: { title: update.title, description: update.description } });
+  }
+
+  if (audit.length === 0) return existing;
+
+  const updated = await writeCase(caseId, changes);
+  await recordAudit(caseId, actor, audit);
+  return updated;
+}
+
+export async function addCaseNote(caseId: string, content: string, author: string): Promise<InvestigationCase> {
+  requireSupabase();
+
+  const note: CaseNote = { id: uuidv4(), author, content, createdAt: new Date().toISOString() };
+  const updated = await appendCaseItems(caseId, { notes: [note] });
+  await recordAudit(caseId, author, [{ action: 'note_added', details: { noteId: note.id } }]);
+  return updated;
+}
+
+export async function attachCaseEvidence(
+  caseId: string,
+  evidence: Pick<CaseEvidence, 'type' | 'title' | 'url' | 'content'>,
+  actor: string
+): Promise<InvestigationCase> {
+  requireSupabase();
+
+  const item: CaseEvidence = {
+    id: uuidv4(),
+    type: evidence.type,
+    title: evidence.title,
+    url: evidence.url,
+    content: evidence.content,
+    addedBy: actor,
+    createdAt: new Date().toISOString(),
+  };
+  const updated = await appendCaseItems(caseId, { evidence: [item] });
+  await recordAudit(caseId, actor, [{
+    action: 'evidence_attached',
+    details: { evidenceId: item.id, type: item.type, title: item.title },
+  }]);
+  return updated;
+}
+
+export async function linkCaseItems(caseId: string, links: CaseLinks, actor: string): Promise<InvestigationCase> {
+  requireSupabase();
+  const existing = await requireCase(caseId);
+
+  const alertIds = newItems(existing.alertIds, links.alertIds);
+  const fraudRingIds = newItems(existing.fraudRingIds, links.fraudRingIds);
+  const entities = newItems(existing.entities, links.entities);
+
+  const audit: Array<{ action: CaseAuditAction; details: Record<string, unknown> }> = [];
+  if (alertIds.length > 0) audit.push({ action: 'alerts_linked', details: { alertIds } });
+  if (fraudRingIds.length > 0) audit.push({ action: 'rings_linked', details: { fraudRingIds } });
+  if (entities.length > 0) audit.push({ action: 'entities_linked', details: { entities } });
+
+  if (audit.length === 0) return existing;
+
+  const updated = await appendCaseItems(caseId, { alertIds, fraudRingIds, entities });
+  await recordAudit(caseId, actor, audit);
+  await acknowledgeAlerts(alertIds, actor);
+  await markRingsInvestigating(fraudRingIds, actor);
+  return updated;
+}
+
+export async function attachCaseConversation(
+  caseId: string,
+  messages: CopilotMessage[],
+  actor: string
+): Promise<InvestigationCase> {
+  requireSupabase();
+
+  const conversation = {
+    id: uuidv4(),
+    messages,
+    attachedBy: actor,
+    attachedAt: new Date().toISOString(),
+  };
+  const updated = await appendCaseItems(caseId, { conversations: [conversation] });
+  await recordAudit(caseId, actor, [{
+    action: 'conversation_attached',
+    details: { conversationId: conversation.id, messageCount: messages.length },
+  }]);
+  return updated;
+}
@@ -0,0 +1,229 @@
+// Community Detection
+// Weighted Louvain clustering over the suspicious part of the knowledge graph,
+// shared by Agent Alpha, the fraud ring detector and the graph stats
+
+import { KnowledgeGraph, GraphEdgeData } from '@/types/lunar-graph';
+
+export interface Community {
+  id: string; // Stable: derived from the smallest member node id
+  nodes: string[];
+  avgRiskScore: number;
+  fraudEdgeCount: number;
+  density: number;
+}
+
+export interface CommunityDetectionResult {
+  communities: Community[]; // Communities with at least minSize members, highest risk first
+  modularity: number; // Weighted modularity of the partition (-0.5 to 1)
+}
+
+export interface CommunityDetectionOptions {
+  fraudWeightMultiplier?: number; // Extra pull of fraud indicator edges
+  minSize?: number;
+  maxLevels?: number;
+}
+
+const DEFAULT_OPTIONS: Required<CommunityDetectionOptions> = {
+  fraudWeightMultiplier: 3,
+  minSize: 2,
+  maxLevels: 10,
+};
+
+// Fraud indicators plus shared IP/device links; ownership edges like trade_link would
+// otherwise pull every trade into its affiliate's community
+function isSuspiciousEdge(edge: GraphEdgeData): boolean {
+  return edge.isFraudIndicator || edge.type === 'device_match' || edge.type === 'ip_overlap';
+}
+
+function edgeWeight(edge: GraphEdgeData, fraudWeightMultiplier: number): number {
+  const base = edge.weight > 0 ? edge.weight : 0.1;
+  return edge.isFraudIndicator ? base * fraudWeightMultiplier : base;
+}
+
+// ============ LOUVAIN ============
+
+// Symmetric weighted adjacency; a self-loop holds twice the internal weight so
+// every node's degree is simply its row sum
+type Adjacency = Array<Map<number, number>>;
+
+function addWeight(adjacency: Adjacency, i: number, j: number, weight: number): void {
+  adjacency[i].set(j, (adjacency[i].get(j) || 0) + weight);
+}
+
+function degrees(adjacency: Adjacency): number[] {
+  return adjacency.map(row => {
+    let sum = 0;
+    for (const w of row.values()) sum += w;
+    return sum;
+  });
+}
+
+// One pass of local moving: each node joins the neighbouring community with the best modularity gain
+function moveNodes(adjacency: Adjacency, totalWeight: number): number[] {
+  const n = adjacency.length;
+  const k = degrees(adjacency);
+  const community = adjacency.map((_, i) => i);
+  const communityDegree = [...k];
+
+  let moved = true;
+  for (let pass = 0; moved && pass < 50; pass++) {
+    moved = false;
+
+    for (let i = 0; i < n; i++) {
+      const current = community[i];
+
+      const linksTo = new Map<number, number>();
+      for (const [j, w] of adjacency[i]) {
+        if (j === i) continue;
+        linksTo.set(community[j], (linksTo.get(community[j]) || 0) + w);
+      }
+
+      communityDegree[current] -= k[i];
+
+      let best = current;
+      let bestGain = (linksTo.get(current) || 0) - (communityDegree[current] * k[i]) / totalWeight;
+      for (const [c, w] of linksTo) {
+        const gain = w - (communityDegree[c] * k[i]) / totalWeight;
+        // Ties go to the lower community index so results are deterministic
+        if (gain > bestGain + 1e-12 || (Math.abs(gain - bestGain) <= 1e-12 && c < best)) {
+          best = c;
+          bestGain = gain;
+        }
+      }
+
+      communityDegree[best] += k[i];
+      if (best !== current) {
+        community[i] = best;
+        moved = true;
+      }
+    }
+  }
+
+  // Renumber to 0..count-1 in order of first appearance
+  const renumber = new Map<number, number>();
+  return community.map(c => {
+    if (!renumber.has(c)) renumber.set(c, renumber.size);
+    return renumber.get(c)!;
+  });
+}
+
+function aggregate(adjacency: Adjacency, community: number[], count: number): Adjacency {
+  const aggregated: Adjacency = Array.from({ length: count }, () => new Map());
+  adjacency.forEach((row, i) => {
+    for (const [j, w] of row) {
+      addWeight(aggregated, community[i], community[j], w);
+    }
+  });
+  return aggregated;
+}
+
+function modularity(adjacency: Adjacency, community: number[], totalWeight: number): number {
+  if (totalWeight === 0) return 0;
+
+  const k = degrees(adjacency);
+  const internal = new Map<number, number>();
+  const total = new Map<number, number>();
+
+  adjacency.forEach((row, i) => {
+    const c = community[i];
+    total.set(c, (total.get(c) || 0) + k[i]);
+    for (const [j, w] of row) {
+      if (community[j] === c) internal.set(c, (internal.get(c) || 0) + w);
+    }
+  });
+
+  let q = 0;
+  for (const [c, tot] of total) {
+    q += (internal.get(c) || 0) / totalWeight - (tot / totalWeight) ** 2;
+  }
+  return q;
+}
+
+function louvain(adjacency: Adjacency, maxLevels: number): { membership: number[]; modularity: number } {
+  const totalWeight = degrees(adjacency).reduce((sum, d) => sum + d, 0);
+  let membership = adjacency.map((_, i) => i);
+  if (totalWeight === 0) return { membership, modularity: 0 };
+
+  let level = adjacency;
+  for (let depth = 0; depth < maxLevels; depth++) {
+    const community = moveNodes(level, totalWeight);
+    const count = new Set(community).size;
+    if (count === level.length) break; // No node changed community
+
+    membership = membership.map(m => community[m]);
+    level = aggregate(level, community, count);
+  }
+
+  return { membership, modularity: modularity(adjacency, membership, totalWeight) };
+}
+
+// ============ PUBLIC API ============
+
+export function detectCommunities(
+  graph: KnowledgeGraph,
+  options: CommunityDetectionOptions = {}
+): CommunityDetectionResult {
+  const { fraudWeightMultiplier, minSize, maxLevels } = { ...DEFAULT_OPTIONS, ...options };
+
+  // Sorted ids give a fixed visiting order, so the same graph always yields the same partition
+  const suspiciousEdges = graph.edges.filter(e => isSuspiciousEdge(e) && e.source !== e.target);
+  const nodeIds = [...new Set(suspiciousEdges.flatMap(e => [e.source, e.target]))].sort();
+  const index = new Map(nodeIds.map((id, i) => [id, i]));
+
+  const adjacency: Adjacency = nodeIds.map(() => new Map());
+  for (const edge of suspiciousEdges) {
+    const weight = edgeWeight(edge, fraudWeightMultiplier);
+    addWeight(adjacency, index.get(edge.source)!, index.get(edge.target)!, weight);
+    addWeight(adjacency, index.get(edge.target)!, index.get(edge.source)!, weight);
+  }
+
+  const result = louvain(adjacency, maxLevels);
+
+  const members = new Map<number, string[]>();
+  result.membership.forEach((c, i) => {
+    if (!members.has(c)) members.set(c, []);
+    members.get(c)!.push(nodeIds[i]);
+  });
+
+  // Cluster metrics use every edge between members, not only the ones used for clustering
+  const nodesById = new Map(graph.nodes.map(n => [n.id, n]));
+  const communityOf = new Map<string, number>();
+  result.membership.forEach((c, i) => communityOf.set(nodeIds[i], c));
+
+  const edgeCounts = new Map<number, { total: number; fraud: number }>();
+  for (const edge of graph.edges) {
+    const c = communityOf.get(edge.source);
+    if (c === undefined || communityOf.get(edge.target) !== c) continue;
+    const counts = edgeCounts.get(c) || { total: 0, fraud: 0 };
+    counts.total++;
+    if (edge.isFraudIndicator) counts.fraud++;
+    edgeCounts.set(c, counts);
+  }
+
+  const communities: Community[] = [];
+  for (const [c, nodes] of members) {
+    if (nodes.length < minSize) continue;
+
+    const clusterNodes = nodes.map(id => nodesById.get(id)).filter(Boolean);
+    const avgRiskScore = clusterNodes.length > 0
+      ? clusterNodes.reduce((sum, n) => sum + n!.riskScore, 0) / clusterNodes.length
+      : 0;
+
+    // Density = actual edges / possible edges
+    const counts = edgeCounts.get(c) || { total: 0, fraud: 0 };
+    const possibleEdges = (nodes.length * (nodes.length - 1)) / 2;
+
+    communities.push({
+      id: `community_${nodes[0]}`, // nodes are in sorted order
+      nodes,
+      avgRiskScore,
+      fraudEdgeCount: counts.fraud,
+      density: possibleEdges > 0 ? counts.total / possibleEdges : 0,
+    });
+  }
+
+  return {
+    communities: communities.sort((a, b) => b.avgRiskScore - a.avgRiskScore || a.id.localeCompare(b.id)),
+    modularity: Math.round(result.modularity * 1000) / 1000,
+  };
+}
@@ -0,0 +1,644 @@
+// Detector Registry
+// Pattern detectors that emit graph edges, with per-deployment enable flags and tunable parameters
+
+import { supabase, isSupabaseConfigured } from '@/lib/supabase';
+import {
+  GraphNodeData,
+  GraphEdgeData,
+  EdgeType,
+  DetectorId,
+  DetectorParams,
+  DetectorParamSpec,
+  DetectorConfig,
+} from '@/types/lunar-graph';
+import { ContractType } from '@/types';
+import { isOppositeContract } from '@/lib/contracts';
+import { v4 as uuidv4 } from 'uuid';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const db = supabase as any;
+
+// ============ ROW TYPES ============
+
+export interface ClientRow {
+  id: string;
+  affiliate_id: string;
+  referral_code: string;
+  deriv_account_id: string;
+  ip_address: string;
+  device_id: string;
+  created_at: string;
+  updated_at?: string;
+}
+
+export interface TradeRow {
+  id: string;
+  client_id: string;
+  affiliate_id: string;
+  contract_type: ContractType;
+  barrier?: string | null;
+  symbol: string;
+  amount: number;
+  profit: number;
+  created_at: string;
+  updated_at?: string;
+}
+
+// ============ DETECTOR DEFINITIONS ============
+
+interface DetectorBase {
+  id: DetectorId;
+  name: string;
+  description: string;
+  edgeType: EdgeType;
+  params: Record<string, DetectorParamSpec>;
+}
+
+// Client detectors group clients by a shared identity and add a node for each shared value
+interface ClientDetector extends DetectorBase {
+  input: 'clients';
+  detect(clients: ClientRow[], params: DetectorParams): { nodes: GraphNodeData[]; edges: GraphEdgeData[] };
+}
+
+// Trade detectors compare trades in time; scanWindowMs is how far apart two related trades can be
+interface TradeDetector extends DetectorBase {
+  input: 'trades';
+  scanWindowMs(params: DetectorParams): number;
+  detect(trades: TradeRow[], params: DetectorParams): GraphEdgeData[];
+}
+
+export type DetectorDefinition = ClientDetector | TradeDetector;
+
+// A definition paired with its effective config for this build
+export type ActiveDetector<D extends DetectorDefinition = DetectorDefinition> = {
+  definition: D;
+  params: DetectorParams;
+  version: number;
+};
+
+// ============ EDGE HELPERS ============
+
+export function ipNodeId(ip: string): string {
+  return `ip_${ip.replace(/\./g, '_')}`;
+}
+
+export function deviceNodeId(deviceId: string): string {
+  return `device_${deviceId.slice(0, 16)}`;
+}
+
+export function createEdge(
+  source: string,
+  target: string,
+  type: EdgeType,
+  weight: number,
+  isFraud: boolean,
+  metadata: GraphEdgeData['metadata'] = {}
+): GraphEdgeData {
+  return {
+    id: `edge_${uuidv4().slice(0, 8)}`,
+    source,
+    target,
+    type,
+    weight,
+    isFraudIndicator: isFraud,
+    metadata: {
+      ...metadata,
+      detectedAt: new Date().toISOString(),
+    },
+  };
+}
+
+function sortByTime(trades: TradeRow[]): TradeRow[] {
+  return [...trades].sort(
+    (a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+  );
+}
+
+// ============ CLIENT DETECTORS ============
+
+function detectIPOverlaps(clients: ClientRow[], params: DetectorParams): {
+  nodes: GraphNodeData[];
+  edges: GraphEdgeData[];
+} {
+  const nodes: GraphNodeData[] = [];
+  const edges: GraphEdgeData[] = [];
+
+  // Group clients by IP, then map to their affiliates
+  const ipGroups: Record<string, Set<string>> = {};
+  for (const client of clients) {
+    if (!client.ip_address || !client.affiliate_id) continue;
+    if (!ipGroups[client.ip_address]) {
+      ipGroups[client.ip_address] = new Set();
+    }
+    ipGroups[client.ip_address].add(client.affiliate_id);
+  }
+
+  // Find IPs used by multiple affiliates' clients (suspicious)
+  for (const [ip, affiliateIds] of Object.entries(ipGroups)) {
+    if (affiliateIds.size >= params.minAffiliates) {
+      // Create IP node
+      nodes.push({
+        id: ipNodeId(ip),
+        type: 'ip',
+        label: ip,
+        riskScore: 0,
+        metadata: { ipAddress: ip },
+      });
+
+      const isSuspicious = affiliateIds.size >= params.suspiciousAffiliates;
+
+      // Create edges from IP to each affiliate
+      for (const affiliateId of affiliateIds) {
+        edges.push(
+          createEdge(
+            ipNodeId(ip),
+            `affiliate_${affiliateId}`,
+            'ip_overlap',
+            1 / affiliateIds.size,
+            isSuspicious,
+            {
+              confidence: isSuspicious ? params.confidence : 40,
+              description: `${affiliateIds.size} affiliates share this IP`,
+            }
+          )
+        );
+      }
+    }
+  }
+
+  return { nodes, edges };
+}
+
+function detectDeviceMatches(clients: ClientRow[], params: DetectorParams): {
+  nodes: GraphNodeData[];
+  edges: GraphEdgeData[];
+} {
+  const nodes: GraphNodeData[] = [];
+  const edges: GraphEdgeData[] = [];
+
+  // Group by device_id, then map to their affiliates
+  const deviceGroups: Record<string, Set<string>> = {};
+  for (const client of clients) {
+    if (!client.device_id || !client.affiliate_id) continue;
+    if (!deviceGroups[client.device_id]) {
+      deviceGroups[client.device_id] = new Set();
+    }
+    deviceGroups[client.device_id].add(client.affiliate_id);
+  }
+
+  // Find device IDs shared across multiple affiliates (highly suspicious)
+  for (const [deviceId, affiliateIds] of Object.entries(deviceGroups)) {
+    if (affiliateIds.size >= params.minAffiliates) {
+      // Create device node
+      nodes.push({
+        id: deviceNodeId(deviceId),
+        type: 'device',
+        label: `Device ${deviceId.slice(0, 8)}`,
+        riskScore: 0,
+        metadata: { canvasFingerprint: deviceId },
+      });
+
+      // Same device with multiple affiliates is highly suspicious
+      for (const affiliateId of affiliateIds) {
+        edges.push(
+          createEdge(
+            deviceNodeId(deviceId),
+            `affiliate_${affiliateId}`,
+            'device_match',
+            params.weight,
+            true,
+            {
+              confidence: params.confidence,
+              description: `Same device across ${affiliateIds.size} affiliates`,
+            }
+          )
+        );
+      }
+    }
+  }
+
+  return { nodes, edges };
+}
+
+// ============ TRADE DETECTORS ============
+
+function detectTimingSync(trades: TradeRow[], params: DetectorParams): GraphEdgeData[] {
+  const edges: GraphEdgeData[] = [];
+  const sortedTrades = sortByTime(trades);
+
+  // Find trades within suspicious time windows from different accounts
+  for (let i = 0; i < sortedTrades.length; i++) {
+    const tradeA = sortedTrades[i];
+    const timeA = new Date(tradeA.created_at).getTime();
+
+    for (let j = i + 1; j < sortedTrades.length; j++) {
+      const tradeB = sortedTrades[j];
+      const timeB = new Date(tradeB.created_at).getTime();
+      const timeDelta = timeB - timeA;
+
+      if (timeDelta > params.windowMs) break; // No need to check further
+
+      // Different accounts, same symbol, close timing
+      const accountA = tradeA.client_id || tradeA.affiliate_id;
+      const accountB = tradeB.client_id || tradeB.affiliate_id;
+
+      if (accountA && accountB && accountA !== accountB && tradeA.symbol === tradeB.symbol) {
+        const isSuspicious = timeDelta < params.suspiciousMs;
+
+        edges.push(
+          createEdge(
+            `trade_${tradeA.id}`,
+            `trade_${tradeB.id}`,
+            'timing_sync',
+            1 - timeDelta / params.windowMs,
+            isSuspicious,
+            {
+              timeDelta,
+              confidence: isSuspicious ? 80 : 50,
+              description: `Trades ${timeDelta}ms apart on ${tradeA.symbol}`,
+            }
+          )
+        );
+      }
+    }
+  }
+
+  return edges;
+}
+
+function detectOppositePositions(trades: TradeRow[], params: DetectorParams): GraphEdgeData[] {
+  const edges: GraphEdgeData[] = [];
+  const sortedTrades = sortByTime(trades);
+
+  // Find opposing pairs (CALL/PUT, Touch/No Touch, ...) on same symbol within time window
+  for (let i = 0; i < sortedTrades.length; i++) {
+    const tradeA = sortedTrades[i];
+    const timeA = new Date(tradeA.created_at).getTime();
+
+    for (let j = i + 1; j < sortedTrades.length; j++) {
+      const tradeB = sortedTrades[j];
+      const timeB = new Date(tradeB.created_at).getTime();
+      const timeDelta = timeB - timeA;
+
+      if (timeDelta > params.windowMs) break;
+
+      // Different accounts, same symbol, opposite positions
+      const accountA = tradeA.client_id || tradeA.affiliate_id;
+      const accountB = tradeB.client_id || tradeB.affiliate_id;
+
+      if (
+        accountA &&
+        accountB &&
+        accountA !== accountB &&
+        tradeA.symbol === tradeB.symbol &&
+        isOppositeContract(tradeA.contract_type, tradeB.contract_type, tradeA.barrier, tradeB.barrier)
+      ) {
+        // This is highly suspicious - coordinated opposite trading
+        edges.push(
+          createEdge(
+            `trade_${tradeA.id}`,
+            `trade_${tradeB.id}`,
+            'opposite_position',
+            params.weight,
+            true,
+            {
+              timeDelta,
+              confidence: params.confidence,
+              description: `${tradeA.contract_type} vs ${tradeB.contract_type} on ${tradeA.symbol} (${timeDelta}ms delta)`,
+            }
+          )
+        );
+      }
+    }
+  }
+
+  return edges;
+}
+
+// Edges for one rapid sequence: a chain between consecutive trades plus a link from the account
+function createRapidSequenceEdges(sequence: TradeRow[], accountNodeId: string): GraphEdgeData[] {
+  const edges: GraphEdgeData[] = [];
+
+  for (let j = 0; j < sequence.length - 1; j++) {
+    edges.push(
+      createEdge(
+        `trade_${sequence[j].id}`,
+        `trade_${sequence[j + 1].id}`,
+        'timing_sync',
+        0.8,
+        true,
+        {
+          confidence: Math.min(95, 50 + sequence.length * 5),
+          description: `Rapid trading: ${sequence.length} trades in quick succession`,
+          rapidCount: sequence.length,
+        }
+      )
+    );
+  }
+
+  // Also link to affiliate/client node to boost their risk
+  edges.push(
+    createEdge(
+      accountNodeId,
+      `trade_${sequence[0].id}`,
+      'timing_sync',
+      0.85,
+      true,
+      {
+        confidence: Math.min(90, 50 + sequence.length * 5),
+        description: `Rapid trading pattern: ${sequence.length} trades detected`,
+        rapidCount: sequence.length,
+      }
+    )
+  );
+
+  return edges;
+}
+
+// Detect rapid trading patterns (high frequency trading that may indicate fraud)
+function detectRapidTrading(trades: TradeRow[], params: DetectorParams): GraphEdgeData[] {
+  const edges: GraphEdgeData[] = [];
+
+  // Group trades by affiliate (only use affiliate_id for accurate linking)
+  const tradesByAffiliate: Record<string, { trades: TradeRow[]; isAffiliate: boolean }> = {};
+  for (const trade of trades) {
+    // Prefer affiliate_id, fall back to client_id
+    const key = trade.affiliate_id || trade.client_id;
+    if (!key) continue;
+    if (!tradesByAffiliate[key]) {
+      tradesByAffiliate[key] = { trades: [], isAffiliate: !!trade.affiliate_id };
+    }
+    tradesByAffiliate[key].trades.push(trade);
+  }
+
+  // Check each affiliate's trades for rapid patterns
+  for (const [entityId, { trades: entityTrades, isAffiliate }] of Object.entries(tradesByAffiliate)) {
+    if (entityTrades.length < params.minTrades) continue;
+
+    const sorted = sortByTime(entityTrades);
+    const accountNodeId = `${isAffiliate ? 'affiliate' : 'client'}_${entityId}`;
+
+    // Find sequences of rapid trades
+    let rapidSequence: TradeRow[] = [sorted[0]];
+
+    for (let i = 1; i <= sorted.length; i++) {
+      const delta = i < sorted.length
+        ? new Date(sorted[i].created_at).getTime() - new Date(sorted[i - 1].created_at).getTime()
+        : Infinity; // Flush the final sequence
+
+      if (delta <= params.thresholdMs) {
+        rapidSequence.push(sorted[i]);
+        continue;
+      }
+
+      // End of rapid sequence - create edges if sequence is long enough
+      if (rapidSequence.length >= params.minTrades) {
+        edges.push(...createRapidSequenceEdges(rapidSequence, accountNodeId));
+      }
+      rapidSequence = i < sorted.length ? [sorted[i]] : [];
+    }
+  }
+
+  return edges;
+}
+
+// ============ REGISTRY ============
+
+export const DETECTOR_REGISTRY: DetectorDefinition[] = [
+  {
+    id: 'ip_overlap',
+    name: 'IP Overlap',
+    description: 'Clients referred by different affiliates connecting from the same IP address',
+    edgeType: 'ip_overlap',
+    input: 'clients',
+    params: {
+      minAffiliates: { default: 2, min: 2, max: 50, description: 'Affiliates sharing an IP before it is added to the graph' },
+      suspiciousAffiliates: { default: 2, min: 2, max: 50, description: 'Affiliates sharing an IP before the edges count as fraud indicators' },
+      confidence: { default: 70, min: 0, max: 100, description: 'Confidence given to suspicious IP overlap edges' },
+    },
+    detect: detectIPOverlaps,
+  },
+  {
+    id: 'device_match',
+    name: 'Device Match',
+    description: 'Clients referred by different affiliates using the same device fingerprint',
+    edgeType: 'device_match',
+    input: 'clients',
+    params: {
+      minAffiliates: { default: 2, min: 2, max: 50, description: 'Affiliates sharing a device before it is flagged' },
+      weight: { default: 0.9, min: 0, max: 1, description: 'Edge weight' },
+      confidence: { default: 85, min: 0, max: 100, description: 'Confidence given to device match edges' },
+    },
+    detect: detectDeviceMatches,
+  },
+  {
+    id: 'timing_sync',
+    name: 'Timing Sync',
+    description: 'Trades on the same symbol from different accounts placed within seconds of each other',
+    edgeType: 'timing_sync',
+    input: 'trades',
+    params: {
+      windowMs: { default: 5000, min: 100, max: 600000, description: 'Maximum gap between two trades to link them' },
+      suspiciousMs: { default: 2000, min: 0, max: 600000, description: 'Gap under which the link counts as a fraud indicator' },
+    },
+    scanWindowMs: params => params.windowMs,
+    detect: detectTimingSync,
+  },
+  {
+    id: 'opposite_position',
+    name: 'Opposite Positions',
+    description: 'CALL/PUT pairs on the same symbol from different accounts',
+    edgeType: 'opposite_position',
+    input: 'trades',
+    params: {
+      windowMs: { default: 10000, min: 100, max: 600000, description: 'Maximum gap between the two opposite trades' },
+      weight: { default: 0.95, min: 0, max: 1, description: 'Edge weight' },
+      confidence: { default: 90, min: 0, max: 100, description: 'Confidence given to opposite position edges' },
+    },
+    scanWindowMs: params => params.windowMs,
+    detect: detectOppositePositions,
+  },
+  {
+    id: 'rapid_trading',
+    name: 'Rapid Trading',
+    description: 'Bursts of trades from one account in quick succession',
+    edgeType: 'timing_sync',
+    input: 'trades',
+    params: {
+      thresholdMs: { default: 60000, min: 1000, max: 3600000, description: 'Maximum gap between consecutive trades in a burst' },
+      minTrades: { default: 3, min: 2, max: 100, description: 'Trades needed before a burst is flagged' },
+    },
+    scanWindowMs: params => params.thresholdMs,
+    detect: detectRapidTrading,
+  },
+];
+
+export function getDetectorDefinition(id: string): DetectorDefinition | undefined {
+  return DETECTOR_REGISTRY.find(d => d.id === id);
+}
+
+function defaultParams(definition: DetectorDefinition): DetectorParams {
+  return Object.fromEntries(
+    Object.entries(definition.params).map(([key, spec]) => [key, spec.default])
+  );
+}
+
+// Stamps every edge with the detector and parameter version that produced it
+function stampEdges(edges: GraphEdgeData[], detector: ActiveDetector): GraphEdgeData[] {
+  return edges.map(edge => ({
+    ...edge,
+    metadata: {
+      ...edge.metadata,
+      detectorId: detector.definition.id,
+      detectorVersion: detector.version,
+    },
+  }));
+}
+
+export function runClientDetectors(
+  detectors: ActiveDetector[],
+  clients: ClientRow[]
+): { nodes: GraphNodeData[]; edges: GraphEdgeData[] } {
+  const nodes: GraphNodeData[] = [];
+  const edges: GraphEdgeData[] = [];
+
+  for (const detector of detectors) {
+    if (detector.definition.input !== 'clients') continue;
+    const result = detector.definition.detect(clients, detector.params);
+    nodes.push(...result.nodes);
+    edges.push(...stampEdges(result.edges, detector));
+  }
+
+  return { nodes, edges };
+}
+
+export function runTradeDetectors(detectors: ActiveDetector[], trades: TradeRow[]): GraphEdgeData[] {
+  const edges: GraphEdgeData[] = [];
+
+  for (const detector of detectors) {
+    if (detector.definition.input !== 'trades') continue;
+    edges.push(...stampEdges(detector.definition.detect(trades, detector.params), detector));
+  }
+
+  return edges;
+}
+
+// Widest gap any enabled trade detector links across
+export function tradeScanWindowMs(detectors: ActiveDetector[]): number {
+  let windowMs = 0;
+  for (const { definition, params } of detectors) {
+    if (definition.input === 'trades') {
+      windowMs = Math.max(windowMs, definition.scanWindowMs(params));
+    }
+  }
+  return windowMs;
+}
+
+export function isTradeDetector(id: DetectorId | undefined): boolean {
+  return getDetectorDefinition(id || '')?.input === 'trades';
+}
+
+// ============ CONFIGURATION ============
+
+interface DetectorConfigRow {
+  id: string;
+  enabled: boolean;
+  params: DetectorParams | null;
+  version: number;
+  updated_at: string;
+}
+
+function toDetectorConfig(definition: DetectorDefinition, row?: DetectorConfigRow): DetectorConfig {
+  return {
+    id: definition.id,
+    name: definition.name,
+    description: definition.description,
+    edgeType: definition.edgeType,
+    enabled: row ? row.enabled : true,
+    // Unknown keys from older configs are dropped; missing keys fall back to defaults
+    params: {
+      ...defaultParams(definition),
+      ...Object.fromEntries(
+        Object.entries(row?.params || {}).filter(([key]) => key in definition.params)
+      ),
+    },
+    paramSpecs: definition.params,
+    version: row ? row.version : 0,
+    updatedAt: row?.updated_at,
+  };
+}
+
+export async function loadDetectorConfigs(): Promise<DetectorConfig[]> {
+  let rows: DetectorConfigRow[] = [];
+
+  if (isSupabaseConfigured()) {
+    try {
+      const { data, error } = await db.from('detector_configs').select('*');
+      if (error) {
+        console.error('[DetectorRegistry] Error loading detector configs:', error);
+      }
+      rows = data || [];
+    } catch (error) {
+      console.error('[DetectorRegistry] Error loading detector configs:', error);
+    }
+  }
+
+  return DETECTOR_REGISTRY.map(definition =>
+    toDetectorConfig(definition, rows.find(r => r.id === definition.id))
+  );
+}
+
+export async function loadActiveDetectors(): Promise<ActiveDetector[]> {
+  const configs = await loadDetectorConfigs();
+
+  return configs
+    .filter(config => config.enabled)
+    .map(config => ({
+      definition: getDetectorDefinition(config.id)!,
+      params: config.params,
+      version: config.version,
+    }));
+}
+
+export function validateDetectorParams(
+  definition: DetectorDefinition,
+  params: Record<string, unknown>
+): string | null {
+  for (const [key, value] of Object.entries(params)) {
+    const spec = definition.params[key];
+    if (!spec) return `Unknown parameter "${key}" for detector ${definition.id}`;
+    if (typeof value !== 'number' || !Number.isFinite(value)) return `Parameter "${key}" must be a number`;
+    if (value < spec.min || value > spec.max) return `Parameter "${key}" must be between ${spec.min} and ${spec.max}`;
+  }
+  return null;
+}
+
+// The version column is bumped by a trigger on update (see 007_detector_configs.sql)
+export async function saveDetectorConfig(
+  id: DetectorId,
+  update: { enabled?: boolean; params?: DetectorParams }
+): Promise<DetectorConfig> {
+  const definition = getDetectorDefinition(id);
+  if (!definition) throw new Error(`Unknown detector: ${id}`);
+  if (!isSupabaseConfigured()) throw new Error('Supabase not configured. Detector settings require a database connection.');
+
+  const { data: existing } = await db
+    .from('detector_configs')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  const row = {
+    id,
+    enabled: update.enabled ?? existing?.enabled ?? true,
+    params: { ...(existing?.params || {}), ...(update.params || {}) },
+  };
+
+  const { data, error } = existing
+    ? await db.from('detector_configs').update(row).eq('id', id).select().single()
+    : await db.from('detector_configs').insert({ ...row, version: 1 }).select().single();
+
+  if (error) throw new Error(error.message);
+
+  return toDetectorConfig(definition, data);
+}
@@ -5,87 +5,16 @@ import { supabase, isSupabaseConfigured } from '@/lib/supabase';
 import {
   KnowledgeGraph,
   FraudRing,
+  FraudRingEvent,
+  FraudRingStatus,
   FraudSeverity,
 } from '@/types/lunar-graph';
+import { detectCommunities, Community } from './community-detection';
 import { v4 as uuidv4 } from 'uuid';
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 const db = supabase as any;
 
-interface Cluster {
-  id: string;
-  nodes: string[];
-  avgRiskScore: number;
-  fraudEdgeCount: number;
-  density: number;
-}
-
-// ============ COMMUNITY DETECTION ============
-
-function detectCommunities(graph: KnowledgeGraph): Cluster[] {
-  const clusters: Cluster[] = [];
-  const visited = new Set<string>();
-
-  // Build adjacency map for fraud-related edges only
-  const adjacency: Record<string, Set<string>> = {};
-  for (const edge of graph.edges) {
-    if (edge.isFraudIndicator || edge.type === 'device_match' || edge.type === 'ip_overlap') {
-      if (!adjacency[edge.source]) adjacency[edge.source] = new Set();
-      if (!adjacency[edge.target]) adjacency[edge.target] = new Set();
-      adjacency[edge.source].add(edge.target);
-      adjacency[edge.target].add(edge.source);
-    }
-  }
-
-  // BFS to find connected components
-  for (const startNode of Object.keys(adjacency)) {
-    if (visited.has(startNode)) continue;
-
-    const component: string[] = [];
-    const queue = [startNode];
-
-    while (queue.length > 0) {
-      const node = queue.shift()!;
-      if (visited.has(node)) continue;
-
-      visited.add(node);
-      component.push(node);
-
-      const neighbors = adjacency[node] || new Set();
-      for (const neighbor of neighbors) {
-        if (!visited.has(neighbor)) {
-          queue.push(neighbor);
-        }
-      }
-    }
-
-    if (component.length >= 2) {
-      const clusterNodes = graph.nodes.filter(n => component.includes(n.id));
-      const avgRiskScore = clusterNodes.length > 0
-        ? clusterNodes.reduce((sum, n) => sum + n.riskScore, 0) / clusterNodes.length
-        : 0;
-
-      const clusterEdges = graph.edges.filter(
-        e => component.includes(e.source) && component.includes(e.target)
-      );
-      const fraudEdgeCount = clusterEdges.filter(e => e.isFraudIndicator).length;
-
-      const possibleEdges = (component.length * (component.length - 1)) / 2;
-      const density = possibleEdges > 0 ? clusterEdges.length / possibleEdges : 0;
-
-      clusters.push({
-        id: uuidv4(),
-        nodes: component,
-        avgRiskScore,
-        fraudEdgeCount,
-        density,
-      });
-    }
-  }
-
-  return clusters.sort((a, b) => b.avgRiskScore - a.avgRiskScore);
-}
-
 // ============ FRAUD RING EXTRACTION ============
 
 function getSeverity(score: number): FraudSeverity {
@@ -95,8 +24,9 @@ function getSeverity(score: number): FraudSeverity {
   return 'low';
 }
 
-function extractFraudRings(
-  clusters: Cluster[],
+// Shared with Agent Alpha so the build and analyze paths produce the same rings
+export function extractFraudRings(
+  clusters: Community[],
   graph: KnowledgeGraph
 ): FraudRing[] {
   const rings: FraudRing[] = [];
@@ -154,46 +84,307 @@ function extractFraudRings(
   return rings;
 }
 
+// ============ RING MATCHING ============
+
+// Minimum entity overlap for a detected ring to count as an existing ring re-detected
+const RING_MATCH_THRESHOLD = 0.5;
+
+function jaccard(a: string[], b: string[]): number {
+  const setA = new Set(a);
+  const setB = new Set(b);
+  let intersection = 0;
+  for (const id of setA) {
+    if (setB.has(id)) intersection++;
+  }
+  const union = setA.size + setB.size - intersection;
+  return union > 0 ? intersection / union : 0;
+}
+
+// Greedy one-to-one matching, best overlap first
+function matchRings(detected: FraudRing[], existing: FraudRing[]): Map<string, FraudRing> {
+  const candidates: Array<{ detected: FraudRing; existing: FraudRing; similarity: number }> = [];
+  for (const d of detected) {
+    for (const e of existing) {
+      const similarity = jaccard(d.entities, e.entities);
+      if (similarity >= RING_MATCH_THRESHOLD) {
+        candidates.push({ detected: d, existing: e, similarity });
+      }
+    }
+  }
+
+  const matches = new Map<string, FraudRing>(); // detected id -> existing ring
+  const taken = new Set<string>();
+  for (const c of candidates.sort((a, b) => b.similarity - a.similarity)) {
+    if (matches.has(c.detected.id) || taken.has(c.existing.id)) continue;
+    matches.set(c.detected.id, c.existing);
+    taken.add(c.existing.id);
+  }
+  return matches;
+}
+
 // ============ DATABASE OPERATIONS ============
 
-async function saveFraudRing(ring: FraudRing): Promise<boolean> {
-  if (!isSupabaseConfigured()) return false;
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function mapFraudRingRow(row: any): FraudRing {
+  return {
+    id: row.id,
+    name: row.name,
+    type: row.type,
+    severity: row.severity,
+    confidence: row.confidence,
+    entities: row.entities || [],
+    exposure: Number(row.exposure) || 0,
+    evidence: row.evidence || [],
+    aiSummary: row.ai_summary || '',
+    status: row.status,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    lastDetectedAt: row.last_detected_at,
+  };
+}
 
-  try {
-    // Check if a similar ring already exists (same entities)
-    const { data: existing } = await db
-      .from('fraud_rings')
-      .select('id')
-      .contains('entities', ring.entities.slice(0, 3))
-      .eq('status', 'active')
-      .limit(1);
-
-    if (existing && existing.length > 0) {
-      console.log(`[FraudRingDetector] Ring already exists, skipping: ${ring.name}`);
-      return false;
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function mapFraudRingEventRow(row: any): FraudRingEvent {
+  return {
+    id: row.id,
+    ringId: row.ring_id,
+    type: row.event_type,
+    addedEntities: row.added_entities || [],
+    removedEntities: row.removed_entities || [],
+    exposureBefore: row.exposure_before ?? undefined,
+    exposureAfter: row.exposure_after ?? undefined,
+    statusBefore: row.status_before ?? undefined,
+    statusAfter: row.status_after ?? undefined,
+    changedBy: row.changed_by ?? undefined,
+    createdAt: row.created_at,
+  };
+}
+
+async function recordRingEvents(events: Array<Omit<FraudRingEvent, 'id' | 'createdAt'>>): Promise<void> {
+  if (events.length === 0) return;
+
+  const { error } = await db.from('fraud_ring_events').insert(
+    events.map(e => ({
+      ring_id: e.ringId,
+      event_type: e.type,
+      added_entities: e.addedEntities,
+      removed_entities: e.removedEntities,
+      exposure_before: e.exposureBefore ?? null,
+      exposure_after: e.exposureAfter ?? null,
+      status_before: e.statusBefore ?? null,
+      status_after: e.statusAfter ?? null,
+      changed_by: e.changedBy ?? null,
+    }))
+  );
+  if (error) {
+    console.error('[FraudRingDetector] Error recording ring events:', error);
+  }
+}
+
+// Of the given rings, those whose latest lifecycle event is already a redetection, so a ring that
+// stays closed but keeps being detected is only reported once per status change
+async function loadAlreadyRedetected(ringIds: string[]): Promise<Set<string>> {
+  if (ringIds.length === 0) return new Set();
+
+  const { data, error } = await db
+    .from('fraud_ring_events')
+    .select('ring_id, event_type')
+    .in('ring_id', ringIds)
+    .in('event_type', ['status_changed', 'redetected'])
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    // Better to miss a redetection than to record one on every run
+    console.error('[FraudRingDetector] Error loading ring lifecycle events:', error);
+    return new Set(ringIds);
+  }
+
+  const latest = new Map<string, string>();
+  for (const row of data || []) {
+    if (!latest.has(row.ring_id)) latest.set(row.ring_id, row.event_type);
+  }
+  return new Set([...latest].filter(([, type]) => type === 'redetected').map(([ringId]) => ringId));
+}
+
+export interface RingGrowth {
+  ring: FraudRing;
+  addedEntities: string[];
+  exposureDelta: number;
+}
+
+export interface FraudRingReconciliation {
+  rings: FraudRing[]; // Detected rings carrying their persisted id, name and status
+  created: FraudRing[];
+  grown: RingGrowth[];
+}
+
+// Matches detected rings to stored ones by entity overlap and updates them in place,
+// keeping the investigator-set status and recording what changed. aiSummarized holds the detected rings
+// whose summary came from the model; the others carry the template one, which never replaces a stored summary.
+// A failed write throws; rings written before it keep their events, since each ring's are recorded with it
+export async function reconcileFraudRings(
+  detected: FraudRing[],
+  aiSummarized: Set<string> = new Set()
+): Promise<FraudRingReconciliation> {
+  if (!isSupabaseConfigured() || detected.length === 0) {
+    return { rings: detected, created: detected, grown: [] };
+  }
+
+  const { data: existingRows, error } = await db.from('fraud_rings').select('*');
+  if (error) throw new Error(error.message);
+
+  const matches = matchRings(detected, (existingRows || []).map(mapFraudRingRow));
+  const closedIds = [...matches.values()]
+    .filter(ring => ring.status === 'resolved' || ring.status === 'false_positive')
+    .map(ring => ring.id);
+  const alreadyRedetected = await loadAlreadyRedetected([...new Set(closedIds)]);
+  const now = new Date().toISOString();
+  const result: FraudRingReconciliation = { rings: [], created: [], grown: [] };
+
+  for (const ring of detected) {
+    const existing = matches.get(ring.id);
+
+    if (!existing) {
+      const { error: insertError } = await db.from('fraud_rings').insert({
+        id: ring.id,
+        name: ring.name,
+        type: ring.type,
+        severity: ring.severity,
+        confidence: ring.confidence,
+        entities: ring.entities,
+        exposure: ring.exposure,
+        evidence: ring.evidence,
+        ai_summary: ring.aiSummary,
+        status: ring.status,
+        last_detected_at: now,
+      });
+      if (insertError) throw new Error(insertError.message);
+
+      console.log(`[FraudRingDetector] Saved new fraud ring: ${ring.name}`);
+      await recordRingEvents([{ ringId: ring.id, type: 'created', addedEntities: ring.entities, removedEntities: [], exposureAfter: ring.exposure, statusAfter: ring.status }]);
+      result.created.push(ring);
+      result.rings.push({ ...ring, lastDetectedAt: now });
+      continue;
     }
 
-    await db.from('fraud_rings').insert({
-      id: ring.id,
-      name: ring.name,
+    const previous = new Set(existing.entities);
+    const current = new Set(ring.entities);
+    const addedEntities = ring.entities.filter(id => !previous.has(id));
+    const removedEntities = existing.entities.filter(id => !current.has(id));
+    const exposureDelta = Math.round((ring.exposure - existing.exposure) * 100) / 100;
+    const aiSummary = aiSummarized.has(ring.id) ? ring.aiSummary : existing.aiSummary || ring.aiSummary;
+
+    const { error: updateError } = await db.from('fraud_rings').update({
       type: ring.type,
       severity: ring.severity,
       confidence: ring.confidence,
       entities: ring.entities,
       exposure: ring.exposure,
       evidence: ring.evidence,
-      ai_summary: ring.aiSummary,
-      status: ring.status,
-    });
+      ai_summary: aiSummary,
+      last_detected_at: now,
+    }).eq('id', existing.id);
+    if (updateError) throw new Error(updateError.message);
+
+    const events: Array<Omit<FraudRingEvent, 'id' | 'createdAt'>> = [];
+    if (addedEntities.length > 0 || removedEntities.length > 0) {
+      events.push({ ringId: existing.id, type: 'membership_changed', addedEntities, removedEntities });
+    }
+    if (exposureDelta !== 0) {
+      events.push({ ringId: existing.id, type: 'exposure_changed', addedEntities: [], removedEntities: [], exposureBefore: existing.exposure, exposureAfter: ring.exposure });
+    }
+    if ((existing.status === 'resolved' || existing.status === 'false_positive') && !alreadyRedetected.has(existing.id)) {
+      alreadyRedetected.add(existing.id);
+      events.push({ ringId: existing.id, type: 'redetected', addedEntities, removedEntities, statusBefore: existing.status, statusAfter: existing.status });
+    }
+    await recordRingEvents(events);
+
+    const merged: FraudRing = {
+      ...ring,
+      id: existing.id,
+      name: existing.name,
+      status: existing.status,
+      aiSummary,
+      createdAt: existing.createdAt,
+      updatedAt: now,
+      lastDetectedAt: now,
+    };
+    result.rings.push(merged);
+    if (addedEntities.length > 0 || exposureDelta > 0) {
+      result.grown.push({ ring: merged, addedEntities, exposureDelta });
+    }
+  }
 
-    console.log(`[FraudRingDetector] Saved fraud ring: ${ring.name}`);
-    return true;
+  console.log(`[FraudRingDetector] Reconciled ${detected.length} rings: ${result.created.length} new, ${matches.size} matched, ${result.grown.length} grew`);
+  return result;
+}
+
+export async function updateFraudRingStatus(
+  ringId: string,
+  status: FraudRingStatus,
+  changedBy?: string
+): Promise<FraudRing> {
+  if (!isSupabaseConfigured()) throw new Error('Supabase not configured. Ring status requires a database connection.');
+
+  const { data: existing, error: loadError } = await db
+    .from('fraud_rings')
+    .select('*')
+    .eq('id', ringId)
+    .maybeSingle();
+
+  if (loadError) throw new Error(loadError.message);
+  if (!existing) throw new Error(`Fraud ring not found: ${ringId}`);
+
+  const { data, error } = await db
+    .from('fraud_rings')
+    .update({ status })
+    .eq('id', ringId)
+    .select()
+    .single();
+
+  if (error) throw new Error(error.message);
+
+  if (existing.status !== status) {
+    await recordRingEvents([{
+      ringId,
+      type: 'status_changed',
+      addedEntities: [],
+      removedEntities: [],
+      statusBefore: existing.status,
+      statusAfter: status,
+      changedBy,
+    }]);
+  }
+
+  return mapFraudRingRow(data);
+}
+
+export async function loadFraudRing(ringId: string): Promise<FraudRing | null> {
+  if (!isSupabaseConfigured()) return null;
+
+  const { data } = await db.from('fraud_rings').select('*').eq('id', ringId).maybeSingle();
+  return data ? mapFraudRingRow(data) : null;
+}
+
+export async function loadFraudRingHistory(ringId: string): Promise<FraudRingEvent[]> {
+  if (!isSupabaseConfigured()) return [];
+
+  try {
+    const { data, error } = await db
+      .from('fraud_ring_events')
+      .select('*')
+      .eq('ring_id', ringId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return (data || []).map(mapFraudRingEventRow);
   } catch (error) {
-    console.error('[FraudRingDetector] Error saving fraud ring:', error);
-    return false;
+    console.error('[FraudRingDetector] Error loading ring history:', error);
+    return [];
   }
 }
 
+// Open rings: still active or under investigation
 export async function loadFraudRings(): Promise<FraudRing[]> {
   if (!isSupabaseConfigured()) return [];
 
@@ -201,7 +392,7 @@ export async function loadFraudRings(): Promise<FraudRing[]> {
     const { data, error } = await db
       .from('fraud_rings')
       .select('*')
-      .eq('status', 'active')
+      .in('status', ['active', 'investigating'])
       .order('created_at', { ascending: false })
       .limit(50);
 
@@ -210,23 +401,7 @@ export async function loadFraudRings(): Promise<FraudRing[]> {
       return [];
     }
 
-    if (!data || data.length === 0) {
-      return [];
-    }
-
-    return data.map((row: any) => ({
-      id: row.id,
-      name: row.name,
-      type: row.type,
-      severity: row.severity,
-      confidence: row.confidence,
-      entities: row.entities || [],
-      exposure: row.exposure || 0,
-      evidence: row.evidence || [],
-      aiSummary: row.ai_summary || '',
-      status: row.status,
-      createdAt: row.created_at,
-    }));
+    return (data || []).map(mapFraudRingRow);
   } catch (error) {
     console.error('[FraudRingDetector] Error loading fraud rings:', error);
     return [];
@@ -237,17 +412,15 @@ export async function detectAndSaveFraudRings(graph: KnowledgeGraph): Promise<Fr
   console.log('[FraudRingDetector] Detecting fraud rings...');
 
   // Detect communities in the graph
-  const clusters = detectCommunities(graph);
-  console.log(`[FraudRingDetector] Found ${clusters.length} clusters`);
+  const { communities: clusters, modularity } = detectCommunities(graph);
+  console.log(`[FraudRingDetector] Found ${clusters.length} clusters (modularity ${modularity})`);
 
   // Extract fraud rings from clusters
   const rings = extractFraudRings(clusters, graph);
   console.log(`[FraudRingDetector] Extracted ${rings.length} fraud rings`);
 
-  // Save to database
-  for (const ring of rings) {
-    await saveFraudRing(ring);
-  }
+  // Update matching stored rings in place, insert the rest
+  const { rings: saved } = await reconcileFraudRings(rings);
 
-  return rings;
+  return saved;
 }
@@ -6,10 +6,26 @@ import {
   KnowledgeGraph,
   GraphNodeData,
   GraphEdgeData,
-  NodeType,
-  EdgeType,
+  GraphBuildInfo,
+  DetectorId,
+  RiskModelConfig,
 } from '@/types/lunar-graph';
-import { v4 as uuidv4 } from 'uuid';
+import { loadGraphState, saveGraphState, GraphBuildState } from './graph-state';
+import {
+  ClientRow,
+  TradeRow,
+  ActiveDetector,
+  createEdge,
+  ipNodeId,
+  deviceNodeId,
+  isTradeDetector,
+  loadActiveDetectors,
+  runClientDetectors,
+  runTradeDetectors,
+  tradeScanWindowMs,
+} from './detector-registry';
+import { calculateRiskScores, loadRiskModel } from './risk-scoring';
+import { detectCommunities } from './community-detection';
 
 // Type assertions for Supabase
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -23,27 +39,7 @@ interface AffiliateRow {
   email: string;
   referral_code: string;
   created_at: string;
-}
-
-interface ClientRow {
-  id: string;
-  affiliate_id: string;
-  referral_code: string;
-  deriv_account_id: string;
-  ip_address: string;
-  device_id: string;
-  created_at: string;
-}
-
-interface TradeRow {
-  id: string;
-  client_id: string;
-  affiliate_id: string;
-  contract_type: 'CALL' | 'PUT';
-  symbol: string;
-  amount: number;
-  profit: number;
-  created_at: string;
+  updated_at?: string;
 }
 
 interface VisitorRow {
@@ -60,22 +56,36 @@ interface VisitorRow {
   created_at: string;
 }
 
+// Supabase caps a single select at 1000 rows, so page through with range()
+const PAGE_SIZE = 1000;
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+async function fetchAllRows<T>(buildQuery: () => any): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data } = await buildQuery().range(from, from + PAGE_SIZE - 1);
+    if (!data || data.length === 0) break;
+    rows.push(...data);
+    if (data.length < PAGE_SIZE) break;
+  }
+  return rows;
+}
+
 async function fetchAffiliates(): Promise<AffiliateRow[]> {
   if (!isSupabaseConfigured()) return [];
-  const { data } = await db.from('affiliates').select('*');
-  return data || [];
+  return fetchAllRows<AffiliateRow>(() => db.from('affiliates').select('*').order('id'));
 }
 
 async function fetchClients(): Promise<ClientRow[]> {
   if (!isSupabaseConfigured()) return [];
-  const { data } = await db.from('clients').select('*');
-  return data || [];
+  return fetchAllRows<ClientRow>(() => db.from('clients').select('*').order('id'));
 }
 
 async function fetchTrades(): Promise<TradeRow[]> {
   if (!isSupabaseConfigured()) return [];
-  const { data } = await db.from('trades').select('*').order('created_at', { ascending: false }).limit(1000);
-  return data || [];
+  return fetchAllRows<TradeRow>(() =>
+    db.from('trades').select('*').order('created_at', { ascending: false }).order('id')
+  );
 }
 
 async function fetchVisitorTracking(): Promise<VisitorRow[]> {
@@ -84,6 +94,48 @@ async function fetchVisitorTracking(): Promise<VisitorRow[]> {
   return data || [];
 }
 
+// Rows inserted or updated at or after the watermark (gte: re-applying a row is idempotent)
+async function fetchChangedRows<T>(table: 'affiliates' | 'clients' | 'trades', since: string): Promise<T[]> {
+  if (!isSupabaseConfigured()) return [];
+  return fetchAllRows<T>(() =>
+    db.from(table).select('*').gte('updated_at', since).order('updated_at').order('id')
+  );
+}
+
+async function fetchTradesInWindow(start: string, end: string): Promise<TradeRow[]> {
+  if (!isSupabaseConfigured()) return [];
+  return fetchAllRows<TradeRow>(() =>
+    db.from('trades').select('*').gte('created_at', start).lte('created_at', end).order('created_at').order('id')
+  );
+}
+
+// All clients sharing an IP or device with the given clients, or using one of the extra identities
+// (the groups the overlap detectors need)
+async function fetchClientsSharingIdentity(
+  changed: ClientRow[],
+  extra: { ips: string[]; devices: string[] }
+): Promise<ClientRow[]> {
+  if (!isSupabaseConfigured()) return changed;
+
+  const ips = [...new Set([...changed.map(c => c.ip_address), ...extra.ips].filter(Boolean))];
+  const devices = [...new Set([...changed.map(c => c.device_id), ...extra.devices].filter(Boolean))];
+
+  const [byIp, byDevice] = await Promise.all([
+    ips.length > 0
+      ? fetchAllRows<ClientRow>(() => db.from('clients').select('*').in('ip_address', ips).order('id'))
+      : Promise.resolve([] as ClientRow[]),
+    devices.length > 0
+      ? fetchAllRows<ClientRow>(() => db.from('clients').select('*').in('device_id', devices).order('id'))
+      : Promise.resolve([] as ClientRow[]),
+  ]);
+
+  const byId = new Map<string, ClientRow>();
+  for (const client of [...changed, ...byIp, ...byDevice]) {
+    byId.set(client.id, client);
+  }
+  return [...byId.values()];
+}
+
 // ============ NODE CREATION ============
 
 function createAffiliateNode(affiliate: AffiliateRow): GraphNodeData {
@@ -123,6 +175,7 @@ function createTradeNode(trade: TradeRow): GraphNodeData {
     riskScore: 0,
     metadata: {
       contractType: trade.contract_type,
+      barrier: trade.barrier ?? undefined,
       symbol: trade.symbol,
       amount: trade.amount,
       profit: trade.profit,
@@ -134,28 +187,6 @@ function createTradeNode(trade: TradeRow): GraphNodeData {
 
 // ============ EDGE DETECTION ============
 
-function createEdge(
-  source: string,
-  target: string,
-  type: EdgeType,
-  weight: number,
-  isFraud: boolean,
-  metadata: GraphEdgeData['metadata'] = {}
-): GraphEdgeData {
-  return {
-    id: `edge_${uuidv4().slice(0, 8)}`,
-    source,
-    target,
-    type,
-    weight,
-    isFraudIndicator: isFraud,
-    metadata: {
-      ...metadata,
-      detectedAt: new Date().toISOString(),
-    },
-  };
-}
-
 function detectReferralEdges(
   affiliates: AffiliateRow[],
   clients: ClientRow[]
@@ -183,339 +214,7 @@ function detectReferralEdges(
   return edges;
 }
 
-function detectIPOverlaps(clients: ClientRow[]): {
-  nodes: GraphNodeData[];
-  edges: GraphEdgeData[];
-} {
-  const nodes: GraphNodeData[] = [];
-  const edges: GraphEdgeData[] = [];
-
-  // Group clients by IP, then map to their affiliates
-  const ipGroups: Record<string, Set<string>> = {};
-  for (const client of clients) {
-    if (!client.ip_address || !client.affiliate_id) continue;
-    if (!ipGroups[client.ip_address]) {
-      ipGroups[client.ip_address] = new Set();
-    }
-    ipGroups[client.ip_address].add(client.affiliate_id);
-  }
-
-  // Find IPs used by multiple affiliates' clients (suspicious)
-  for (const [ip, affiliateIds] of Object.entries(ipGroups)) {
-    if (affiliateIds.size >= 2) {
-      // Create IP node
-      nodes.push({
-        id: `ip_${ip.replace(/\./g, '_')}`,
-        type: 'ip',
-        label: ip,
-        riskScore: 0,
-        metadata: { ipAddress: ip },
-      });
-
-      const isSuspicious = affiliateIds.size >= 2;
-
-      // Create edges from IP to each affiliate
-      for (const affiliateId of affiliateIds) {
-        edges.push(
-          createEdge(
-            `ip_${ip.replace(/\./g, '_')}`,
-            `affiliate_${affiliateId}`,
-            'ip_overlap',
-            1 / affiliateIds.size,
-            isSuspicious,
-            {
-              confidence: isSuspicious ? 70 : 40,
-              description: `${affiliateIds.size} affiliates share this IP`,
-            }
-          )
-        );
-      }
-    }
-  }
-
-  return { nodes, edges };
-}
-
-function detectDeviceMatches(clients: ClientRow[]): {
-  nodes: GraphNodeData[];
-  edges: GraphEdgeData[];
-} {
-  const nodes: GraphNodeData[] = [];
-  const edges: GraphEdgeData[] = [];
-
-  // Group by device_id, then map to their affiliates
-  const deviceGroups: Record<string, Set<string>> = {};
-  for (const client of clients) {
-    if (!client.device_id || !client.affiliate_id) continue;
-    if (!deviceGroups[client.device_id]) {
-      deviceGroups[client.device_id] = new Set();
-    }
-    deviceGroups[client.device_id].add(client.affiliate_id);
-  }
-
-  // Find device IDs shared across multiple affiliates (highly suspicious)
-  for (const [deviceId, affiliateIds] of Object.entries(deviceGroups)) {
-    if (affiliateIds.size >= 2) {
-      // Create device node
-      nodes.push({
-        id: `device_${deviceId.slice(0, 16)}`,
-        type: 'device',
-        label: `Device ${deviceId.slice(0, 8)}`,
-        riskScore: 0,
-        metadata: { canvasFingerprint: deviceId },
-      });
-
-      // Same device with multiple affiliates is highly suspicious
-      for (const affiliateId of affiliateIds) {
-        edges.push(
-          createEdge(
-            `device_${deviceId.slice(0, 16)}`,
-            `affiliate_${affiliateId}`,
-            'device_match',
-            0.9,
-            true,
-            {
-              confidence: 85,
-              description: `Same device across ${affiliateIds.size} affiliates`,
-            }
-          )
-        );
-      }
-    }
-  }
-
-  return { nodes, edges };
-}
-
-function detectTimingSync(trades: TradeRow[]): GraphEdgeData[] {
-  const edges: GraphEdgeData[] = [];
-  const TIME_WINDOW_MS = 5000; // 5 seconds
-
-  // Sort trades by time
-  const sortedTrades = [...trades].sort(
-    (a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
-  );
-
-  // Find trades within suspicious time windows from different accounts
-  for (let i = 0; i < sortedTrades.length; i++) {
-    const tradeA = sortedTrades[i];
-    const timeA = new Date(tradeA.created_at).getTime();
-
-    for (let j = i + 1; j < sortedTrades.length; j++) {
-      const tradeB = sortedTrades[j];
-      const timeB = new Date(tradeB.created_at).getTime();
-      const timeDelta = timeB - timeA;
-
-      if (timeDelta > TIME_WINDOW_MS) break; // No need to check further
-
-      // Different accounts, same symbol, close timing
-      const accountA = tradeA.client_id || tradeA.affiliate_id;
-      const accountB = tradeB.client_id || tradeB.affiliate_id;
-
-      if (accountA && accountB && accountA !== accountB && tradeA.symbol === tradeB.symbol) {
-        const isSuspicious = timeDelta < 2000; // Very suspicious if under 2 seconds
-
-        edges.push(
-          createEdge(
-            `trade_${tradeA.id}`,
-            `trade_${tradeB.id}`,
-            'timing_sync',
-            1 - timeDelta / TIME_WINDOW_MS,
-            isSuspicious,
-            {
-              timeDelta,
-              confidence: isSuspicious ? 80 : 50,
-              description: `Trades ${timeDelta}ms apart on ${tradeA.symbol}`,
-            }
-          )
-        );
-      }
-    }
-  }
-
-  return edges;
-}
-
-function detectOppositePositions(trades: TradeRow[]): GraphEdgeData[] {
-  const edges: GraphEdgeData[] = [];
-  const TIME_WINDOW_MS = 10000; // 10 seconds
-
-  // Sort trades by time
-  const sortedTrades = [...trades].sort(
-    (a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
-  );
-
-  // Find CALL/PUT pairs on same symbol within time window
-  for (let i = 0; i < sortedTrades.length; i++) {
-    const tradeA = sortedTrades[i];
-    const timeA = new Date(tradeA.created_at).getTime();
-
-    for (let j = i + 1; j < sortedTrades.length; j++) {
-      const tradeB = sortedTrades[j];
-      const timeB = new Date(tradeB.created_at).getTime();
-      const timeDelta = timeB - timeA;
-
-      if (timeDelta > TIME_WINDOW_MS) break;
-
-      // Different accounts, same symbol, opposite positions
-      const accountA = tradeA.client_id || tradeA.affiliate_id;
-      const accountB = tradeB.client_id || tradeB.affiliate_id;
-
-      if (
-        accountA &&
-        accountB &&
-        accountA !== accountB &&
-        tradeA.symbol === tradeB.symbol &&
-        tradeA.contract_type !== tradeB.contract_type
-      ) {
-        // This is highly suspicious - coordinated opposite trading
-        edges.push(
-          createEdge(
-            `trade_${tradeA.id}`,
-            `trade_${tradeB.id}`,
-            'opposite_position',
-            0.95,
-            true,
-            {
-              timeDelta,
-              confidence: 90,
-              description: `${tradeA.contract_type} vs ${tradeB.contract_type} on ${tradeA.symbol} (${timeDelta}ms delta)`,
-            }
-          )
-        );
-      }
-    }
-  }
-
-  return edges;
-}
-
-// Detect rapid trading patterns (high frequency trading that may indicate fraud)
-function detectRapidTrading(trades: TradeRow[]): GraphEdgeData[] {
-  const edges: GraphEdgeData[] = [];
-  const RAPID_THRESHOLD_MS = 60000; // 60 seconds between trades is considered rapid
-  const MIN_RAPID_TRADES = 3; // Need at least 3 rapid trades to flag
-
-  // Group trades by affiliate (only use affiliate_id for accurate linking)
-  const tradesByAffiliate: Record<string, { trades: TradeRow[]; isAffiliate: boolean }> = {};
-  for (const trade of trades) {
-    // Prefer affiliate_id, fall back to client_id
-    const affiliateId = trade.affiliate_id;
-    const clientId = trade.client_id;
-    const key = affiliateId || clientId;
-    if (!key) continue;
-    if (!tradesByAffiliate[key]) {
-      tradesByAffiliate[key] = { trades: [], isAffiliate: !!affiliateId };
-    }
-    tradesByAffiliate[key].trades.push(trade);
-  }
-
-  // Check each affiliate's trades for rapid patterns
-  for (const [entityId, { trades: entityTrades, isAffiliate }] of Object.entries(tradesByAffiliate)) {
-    if (entityTrades.length < MIN_RAPID_TRADES) continue;
-
-    // Sort by time
-    const sorted = [...entityTrades].sort(
-      (a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
-    );
-
-    // Determine the correct node prefix
-    const nodePrefix = isAffiliate ? 'affiliate' : 'client';
-
-    // Find sequences of rapid trades
-    let rapidSequence: TradeRow[] = [sorted[0]];
-
-    for (let i = 1; i < sorted.length; i++) {
-      const prevTime = new Date(sorted[i - 1].created_at).getTime();
-      const currTime = new Date(sorted[i].created_at).getTime();
-      const delta = currTime - prevTime;
-
-      if (delta <= RAPID_THRESHOLD_MS) {
-        rapidSequence.push(sorted[i]);
-      } else {
-        // End of rapid sequence - create edges if sequence is long enough
-        if (rapidSequence.length >= MIN_RAPID_TRADES) {
-          // Create edges linking rapid trades
-          for (let j = 0; j < rapidSequence.length - 1; j++) {
-            const confidence = Math.min(95, 50 + rapidSequence.length * 5);
-            edges.push(
-              createEdge(
-                `trade_${rapidSequence[j].id}`,
-                `trade_${rapidSequence[j + 1].id}`,
-                'timing_sync',
-                0.8,
-                true,
-                {
-                  confidence,
-                  description: `Rapid trading: ${rapidSequence.length} trades in quick succession`,
-                  rapidCount: rapidSequence.length,
-                }
-              )
-            );
-          }
-
-          // Also link to affiliate/client node to boost their risk
-          edges.push(
-            createEdge(
-              `${nodePrefix}_${entityId}`,
-              `trade_${rapidSequence[0].id}`,
-              'timing_sync',
-              0.85,
-              true,
-              {
-                confidence: Math.min(90, 50 + rapidSequence.length * 5),
-                description: `Rapid trading pattern: ${rapidSequence.length} trades detected`,
-                rapidCount: rapidSequence.length,
-              }
-            )
-          );
-        }
-        // Start new sequence
-        rapidSequence = [sorted[i]];
-      }
-    }
-
-    // Check final sequence
-    if (rapidSequence.length >= MIN_RAPID_TRADES) {
-      for (let j = 0; j < rapidSequence.length - 1; j++) {
-        const confidence = Math.min(95, 50 + rapidSequence.length * 5);
-        edges.push(
-          createEdge(
-            `trade_${rapidSequence[j].id}`,
-            `trade_${rapidSequence[j + 1].id}`,
-            'timing_sync',
-            0.8,
-            true,
-            {
-              confidence,
-              description: `Rapid trading: ${rapidSequence.length} trades in quick succession`,
-              rapidCount: rapidSequence.length,
-            }
-          )
-        );
-      }
-
-      edges.push(
-        createEdge(
-          `${nodePrefix}_${entityId}`,
-          `trade_${rapidSequence[0].id}`,
-          'timing_sync',
-          0.85,
-          true,
-          {
-            confidence: Math.min(90, 50 + rapidSequence.length * 5),
-            description: `Rapid trading pattern: ${rapidSequence.length} trades detected`,
-            rapidCount: rapidSequence.length,
-          }
-        )
-      );
-    }
-  }
-
-  return edges;
-}
-
-function createTradeLinks(trades: TradeRow[], clients: ClientRow[], affiliates: AffiliateRow[]): GraphEdgeData[] {
+function createTradeLinks(trades: TradeRow[]): GraphEdgeData[] {
   const edges: GraphEdgeData[] = [];
 
   for (const trade of trades) {
@@ -537,71 +236,63 @@ function createTradeLinks(trades: TradeRow[], clients: ClientRow[], affiliates:
   return edges;
 }
 
-// ============ RISK SCORING ============
-
-function calculateRiskScores(
-  nodes: GraphNodeData[],
-  edges: GraphEdgeData[]
-): GraphNodeData[] {
-  // Build adjacency map
-  const nodeEdges: Record<string, GraphEdgeData[]> = {};
-  for (const edge of edges) {
-    if (!nodeEdges[edge.source]) nodeEdges[edge.source] = [];
-    if (!nodeEdges[edge.target]) nodeEdges[edge.target] = [];
-    nodeEdges[edge.source].push(edge);
-    nodeEdges[edge.target].push(edge);
-  }
+// ============ MAIN BUILDER ============
 
-  return nodes.map(node => {
-    const connectedEdges = nodeEdges[node.id] || [];
-    const fraudEdges = connectedEdges.filter(e => e.isFraudIndicator);
-
-    // Start with base risk from connection count (more connections = slightly higher base risk)
-    let riskScore = Math.min(15, connectedEdges.length * 2);
-
-    // Add incremental risk for each fraud edge (scaled down to create gradual increase)
-    if (fraudEdges.length > 0) {
-      // Each fraud edge adds risk based on its confidence, but scaled
-      const fraudRisk = fraudEdges.reduce((sum, e) => {
-        const confidence = e.metadata.confidence || 50;
-        return sum + (confidence * 0.3); // Scale down confidence
-      }, 0);
-      riskScore += Math.min(40, fraudRisk); // Cap fraud edge contribution at 40
-    }
+interface BuildResult {
+  nodes: GraphNodeData[];
+  edges: GraphEdgeData[];
+  buildInfo: GraphBuildInfo;
+}
 
-    // Incremental boosts for specific patterns (smaller increments for gradual color changes)
-    const hasDeviceMatch = connectedEdges.some(e => e.type === 'device_match');
-    const hasIPOverlap = connectedEdges.some(e => e.type === 'ip_overlap');
-    const hasTimingSync = connectedEdges.some(e => e.type === 'timing_sync');
-    const hasOpposite = connectedEdges.some(e => e.type === 'opposite_position');
-
-    // Each pattern adds incremental risk
-    if (hasIPOverlap) riskScore += 10;
-    if (hasTimingSync) riskScore += 15;
-    if (hasDeviceMatch) riskScore += 20;
-    if (hasOpposite) riskScore += 25;
-
-    // Extra boost for suspicious IP overlap
-    if (hasIPOverlap && connectedEdges.filter(e => e.type === 'ip_overlap').length >= 3) {
-      riskScore += 10;
-    }
+// Identity of an edge independent of its random id, used to merge recomputed edges
+function edgeKey(edge: GraphEdgeData): string {
+  return `${edge.metadata.detectorId || edge.type}|${edge.source}|${edge.target}`;
+}
 
-    // Extra boost for multiple fraud indicators
-    if (fraudEdges.length >= 3) riskScore += 15;
-    if (fraudEdges.length >= 5) riskScore += 10;
+function detectorVersions(detectors: ActiveDetector[]): Partial<Record<DetectorId, number>> {
+  return Object.fromEntries(detectors.map(d => [d.definition.id, d.version]));
+}
 
-    return {
-      ...node,
-      riskScore: Math.min(100, Math.round(riskScore)),
-    };
-  });
+// A stored graph is only reusable if it was built by the same detectors with the same parameters
+function sameDetectorVersions(
+  stored: Partial<Record<DetectorId, number>> | undefined,
+  current: Partial<Record<DetectorId, number>>
+): boolean {
+  if (!stored) return false;
+  const ids = new Set([...Object.keys(stored), ...Object.keys(current)]) as Set<DetectorId>;
+  return [...ids].every(id => stored[id] === current[id]);
 }
 
-// ============ MAIN BUILDER ============
+// IPs and devices the stored graph links to any of the given affiliates through a client detector edge
+function storedIdentities(
+  nodes: Map<string, GraphNodeData>,
+  edges: GraphEdgeData[],
+  affiliateNodeIds: Set<string>
+): { ips: string[]; devices: string[] } {
+  const ips = new Set<string>();
+  const devices = new Set<string>();
 
-export async function buildKnowledgeGraph(): Promise<KnowledgeGraph> {
-  console.log('[GraphBuilder] Starting graph construction...');
+  for (const edge of edges) {
+    if (!affiliateNodeIds.has(edge.target)) continue;
+    const node = nodes.get(edge.source);
+    if (node?.type === 'ip' && node.metadata.ipAddress) ips.add(node.metadata.ipAddress);
+    if (node?.type === 'device' && node.metadata.canvasFingerprint) devices.add(node.metadata.canvasFingerprint);
+  }
+
+  return { ips: [...ips], devices: [...devices] };
+}
 
+function maxUpdatedAt(rows: Array<{ updated_at?: string }>, current: string | null = null): string | null {
+  let watermark = current;
+  for (const row of rows) {
+    if (row.updated_at && (!watermark || new Date(row.updated_at) > new Date(watermark))) {
+      watermark = row.updated_at;
+    }
+  }
+  return watermark;
+}
+
+async function buildFull(detectors: ActiveDetector[]): Promise<BuildResult> {
   // Fetch all data
   const [affiliates, clients, trades, visitors] = await Promise.all([
     fetchAffiliates(),
@@ -610,67 +301,206 @@ export async function buildKnowledgeGraph(): Promise<KnowledgeGraph> {
     fetchVisitorTracking(),
   ]);
 
-  console.log(`[GraphBuilder] Fetched: ${affiliates.length} affiliates, ${clients.length} clients, ${trades.length} trades, ${visitors.length} visitors`);
+  console.log(`[GraphBuilder] Full build fetched: ${affiliates.length} affiliates, ${clients.length} clients, ${trades.length} trades, ${visitors.length} visitors`);
 
   // Create base nodes (no client nodes - show affiliates directly linked to trades)
   const affiliateNodes = affiliates.map(createAffiliateNode);
-  const tradeNodes = trades.slice(0, 200).map(createTradeNode); // Limit trades for performance
+  const tradeNodes = trades.map(createTradeNode);
 
   // Detect patterns - use affiliates for IP/device detection based on their clients
   // Group clients by affiliate to detect multi-account patterns
-  const ipDetection = detectIPOverlaps(clients);
-  const deviceDetection = detectDeviceMatches(clients);
-
-  // Create all edges (no referral edges since we removed client nodes)
-  const timingSyncEdges = detectTimingSync(trades);
-  const oppositeEdges = detectOppositePositions(trades);
-  const rapidTradingEdges = detectRapidTrading(trades);
-  const tradeLinkEdges = createTradeLinks(trades, clients, affiliates);
-
-  // Combine all nodes and edges
-  let allNodes: GraphNodeData[] = [
-    ...affiliateNodes,
-    ...tradeNodes,
-    ...ipDetection.nodes,
-    ...deviceDetection.nodes,
-  ];
-
-  const allEdges: GraphEdgeData[] = [
-    ...ipDetection.edges,
-    ...deviceDetection.edges,
-    ...timingSyncEdges,
-    ...oppositeEdges,
-    ...rapidTradingEdges,
-    ...tradeLinkEdges,
-  ];
+  const clientDetection = runClientDetectors(detectors, clients);
+
+  return {
+    nodes: [
+      ...affiliateNodes,
+      ...tradeNodes,
+      ...clientDetection.nodes,
+    ],
+    // No referral edges since we removed client nodes
+    edges: [
+      ...clientDetection.edges,
+      ...runTradeDetectors(detectors, trades),
+      ...createTradeLinks(trades),
+    ],
+    buildInfo: {
+      mode: 'full',
+      watermark: maxUpdatedAt([...affiliates, ...clients, ...trades]),
+      appliedRows: affiliates.length + clients.length + trades.length,
+      detectorVersions: detectorVersions(detectors),
+    },
+  };
+}
+
+async function buildIncremental(state: GraphBuildState, detectors: ActiveDetector[]): Promise<BuildResult> {
+  const since = state.watermark;
+
+  const [affiliates, clients, trades] = await Promise.all([
+    fetchChangedRows<AffiliateRow>('affiliates', since),
+    fetchChangedRows<ClientRow>('clients', since),
+    fetchChangedRows<TradeRow>('trades', since),
+  ]);
+
+  console.log(`[GraphBuilder] Incremental build since ${since}: ${affiliates.length} affiliates, ${clients.length} clients, ${trades.length} trades changed`);
+
+  const nodes = new Map<string, GraphNodeData>(state.graph.nodes.map(n => [n.id, n]));
+  let edges = state.graph.edges;
+  const buildInfo: GraphBuildInfo = {
+    mode: 'incremental',
+    watermark: maxUpdatedAt([...affiliates, ...clients, ...trades], since),
+    appliedRows: affiliates.length + clients.length + trades.length,
+    detectorVersions: detectorVersions(detectors),
+  };
+
+  const addEdges = (added: GraphEdgeData[]) => {
+    const existing = new Set(edges.map(edgeKey));
+    edges = [...edges, ...added.filter(e => !existing.has(edgeKey(e)))];
+  };
+
+  for (const affiliate of affiliates) {
+    nodes.set(`affiliate_${affiliate.id}`, createAffiliateNode(affiliate));
+  }
+
+  // Changed clients: re-run IP/device detection over every group they belong to, and every group
+  // the stored graph still links their affiliates to, since a client may have left an IP or device
+  if (clients.length > 0) {
+    const previous = storedIdentities(nodes, edges, new Set(clients.map(c => `affiliate_${c.affiliate_id}`)));
+    const related = await fetchClientsSharingIdentity(clients, previous);
+    // Only these groups were fetched with every member; other IPs and devices of the related clients
+    // were not, so their nodes and edges are left as they were
+    const staleNodeIds = new Set<string>([
+      ...previous.ips.map(ipNodeId),
+      ...previous.devices.map(deviceNodeId),
+    ]);
+    for (const client of clients) {
+      if (client.ip_address) staleNodeIds.add(ipNodeId(client.ip_address));
+      if (client.device_id) staleNodeIds.add(deviceNodeId(client.device_id));
+    }
+
+    for (const id of staleNodeIds) nodes.delete(id);
+    edges = edges.filter(e => !staleNodeIds.has(e.source));
+
+    const clientDetection = runClientDetectors(detectors, related);
+    for (const node of clientDetection.nodes) {
+      if (staleNodeIds.has(node.id)) nodes.set(node.id, node);
+    }
+    addEdges(clientDetection.edges.filter(e => staleNodeIds.has(e.source)));
+  }
+
+  // Changed trades: refresh nodes, link new ones, then re-scan the time window around new trades
+  const newTrades = trades.filter(t => !nodes.has(`trade_${t.id}`));
+  for (const trade of trades) {
+    nodes.set(`trade_${trade.id}`, createTradeNode(trade));
+  }
+  addEdges(createTradeLinks(newTrades));
+
+  if (newTrades.length > 0) {
+    // How far either side of new trades the detectors must re-scan to see every pair they could form
+    const marginMs = tradeScanWindowMs(detectors);
+    const times = newTrades.map(t => new Date(t.created_at).getTime());
+    const start = new Date(Math.min(...times) - marginMs).toISOString();
+    const end = new Date(Math.max(...times) + marginMs).toISOString();
+    const windowTrades = await fetchTradesInWindow(start, end);
+    const windowTradeIds = new Set(windowTrades.map(t => `trade_${t.id}`));
+
+    // Drop pattern edges whose trades all fall inside the window; edges reaching outside it
+    // can't be recomputed from the window alone, so they are kept as they were
+    edges = edges.filter(e => {
+      if (!isTradeDetector(e.metadata.detectorId)) return true;
+      const tradeEnds = [e.source, e.target].filter(id => id.startsWith('trade_'));
+      return tradeEnds.length === 0 || !tradeEnds.every(id => windowTradeIds.has(id));
+    });
+    addEdges(runTradeDetectors(detectors, windowTrades));
+
+    buildInfo.tradeWindow = { start, end };
+    console.log(`[GraphBuilder] Re-scanned ${windowTrades.length} trades between ${start} and ${end}`);
+  }
 
+  return { nodes: [...nodes.values()], edges, buildInfo };
+}
+
+function finalizeGraph({ nodes, edges, buildInfo }: BuildResult, riskModel: RiskModelConfig): KnowledgeGraph {
   // Calculate risk scores
-  allNodes = calculateRiskScores(allNodes, allEdges);
+  const allNodes = calculateRiskScores(nodes, edges, riskModel);
 
   // Calculate stats
-  const fraudEdges = allEdges.filter(e => e.isFraudIndicator).length;
+  const fraudEdges = edges.filter(e => e.isFraudIndicator).length;
   const avgRiskScore = allNodes.length > 0
     ? allNodes.reduce((sum, n) => sum + n.riskScore, 0) / allNodes.length
     : 0;
 
-  // Estimate clusters (simple: count nodes with high risk score)
-  const highRiskNodes = allNodes.filter(n => n.riskScore >= 50).length;
-  const estimatedClusters = Math.ceil(highRiskNodes / 3);
-
   const graph: KnowledgeGraph = {
     nodes: allNodes,
-    edges: allEdges,
+    edges,
     stats: {
       totalNodes: allNodes.length,
-      totalEdges: allEdges.length,
+      totalEdges: edges.length,
       fraudEdges,
       avgRiskScore: Math.round(avgRiskScore),
-      clusters: estimatedClusters,
+      clusters: 0,
     },
     builtAt: new Date().toISOString(),
+    buildInfo,
   };
 
-  console.log(`[GraphBuilder] Built graph: ${graph.stats.totalNodes} nodes, ${graph.stats.totalEdges} edges, ${graph.stats.fraudEdges} fraud indicators`);
+  // Same communities Agent Alpha and the ring detector turn into fraud rings
+  const { communities, modularity } = detectCommunities(graph);
+  graph.stats.clusters = communities.length;
+  graph.stats.modularity = modularity;
+
+  return graph;
+}
+
+// Node ids and edge keys one build has and the other lacks
+function compareBuilds(incremental: BuildResult, full: BuildResult): NonNullable<GraphBuildInfo['drift']> {
+  const keys = (result: BuildResult) => new Set([...result.nodes.map(n => n.id), ...result.edges.map(edgeKey)]);
+  const incrementalKeys = keys(incremental);
+  const fullKeys = keys(full);
+
+  return {
+    missing: [...fullKeys].filter(key => !incrementalKeys.has(key)),
+    extra: [...incrementalKeys].filter(key => !fullKeys.has(key)),
+  };
+}
+
+export interface BuildGraphOptions {
+  full?: boolean; // Ignore the stored state and rebuild from every row
+  verify?: boolean; // After an incremental build, also build from every row and report where the two differ
+}
+
+export async function buildKnowledgeGraph(options: BuildGraphOptions = {}): Promise<KnowledgeGraph> {
+  console.log('[GraphBuilder] Starting graph construction...');
+
+  const [detectors, riskModel] = await Promise.all([
+    loadActiveDetectors(),
+    loadRiskModel(),
+  ]);
+
+  // Apply only rows changed since the last build when a previous state exists and
+  // the detector configuration hasn't changed since it was built
+  let state = options.full ? null : await loadGraphState();
+  if (state && !sameDetectorVersions(state.graph.buildInfo?.detectorVersions, detectorVersions(detectors))) {
+    console.log('[GraphBuilder] Detector configuration changed, rebuilding from scratch');
+    state = null;
+  }
+
+  const result = state ? await buildIncremental(state, detectors) : await buildFull(detectors);
+  if (state && options.verify) {
+    result.buildInfo.drift = compareBuilds(result, await buildFull(detectors));
+    const { missing, extra } = result.buildInfo.drift;
+    if (missing.length > 0 || extra.length > 0) {
+      console.warn(`[GraphBuilder] Incremental build differs from a full build: ${missing.length} missing, ${extra.length} extra`, { missing, extra });
+    }
+  }
+  // Scores are recomputed for every node on every build, so model changes apply immediately
+  const graph = finalizeGraph(result, riskModel);
+
+  // Without an updated_at watermark (migration 006 not applied) the next build stays full
+  if (result.buildInfo.watermark) {
+    await saveGraphState(graph, result.buildInfo.watermark, result.buildInfo.mode);
+  }
+
+  console.log(`[GraphBuilder] Built graph (${result.buildInfo.mode}): ${graph.stats.totalNodes} nodes, ${graph.stats.totalEdges} edges, ${graph.stats.fraudEdges} fraud indicators`);
 
   return graph;
 }
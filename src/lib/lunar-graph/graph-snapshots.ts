@@ -0,0 +1,227 @@
+// Graph Snapshots
+// Versioned compact copies of the knowledge graph per analysis run, and diffs between them
+
+import { supabase, isSupabaseConfigured } from '@/lib/supabase';
+import {
+  KnowledgeGraph,
+  FraudRing,
+  SnapshotNode,
+  SnapshotEdge,
+  SnapshotRing,
+  GraphSnapshot,
+  GraphSnapshotSummary,
+  SnapshotDiff,
+  RiskMovement,
+  RingGrowthDiff,
+} from '@/types/lunar-graph';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const db = supabase as any;
+
+const SUMMARY_COLUMNS = 'id, run_id, total_nodes, total_edges, fraud_edges, avg_risk_score, clusters_detected, modularity, rings, created_at';
+const MIN_RISK_MOVEMENT = 5;
+const MAX_RISK_MOVEMENTS = 50;
+
+// ============ SERIALIZATION ============
+
+export function serializeGraph(graph: KnowledgeGraph): { nodes: SnapshotNode[]; edges: SnapshotEdge[] } {
+  return {
+    nodes: graph.nodes.map(n => ({ id: n.id, type: n.type, label: n.label, riskScore: n.riskScore })),
+    edges: graph.edges.map(e => ({
+      id: e.id,
+      source: e.source,
+      target: e.target,
+      type: e.type,
+      weight: e.weight,
+      is_fraud_indicator: e.isFraudIndicator,
+      metadata: { confidence: e.metadata.confidence, description: e.metadata.description },
+    })),
+  };
+}
+
+function serializeRings(rings: FraudRing[]): SnapshotRing[] {
+  return rings.map(r => ({
+    id: r.id,
+    name: r.name,
+    severity: r.severity,
+    entities: r.entities,
+    exposure: r.exposure,
+  }));
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function mapSummaryRow(row: any): GraphSnapshotSummary {
+  return {
+    id: row.id,
+    runId: row.run_id ?? null,
+    stats: {
+      totalNodes: row.total_nodes,
+      totalEdges: row.total_edges,
+      fraudEdges: row.fraud_edges || 0,
+      avgRiskScore: Number(row.avg_risk_score) || 0,
+      clusters: row.clusters_detected || 0,
+      modularity: row.modularity != null ? Number(row.modularity) : undefined,
+    },
+    ringCount: (row.rings || []).length,
+    createdAt: row.created_at,
+  };
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function mapSnapshotRow(row: any): GraphSnapshot {
+  return {
+    ...mapSummaryRow(row),
+    nodes: row.nodes || [],
+    edges: row.edges || [],
+    rings: row.rings || [],
+  };
+}
+
+// ============ DATABASE OPERATIONS ============
+
+export async function saveGraphSnapshot(
+  graph: KnowledgeGraph,
+  rings: FraudRing[],
+  runId: string
+): Promise<void> {
+  if (!isSupabaseConfigured()) return;
+
+  try {
+    const nodeDistribution: Record<string, number> = {};
+    for (const node of graph.nodes) {
+      nodeDistribution[node.type] = (nodeDistribution[node.type] || 0) + 1;
+    }
+
+    const edgeDistribution: Record<string, number> = {};
+    for (const edge of graph.edges) {
+      edgeDistribution[edge.type] = (edgeDistribution[edge.type] || 0) + 1;
+    }
+
+    const { nodes, edges } = serializeGraph(graph);
+
+    const { error } = await db.from('graph_snapshots').insert({
+      run_id: runId,
+      total_nodes: graph.stats.totalNodes,
+      total_edges: graph.stats.totalEdges,
+      fraud_edges: graph.stats.fraudEdges,
+      avg_risk_score: graph.stats.avgRiskScore,
+      clusters_detected: graph.stats.clusters,
+      modularity: graph.stats.modularity ?? null,
+      node_distribution: nodeDistribution,
+      edge_distribution: edgeDistribution,
+      nodes,
+      edges,
+      rings: serializeRings(rings),
+    });
+    if (error) throw error;
+  } catch (error) {
+    console.error('[GraphSnapshots] Error saving graph snapshot:', error);
+  }
+}
+
+export async function listGraphSnapshots(limit = 50): Promise<GraphSnapshotSummary[]> {
+  if (!isSupabaseConfigured()) return [];
+
+  try {
+    const { data, error } = await db
+      .from('graph_snapshots')
+      .select(SUMMARY_COLUMNS)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return (data || []).map(mapSummaryRow);
+  } catch (error) {
+    console.error('[GraphSnapshots] Error listing snapshots:', error);
+    return [];
+  }
+}
+
+export async function loadGraphSnapshot(snapshotId: string): Promise<GraphSnapshot | null> {
+  if (!isSupabaseConfigured()) return null;
+
+  const { data } = await db.from('graph_snapshots').select('*').eq('id', snapshotId).maybeSingle();
+  return data ? mapSnapshotRow(data) : null;
+}
+
+// ============ DIFFING ============
+
+function toSummary(snapshot: GraphSnapshot): GraphSnapshotSummary {
+  return {
+    id: snapshot.id,
+    runId: snapshot.runId,
+    stats: snapshot.stats,
+    ringCount: snapshot.ringCount,
+    createdAt: snapshot.createdAt,
+  };
+}
+
+// Edges are re-created on every build, so they are matched by endpoints and type rather than id
+function edgeSignature(edge: SnapshotEdge): string {
+  const [a, b] = edge.source < edge.target ? [edge.source, edge.target] : [edge.target, edge.source];
+  return `${edge.type}|${a}|${b}`;
+}
+
+// What changed going from `from` to `to` (either order in time works; the diff is directional)
+export function diffSnapshots(from: GraphSnapshot, to: GraphSnapshot): SnapshotDiff {
+  const fromNodes = new Map(from.nodes.map(n => [n.id, n]));
+  const toNodeIds = new Set(to.nodes.map(n => n.id));
+
+  const newNodes = to.nodes.filter(n => !fromNodes.has(n.id));
+  const removedNodeCount = from.nodes.filter(n => !toNodeIds.has(n.id)).length;
+
+  const fromFraudEdges = new Set(from.edges.filter(e => e.is_fraud_indicator).map(edgeSignature));
+  const newFraudEdges = to.edges.filter(e => e.is_fraud_indicator && !fromFraudEdges.has(edgeSignature(e)));
+
+  const riskMovements: RiskMovement[] = [];
+  for (const node of to.nodes) {
+    const before = fromNodes.get(node.id);
+    if (!before) continue;
+    const delta = node.riskScore - before.riskScore;
+    if (Math.abs(delta) >= MIN_RISK_MOVEMENT) {
+      riskMovements.push({
+        nodeId: node.id,
+        label: node.label,
+        type: node.type,
+        before: before.riskScore,
+        after: node.riskScore,
+        delta,
+      });
+    }
+  }
+  riskMovements.sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta));
+
+  // Rings keep their id across runs (see reconcileFraudRings), so they can be matched directly
+  const fromRings = new Map(from.rings.map(r => [r.id, r]));
+  const grownRings: RingGrowthDiff[] = [];
+  const newRings: SnapshotRing[] = [];
+  for (const ring of to.rings) {
+    const before = fromRings.get(ring.id);
+    if (!before) {
+      newRings.push(ring);
+      continue;
+    }
+    const previous = new Set(before.entities);
+    const addedEntities = ring.entities.filter(id => !previous.has(id));
+    if (addedEntities.length > 0 || ring.exposure > before.exposure) {
+      grownRings.push({
+        ringId: ring.id,
+        name: ring.name,
+        addedEntities,
+        exposureBefore: before.exposure,
+        exposureAfter: ring.exposure,
+      });
+    }
+  }
+
+  return {
+    from: toSummary(from),
+    to: toSummary(to),
+    newNodes,
+    removedNodeCount,
+    newFraudEdges,
+    riskMovements: riskMovements.slice(0, MAX_RISK_MOVEMENTS),
+    grownRings,
+    newRings,
+  };
+}
@@ -0,0 +1,70 @@
+// Graph Build State
+// Persists the last built knowledge graph and its watermark for incremental builds
+
+import { supabase, isSupabaseConfigured } from '@/lib/supabase';
+import { KnowledgeGraph } from '@/types/lunar-graph';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const db = supabase as any;
+
+const STATE_ID = 'current';
+
+export interface GraphBuildState {
+  graph: KnowledgeGraph;
+  watermark: string; // Highest updated_at applied to the graph
+  buildMode: 'full' | 'incremental';
+  updatedAt: string;
+}
+
+export async function loadGraphState(): Promise<GraphBuildState | null> {
+  if (!isSupabaseConfigured()) return null;
+
+  try {
+    const { data, error } = await db
+      .from('graph_build_state')
+      .select('*')
+      .eq('id', STATE_ID)
+      .maybeSingle();
+
+    if (error || !data) return null;
+
+    return {
+      graph: data.graph,
+      watermark: data.watermark,
+      buildMode: data.build_mode,
+      updatedAt: data.updated_at,
+    };
+  } catch (error) {
+    console.error('[GraphState] Error loading graph state:', error);
+    return null;
+  }
+}
+
+export async function saveGraphState(
+  graph: KnowledgeGraph,
+  watermark: string,
+  buildMode: 'full' | 'incremental'
+): Promise<void> {
+  if (!isSupabaseConfigured()) return;
+
+  try {
+    await db.from('graph_build_state').upsert({
+      id: STATE_ID,
+      watermark,
+      graph,
+      build_mode: buildMode,
+    });
+  } catch (error) {
+    console.error('[GraphState] Error saving graph state:', error);
+  }
+}
+
+export async function clearGraphState(): Promise<void> {
+  if (!isSupabaseConfigured()) return;
+
+  try {
+    await db.from('graph_build_state').delete().eq('id', STATE_ID);
+  } catch (error) {
+    console.error('[GraphState] Error clearing graph state:', error);
+  }
+}
@@ -3,6 +3,28 @@
 
 // Graph Builder
 export { buildKnowledgeGraph, fetchAffiliates, fetchClients, fetchTrades, fetchVisitorTracking } from './graph-builder';
+export type { BuildGraphOptions } from './graph-builder';
+export { loadGraphState, saveGraphState, clearGraphState } from './graph-state';
+export { saveGraphSnapshot, listGraphSnapshots, loadGraphSnapshot, diffSnapshots } from './graph-snapshots';
+
+// Detector Registry
+export { DETECTOR_REGISTRY, loadDetectorConfigs, saveDetectorConfig } from './detector-registry';
+
+// Risk Scoring
+export { DEFAULT_RISK_MODEL, calculateRiskScores, loadRiskModel, saveRiskModel } from './risk-scoring';
+
+// Case Management
+export { createCase, updateCase, listCases, loadCase, loadCaseAudit } from './case-management';
+
+// Trade Screening
+export { screenTrade, loadScreeningPolicy, saveScreeningPolicy } from './trade-screening';
+
+// Analysis Jobs
+export { runAnalysis } from './analysis-runner';
+export { runAnalysisJob, listAnalysisJobs, loadAnalysisSchedule, saveAnalysisSchedule, startAnalysisScheduler } from './job-runner';
+
+// Trade Reconciliation
+export { reconcileTrades } from './trade-reconciliation';
 
 // Agents
 export { runAgentAlpha } from './agent-alpha';
@@ -0,0 +1,307 @@
+// Analysis Job Runner
+// Runs analysis as recorded jobs, one at a time, either on demand or on a configurable schedule
+
+import { v4 as uuidv4 } from 'uuid';
+import { supabase, isSupabaseConfigured } from '@/lib/supabase';
+import {
+  AnalysisJob,
+  AnalysisJobTrigger,
+  AnalysisSchedule,
+  CombinedAnalysis,
+} from '@/types/lunar-graph';
+import { runAnalysis } from './analysis-runner';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const db = supabase as any;
+
+const SCHEDULE_ID = 'current';
+const TICK_MS = 60000;
+const HEARTBEAT_MS = 60 * 1000;
+const STALE_JOB_MS = 5 * HEARTBEAT_MS; // A job whose heartbeat stopped this long ago died with its process
+
+export const DEFAULT_SCHEDULE: AnalysisSchedule = {
+  enabled: false,
+  intervalMinutes: 60,
+};
+
+export type AnalysisJobResult =
+  | { started: true; job: AnalysisJob; analysis?: CombinedAnalysis }
+  | { started: false; activeJob: AnalysisJob | null };
+
+// In-process guard; the partial unique index on analysis_jobs guards across processes
+let activeRun: Promise<unknown> | null = null;
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function mapJobRow(row: any): AnalysisJob {
+  return {
+    id: row.id,
+    status: row.status,
+    trigger: row.trigger,
+    queuedAt: row.queued_at,
+    startedAt: row.started_at ?? undefined,
+    heartbeatAt: row.heartbeat_at ?? undefined,
+    finishedAt: row.finished_at ?? undefined,
+    durationMs: row.duration_ms ?? undefined,
+    error: row.error ?? undefined,
+    summary: row.summary ?? undefined,
+  };
+}
+
+// ============ JOB RECORDS ============
+
+export async function listAnalysisJobs(limit = 20): Promise<AnalysisJob[]> {
+  if (!isSupabaseConfigured()) return [];
+
+  try {
+    const { data, error } = await db
+      .from('analysis_jobs')
+      .select('*')
+      .order('queued_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return (data || []).map(mapJobRow);
+  } catch (error) {
+    console.error('[JobRunner] Error listing jobs:', error);
+    return [];
+  }
+}
+
+export async function loadActiveJob(): Promise<AnalysisJob | null> {
+  if (!isSupabaseConfigured()) return null;
+
+  const { data } = await db
+    .from('analysis_jobs')
+    .select('*')
+    .in('status', ['queued', 'running'])
+    .maybeSingle();
+  return data ? mapJobRow(data) : null;
+}
+
+// Latest run that finished, used by load-analysis to pick whose agent logs to show
+export async function loadLatestSucceededJob(): Promise<AnalysisJob | null> {
+  if (!isSupabaseConfigured()) return null;
+
+  const { data } = await db
+    .from('analysis_jobs')
+    .select('*')
+    .eq('status', 'succeeded')
+    .order('finished_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  return data ? mapJobRow(data) : null;
+}
+
+// Long runs keep their heartbeat fresh, so only jobs whose runner has gone away are failed
+async function failStaleJobs(): Promise<void> {
+  const cutoff = new Date(Date.now() - STALE_JOB_MS).toISOString();
+  const { error } = await db
+    .from('analysis_jobs')
+    .update({ status: 'failed', finished_at: new Date().toISOString(), error: 'Timed out (runner stopped before the job finished)' })
+    .in('status', ['queued', 'running'])
+    .lt('heartbeat_at', cutoff);
+
+  if (error) {
+    console.error('[JobRunner] Error failing stale jobs:', error);
+  }
+}
+
+// Returns null when another job is already queued or running
+async function enqueueJob(trigger: AnalysisJobTrigger): Promise<AnalysisJob | null> {
+  const { data, error } = await db
+    .from('analysis_jobs')
+    .insert({ id: uuidv4(), status: 'queued', trigger })
+    .select()
+    .single();
+
+  if (error) {
+    if (error.code === '23505') return null; // one_active_analysis_job
+    throw new Error(error.message);
+  }
+  return mapJobRow(data);
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+async function updateJob(jobId: string, changes: Record<string, any>): Promise<AnalysisJob> {
+  const { data, error } = await db
+    .from('analysis_jobs')
+    .update(changes)
+    .eq('id', jobId)
+    .select()
+    .single();
+
+  if (error) throw new Error(error.message);
+  return mapJobRow(data);
+}
+
+// ============ RUNNING ============
+
+function startHeartbeat(jobId: string): ReturnType<typeof setInterval> {
+  return setInterval(async () => {
+    const { error } = await db
+      .from('analysis_jobs')
+      .update({ heartbeat_at: new Date().toISOString() })
+      .eq('id', jobId);
+    if (error) {
+      console.error(`[JobRunner] Error refreshing heartbeat for job ${jobId}:`, error);
+    }
+  }, HEARTBEAT_MS);
+}
+
+async function executeJob(job: AnalysisJob): Promise<{ job: AnalysisJob; analysis?: CombinedAnalysis }> {
+  const startedAt = Date.now();
+  let running = job;
+  const heartbeat = isSupabaseConfigured() ? startHeartbeat(job.id) : null;
+
+  try {
+    // Inside the try so a job that never switched to running is failed instead of blocking runs while queued
+    if (isSupabaseConfigured()) {
+      running = await updateJob(job.id, {
+        status: 'running',
+        started_at: new Date(startedAt).toISOString(),
+        heartbeat_at: new Date(startedAt).toISOString(),
+      });
+    }
+    console.log(`[JobRunner] Job ${job.id} (${job.trigger}) started`);
+
+    const analysis = await runAnalysis(job.id);
+    const finished = {
+      status: 'succeeded' as const,
+      finished_at: new Date().toISOString(),
+      duration_ms: Date.now() - startedAt,
+      summary: analysis.summary,
+    };
+    console.log(`[JobRunner] Job ${job.id} succeeded in ${finished.duration_ms}ms`);
+
+    return {
+      job: isSupabaseConfigured()
+        ? await updateJob(job.id, finished)
+        : { ...running, status: 'succeeded', finishedAt: finished.finished_at, durationMs: finished.duration_ms, summary: finished.summary },
+      analysis,
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[JobRunner] Job ${job.id} failed:`, error);
+
+    const failed = {
+      status: 'failed' as const,
+      finished_at: new Date().toISOString(),
+      duration_ms: Date.now() - startedAt,
+      error: message,
+    };
+    return {
+      job: isSupabaseConfigured()
+        ? await updateJob(job.id, failed)
+        : { ...running, status: 'failed', finishedAt: failed.finished_at, durationMs: failed.duration_ms, error: message },
+    };
+  } finally {
+    if (heartbeat) clearInterval(heartbeat);
+  }
+}
+
+// Runs one analysis job to completion unless another is already queued or running
+export async function runAnalysisJob(trigger: AnalysisJobTrigger): Promise<AnalysisJobResult> {
+  if (activeRun) {
+    return { started: false, activeJob: await loadActiveJob() };
+  }
+
+  let job: AnalysisJob | null;
+  if (isSupabaseConfigured()) {
+    await failStaleJobs();
+    job = await enqueueJob(trigger);
+    if (!job) return { started: false, activeJob: await loadActiveJob() };
+  } else {
+    job = { id: uuidv4(), status: 'queued', trigger, queuedAt: new Date().toISOString() };
+  }
+
+  const run = executeJob(job);
+  activeRun = run;
+  try {
+    const result = await run;
+    return { started: true, ...result };
+  } finally {
+    activeRun = null;
+  }
+}
+
+// ============ SCHEDULE ============
+
+export async function loadAnalysisSchedule(): Promise<AnalysisSchedule> {
+  if (!isSupabaseConfigured()) return DEFAULT_SCHEDULE;
+
+  try {
+    const { data, error } = await db
+      .from('analysis_schedule')
+      .select('*')
+      .eq('id', SCHEDULE_ID)
+      .maybeSingle();
+
+    if (error || !data) return DEFAULT_SCHEDULE;
+    return { enabled: data.enabled, intervalMinutes: data.interval_minutes, updatedAt: data.updated_at };
+  } catch (error) {
+    console.error('[JobRunner] Error loading schedule:', error);
+    return DEFAULT_SCHEDULE;
+  }
+}
+
+export function validateAnalysisSchedule(update: Partial<AnalysisSchedule>): string | null {
+  if (!update || typeof update !== 'object') return 'Schedule must be an object';
+  if (update.enabled !== undefined && typeof update.enabled !== 'boolean') return 'enabled must be a boolean';
+  if (
+    update.intervalMinutes !== undefined &&
+    (!Number.isInteger(update.intervalMinutes) || update.intervalMinutes < 5 || update.intervalMinutes > 1440)
+  ) {
+    return 'intervalMinutes must be a whole number between 5 and 1440';
+  }
+  return null;
+}
+
+export async function saveAnalysisSchedule(update: Partial<AnalysisSchedule>): Promise<AnalysisSchedule> {
+  if (!isSupabaseConfigured()) throw new Error('Supabase not configured. Scheduled analysis requires a database connection.');
+
+  const current = await loadAnalysisSchedule();
+  const { data, error } = await db
+    .from('analysis_schedule')
+    .upsert({
+      id: SCHEDULE_ID,
+      enabled: update.enabled ?? current.enabled,
+      interval_minutes: update.intervalMinutes ?? current.intervalMinutes,
+    })
+    .select()
+    .single();
+
+  if (error) throw new Error(error.message);
+  return { enabled: data.enabled, intervalMinutes: data.interval_minutes, updatedAt: data.updated_at };
+}
+
+// Due when the schedule is on and the last job (of any trigger) was queued an interval ago
+async function isScheduledRunDue(): Promise<boolean> {
+  const schedule = await loadAnalysisSchedule();
+  if (!schedule.enabled) return false;
+
+  const [latest] = await listAnalysisJobs(1);
+  if (!latest) return true;
+  return Date.now() - new Date(latest.queuedAt).getTime() >= schedule.intervalMinutes * 60000;
+}
+
+async function schedulerTick(): Promise<void> {
+  try {
+    if (activeRun || !(await isScheduledRunDue())) return;
+
+    const result = await runAnalysisJob('schedule');
+    if (!result.started) {
+      console.log('[JobRunner] Scheduled run skipped: another job is active');
+    }
+  } catch (error) {
+    console.error('[JobRunner] Scheduler tick failed:', error);
+  }
+}
+
+// Started once per server process from instrumentation.ts
+export function startAnalysisScheduler(): void {
+  const scope = globalThis as typeof globalThis & { __lunarGraphScheduler?: ReturnType<typeof setInterval> };
+  if (scope.__lunarGraphScheduler || !isSupabaseConfigured()) return;
+
+  scope.__lunarGraphScheduler = setInterval(schedulerTick, TICK_MS);
+  console.log('[JobRunner] Analysis scheduler started');
+}
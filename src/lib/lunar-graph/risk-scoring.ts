@@ -0,0 +1,237 @@
+// Risk Scoring
+// Declarative, configurable node risk model that records why each node scored what it did
+
+import { supabase, isSupabaseConfigured } from '@/lib/supabase';
+import {
+  GraphNodeData,
+  GraphEdgeData,
+  EdgeType,
+  RiskFactor,
+  RiskScoringModel,
+  RiskModelConfig,
+} from '@/types/lunar-graph';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const db = supabase as any;
+
+const CONFIG_ID = 'current';
+
+export const DEFAULT_RISK_MODEL: RiskScoringModel = {
+  // More connections = slightly higher base risk
+  connections: { pointsPerEdge: 2, cap: 15 },
+  // Each fraud edge adds risk based on its confidence, but scaled
+  fraudEdges: { confidenceWeight: 0.3, defaultConfidence: 50, cap: 40 },
+  patterns: {
+    ip_overlap: 10,
+    timing_sync: 15,
+    device_match: 20,
+    opposite_position: 25,
+  },
+  thresholds: [
+    { id: 'ip_overlap_cluster', label: 'Shared IP with 3+ affiliates', edgeType: 'ip_overlap', minEdges: 3, points: 10 },
+    { id: 'fraud_indicators_3', label: '3+ fraud indicators', fraudOnly: true, minEdges: 3, points: 15 },
+    { id: 'fraud_indicators_5', label: '5+ fraud indicators', fraudOnly: true, minEdges: 5, points: 10 },
+  ],
+  maxScore: 100,
+};
+
+const PATTERN_LABELS: Partial<Record<EdgeType, string>> = {
+  ip_overlap: 'IP overlap',
+  timing_sync: 'Timing sync',
+  device_match: 'Device match',
+  opposite_position: 'Opposite positions',
+};
+
+function roundPoints(points: number): number {
+  return Math.round(points * 10) / 10;
+}
+
+// ============ SCORING ============
+
+export function scoreNode(
+  connectedEdges: GraphEdgeData[],
+  model: RiskScoringModel
+): RiskFactor[] {
+  const factors: RiskFactor[] = [];
+  const fraudEdges = connectedEdges.filter(e => e.isFraudIndicator);
+
+  if (connectedEdges.length > 0) {
+    const points = Math.min(model.connections.cap, connectedEdges.length * model.connections.pointsPerEdge);
+    factors.push({
+      id: 'connections',
+      label: 'Connections',
+      points,
+      detail: `${connectedEdges.length} edges × ${model.connections.pointsPerEdge} (cap ${model.connections.cap})`,
+    });
+  }
+
+  if (fraudEdges.length > 0) {
+    const fraudRisk = fraudEdges.reduce(
+      (sum, e) => sum + (e.metadata.confidence || model.fraudEdges.defaultConfidence) * model.fraudEdges.confidenceWeight,
+      0
+    );
+    factors.push({
+      id: 'fraud_edges',
+      label: 'Fraud indicators',
+      points: roundPoints(Math.min(model.fraudEdges.cap, fraudRisk)),
+      detail: `${fraudEdges.length} fraud edges weighted by confidence (cap ${model.fraudEdges.cap})`,
+    });
+  }
+
+  // Each pattern adds its points once, however many edges of that type there are
+  for (const [edgeType, points] of Object.entries(model.patterns) as Array<[EdgeType, number]>) {
+    const count = connectedEdges.filter(e => e.type === edgeType).length;
+    if (count > 0 && points) {
+      factors.push({
+        id: `pattern_${edgeType}`,
+        label: PATTERN_LABELS[edgeType] || edgeType.replace(/_/g, ' '),
+        points,
+        detail: `${count} ${edgeType.replace(/_/g, ' ')} edge${count === 1 ? '' : 's'}`,
+      });
+    }
+  }
+
+  for (const threshold of model.thresholds) {
+    const count = connectedEdges.filter(e =>
+      (!threshold.edgeType || e.type === threshold.edgeType) &&
+      (!threshold.fraudOnly || e.isFraudIndicator)
+    ).length;
+    if (count >= threshold.minEdges) {
+      factors.push({
+        id: threshold.id,
+        label: threshold.label,
+        points: threshold.points,
+        detail: `${count} matching edges (needs ${threshold.minEdges})`,
+      });
+    }
+  }
+
+  return factors;
+}
+
+export function calculateRiskScores(
+  nodes: GraphNodeData[],
+  edges: GraphEdgeData[],
+  config: RiskModelConfig
+): GraphNodeData[] {
+  // Build adjacency map
+  const nodeEdges: Record<string, GraphEdgeData[]> = {};
+  for (const edge of edges) {
+    if (!nodeEdges[edge.source]) nodeEdges[edge.source] = [];
+    if (!nodeEdges[edge.target]) nodeEdges[edge.target] = [];
+    nodeEdges[edge.source].push(edge);
+    nodeEdges[edge.target].push(edge);
+  }
+
+  return nodes.map(node => {
+    const factors = scoreNode(nodeEdges[node.id] || [], config.model);
+    const rawScore = roundPoints(factors.reduce((sum, f) => sum + f.points, 0));
+
+    return {
+      ...node,
+      riskScore: Math.min(config.model.maxScore, Math.round(rawScore)),
+      riskBreakdown: {
+        factors,
+        rawScore,
+        modelVersion: config.version,
+      },
+    };
+  });
+}
+
+// ============ CONFIGURATION ============
+
+// Overrides are partial: sections left out keep their defaults, thresholds replace the default list
+function mergeModel(overrides: Partial<RiskScoringModel> | null): RiskScoringModel {
+  if (!overrides) return DEFAULT_RISK_MODEL;
+
+  return {
+    connections: { ...DEFAULT_RISK_MODEL.connections, ...overrides.connections },
+    fraudEdges: { ...DEFAULT_RISK_MODEL.fraudEdges, ...overrides.fraudEdges },
+    patterns: { ...DEFAULT_RISK_MODEL.patterns, ...overrides.patterns },
+    thresholds: overrides.thresholds || DEFAULT_RISK_MODEL.thresholds,
+    maxScore: overrides.maxScore ?? DEFAULT_RISK_MODEL.maxScore,
+  };
+}
+
+export async function loadRiskModel(): Promise<RiskModelConfig> {
+  if (!isSupabaseConfigured()) return { model: DEFAULT_RISK_MODEL, version: 0 };
+
+  try {
+    const { data, error } = await db
+      .from('risk_scoring_config')
+      .select('*')
+      .eq('id', CONFIG_ID)
+      .maybeSingle();
+
+    if (error || !data) return { model: DEFAULT_RISK_MODEL, version: 0 };
+
+    return {
+      model: mergeModel(data.model),
+      version: data.version,
+      updatedAt: data.updated_at,
+    };
+  } catch (error) {
+    console.error('[RiskScoring] Error loading risk model:', error);
+    return { model: DEFAULT_RISK_MODEL, version: 0 };
+  }
+}
+
+function isNonNegativeNumber(value: unknown): boolean {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
+
+export function validateRiskModel(overrides: Partial<RiskScoringModel>): string | null {
+  if (!overrides || typeof overrides !== 'object' || Array.isArray(overrides)) {
+    return 'Risk model must be an object';
+  }
+
+  const sections: Array<[string, Record<string, unknown> | undefined]> = [
+    ['connections', overrides.connections],
+    ['fraudEdges', overrides.fraudEdges],
+    ['patterns', overrides.patterns],
+  ];
+
+  for (const [section, values] of sections) {
+    if (values === undefined) continue;
+    if (typeof values !== 'object' || values === null) return `${section} must be an object`;
+    for (const [key, value] of Object.entries(values)) {
+      if (!isNonNegativeNumber(value)) return `${section}.${key} must be a non-negative number`;
+    }
+  }
+
+  if (overrides.thresholds !== undefined) {
+    if (!Array.isArray(overrides.thresholds)) return 'thresholds must be an array';
+    for (const threshold of overrides.thresholds) {
+      if (!threshold.id || !threshold.label) return 'Each threshold needs an id and label';
+      if (!isNonNegativeNumber(threshold.minEdges) || !isNonNegativeNumber(threshold.points)) {
+        return `Threshold ${threshold.id} needs non-negative minEdges and points`;
+      }
+    }
+  }
+
+  if (overrides.maxScore !== undefined && !isNonNegativeNumber(overrides.maxScore)) {
+    return 'maxScore must be a non-negative number';
+  }
+
+  return null;
+}
+
+// The version column is bumped by a trigger on update (see 008_risk_scoring_config.sql)
+export async function saveRiskModel(overrides: Partial<RiskScoringModel>): Promise<RiskModelConfig> {
+  if (!isSupabaseConfigured()) throw new Error('Supabase not configured. Risk model settings require a database connection.');
+
+  const { data, error } = await db
+    .from('risk_scoring_config')
+    .upsert({ id: CONFIG_ID, model: overrides })
+    .select()
+    .single();
+
+  if (error) throw new Error(error.message);
+
+  return {
+    model: mergeModel(data.model),
+    version: data.version,
+    updatedAt: data.updated_at,
+  };
+}
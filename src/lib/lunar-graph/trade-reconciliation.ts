@@ -0,0 +1,360 @@
+// Trade Reconciliation
+// Checks browser-reported trade outcomes against Deriv's own records, corrects them and alerts on disagreements
+
+import { v4 as uuidv4 } from 'uuid';
+import { supabase, isSupabaseConfigured } from '@/lib/supabase';
+import { DerivApiError, DerivRequest, withDerivSession } from '@/lib/deriv-server';
+import { Trade } from '@/types';
+import {
+  ClientReconciliation,
+  FraudSeverity,
+  LunarAlert,
+  TradeDiscrepancy,
+  TradeReconciliationResult,
+} from '@/types/lunar-graph';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const db = supabase as any;
+
+const MAX_TRADES_PER_CLIENT = 200;
+const PROFIT_TABLE_LIMIT = 500;
+const MONEY_TOLERANCE = 0.01;
+const CONTRACT_NOT_FOUND = 'ContractNotFound';
+
+// What Deriv says happened to a contract
+interface BrokerOutcome {
+  open: boolean;
+  buyPrice: number;
+  sellPrice: number | null;
+  profit: number | null;
+  status: Trade['status'];
+}
+
+interface TradeRow {
+  id: string;
+  contract_id: number;
+  amount: number;
+  buy_price: number | null;
+  sell_price: number | null;
+  profit: number | null;
+  status: Trade['status'];
+  created_at: string;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const toNumber = (value: unknown): number | null =>
+  value === null || value === undefined || value === '' ? null : Number(value);
+
+// ============ BROKER RECORDS ============
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function outcomeFromProfitTable(entry: any): BrokerOutcome {
+  const buyPrice = Number(entry.buy_price);
+  const sellPrice = Number(entry.sell_price);
+  const payout = Number(entry.payout) || 0;
+  // profit_table has no status; a full payout is a win, nothing back a loss, anything else a resale
+  const status: Trade['status'] = sellPrice === 0 ? 'lost' : payout > 0 && sellPrice >= payout ? 'won' : 'sold';
+  return { open: false, buyPrice, sellPrice, profit: round2(sellPrice - buyPrice), status };
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function outcomeFromOpenContract(poc: any): BrokerOutcome {
+  const buyPrice = Number(poc.buy_price);
+  if (!poc.is_sold) {
+    return { open: true, buyPrice, sellPrice: null, profit: null, status: 'open' };
+  }
+  const sellPrice = Number(poc.sell_price ?? poc.bid_price ?? 0);
+  const status: Trade['status'] = poc.status === 'won' || poc.status === 'lost' ? poc.status : 'sold';
+  return { open: false, buyPrice, sellPrice, profit: round2(Number(poc.profit ?? sellPrice - buyPrice)), status };
+}
+
+// Settled contracts come from one profit_table call; the rest are looked up one by one
+async function fetchBrokerOutcomes(
+  request: DerivRequest,
+  trades: TradeRow[]
+): Promise<Map<number, BrokerOutcome | null>> {
+  const outcomes = new Map<number, BrokerOutcome | null>();
+  const oldest = Math.min(...trades.map(t => new Date(t.created_at).getTime()));
+
+  const table = await request({
+    profit_table: 1,
+    description: 1,
+    limit: PROFIT_TABLE_LIMIT,
+    sort: 'ASC',
+    date_from: Math.floor(oldest / 1000) - 60,
+  });
+  for (const entry of table.profit_table?.transactions || []) {
+    outcomes.set(Number(entry.contract_id), outcomeFromProfitTable(entry));
+  }
+
+  for (const trade of trades) {
+    if (outcomes.has(trade.contract_id)) continue;
+    try {
+      const response = await request({ proposal_open_contract: 1, contract_id: trade.contract_id });
+      const poc = response.proposal_open_contract;
+      outcomes.set(trade.contract_id, poc?.contract_id ? outcomeFromOpenContract(poc) : null);
+    } catch (error) {
+      // Deriv refuses contracts that are not on the authorized account. Any other error (rate limit,
+      // expired token, server fault) says nothing about the contract, so the client is retried next run
+      if ((error as DerivApiError).code === CONTRACT_NOT_FOUND) {
+        outcomes.set(trade.contract_id, null);
+      } else {
+        throw error;
+      }
+    }
+  }
+
+  return outcomes;
+}
+
+// ============ COMPARISON ============
+
+function compareTrade(trade: TradeRow, broker: BrokerOutcome): TradeDiscrepancy[] {
+  const discrepancies: TradeDiscrepancy[] = [];
+  const money = (field: TradeDiscrepancy['field'], reported: number | null, actual: number | null) => {
+    if (actual === null && reported === null) return;
+    if (reported !== null && actual !== null && Math.abs(reported - actual) < MONEY_TOLERANCE) return;
+    discrepancies.push({ tradeId: trade.id, contractId: trade.contract_id, field, reported, broker: actual });
+  };
+
+  money('amount', toNumber(trade.amount), broker.buyPrice);
+  money('buy_price', toNumber(trade.buy_price), broker.buyPrice);
+  money('sell_price', toNumber(trade.sell_price), broker.sellPrice);
+  money('profit', toNumber(trade.profit), broker.profit);
+
+  // 'sold' is what the page records for any early close, so it only disagrees with an open contract
+  const statusAgrees = trade.status === broker.status ||
+    (!broker.open && (trade.status === 'sold' || broker.status === 'sold'));
+  if (!statusAgrees) {
+    discrepancies.push({ tradeId: trade.id, contractId: trade.contract_id, field: 'status', reported: trade.status, broker: broker.status });
+  }
+
+  return discrepancies;
+}
+
+// A value the browser actually sent, as opposed to an update it never made (e.g. the tab closed first)
+function isClientClaim(discrepancy: TradeDiscrepancy): boolean {
+  if (discrepancy.field === 'contract') return true;
+  if (discrepancy.reported === null) return false;
+  return !(discrepancy.field === 'status' && discrepancy.reported === 'open');
+}
+
+// ============ CORRECTIONS ============
+
+async function applyOutcome(trade: TradeRow, broker: BrokerOutcome, discrepancies: TradeDiscrepancy[]): Promise<void> {
+  const corrected = discrepancies.length > 0;
+  const update: Record<string, unknown> = {
+    amount: broker.buyPrice,
+    buy_price: broker.buyPrice,
+    sell_price: broker.sellPrice,
+    profit: broker.profit,
+    status: broker.status,
+    closed_at: broker.open ? null : undefined,
+  };
+  if (corrected) {
+    update.reported_sell_price = trade.sell_price;
+    update.reported_profit = trade.profit;
+    update.reported_status = trade.status;
+  }
+  // Open contracts are checked again on the next run
+  if (!broker.open) {
+    update.reconciled_at = new Date().toISOString();
+    update.reconciliation_status = corrected ? 'corrected' : 'matched';
+  }
+
+  const { error } = await db.from('trades').update(update).eq('id', trade.id);
+  if (error) throw new Error(error.message);
+
+  // Commission is a share of the stake, so follows a corrected stake
+  if (discrepancies.some(d => d.field === 'amount')) {
+    const { data: commission } = await db
+      .from('partner_commissions')
+      .select('id, commission_rate')
+      .eq('trade_id', trade.id)
+      .maybeSingle();
+    if (commission) {
+      await db
+        .from('partner_commissions')
+        .update({
+          trade_amount: broker.buyPrice,
+          commission_amount: round2(broker.buyPrice * Number(commission.commission_rate)),
+        })
+        .eq('id', commission.id);
+    }
+  }
+}
+
+async function markNotFound(trade: TradeRow): Promise<void> {
+  const { error } = await db
+    .from('trades')
+    .update({ reconciled_at: new Date().toISOString(), reconciliation_status: 'not_found' })
+    .eq('id', trade.id);
+  if (error) throw new Error(error.message);
+}
+
+// ============ PER CLIENT ============
+
+async function reconcileClient(clientId: string, token: string): Promise<ClientReconciliation> {
+  const summary: ClientReconciliation = {
+    clientId,
+    checked: 0,
+    matched: 0,
+    corrected: 0,
+    notFound: 0,
+    stillOpen: 0,
+    discrepancies: [],
+    profitOverstatement: 0,
+  };
+
+  const { data, error } = await db
+    .from('trades')
+    .select('id, contract_id, amount, buy_price, sell_price, profit, status, created_at')
+    .eq('client_id', clientId)
+    .not('contract_id', 'is', null)
+    .is('reconciled_at', null)
+    .order('created_at', { ascending: true })
+    .limit(MAX_TRADES_PER_CLIENT);
+
+  if (error) throw new Error(error.message);
+  const trades: TradeRow[] = (data || []).map((row: TradeRow) => ({ ...row, contract_id: Number(row.contract_id) }));
+  if (trades.length === 0) return summary;
+
+  const outcomes = await withDerivSession(token, request => fetchBrokerOutcomes(request, trades));
+
+  for (const trade of trades) {
+    summary.checked++;
+    const broker = outcomes.get(trade.contract_id);
+
+    if (!broker) {
+      summary.notFound++;
+      summary.discrepancies.push({ tradeId: trade.id, contractId: trade.contract_id, field: 'contract', reported: trade.contract_id, broker: null });
+      await markNotFound(trade);
+      continue;
+    }
+
+    const discrepancies = compareTrade(trade, broker);
+    await applyOutcome(trade, broker, discrepancies);
+
+    if (broker.open) summary.stillOpen++;
+    else if (discrepancies.length > 0) summary.corrected++;
+    else summary.matched++;
+
+    summary.discrepancies.push(...discrepancies);
+    const reportedProfit = toNumber(trade.profit);
+    if (reportedProfit !== null && broker.profit !== null && discrepancies.some(d => d.field === 'profit')) {
+      summary.profitOverstatement = round2(summary.profitOverstatement + reportedProfit - broker.profit);
+    }
+  }
+
+  return summary;
+}
+
+// ============ ALERTS ============
+
+function describeDiscrepancy(d: TradeDiscrepancy): string {
+  if (d.field === 'contract') return `contract ${d.contractId} does not exist on the client's Deriv account`;
+  return `contract ${d.contractId}: ${d.field.replace('_', ' ')} reported ${d.reported ?? 'nothing'}, Deriv has ${d.broker ?? 'nothing'}`;
+}
+
+function buildAlert(summary: ClientReconciliation): LunarAlert | null {
+  const claims = summary.discrepancies.filter(isClientClaim);
+  if (claims.length === 0) return null;
+
+  const trades = new Set(claims.map(d => d.tradeId));
+  const severity: FraudSeverity = summary.profitOverstatement >= 1000
+    ? 'critical'
+    : summary.notFound > 0 || summary.profitOverstatement >= 100
+      ? 'high'
+      : 'medium';
+
+  const examples = claims.slice(0, 3).map(describeDiscrepancy).join('; ');
+  const overstatement = summary.profitOverstatement !== 0
+    ? ` Reported profit differs from Deriv's by $${summary.profitOverstatement.toFixed(2)}.`
+    : '';
+
+  return {
+    id: uuidv4(),
+    type: 'trade_mismatch',
+    severity,
+    title: `Client ${summary.clientId.slice(0, 8)} reported ${trades.size} trade(s) that disagree with Deriv`,
+    description: `${examples}${claims.length > 3 ? `; and ${claims.length - 3} more` : ''}.${overstatement} The stored trades now hold Deriv's values.`,
+    entities: [`client_${summary.clientId}`, ...Array.from(trades).map(id => `trade_${id}`)],
+    acknowledged: false,
+    createdAt: new Date().toISOString(),
+  };
+}
+
+async function saveAlerts(alerts: LunarAlert[]): Promise<void> {
+  for (const alert of alerts) {
+    const { error } = await db.from('lunar_alerts').insert({
+      id: alert.id,
+      type: alert.type,
+      severity: alert.severity,
+      title: alert.title,
+      description: alert.description,
+      entities: alert.entities,
+      acknowledged: alert.acknowledged,
+    });
+    if (error) console.error('[Reconciliation] Error saving alert:', error);
+  }
+}
+
+// ============ RUN ============
+
+/**
+ * Reconciles every not-yet-reconciled trade of clients with a stored Deriv token (or of one client),
+ * using that client's token so Deriv only answers for contracts on their own account.
+ */
+export async function reconcileTrades(options: { clientId?: string } = {}): Promise<TradeReconciliationResult> {
+  if (!isSupabaseConfigured()) {
+    throw new Error('Supabase not configured. Trade reconciliation requires a database connection.');
+  }
+
+  const startedAt = new Date().toISOString();
+  let query = db.from('clients').select('id, deriv_token').not('deriv_token', 'is', null);
+  if (options.clientId) query = query.eq('id', options.clientId);
+
+  const { data: clients, error } = await query;
+  if (error) throw new Error(error.message);
+
+  const summaries: ClientReconciliation[] = [];
+  // One client at a time keeps within Deriv's per-app connection limits
+  for (const client of clients || []) {
+    try {
+      summaries.push(await reconcileClient(client.id, client.deriv_token));
+    } catch (err) {
+      console.error(`[Reconciliation] Client ${client.id} failed:`, err);
+      summaries.push({
+        clientId: client.id,
+        checked: 0,
+        matched: 0,
+        corrected: 0,
+        notFound: 0,
+        stillOpen: 0,
+        discrepancies: [],
+        profitOverstatement: 0,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+
+  const alerts = summaries.map(buildAlert).filter((a): a is LunarAlert => a !== null);
+  await saveAlerts(alerts);
+
+  const result: TradeReconciliationResult = {
+    startedAt,
+    finishedAt: new Date().toISOString(),
+    clients: summaries,
+    checked: summaries.reduce((sum, s) => sum + s.checked, 0),
+    corrected: summaries.reduce((sum, s) => sum + s.corrected, 0),
+    notFound: summaries.reduce((sum, s) => sum + s.notFound, 0),
+    alerts,
+  };
+
+  console.log(
+    `[Reconciliation] Checked ${result.checked} trades for ${summaries.length} clients: ` +
+    `${result.corrected} corrected, ${result.notFound} not found, ${alerts.length} alerts`
+  );
+  return result;
+}
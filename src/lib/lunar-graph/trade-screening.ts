@@ -0,0 +1,345 @@
+// Trade Screening
+// Checks a trade against open trades across the network before it is bought, under per-partner policy
+
+import { v4 as uuidv4 } from 'uuid';
+import { supabase, isSupabaseConfigured } from '@/lib/supabase';
+import {
+  ScreeningCheck,
+  ScreeningDecision,
+  ScreeningHit,
+  ScreeningPolicy,
+  ScreeningPolicyConfig,
+  TradeScreeningResult,
+} from '@/types/lunar-graph';
+import { ContractType } from '@/types';
+import { ActiveDetector, ClientRow, TradeRow, loadActiveDetectors } from './detector-registry';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const db = supabase as any;
+
+export const DEFAULT_POLICY_ID = 'default';
+export const SCREENING_CHECKS: ScreeningCheck[] = ['opposite_position', 'timing_sync', 'device_match'];
+
+export const DEFAULT_SCREENING_POLICY: ScreeningPolicy = {
+  enabled: true,
+  flagScore: 50,
+  blockScore: 85,
+  blockChecks: [],
+  unidentifiedDecision: 'flag',
+};
+
+const PENDING_TRADE_ID = 'pending';
+
+export interface PreTradeRequest {
+  clientId?: string;
+  affiliateId?: string;
+  symbol: string;
+  contractType: ContractType;
+  barrier?: string;
+  amount: number;
+}
+
+// ============ POLICY ============
+
+function mergePolicy(overrides: Partial<ScreeningPolicy> | null): ScreeningPolicy {
+  return { ...DEFAULT_SCREENING_POLICY, ...(overrides || {}) };
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function toPolicyConfig(row: any): ScreeningPolicyConfig {
+  return {
+    affiliateId: row.affiliate_id,
+    policy: mergePolicy(row.policy),
+    version: row.version,
+    updatedAt: row.updated_at,
+  };
+}
+
+// The partner's own policy if it has one, else the network default, else the built-in defaults
+export async function loadScreeningPolicy(affiliateId?: string): Promise<ScreeningPolicyConfig> {
+  const fallback: ScreeningPolicyConfig = {
+    affiliateId: affiliateId || DEFAULT_POLICY_ID,
+    policy: DEFAULT_SCREENING_POLICY,
+    version: 0,
+  };
+  if (!isSupabaseConfigured()) return fallback;
+
+  try {
+    const ids = affiliateId ? [affiliateId, DEFAULT_POLICY_ID] : [DEFAULT_POLICY_ID];
+    const { data, error } = await db.from('screening_policies').select('*').in('affiliate_id', ids);
+    if (error || !data) return fallback;
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const row = data.find((r: any) => r.affiliate_id === affiliateId) || data.find((r: any) => r.affiliate_id === DEFAULT_POLICY_ID);
+    return row ? toPolicyConfig(row) : fallback;
+  } catch (error) {
+    console.error('[TradeScreening] Error loading screening policy:', error);
+    return fallback;
+  }
+}
+
+export function validateScreeningPolicy(overrides: Partial<ScreeningPolicy>): string | null {
+  if (!overrides || typeof overrides !== 'object' || Array.isArray(overrides)) {
+    return 'Screening policy must be an object';
+  }
+  if (overrides.enabled !== undefined && typeof overrides.enabled !== 'boolean') {
+    return 'enabled must be a boolean';
+  }
+  for (const key of ['flagScore', 'blockScore'] as const) {
+    const value = overrides[key];
+    if (value !== undefined && (typeof value !== 'number' || value < 0 || value > 100)) {
+      return `${key} must be a number between 0 and 100`;
+    }
+  }
+  if (overrides.unidentifiedDecision !== undefined && !['flag', 'block'].includes(overrides.unidentifiedDecision)) {
+    return "unidentifiedDecision must be 'flag' or 'block'";
+  }
+  const merged = mergePolicy(overrides);
+  if (merged.flagScore > merged.blockScore) return 'flagScore cannot be above blockScore';
+  if (overrides.blockChecks !== undefined) {
+    if (!Array.isArray(overrides.blockChecks)) return 'blockChecks must be an array';
+    const unknown = overrides.blockChecks.find(c => !SCREENING_CHECKS.includes(c));
+    if (unknown) return `Unknown screening check: ${unknown}`;
+  }
+  return null;
+}
+
+// The version column is bumped by a trigger on update (see 011_trade_screening.sql)
+export async function saveScreeningPolicy(
+  affiliateId: string,
+  overrides: Partial<ScreeningPolicy>
+): Promise<ScreeningPolicyConfig> {
+  if (!isSupabaseConfigured()) throw new Error('Supabase not configured. Screening policies require a database connection.');
+
+  const { data, error } = await db
+    .from('screening_policies')
+    .upsert({ affiliate_id: affiliateId, policy: overrides })
+    .select()
+    .single();
+
+  if (error) throw new Error(error.message);
+  return toPolicyConfig(data);
+}
+
+// ============ CHECKS ============
+
+// Every trade still open on the symbol, however long ago it was bought
+async function fetchOpenTrades(symbol: string): Promise<TradeRow[]> {
+  const { data, error } = await db
+    .from('trades')
+    .select('*')
+    .eq('status', 'open')
+    .eq('symbol', symbol);
+
+  if (error) throw new Error(error.message);
+  return data || [];
+}
+
+async function fetchClientsById(ids: string[]): Promise<ClientRow[]> {
+  if (ids.length === 0) return [];
+
+  const { data, error } = await db.from('clients').select('*').in('id', ids);
+  if (error) throw new Error(error.message);
+  return data || [];
+}
+
+/**
+ * Runs the graph's own trade detectors over the pending trade and keeps only the pairs it is part of.
+ * An opposing contract counts for as long as it is open, so opposite positions are checked against every
+ * open trade; timing sync is about the moment of the trade and keeps the detector's short window.
+ */
+function runPairChecks(
+  detectors: ActiveDetector[],
+  pending: TradeRow,
+  openTrades: TradeRow[]
+): ScreeningHit[] {
+  const hits: ScreeningHit[] = [];
+  const tradesById = new Map(openTrades.map(t => [t.id, t]));
+  const pendingNode = `trade_${PENDING_TRADE_ID}`;
+  const pendingTime = new Date(pending.created_at).getTime();
+
+  for (const { definition, params } of detectors) {
+    if (definition.input !== 'trades') continue;
+
+    let trades: TradeRow[];
+    let runParams = params;
+    if (definition.id === 'opposite_position') {
+      trades = openTrades;
+      runParams = { ...params, windowMs: Number.POSITIVE_INFINITY };
+    } else if (definition.id === 'timing_sync') {
+      const windowMs = definition.scanWindowMs(params);
+      trades = openTrades.filter(t => pendingTime - new Date(t.created_at).getTime() <= windowMs);
+    } else {
+      continue;
+    }
+
+    const edges = definition.detect([pending, ...trades], runParams)
+      .filter(e => e.isFraudIndicator && (e.source === pendingNode || e.target === pendingNode));
+
+    for (const edge of edges) {
+      const counterpartId = (edge.source === pendingNode ? edge.target : edge.source).replace(/^trade_/, '');
+      const counterpart = tradesById.get(counterpartId);
+      hits.push({
+        check: definition.id,
+        confidence: edge.metadata.confidence || 50,
+        description: edge.metadata.description || definition.name,
+        counterpartTradeIds: [counterpartId],
+        counterpartAccounts: counterpart ? [counterpart.client_id || counterpart.affiliate_id] : [],
+      });
+    }
+  }
+
+  return hits;
+}
+
+// Open trades placed from the same device as the trader by a different account
+function runDeviceCheck(
+  detectors: ActiveDetector[],
+  request: PreTradeRequest,
+  openTrades: TradeRow[],
+  clients: ClientRow[]
+): ScreeningHit[] {
+  const detector = detectors.find(d => d.definition.id === 'device_match');
+  const trader = clients.find(c => c.id === request.clientId);
+  if (!detector || !trader?.device_id) return [];
+
+  const sameDevice = new Set(
+    clients.filter(c => c.id !== trader.id && c.device_id === trader.device_id).map(c => c.id)
+  );
+  const shared = openTrades.filter(t => sameDevice.has(t.client_id));
+  if (shared.length === 0) return [];
+
+  return [{
+    check: 'device_match',
+    confidence: detector.params.confidence,
+    description: `Same device as ${sameDevice.size} other account(s) with ${shared.length} open trade(s)`,
+    counterpartTradeIds: shared.map(t => t.id),
+    counterpartAccounts: [...new Set(shared.map(t => t.client_id))],
+  }];
+}
+
+// Strongest hit sets the score; each further hit adds a little
+function scoreHits(hits: ScreeningHit[]): number {
+  if (hits.length === 0) return 0;
+  const strongest = Math.max(...hits.map(h => h.confidence));
+  return Math.min(100, Math.round(strongest + (hits.length - 1) * 5));
+}
+
+function decide(hits: ScreeningHit[], score: number, policy: ScreeningPolicy): ScreeningDecision {
+  if (score >= policy.blockScore) return 'block';
+  if (hits.some(h => policy.blockChecks.includes(h.check) && h.confidence >= policy.flagScore)) return 'block';
+  if (score >= policy.flagScore) return 'flag';
+  return 'allow';
+}
+
+const CHECK_LABELS: Record<ScreeningCheck, string> = {
+  opposite_position: 'an opposing contract on the same market from another account',
+  timing_sync: 'a trade on the same market placed at the same moment from another account',
+  device_match: 'open trades from another account on this device',
+};
+
+const UNIDENTIFIED_REASON = 'This trade is held for review because the account placing it could not be identified.';
+
+function heldReason(hits: ScreeningHit[]): string {
+  const checks = [...new Set(hits.map(h => h.check))];
+  return `This trade is held for review because it matches ${checks.map(c => CHECK_LABELS[c]).join(' and ')}.`;
+}
+
+// ============ RECORDING ============
+
+async function recordScreening(request: PreTradeRequest, result: TradeScreeningResult): Promise<void> {
+  if (result.decision === 'allow') return;
+
+  const { error } = await db.from('trade_screenings').insert({
+    id: result.id,
+    client_id: request.clientId || null,
+    affiliate_id: request.affiliateId || null,
+    symbol: request.symbol,
+    contract_type: request.contractType,
+    amount: request.amount,
+    decision: result.decision,
+    score: result.score,
+    hits: result.hits,
+    policy_version: result.policyVersion,
+  });
+  if (error) {
+    console.error('[TradeScreening] Error recording screening:', error);
+  }
+
+  const entities = [
+    ...(request.clientId ? [`client_${request.clientId}`] : []),
+    ...(request.affiliateId ? [`affiliate_${request.affiliateId}`] : []),
+    ...result.hits.flatMap(h => h.counterpartTradeIds.map(id => `trade_${id}`)),
+  ];
+
+  const { error: alertError } = await db.from('lunar_alerts').insert({
+    id: uuidv4(),
+    type: 'pattern_detected',
+    severity: result.decision === 'block' ? (result.score >= 90 ? 'critical' : 'high') : 'medium',
+    title: `${result.decision === 'block' ? 'Trade held' : 'Trade flagged'} at screening: ${request.contractType} on ${request.symbol}`,
+    description: result.hits.map(h => h.description).join('; ') || 'Trade screened without a client id',
+    entities: [...new Set(entities)],
+    acknowledged: false,
+  });
+  if (alertError) {
+    console.error('[TradeScreening] Error saving screening alert:', alertError);
+  }
+}
+
+// ============ PUBLIC API ============
+
+export async function screenTrade(request: PreTradeRequest): Promise<TradeScreeningResult> {
+  const policyConfig = await loadScreeningPolicy(request.affiliateId);
+  const result: TradeScreeningResult = {
+    id: uuidv4(),
+    decision: 'allow',
+    score: 0,
+    hits: [],
+    policyVersion: policyConfig.version,
+    screenedAt: new Date().toISOString(),
+  };
+
+  if (!policyConfig.policy.enabled || !isSupabaseConfigured()) return result;
+
+  // Every check is keyed on the trader's account: without one nothing could match, so the policy decides
+  if (!request.clientId) {
+    result.decision = policyConfig.policy.unidentifiedDecision;
+    if (result.decision === 'block') result.reason = UNIDENTIFIED_REASON;
+    await recordScreening(request, result);
+    console.log(`[TradeScreening] ${request.contractType} ${request.symbol}: ${result.decision} (no client id)`);
+    return result;
+  }
+
+  const detectors = await loadActiveDetectors();
+  const openTrades = (await fetchOpenTrades(request.symbol)).filter(t => t.client_id !== request.clientId);
+
+  const pending: TradeRow = {
+    id: PENDING_TRADE_ID,
+    client_id: request.clientId,
+    affiliate_id: request.affiliateId || '',
+    contract_type: request.contractType,
+    barrier: request.barrier ?? null,
+    symbol: request.symbol,
+    amount: request.amount,
+    profit: 0,
+    created_at: result.screenedAt,
+  };
+
+  const clients = await fetchClientsById([
+    request.clientId,
+    ...new Set(openTrades.map(t => t.client_id).filter(Boolean)),
+  ]);
+
+  result.hits = [
+    ...runPairChecks(detectors, pending, openTrades),
+    ...runDeviceCheck(detectors, request, openTrades, clients),
+  ];
+  result.score = scoreHits(result.hits);
+  result.decision = decide(result.hits, result.score, policyConfig.policy);
+  if (result.decision === 'block') result.reason = heldReason(result.hits);
+
+  await recordScreening(request, result);
+
+  console.log(`[TradeScreening] ${request.contractType} ${request.symbol}: ${result.decision} (score ${result.score}, ${result.hits.length} hits)`);
+  return result;
+}
@@ -0,0 +1,71 @@
+// Pending limit orders
+// Kept in localStorage per trading page so they survive a reload; the page buys them when the tick stream crosses the limit
+
+import { v4 as uuidv4 } from 'uuid';
+import { PendingOrder, ProposalParams } from '@/types';
+
+const STORAGE_PREFIX = 'lunar-pending-orders';
+
+function storageKey(referralCode: string): string {
+  return `${STORAGE_PREFIX}-${referralCode}`;
+}
+
+export function loadPendingOrders(referralCode: string): PendingOrder[] {
+  if (typeof window === 'undefined') return [];
+
+  try {
+    const stored = localStorage.getItem(storageKey(referralCode));
+    return stored ? JSON.parse(stored) : [];
+  } catch (err) {
+    console.error('[PendingOrders] Failed to load pending orders:', err);
+    return [];
+  }
+}
+
+export function savePendingOrders(referralCode: string, orders: PendingOrder[]): void {
+  if (typeof window === 'undefined') return;
+
+  if (orders.length === 0) {
+    localStorage.removeItem(storageKey(referralCode));
+  } else {
+    localStorage.setItem(storageKey(referralCode), JSON.stringify(orders));
+  }
+}
+
+// The side the limit sits on relative to the current price decides which way it has to be crossed
+export function createPendingOrder(
+  order: ProposalParams,
+  limitPrice: number,
+  currentPrice: number,
+  limitPrices?: PendingOrder['limitPrices']
+): PendingOrder {
+  return {
+    ...order,
+    id: uuidv4(),
+    limitPrice,
+    trigger: limitPrice >= currentPrice ? 'above' : 'below',
+    limitPrices,
+    createdAt: new Date().toISOString(),
+  };
+}
+
+// The proposal to price when the order triggers
+export function pendingOrderParams(order: PendingOrder): ProposalParams {
+  return {
+    symbol: order.symbol,
+    amount: order.amount,
+    contractType: order.contractType,
+    duration: order.duration,
+    durationUnit: order.durationUnit,
+    dateExpiry: order.dateExpiry,
+    barrier: order.barrier,
+    multiplier: order.multiplier,
+    limitOrder: order.limitOrder,
+  };
+}
+
+// price is the latest tick of the order's own symbol
+export function isOrderTriggered(order: PendingOrder, price: number | undefined): boolean {
+  if (order.failedAt || !price) return false;
+  return order.trigger === 'above' ? price >= order.limitPrice : price <= order.limitPrice;
+}
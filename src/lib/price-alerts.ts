@@ -0,0 +1,200 @@
+// Price alerts
+// Stored per client (Supabase, or localStorage without it); the trade page checks them against the tick stream
+
+import { v4 as uuidv4 } from 'uuid';
+import { PriceAlert, PriceAlertCondition } from '@/types';
+import { supabase, isSupabaseConfigured } from '@/lib/supabase';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const db = supabase as any;
+
+const STORAGE_PREFIX = 'lunar-price-alerts';
+
+function storageKey(clientId: string): string {
+  return `${STORAGE_PREFIX}-${clientId}`;
+}
+
+function readLocal(clientId: string): PriceAlert[] {
+  if (typeof window === 'undefined') return [];
+
+  try {
+    const stored = localStorage.getItem(storageKey(clientId));
+    return stored ? JSON.parse(stored) : [];
+  } catch (err) {
+    console.error('[PriceAlerts] Failed to load price alerts:', err);
+    return [];
+  }
+}
+
+function writeLocal(clientId: string, alerts: PriceAlert[]): void {
+  if (typeof window === 'undefined') return;
+
+  if (alerts.length === 0) {
+    localStorage.removeItem(storageKey(clientId));
+  } else {
+    localStorage.setItem(storageKey(clientId), JSON.stringify(alerts));
+  }
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function mapPriceAlertRow(row: any): PriceAlert {
+  return {
+    id: row.id,
+    clientId: row.client_id,
+    symbol: row.symbol,
+    condition: row.condition,
+    value: Number(row.value),
+    referencePrice: Number(row.reference_price),
+    note: row.note || undefined,
+    status: row.status,
+    createdAt: row.created_at,
+    triggeredAt: row.triggered_at || undefined,
+    triggeredPrice: row.triggered_price !== null && row.triggered_price !== undefined ? Number(row.triggered_price) : undefined,
+  };
+}
+
+// ============ STORAGE ============
+
+export async function loadPriceAlertsAsync(clientId: string): Promise<PriceAlert[]> {
+  if (isSupabaseConfigured()) {
+    const { data, error } = await db
+      .from('price_alerts')
+      .select('*')
+      .eq('client_id', clientId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return (data || []).map(mapPriceAlertRow);
+  }
+
+  return readLocal(clientId);
+}
+
+export async function savePriceAlertAsync(alert: PriceAlert): Promise<void> {
+  if (isSupabaseConfigured()) {
+    const { error } = await db.from('price_alerts').insert({
+      id: alert.id,
+      client_id: alert.clientId,
+      symbol: alert.symbol,
+      condition: alert.condition,
+      value: alert.value,
+      reference_price: alert.referencePrice,
+      note: alert.note || null,
+      status: alert.status,
+      created_at: alert.createdAt,
+    });
+
+    if (error) throw error;
+    return;
+  }
+
+  writeLocal(alert.clientId, [alert, ...readLocal(alert.clientId)]);
+}
+
+export async function markPriceAlertTriggeredAsync(alert: PriceAlert): Promise<void> {
+  if (isSupabaseConfigured()) {
+    const { error } = await db
+      .from('price_alerts')
+      .update({ status: 'triggered', triggered_at: alert.triggeredAt, triggered_price: alert.triggeredPrice })
+      .eq('id', alert.id);
+
+    if (error) throw error;
+    return;
+  }
+
+  writeLocal(alert.clientId, readLocal(alert.clientId).map(a => (a.id === alert.id ? alert : a)));
+}
+
+export async function deletePriceAlertAsync(alert: PriceAlert): Promise<void> {
+  if (isSupabaseConfigured()) {
+    const { error } = await db.from('price_alerts').delete().eq('id', alert.id);
+    if (error) throw error;
+    return;
+  }
+
+  writeLocal(alert.clientId, readLocal(alert.clientId).filter(a => a.id !== alert.id));
+}
+
+// ============ EVALUATION ============
+
+export function createPriceAlert(
+  clientId: string,
+  symbol: string,
+  condition: PriceAlertCondition,
+  value: number,
+  currentPrice: number,
+  note?: string
+): PriceAlert {
+  return {
+    id: uuidv4(),
+    clientId,
+    symbol,
+    condition,
+    value,
+    referencePrice: currentPrice,
+    note: note?.trim() || undefined,
+    status: 'active',
+    createdAt: new Date().toISOString(),
+  };
+}
+
+// A level already on the wrong side when the alert is created would fire on the first tick
+export function validatePriceAlert(condition: PriceAlertCondition, value: number, currentPrice: number): string | null {
+  if (!Number.isFinite(value) || value <= 0) {
+    return condition === 'percent_move' ? 'Enter a percentage above 0' : 'Enter a price above 0';
+  }
+  if (condition === 'crosses_above' && currentPrice && value <= currentPrice) {
+    return 'The level must be above the current price';
+  }
+  if (condition === 'crosses_below' && currentPrice && value >= currentPrice) {
+    return 'The level must be below the current price';
+  }
+  return null;
+}
+
+// previousPrice is the last tick seen for the alert's symbol; crossings need a tick on each side of the level
+export function isPriceAlertTriggered(alert: PriceAlert, previousPrice: number | undefined, price: number): boolean {
+  if (alert.status !== 'active' || !price) return false;
+
+  switch (alert.condition) {
+    case 'crosses_above':
+      return previousPrice !== undefined && previousPrice < alert.value && price >= alert.value;
+    case 'crosses_below':
+      return previousPrice !== undefined && previousPrice > alert.value && price <= alert.value;
+    case 'percent_move':
+      return alert.referencePrice > 0 && Math.abs(price - alert.referencePrice) / alert.referencePrice * 100 >= alert.value;
+  }
+}
+
+export function describePriceAlert(alert: PriceAlert): string {
+  switch (alert.condition) {
+    case 'crosses_above':
+      return `${alert.symbol} crosses above ${alert.value.toFixed(2)}`;
+    case 'crosses_below':
+      return `${alert.symbol} crosses below ${alert.value.toFixed(2)}`;
+    case 'percent_move':
+      return `${alert.symbol} moves ${alert.value}% from ${alert.referencePrice.toFixed(2)}`;
+  }
+}
+
+// ============ BROWSER NOTIFICATIONS ============
+
+// Asked when the first alert is created, since browsers only prompt in response to a user action
+export async function requestBrowserNotificationPermission(): Promise<void> {
+  if (typeof window === 'undefined' || !('Notification' in window)) return;
+  if (Notification.permission === 'default') {
+    await Notification.requestPermission();
+  }
+}
+
+export function showBrowserNotification(title: string, body: string): void {
+  if (typeof window === 'undefined' || !('Notification' in window)) return;
+  if (Notification.permission !== 'granted') return;
+
+  try {
+    new Notification(title, { body, tag: title });
+  } catch (err) {
+    // Some mobile browsers only allow notifications from a service worker
+    console.error('[PriceAlerts] Browser notification failed:', err);
+  }
+}
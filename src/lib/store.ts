@@ -334,6 +334,8 @@ export async function addTradeAsync(trade: Omit<Trade, 'id'>): Promise<Trade> {
     const insertData: Record<string, unknown> = {
       contract_id: trade.contractId,
       contract_type: trade.contractType,
+      barrier: trade.barrier ?? null,
+      multiplier: trade.multiplier ?? null,
       symbol: trade.symbol,
       amount: trade.amount,
       buy_price: trade.buyPrice,
@@ -382,7 +384,9 @@ export async function addTradeAsync(trade: Omit<Trade, 'id'>): Promise<Trade> {
       accountId: trade.accountId,
       accountType: trade.accountType,
       contractId: data.contract_id || 0,
-      contractType: data.contract_type as 'CALL' | 'PUT',
+      contractType: data.contract_type as Trade['contractType'],
+      barrier: data.barrier ?? undefined,
+      multiplier: data.multiplier ?? undefined,
       symbol: data.symbol,
       amount: data.amount,
       buyPrice: data.buy_price || 0,
@@ -408,7 +412,8 @@ export async function updateTradeAsync(contractId: number, updates: Partial<Trad
         status: updates.status,
         closed_at: updates.status !== 'open' ? new Date().toISOString() : null,
       })
-      .eq('contract_id', contractId);
+      .eq('contract_id', contractId)
+      .is('reconciled_at', null); // Reconciled trades hold Deriv's values; the browser may not overwrite them
 
     if (error) throw error;
     return;
@@ -432,7 +437,9 @@ export async function getTradesAsync(): Promise<Trade[]> {
       accountId: row.client_id || row.affiliate_id || '',
       accountType: row.client_id ? 'client' : 'affiliate' as const,
       contractId: row.contract_id || 0,
-      contractType: row.contract_type as 'CALL' | 'PUT',
+      contractType: row.contract_type as Trade['contractType'],
+      barrier: row.barrier ?? undefined,
+      multiplier: row.multiplier ?? undefined,
       symbol: row.symbol,
       amount: row.amount,
       buyPrice: row.buy_price || 0,
@@ -37,7 +37,9 @@ export interface Trade {
   accountId: string;
   accountType: 'partner' | 'affiliate' | 'client';
   contractId: number;
-  contractType: 'CALL' | 'PUT';
+  contractType: ContractType;
+  barrier?: string; // Price barrier/offset or predicted digit, for contract types that take one
+  multiplier?: number;
   symbol: string;
   amount: number;
   buyPrice: number;
@@ -103,7 +105,94 @@ export interface Alert {
   ringId?: string;
 }
 
+// ============ CONTRACT TYPES ============
+
+export type ContractType =
+  | 'CALL' | 'PUT' // Rise/Fall, or Higher/Lower when a barrier is given
+  | 'ONETOUCH' | 'NOTOUCH'
+  | 'DIGITMATCH' | 'DIGITDIFF'
+  | 'DIGITEVEN' | 'DIGITODD'
+  | 'DIGITOVER' | 'DIGITUNDER'
+  | 'MULTUP' | 'MULTDOWN';
+
+// Each category is one pair of opposing contracts, shown as the two trade buttons
+export type ContractCategory =
+  | 'risefall'
+  | 'higherlower'
+  | 'touchnotouch'
+  | 'matchesdiffers'
+  | 'evenodd'
+  | 'overunder'
+  | 'multipliers';
+
+export type DurationUnit = 't' | 's' | 'm' | 'h' | 'd';
+
+export interface ContractOption {
+  contractType: ContractType;
+  label: string;
+  durations: Array<{ min: string; max: string }>; // Deriv duration strings, e.g. '5t', '15m', '365d'
+}
+
+export interface ContractCategoryOption {
+  category: ContractCategory;
+  label: string;
+  barrier: 'none' | 'price' | 'digit'; // What the barrier input means for this category
+  hasDuration: boolean; // Multipliers run until closed
+  contracts: [ContractOption, ContractOption]; // [long side, short side]
+  multipliers?: number[];
+}
+
+export interface ProposalParams {
+  symbol: string;
+  amount: number;
+  contractType: ContractType;
+  duration?: number;
+  durationUnit?: DurationUnit;
+  dateExpiry?: number; // Epoch seconds; used instead of duration for end-time contracts
+  barrier?: string; // Offset like '+0.50', absolute price, or a digit '0'-'9'
+  multiplier?: number;
+  limitOrder?: LimitOrderAmounts; // Broker-side TP/SL, Multipliers only
+}
+
+// Deriv limit_order values are profit/loss amounts in the account currency, not prices
+export interface LimitOrderAmounts {
+  takeProfit?: number;
+  stopLoss?: number;
+}
+
+// A limit order waiting in the browser for the tick stream to cross its price
+export interface PendingOrder extends ProposalParams {
+  id: string;
+  limitPrice: number;
+  trigger: 'above' | 'below'; // Buy once price is at or above / at or below limitPrice
+  limitPrices?: { takeProfit?: number; stopLoss?: number }; // TP/SL prices for the position once bought
+  createdAt: string;
+  failedAt?: string; // Set when the triggered buy did not go through; the order stays listed but no longer triggers
+}
+
+// crosses_above / crosses_below fire when the price moves through `value`; percent_move when the
+// price has moved `value` percent either way from the price the alert was created at
+export type PriceAlertCondition = 'crosses_above' | 'crosses_below' | 'percent_move';
+
+export interface PriceAlert {
+  id: string;
+  clientId: string;
+  symbol: string;
+  condition: PriceAlertCondition;
+  value: number;
+  referencePrice: number;
+  note?: string;
+  status: 'active' | 'triggered';
+  createdAt: string;
+  triggeredAt?: string;
+  triggeredPrice?: number;
+}
+
 // Deriv API types
+
+// idle: not connected yet or closed on purpose; disconnected: the connection was lost and retries ran out
+export type DerivConnectionState = 'idle' | 'connecting' | 'connected' | 'reconnecting' | 'disconnected';
+
 export interface DerivAuthorizeResponse {
   authorize: {
     loginid: string;
@@ -130,6 +219,8 @@ export interface DerivProposalResponse {
     spot: number;
     longcode: string;
   };
+  subscription?: { id: string };
+  error?: { code: string; message: string }; // Set on re-priced stream messages that fail
 }
 
 export interface DerivBuyResponse {
@@ -153,6 +244,12 @@ export interface DerivOpenContractResponse {
     status: string;
     exit_tick?: number;
     exit_tick_time?: number;
+    // Multipliers only; `value` is the price the order sits at, `order_amount` the profit/loss
+    limit_order?: {
+      take_profit?: { order_amount: number | null; value: string | number | null };
+      stop_loss?: { order_amount: number | null; value: string | number | null };
+      stop_out?: { order_amount: number | null; value: string | number | null };
+    };
   };
 }
 
@@ -172,6 +269,9 @@ export interface CandleData {
   close: number;
 }
 
+// 'ticks' charts every tick as a point instead of aggregating into candles
+export type ChartTimeframe = 'ticks' | '1m' | '5m' | '15m' | '1h' | '4h' | '1d';
+
 export const SYMBOLS = [
   // Volatility Indices (24/7, synthetic)
   { value: '1HZ100V', label: 'Volatility 100 (1s) Index' },
@@ -196,7 +296,22 @@ export type SymbolType = typeof SYMBOLS[number]['value'];
 
 // ============ DRAWING TYPES FOR BROADCAST FEATURE ============
 
-export type DrawingType = 'trendline' | 'horizontal' | 'rectangle' | 'arrow' | 'text' | 'pricemarker';
+export type DrawingType =
+  | 'trendline'
+  | 'horizontal'
+  | 'rectangle'
+  | 'arrow'
+  | 'text'
+  | 'pricemarker'
+  | 'fibretracement'
+  | 'fibextension'
+  | 'channel'
+  | 'vertical'
+  | 'pricerange'
+  | 'timerange'
+  | 'measure'
+  | 'longposition'
+  | 'shortposition';
 
 export interface Point {
   x: number; // Time (epoch)
@@ -258,13 +373,116 @@ export interface PriceMarkerDrawing extends BaseDrawing {
   side: 'buy' | 'sell';
 }
 
+// Levels are ratios of the move from startPoint to endPoint: retracements measure back from the end,
+// extensions project from the start past the end
+export interface FibonacciDrawing extends BaseDrawing {
+  type: 'fibretracement' | 'fibextension';
+  startPoint: Point;
+  endPoint: Point;
+  levels: number[];
+  extendRight: boolean;
+}
+
+// The baseline through startPoint and endPoint, and a parallel copy `offset` away in price
+export interface ChannelDrawing extends BaseDrawing {
+  type: 'channel';
+  startPoint: Point;
+  endPoint: Point;
+  offset: number;
+  fillOpacity: number;
+}
+
+export interface VerticalLineDrawing extends BaseDrawing {
+  type: 'vertical';
+  time: number;
+  label?: string;
+}
+
+// Measures between two points: the price change, the time and bars elapsed, or both
+export interface RangeDrawing extends BaseDrawing {
+  type: 'pricerange' | 'timerange' | 'measure';
+  startPoint: Point;
+  endPoint: Point;
+}
+
+// A planned trade from entry until endTime, with its target and stop
+export interface PositionDrawing extends BaseDrawing {
+  type: 'longposition' | 'shortposition';
+  entry: Point;
+  endTime: number;
+  takeProfit: number;
+  stopLoss: number;
+}
+
 export type Drawing =
   | TrendlineDrawing
   | HorizontalLineDrawing
   | RectangleDrawing
   | ArrowDrawing
   | TextDrawing
-  | PriceMarkerDrawing;
+  | PriceMarkerDrawing
+  | FibonacciDrawing
+  | ChannelDrawing
+  | VerticalLineDrawing
+  | RangeDrawing
+  | PositionDrawing;
+
+// ============ INDICATOR TYPES ============
+
+export type IndicatorType = 'sma' | 'ema' | 'bollinger' | 'rsi' | 'macd' | 'atr';
+
+// Overlays share the price scale; oscillators get their own scale in the pane below the candles
+export type IndicatorPane = 'price' | 'oscillator';
+
+export interface BaseIndicator {
+  id: string;
+  type: IndicatorType;
+  color: string;
+  visible: boolean;
+}
+
+export interface SmaIndicator extends BaseIndicator {
+  type: 'sma';
+  period: number;
+}
+
+export interface EmaIndicator extends BaseIndicator {
+  type: 'ema';
+  period: number;
+}
+
+export interface BollingerIndicator extends BaseIndicator {
+  type: 'bollinger';
+  period: number;
+  stdDev: number;
+}
+
+export interface RsiIndicator extends BaseIndicator {
+  type: 'rsi';
+  period: number;
+  overbought: number;
+  oversold: number;
+}
+
+export interface MacdIndicator extends BaseIndicator {
+  type: 'macd';
+  fastPeriod: number;
+  slowPeriod: number;
+  signalPeriod: number;
+}
+
+export interface AtrIndicator extends BaseIndicator {
+  type: 'atr';
+  period: number;
+}
+
+export type Indicator =
+  | SmaIndicator
+  | EmaIndicator
+  | BollingerIndicator
+  | RsiIndicator
+  | MacdIndicator
+  | AtrIndicator;
 
 export interface BroadcastSession {
   id: string;
@@ -273,6 +491,75 @@ export interface BroadcastSession {
   symbol: string;
   isLive: boolean;
   drawings: Drawing[];
+  indicators?: Indicator[];
   createdAt: Date;
   updatedAt: Date;
 }
+
+export type BroadcastRole = 'host' | 'viewer';
+
+// One affiliate's analysis for one symbol, pushed to client charts on every change
+export interface BroadcastUpdate {
+  referralCode: string;
+  symbol: string;
+  isLive: boolean;
+  drawings: Drawing[];
+  indicators: Indicator[];
+  updatedAt: string;
+}
+
+export type BroadcastOperationType = 'add' | 'update' | 'remove' | 'indicators';
+
+// One change made during a live broadcast session, recorded for replay
+export interface BroadcastOperation {
+  at: string;
+  type: BroadcastOperationType;
+  drawingId?: string;
+  drawing?: Drawing; // add and update
+  indicators?: Indicator[]; // indicators: the full set after the change
+}
+
+export interface BroadcastTick {
+  epoch: number;
+  quote: number;
+}
+
+export interface BroadcastSessionSummary {
+  id: string;
+  referralCode: string;
+  symbol: string;
+  startedAt: string;
+  endedAt?: string; // Unset while the session is live
+  operationCount: number;
+}
+
+export interface BroadcastRecording extends BroadcastSessionSummary {
+  operations: BroadcastOperation[];
+  ticks: BroadcastTick[]; // From shortly before the start to the end, or to now while live
+  messages: BroadcastChatMessage[]; // Chat on the broadcast's symbol while the session ran
+}
+
+// A chat line on an affiliate's broadcast, kept per referral code and symbol
+export interface BroadcastChatMessage {
+  id: string;
+  referralCode: string;
+  symbol: string;
+  authorId: string; // The client's id for viewers, the referral code for the affiliate
+  authorName: string;
+  role: BroadcastRole;
+  text: string;
+  pinnedDrawingId?: string; // Set by the affiliate to explain one of their drawings
+  createdAt: string;
+}
+
+export type BroadcastModerationAction = 'mute' | 'ban';
+
+// A participant the affiliate silenced; applies to every symbol of the referral code
+export interface BroadcastModeration {
+  referralCode: string;
+  participantId: string;
+  participantName: string;
+  action: BroadcastModerationAction;
+  expiresAt?: string; // Mutes lapse on their own; bans last until lifted
+  createdAt: string;
+}
@@ -1,5 +1,7 @@
 // Lunar Graph Types - AI-Powered Fraud Detection System
 
+import { ContractType } from '@/types';
+
 // ============ GRAPH STRUCTURE ============
 
 export type NodeType = 'affiliate' | 'client' | 'trade' | 'ip' | 'device';
@@ -20,7 +22,8 @@ export interface GraphNodeData {
     affiliateId?: string;
 
     // Trade fields
-    contractType?: 'CALL' | 'PUT';
+    contractType?: ContractType;
+    barrier?: string;
     symbol?: string;
     amount?: number;
     profit?: number;
@@ -37,6 +40,120 @@ export interface GraphNodeData {
     browserName?: string;
     userAgent?: string;
   };
+  riskBreakdown?: RiskBreakdown; // Why the node has its riskScore
+}
+
+// ============ GRAPH SNAPSHOTS ============
+
+// Compact forms stored in graph_snapshots.nodes / edges / rings; the agent tools read these directly
+export interface SnapshotNode {
+  id: string;
+  type: NodeType;
+  label: string;
+  riskScore: number;
+}
+
+export interface SnapshotEdge {
+  id: string;
+  source: string;
+  target: string;
+  type: EdgeType;
+  weight: number;
+  is_fraud_indicator: boolean;
+  metadata?: { confidence?: number; description?: string };
+}
+
+export interface SnapshotRing {
+  id: string;
+  name: string;
+  severity: FraudSeverity;
+  entities: string[];
+  exposure: number;
+}
+
+export interface GraphSnapshotSummary {
+  id: string;
+  runId: string | null;
+  stats: KnowledgeGraph['stats'];
+  ringCount: number;
+  createdAt: string;
+}
+
+export interface GraphSnapshot extends GraphSnapshotSummary {
+  nodes: SnapshotNode[];
+  edges: SnapshotEdge[];
+  rings: SnapshotRing[];
+}
+
+export interface RiskMovement {
+  nodeId: string;
+  label: string;
+  type: NodeType;
+  before: number;
+  after: number;
+  delta: number;
+}
+
+export interface RingGrowthDiff {
+  ringId: string;
+  name: string;
+  addedEntities: string[];
+  exposureBefore: number;
+  exposureAfter: number;
+}
+
+export interface SnapshotDiff {
+  from: GraphSnapshotSummary;
+  to: GraphSnapshotSummary;
+  newNodes: SnapshotNode[];
+  removedNodeCount: number;
+  newFraudEdges: SnapshotEdge[];
+  riskMovements: RiskMovement[]; // Largest movements first
+  grownRings: RingGrowthDiff[];
+  newRings: SnapshotRing[];
+}
+
+// ============ RISK SCORING ============
+
+export interface RiskFactor {
+  id: string;
+  label: string;
+  points: number;
+  detail?: string;
+}
+
+export interface RiskBreakdown {
+  factors: RiskFactor[];
+  rawScore: number; // Sum of factor points before the maxScore cap
+  modelVersion: number;
+}
+
+export interface RiskScoringModel {
+  connections: {
+    pointsPerEdge: number;
+    cap: number;
+  };
+  fraudEdges: {
+    confidenceWeight: number; // Points per confidence point of each fraud edge
+    defaultConfidence: number; // Used when an edge carries no confidence
+    cap: number;
+  };
+  patterns: Partial<Record<EdgeType, number>>; // Added once when any edge of the type touches the node
+  thresholds: Array<{
+    id: string;
+    label: string;
+    edgeType?: EdgeType; // Count only edges of this type
+    fraudOnly?: boolean; // Count only fraud indicator edges
+    minEdges: number;
+    points: number;
+  }>;
+  maxScore: number;
+}
+
+export interface RiskModelConfig {
+  model: RiskScoringModel;
+  version: number; // 0 = shipped defaults, bumped on every config change
+  updatedAt?: string;
 }
 
 export type EdgeType =
@@ -60,6 +177,8 @@ export interface GraphEdgeData {
     description?: string;
     detectedAt?: string;
     rapidCount?: number; // Number of rapid trades in sequence
+    detectorId?: DetectorId; // Detector that emitted the edge (structural edges have none)
+    detectorVersion?: number; // Version of that detector's parameters when the edge was emitted
   };
 }
 
@@ -72,8 +191,49 @@ export interface KnowledgeGraph {
     fraudEdges: number;
     avgRiskScore: number;
     clusters: number;
+    modularity?: number; // Quality of the community partition behind clusters
   };
   builtAt: string;
+  buildInfo?: GraphBuildInfo;
+}
+
+export interface GraphBuildInfo {
+  mode: 'full' | 'incremental';
+  watermark: string | null; // Highest updated_at applied, null if rows carry no updated_at
+  appliedRows: number; // Affiliate, client and trade rows read for this build
+  tradeWindow?: { start: string; end: string }; // Range re-scanned by the trade pattern detectors
+  detectorVersions?: Partial<Record<DetectorId, number>>; // Enabled detectors and their parameter versions
+  drift?: { missing: string[]; extra: string[] }; // Verified builds: node ids and edge keys a full build has that this one lacks, and the reverse
+}
+
+// ============ DETECTORS ============
+
+export type DetectorId =
+  | 'ip_overlap'         // Clients of different affiliates on one IP
+  | 'device_match'       // Clients of different affiliates on one device
+  | 'timing_sync'        // Trades from different accounts seconds apart
+  | 'opposite_position'  // CALL/PUT pairs from different accounts
+  | 'rapid_trading';     // Bursts of trades from one account
+
+export type DetectorParams = Record<string, number>;
+
+export interface DetectorParamSpec {
+  default: number;
+  min: number;
+  max: number;
+  description: string;
+}
+
+export interface DetectorConfig {
+  id: DetectorId;
+  name: string;
+  description: string;
+  edgeType: EdgeType;
+  enabled: boolean;
+  params: DetectorParams; // Effective values (defaults merged with overrides)
+  paramSpecs: Record<string, DetectorParamSpec>;
+  version: number; // 0 = shipped defaults, bumped on every config change
+  updatedAt?: string;
 }
 
 // ============ FRAUD DETECTION ============
@@ -97,9 +257,33 @@ export interface FraudRing {
   exposure: number; // Financial exposure in USD
   evidence: FraudEvidence[];
   aiSummary: string;
-  status: 'active' | 'investigating' | 'resolved' | 'false_positive';
+  status: FraudRingStatus;
   createdAt: string;
   updatedAt?: string;
+  lastDetectedAt?: string; // Last analysis run that matched this ring
+}
+
+export type FraudRingStatus = 'active' | 'investigating' | 'resolved' | 'false_positive';
+
+export type FraudRingEventType =
+  | 'created'             // First detection
+  | 'membership_changed'  // Entities joined or left on re-detection
+  | 'exposure_changed'    // Exposure moved on re-detection
+  | 'status_changed'      // Investigator changed the status
+  | 'redetected';         // A resolved/false-positive ring showed up again
+
+export interface FraudRingEvent {
+  id: string;
+  ringId: string;
+  type: FraudRingEventType;
+  addedEntities: string[];
+  removedEntities: string[];
+  exposureBefore?: number;
+  exposureAfter?: number;
+  statusBefore?: FraudRingStatus;
+  statusAfter?: FraudRingStatus;
+  changedBy?: string;
+  createdAt: string;
 }
 
 export interface FraudEvidence {
@@ -118,7 +302,9 @@ export type AlertType =
   | 'risk_escalation'
   | 'pattern_detected'
   | 'entity_flagged'
-  | 'threshold_breach';
+  | 'threshold_breach'
+  | 'trade_flagged'
+  | 'trade_mismatch';
 
 export interface LunarAlert {
   id: string;
@@ -135,6 +321,122 @@ export interface LunarAlert {
   acknowledgedBy?: string;
 }
 
+// ============ CASES ============
+
+export type CaseStatus = 'open' | 'in_progress' | 'pending_review' | 'closed';
+
+export type CasePriority = 'low' | 'medium' | 'high' | 'critical';
+
+export interface CaseNote {
+  id: string;
+  author: string;
+  content: string;
+  createdAt: string;
+}
+
+export type CaseEvidenceType = 'link' | 'file' | 'screenshot' | 'text';
+
+export interface CaseEvidence {
+  id: string;
+  type: CaseEvidenceType;
+  title: string;
+  url?: string;
+  content?: string;
+  addedBy: string;
+  createdAt: string;
+}
+
+// Copilot transcript attached to a case, frozen at the time it was attached
+export interface CaseConversation {
+  id: string;
+  messages: CopilotMessage[];
+  attachedBy: string;
+  attachedAt: string;
+}
+
+export interface InvestigationCase {
+  id: string;
+  title: string;
+  description?: string;
+  status: CaseStatus;
+  priority: CasePriority;
+  assignee?: string;
+  slaDueAt: string;
+  alertIds: string[];
+  fraudRingIds: string[];
+  entities: string[]; // Node IDs under investigation
+  notes: CaseNote[];
+  evidence: CaseEvidence[];
+  conversations: CaseConversation[];
+  createdBy: string;
+  createdAt: string;
+  updatedAt?: string;
+  closedAt?: string;
+}
+
+export type CaseAuditAction =
+  | 'created'
+  | 'status_changed'
+  | 'priority_changed'
+  | 'assigned'
+  | 'sla_changed'
+  | 'details_changed'
+  | 'note_added'
+  | 'evidence_attached'
+  | 'alerts_linked'
+  | 'rings_linked'
+  | 'entities_linked'
+  | 'conversation_attached';
+
+export interface CaseAuditEntry {
+  id: string;
+  caseId: string;
+  action: CaseAuditAction;
+  actor: string;
+  details: Record<string, unknown>;
+  createdAt: string;
+}
+
+// ============ TRADE SCREENING ============
+
+export type ScreeningDecision = 'allow' | 'flag' | 'block';
+
+export type ScreeningCheck = 'opposite_position' | 'timing_sync' | 'device_match';
+
+export interface ScreeningHit {
+  check: ScreeningCheck;
+  confidence: number; // 0-100
+  description: string;
+  counterpartTradeIds: string[];
+  counterpartAccounts: string[]; // Client or affiliate IDs on the other side
+}
+
+export interface TradeScreeningResult {
+  id: string;
+  decision: ScreeningDecision;
+  score: number; // 0-100
+  hits: ScreeningHit[];
+  reason?: string; // Shown to the trader when the trade is held
+  policyVersion: number;
+  screenedAt: string;
+}
+
+// Per-partner policy; the 'default' row applies to affiliates without their own
+export interface ScreeningPolicy {
+  enabled: boolean;
+  flagScore: number; // Score at which the trade goes through but is recorded for review
+  blockScore: number; // Score at which the trade is held
+  blockChecks: ScreeningCheck[]; // Checks that hold the trade whenever they fire at flagScore or above
+  unidentifiedDecision: 'flag' | 'block'; // Trades screened without a client id, which no check can match
+}
+
+export interface ScreeningPolicyConfig {
+  affiliateId: string; // 'default' for the network-wide policy
+  policy: ScreeningPolicy;
+  version: number; // 0 = built-in defaults, never saved
+  updatedAt?: string;
+}
+
 // ============ AGENT ANALYSIS ============
 
 export type AgentType = 'alpha' | 'beta' | 'gamma';
@@ -163,6 +465,7 @@ export interface AgentFinding {
 }
 
 export interface CombinedAnalysis {
+  runId?: string; // Ties the analysis to its graph snapshot
   timestamp: string;
   agents: AgentAnalysis[];
   fraudRings: FraudRing[];
@@ -171,6 +474,67 @@ export interface CombinedAnalysis {
   summary: string;
 }
 
+// ============ ANALYSIS JOBS ============
+
+export type AnalysisJobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+export type AnalysisJobTrigger = 'manual' | 'schedule';
+
+export interface AnalysisJob {
+  id: string; // Also the run id on agent logs and the graph snapshot
+  status: AnalysisJobStatus;
+  trigger: AnalysisJobTrigger;
+  queuedAt: string;
+  startedAt?: string;
+  heartbeatAt?: string; // Refreshed while the job runs; a job whose heartbeat stops is failed as stale
+  finishedAt?: string;
+  durationMs?: number;
+  error?: string;
+  summary?: string;
+}
+
+export interface AnalysisSchedule {
+  enabled: boolean;
+  intervalMinutes: number;
+  updatedAt?: string;
+}
+
+// ============ TRADE RECONCILIATION ============
+
+// matched: the client's numbers agree with Deriv; corrected: they were overwritten with Deriv's;
+// not_found: Deriv has no such contract on the client's account
+export type TradeReconciliationStatus = 'matched' | 'corrected' | 'not_found';
+
+export interface TradeDiscrepancy {
+  tradeId: string;
+  contractId: number;
+  field: 'amount' | 'buy_price' | 'sell_price' | 'profit' | 'status' | 'contract';
+  reported: number | string | null;
+  broker: number | string | null;
+}
+
+export interface ClientReconciliation {
+  clientId: string;
+  checked: number;
+  matched: number;
+  corrected: number;
+  notFound: number;
+  stillOpen: number;
+  discrepancies: TradeDiscrepancy[];
+  profitOverstatement: number; // Reported profit minus Deriv's, summed over corrected trades
+  error?: string;
+}
+
+export interface TradeReconciliationResult {
+  startedAt: string;
+  finishedAt: string;
+  clients: ClientReconciliation[];
+  checked: number;
+  corrected: number;
+  notFound: number;
+  alerts: LunarAlert[];
+}
+
 // ============ COPILOT ============
 
 export interface CopilotMessage {
@@ -247,6 +611,7 @@ export interface CopilotContext {
       type: string;
       riskScore: number;
       email?: string;
+      riskFactors?: string[];
     }>;
   };
   fraudRings?: Array<{
@@ -291,6 +656,73 @@ export interface BuildGraphResponse {
 export interface AnalyzeResponse {
   success: boolean;
   analysis?: CombinedAnalysis;
+  job?: AnalysisJob;
+  error?: string;
+}
+
+export interface DetectorsResponse {
+  success: boolean;
+  detectors?: DetectorConfig[];
+  error?: string;
+}
+
+export interface FraudRingResponse {
+  success: boolean;
+  ring?: FraudRing;
+  history?: FraudRingEvent[];
+  error?: string;
+}
+
+export interface CasesResponse {
+  success: boolean;
+  cases?: InvestigationCase[];
+  error?: string;
+}
+
+export interface CaseResponse {
+  success: boolean;
+  case?: InvestigationCase;
+  audit?: CaseAuditEntry[];
+  error?: string;
+}
+
+export interface TradeScreeningResponse {
+  success: boolean;
+  result?: TradeScreeningResult;
+  error?: string;
+}
+
+export interface ScreeningPolicyResponse {
+  success: boolean;
+  config?: ScreeningPolicyConfig;
+  error?: string;
+}
+
+export interface SnapshotsResponse {
+  success: boolean;
+  snapshots?: GraphSnapshotSummary[];
+  snapshot?: GraphSnapshot;
+  diff?: SnapshotDiff;
+  error?: string;
+}
+
+export interface AnalysisJobsResponse {
+  success: boolean;
+  jobs?: AnalysisJob[];
+  job?: AnalysisJob;
+  schedule?: AnalysisSchedule;
+  error?: string;
+}
+
+export interface TradeReconciliationResponse {
+  success: boolean;
+  result?: TradeReconciliationResult;
+  error?: string;
+}
+
+export interface RiskModelResponse {
+  success: boolean;
+  config?: RiskModelConfig;
   error?: string;
 }
 
@@ -146,6 +146,7 @@ export interface Database {
           commission_rate: number;
           total_earnings: number;
           created_at: string;
+          updated_at: string;
         };
         Insert: {
           id?: string;
@@ -159,6 +160,7 @@ export interface Database {
           commission_rate?: number;
           total_earnings?: number;
           created_at?: string;
+          updated_at?: string;
         };
         Update: {
           id?: string;
@@ -172,6 +174,7 @@ export interface Database {
           commission_rate?: number;
           total_earnings?: number;
           created_at?: string;
+          updated_at?: string;
         };
       };
       clients: {
@@ -187,6 +190,7 @@ export interface Database {
           total_traded: number;
           total_pnl: number;
           created_at: string;
+          updated_at: string;
         };
         Insert: {
           id?: string;
@@ -200,6 +204,7 @@ export interface Database {
           total_traded?: number;
           total_pnl?: number;
           created_at?: string;
+          updated_at?: string;
         };
         Update: {
           id?: string;
@@ -213,6 +218,7 @@ export interface Database {
           total_traded?: number;
           total_pnl?: number;
           created_at?: string;
+          updated_at?: string;
         };
       };
       trades: {
@@ -222,6 +228,8 @@ export interface Database {
           affiliate_id: string | null;
           contract_id: number | null;
           contract_type: string;
+          barrier: string | null;
+          multiplier: number | null;
           symbol: string;
           amount: number;
           buy_price: number | null;
@@ -230,6 +238,7 @@ export interface Database {
           status: string;
           created_at: string;
           closed_at: string | null;
+          updated_at: string;
         };
         Insert: {
           id?: string;
@@ -237,6 +246,8 @@ export interface Database {
           affiliate_id?: string | null;
           contract_id?: number | null;
           contract_type: string;
+          barrier?: string | null;
+          multiplier?: number | null;
           symbol: string;
           amount: number;
           buy_price?: number | null;
@@ -245,6 +256,7 @@ export interface Database {
           status?: string;
           created_at?: string;
           closed_at?: string | null;
+          updated_at?: string;
         };
         Update: {
           id?: string;
@@ -252,6 +264,8 @@ export interface Database {
           affiliate_id?: string | null;
           contract_id?: number | null;
           contract_type?: string;
+          barrier?: string | null;
+          multiplier?: number | null;
           symbol?: string;
           amount?: number;
           buy_price?: number | null;
@@ -260,6 +274,7 @@ export interface Database {
           status?: string;
           created_at?: string;
           closed_at?: string | null;
+          updated_at?: string;
         };
       };
       invites: {
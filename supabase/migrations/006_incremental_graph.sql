@@ -0,0 +1,62 @@
+-- Migration: Incremental knowledge graph builds
+-- Date: 2026-10-19
+-- Description: Adds updated_at change tracking to the source tables and a graph_build_state
+--              table so buildKnowledgeGraph can apply only rows changed since the last build.
+
+-- Change tracking on the tables the graph is built from.
+-- updated_at (not created_at) is the watermark: demo data and imports can backdate created_at.
+ALTER TABLE affiliates ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ DEFAULT NOW();
+ALTER TABLE clients ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ DEFAULT NOW();
+ALTER TABLE trades ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ DEFAULT NOW();
+
+UPDATE affiliates SET updated_at = created_at WHERE updated_at IS NULL;
+UPDATE clients SET updated_at = created_at WHERE updated_at IS NULL;
+UPDATE trades SET updated_at = COALESCE(closed_at, created_at) WHERE updated_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_affiliates_updated_at ON affiliates(updated_at);
+CREATE INDEX IF NOT EXISTS idx_clients_updated_at ON clients(updated_at);
+CREATE INDEX IF NOT EXISTS idx_trades_updated_at ON trades(updated_at);
+CREATE INDEX IF NOT EXISTS idx_trades_created_at ON trades(created_at);
+
+-- update_updated_at_column() is defined in 003_lunar_graph.sql
+DROP TRIGGER IF EXISTS update_affiliates_updated_at ON affiliates;
+CREATE TRIGGER update_affiliates_updated_at
+  BEFORE UPDATE ON affiliates
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_clients_updated_at ON clients;
+CREATE TRIGGER update_clients_updated_at
+  BEFORE UPDATE ON clients
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_trades_updated_at ON trades;
+CREATE TRIGGER update_trades_updated_at
+  BEFORE UPDATE ON trades
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Graph Build State table
+-- Holds the last built graph and the watermark it was built up to (single row, id = 'current')
+CREATE TABLE IF NOT EXISTS graph_build_state (
+  id TEXT PRIMARY KEY,
+  watermark TIMESTAMPTZ NOT NULL,
+  graph JSONB NOT NULL,
+  build_mode TEXT NOT NULL CHECK (build_mode IN ('full', 'incremental')),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+DROP TRIGGER IF EXISTS update_graph_build_state_updated_at ON graph_build_state;
+CREATE TRIGGER update_graph_build_state_updated_at
+  BEFORE UPDATE ON graph_build_state
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE graph_build_state ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow all for graph_build_state" ON graph_build_state;
+CREATE POLICY "Allow all for graph_build_state" ON graph_build_state FOR ALL USING (true);
+
+COMMENT ON TABLE graph_build_state IS 'Last built knowledge graph and the updated_at watermark used for incremental builds';
+COMMENT ON COLUMN graph_build_state.watermark IS 'Highest updated_at across affiliates, clients and trades included in the stored graph';
@@ -0,0 +1,39 @@
+-- Migration: Detector configuration
+-- Date: 2026-10-19
+-- Description: Per-deployment overrides for the knowledge graph pattern detectors.
+--              Detectors without a row run enabled with their shipped defaults (version 0).
+
+CREATE TABLE IF NOT EXISTS detector_configs (
+  id TEXT PRIMARY KEY CHECK (id IN ('ip_overlap', 'device_match', 'timing_sync', 'opposite_position', 'rapid_trading')),
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  params JSONB NOT NULL DEFAULT '{}',
+  version INTEGER NOT NULL DEFAULT 1,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Every change gets a new version so edges can be traced to the parameters that produced them
+CREATE OR REPLACE FUNCTION bump_detector_config_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.enabled IS DISTINCT FROM OLD.enabled OR NEW.params IS DISTINCT FROM OLD.params THEN
+    NEW.version = OLD.version + 1;
+  END IF;
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS bump_detector_configs_version ON detector_configs;
+CREATE TRIGGER bump_detector_configs_version
+  BEFORE UPDATE ON detector_configs
+  FOR EACH ROW
+  EXECUTE FUNCTION bump_detector_config_version();
+
+ALTER TABLE detector_configs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow all for detector_configs" ON detector_configs;
+CREATE POLICY "Allow all for detector_configs" ON detector_configs FOR ALL USING (true);
+
+COMMENT ON TABLE detector_configs IS 'Enable flags and parameter overrides for the knowledge graph pattern detectors';
+COMMENT ON COLUMN detector_configs.version IS 'Bumped on every change; recorded on each emitted edge as detectorVersion';
@@ -0,0 +1,37 @@
+-- Migration: Risk scoring configuration
+-- Date: 2026-10-19
+-- Description: Per-deployment overrides for the knowledge graph node risk model.
+--              Without a row the shipped default model is used (version 0).
+
+CREATE TABLE IF NOT EXISTS risk_scoring_config (
+  id TEXT PRIMARY KEY,
+  model JSONB NOT NULL DEFAULT '{}',
+  version INTEGER NOT NULL DEFAULT 1,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE OR REPLACE FUNCTION bump_risk_scoring_config_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.model IS DISTINCT FROM OLD.model THEN
+    NEW.version = OLD.version + 1;
+  END IF;
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS bump_risk_scoring_config_version ON risk_scoring_config;
+CREATE TRIGGER bump_risk_scoring_config_version
+  BEFORE UPDATE ON risk_scoring_config
+  FOR EACH ROW
+  EXECUTE FUNCTION bump_risk_scoring_config_version();
+
+ALTER TABLE risk_scoring_config ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow all for risk_scoring_config" ON risk_scoring_config;
+CREATE POLICY "Allow all for risk_scoring_config" ON risk_scoring_config FOR ALL USING (true);
+
+COMMENT ON TABLE risk_scoring_config IS 'Weights and caps overriding the default node risk scoring model';
+COMMENT ON COLUMN risk_scoring_config.version IS 'Bumped on every change; recorded on each node riskBreakdown as modelVersion';
@@ -0,0 +1,31 @@
+-- Migration: Fraud ring lifecycle
+-- Date: 2026-10-19
+-- Description: Re-detected rings are matched to existing ones and updated in place.
+--              fraud_ring_events keeps the membership, exposure and status history.
+
+ALTER TABLE fraud_rings ADD COLUMN IF NOT EXISTS last_detected_at TIMESTAMPTZ DEFAULT NOW();
+UPDATE fraud_rings SET last_detected_at = updated_at WHERE last_detected_at IS NULL;
+
+CREATE TABLE IF NOT EXISTS fraud_ring_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  ring_id UUID NOT NULL REFERENCES fraud_rings(id) ON DELETE CASCADE,
+  event_type TEXT NOT NULL CHECK (event_type IN ('created', 'membership_changed', 'exposure_changed', 'status_changed', 'redetected')),
+  added_entities TEXT[] DEFAULT '{}',
+  removed_entities TEXT[] DEFAULT '{}',
+  exposure_before DECIMAL(12,2),
+  exposure_after DECIMAL(12,2),
+  status_before TEXT CHECK (status_before IN ('active', 'investigating', 'resolved', 'false_positive')),
+  status_after TEXT CHECK (status_after IN ('active', 'investigating', 'resolved', 'false_positive')),
+  changed_by TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_fraud_ring_events_ring_id ON fraud_ring_events(ring_id, created_at DESC);
+
+ALTER TABLE fraud_ring_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow all for fraud_ring_events" ON fraud_ring_events;
+CREATE POLICY "Allow all for fraud_ring_events" ON fraud_ring_events FOR ALL USING (true);
+
+COMMENT ON TABLE fraud_ring_events IS 'History of membership, exposure and status changes for each fraud ring';
+COMMENT ON COLUMN fraud_rings.last_detected_at IS 'Last analysis run whose detected ring matched this one';
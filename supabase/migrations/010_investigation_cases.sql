@@ -0,0 +1,56 @@
+-- Migration: Investigation cases
+-- Date: 2026-10-19
+-- Description: Cases group alerts, fraud rings, entities and copilot conversations under one
+--              investigation with an assignee, priority and SLA. case_audit_log records every change.
+
+CREATE TABLE IF NOT EXISTS investigation_cases (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  title TEXT NOT NULL,
+  description TEXT,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'in_progress', 'pending_review', 'closed')),
+  priority TEXT NOT NULL DEFAULT 'medium' CHECK (priority IN ('low', 'medium', 'high', 'critical')),
+  assignee TEXT,
+  sla_due_at TIMESTAMPTZ NOT NULL,
+  alert_ids UUID[] DEFAULT '{}',
+  fraud_ring_ids UUID[] DEFAULT '{}',
+  entities TEXT[] DEFAULT '{}',
+  notes JSONB DEFAULT '[]',
+  evidence JSONB DEFAULT '[]',
+  conversations JSONB DEFAULT '[]',
+  created_by TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  closed_at TIMESTAMPTZ
+);
+
+CREATE TABLE IF NOT EXISTS case_audit_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  case_id UUID NOT NULL REFERENCES investigation_cases(id) ON DELETE CASCADE,
+  action TEXT NOT NULL,
+  actor TEXT NOT NULL,
+  details JSONB DEFAULT '{}',
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_investigation_cases_status ON investigation_cases(status);
+CREATE INDEX IF NOT EXISTS idx_investigation_cases_assignee ON investigation_cases(assignee);
+CREATE INDEX IF NOT EXISTS idx_investigation_cases_sla_due_at ON investigation_cases(sla_due_at);
+CREATE INDEX IF NOT EXISTS idx_case_audit_log_case_id ON case_audit_log(case_id, created_at DESC);
+
+DROP TRIGGER IF EXISTS update_investigation_cases_updated_at ON investigation_cases;
+CREATE TRIGGER update_investigation_cases_updated_at
+  BEFORE UPDATE ON investigation_cases
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE investigation_cases ENABLE ROW LEVEL SECURITY;
+ALTER TABLE case_audit_log ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow all for investigation_cases" ON investigation_cases;
+CREATE POLICY "Allow all for investigation_cases" ON investigation_cases FOR ALL USING (true);
+DROP POLICY IF EXISTS "Allow all for case_audit_log" ON case_audit_log;
+CREATE POLICY "Allow all for case_audit_log" ON case_audit_log FOR ALL USING (true);
+
+COMMENT ON TABLE investigation_cases IS 'Fraud investigations linking alerts, rings, entities and copilot conversations';
+COMMENT ON TABLE case_audit_log IS 'Append-only trail of who changed what on each investigation case';
+COMMENT ON COLUMN investigation_cases.sla_due_at IS 'Defaults from priority when the case is opened; overdue once passed while not closed';
@@ -0,0 +1,60 @@
+-- Migration: Pre-trade screening
+-- Date: 2026-10-19
+-- Description: Trades are screened against open trades across the network before they are bought.
+--              screening_policies holds per-partner allow/flag/block thresholds ('default' applies to
+--              everyone else; without a row the shipped defaults are used, version 0).
+--              trade_screenings records every flagged or held trade for review.
+
+CREATE TABLE IF NOT EXISTS screening_policies (
+  affiliate_id TEXT PRIMARY KEY,
+  policy JSONB NOT NULL DEFAULT '{}',
+  version INTEGER NOT NULL DEFAULT 1,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE OR REPLACE FUNCTION bump_screening_policy_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.policy IS DISTINCT FROM OLD.policy THEN
+    NEW.version = OLD.version + 1;
+  END IF;
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS bump_screening_policy_version ON screening_policies;
+CREATE TRIGGER bump_screening_policy_version
+  BEFORE UPDATE ON screening_policies
+  FOR EACH ROW
+  EXECUTE FUNCTION bump_screening_policy_version();
+
+CREATE TABLE IF NOT EXISTS trade_screenings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id TEXT,
+  affiliate_id TEXT,
+  symbol TEXT NOT NULL,
+  contract_type TEXT NOT NULL,
+  amount DECIMAL(12,2),
+  decision TEXT NOT NULL CHECK (decision IN ('allow', 'flag', 'block')),
+  score INTEGER NOT NULL,
+  hits JSONB DEFAULT '[]',
+  policy_version INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_trade_screenings_decision ON trade_screenings(decision, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_trade_screenings_affiliate_id ON trade_screenings(affiliate_id);
+CREATE INDEX IF NOT EXISTS idx_trades_open ON trades(created_at) WHERE status = 'open';
+
+ALTER TABLE screening_policies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE trade_screenings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow all for screening_policies" ON screening_policies;
+CREATE POLICY "Allow all for screening_policies" ON screening_policies FOR ALL USING (true);
+DROP POLICY IF EXISTS "Allow all for trade_screenings" ON trade_screenings;
+CREATE POLICY "Allow all for trade_screenings" ON trade_screenings FOR ALL USING (true);
+
+COMMENT ON TABLE screening_policies IS 'Per-partner thresholds deciding whether a screened trade is allowed, flagged or held';
+COMMENT ON TABLE trade_screenings IS 'Pre-trade screening results that flagged or held a trade';
@@ -0,0 +1,34 @@
+-- Migration: Trade pair correlation history
+-- Date: 2026-10-19
+-- Description: check-trade matches opposite positions across the whole network by symbol and
+--              records each matched pair, so repeated pairing between two accounts raises confidence.
+
+CREATE INDEX IF NOT EXISTS idx_trades_symbol_created_at ON trades(symbol, created_at);
+
+CREATE TABLE IF NOT EXISTS trade_pair_matches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  account_a TEXT NOT NULL, -- Sorted so account_a < account_b
+  account_b TEXT NOT NULL,
+  affiliate_a TEXT,
+  affiliate_b TEXT,
+  trade_a TEXT NOT NULL,
+  trade_b TEXT NOT NULL,
+  symbol TEXT NOT NULL,
+  time_delta_ms INTEGER NOT NULL,
+  amount_similarity DECIMAL(4,2) NOT NULL,
+  cross_affiliate BOOLEAN DEFAULT FALSE,
+  confidence INTEGER NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (trade_a, trade_b)
+);
+
+CREATE INDEX IF NOT EXISTS idx_trade_pair_matches_account_a ON trade_pair_matches(account_a, account_b);
+CREATE INDEX IF NOT EXISTS idx_trade_pair_matches_account_b ON trade_pair_matches(account_b);
+CREATE INDEX IF NOT EXISTS idx_trade_pair_matches_created_at ON trade_pair_matches(created_at DESC);
+
+ALTER TABLE trade_pair_matches ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow all for trade_pair_matches" ON trade_pair_matches;
+CREATE POLICY "Allow all for trade_pair_matches" ON trade_pair_matches FOR ALL USING (true);
+
+COMMENT ON TABLE trade_pair_matches IS 'Opposite-position trade pairs matched by check-trade, one row per trade pair';
@@ -0,0 +1,19 @@
+-- Migration: Full graph snapshots
+-- Date: 2026-10-19
+-- Description: graph_snapshots only held counts and distributions, but the agent tools read
+--              nodes and edges from it. Each analysis run now stores a compact copy of the graph
+--              and its fraud rings, tagged with the run id, so snapshots can be diffed over time.
+
+ALTER TABLE graph_snapshots ADD COLUMN IF NOT EXISTS run_id UUID;
+ALTER TABLE graph_snapshots ADD COLUMN IF NOT EXISTS nodes JSONB DEFAULT '[]';
+ALTER TABLE graph_snapshots ADD COLUMN IF NOT EXISTS edges JSONB DEFAULT '[]';
+ALTER TABLE graph_snapshots ADD COLUMN IF NOT EXISTS rings JSONB DEFAULT '[]';
+ALTER TABLE graph_snapshots ADD COLUMN IF NOT EXISTS modularity DECIMAL(5,3);
+
+CREATE INDEX IF NOT EXISTS idx_graph_snapshots_created_at ON graph_snapshots(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_graph_snapshots_run_id ON graph_snapshots(run_id);
+
+COMMENT ON COLUMN graph_snapshots.run_id IS 'Analysis run that produced the snapshot';
+COMMENT ON COLUMN graph_snapshots.nodes IS 'Compact nodes: id, type, label, riskScore';
+COMMENT ON COLUMN graph_snapshots.edges IS 'Compact edges: id, source, target, type, weight, is_fraud_indicator, metadata.confidence/description';
+COMMENT ON COLUMN graph_snapshots.rings IS 'Fraud rings at snapshot time: id, name, severity, entities, exposure';
@@ -0,0 +1,54 @@
+-- Migration: Analysis jobs
+-- Date: 2026-10-19
+-- Description: Analysis runs as recorded jobs, started by hand or on a schedule. analysis_jobs keeps
+--              each run's status, timing and error; its id is the run id written to the agent logs
+--              and graph snapshot. At most one job may be queued or running at a time.
+--              analysis_schedule holds the single schedule row ('current').
+
+CREATE TABLE IF NOT EXISTS analysis_jobs (
+  id UUID PRIMARY KEY,
+  status TEXT NOT NULL CHECK (status IN ('queued', 'running', 'succeeded', 'failed')),
+  trigger TEXT NOT NULL CHECK (trigger IN ('manual', 'schedule')),
+  queued_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  started_at TIMESTAMPTZ,
+  finished_at TIMESTAMPTZ,
+  duration_ms INTEGER,
+  error TEXT,
+  summary TEXT
+);
+
+-- Any second queued/running row violates this, which is how overlapping runs are refused
+CREATE UNIQUE INDEX IF NOT EXISTS one_active_analysis_job ON analysis_jobs ((true))
+  WHERE status IN ('queued', 'running');
+CREATE INDEX IF NOT EXISTS idx_analysis_jobs_queued_at ON analysis_jobs(queued_at DESC);
+CREATE INDEX IF NOT EXISTS idx_analysis_jobs_status ON analysis_jobs(status, finished_at DESC);
+
+CREATE TABLE IF NOT EXISTS analysis_schedule (
+  id TEXT PRIMARY KEY DEFAULT 'current',
+  enabled BOOLEAN NOT NULL DEFAULT false,
+  interval_minutes INTEGER NOT NULL DEFAULT 60 CHECK (interval_minutes BETWEEN 5 AND 1440),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+DROP TRIGGER IF EXISTS update_analysis_schedule_updated_at ON analysis_schedule;
+CREATE TRIGGER update_analysis_schedule_updated_at
+  BEFORE UPDATE ON analysis_schedule
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Agent logs are grouped by run instead of by timestamp proximity
+ALTER TABLE agent_analysis_logs ADD COLUMN IF NOT EXISTS run_id UUID;
+CREATE INDEX IF NOT EXISTS idx_agent_analysis_logs_run_id ON agent_analysis_logs(run_id);
+
+ALTER TABLE analysis_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE analysis_schedule ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow all for analysis_jobs" ON analysis_jobs;
+CREATE POLICY "Allow all for analysis_jobs" ON analysis_jobs FOR ALL USING (true);
+DROP POLICY IF EXISTS "Allow all for analysis_schedule" ON analysis_schedule;
+CREATE POLICY "Allow all for analysis_schedule" ON analysis_schedule FOR ALL USING (true);
+
+COMMENT ON TABLE analysis_jobs IS 'Analysis runs with status, timing and error; id doubles as the run id';
+COMMENT ON TABLE analysis_schedule IS 'Whether and how often the server runs analysis in the background';
+COMMENT ON COLUMN agent_analysis_logs.run_id IS 'Analysis job that produced the log';
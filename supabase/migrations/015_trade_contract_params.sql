@@ -0,0 +1,12 @@
+-- Migration: Contract parameters on trades
+-- Date: 2026-10-19
+-- Description: Trades are no longer only Rise/Fall. The barrier (price offset, absolute price or
+--              predicted digit) and multiplier are stored with the trade so detectors can tell
+--              whether two contracts on the same market actually take opposing sides.
+
+ALTER TABLE trades ADD COLUMN IF NOT EXISTS barrier TEXT;
+ALTER TABLE trades ADD COLUMN IF NOT EXISTS multiplier INTEGER;
+
+COMMENT ON COLUMN trades.contract_type IS 'Deriv contract type: CALL, PUT, ONETOUCH, NOTOUCH, DIGIT*, MULTUP, MULTDOWN';
+COMMENT ON COLUMN trades.barrier IS 'Barrier or digit prediction for contract types that take one';
+COMMENT ON COLUMN trades.multiplier IS 'Multiplier for MULTUP/MULTDOWN contracts';
@@ -0,0 +1,25 @@
+-- Migration: Trade reconciliation
+-- Date: 2026-10-19
+-- Description: Trade outcomes are written by the browser, so the server checks them against
+--              Deriv's profit_table. Reconciled trades keep what the client originally reported
+--              alongside the corrected values, and mismatches raise 'trade_mismatch' alerts.
+
+ALTER TABLE trades ADD COLUMN IF NOT EXISTS reconciled_at TIMESTAMPTZ;
+ALTER TABLE trades ADD COLUMN IF NOT EXISTS reconciliation_status TEXT
+  CHECK (reconciliation_status IN ('matched', 'corrected', 'not_found'));
+ALTER TABLE trades ADD COLUMN IF NOT EXISTS reported_sell_price DECIMAL(15, 2);
+ALTER TABLE trades ADD COLUMN IF NOT EXISTS reported_profit DECIMAL(15, 2);
+ALTER TABLE trades ADD COLUMN IF NOT EXISTS reported_status TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_trades_unreconciled ON trades(client_id, created_at)
+  WHERE reconciled_at IS NULL AND contract_id IS NOT NULL;
+
+ALTER TABLE lunar_alerts DROP CONSTRAINT IF EXISTS lunar_alerts_type_check;
+ALTER TABLE lunar_alerts ADD CONSTRAINT lunar_alerts_type_check
+  CHECK (type IN ('new_fraud_ring', 'risk_escalation', 'pattern_detected', 'entity_flagged', 'threshold_breach', 'trade_flagged', 'trade_mismatch'));
+
+COMMENT ON COLUMN trades.reconciled_at IS 'When the trade was checked against Deriv; NULL while unchecked or still open';
+COMMENT ON COLUMN trades.reconciliation_status IS 'matched, corrected (values replaced by Deriv''s) or not_found (no such contract on the client account)';
+COMMENT ON COLUMN trades.reported_sell_price IS 'Sell price as reported by the client before correction';
+COMMENT ON COLUMN trades.reported_profit IS 'Profit as reported by the client before correction';
+COMMENT ON COLUMN trades.reported_status IS 'Status as reported by the client before correction';
@@ -0,0 +1,8 @@
+-- Migration: Indicators on broadcasts
+-- Date: 2026-10-19
+-- Description: Affiliates can include their chart indicator set (type, parameters, colour) in a
+--              broadcast so clients see the same view alongside the drawings.
+
+ALTER TABLE broadcast_drawings ADD COLUMN IF NOT EXISTS indicators JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+COMMENT ON COLUMN broadcast_drawings.indicators IS 'Indicator settings shown with the broadcast: sma, ema, bollinger, rsi, macd, atr and their parameters';
@@ -0,0 +1,29 @@
+-- Migration: Price alerts
+-- Date: 2026-10-19
+-- Description: Alerts traders set on a symbol's price. The trade page checks active alerts against
+--              the tick stream and marks them triggered with the time and price they fired at.
+
+CREATE TABLE IF NOT EXISTS price_alerts (
+  id UUID PRIMARY KEY,
+  client_id UUID NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+  symbol TEXT NOT NULL,
+  condition TEXT NOT NULL CHECK (condition IN ('crosses_above', 'crosses_below', 'percent_move')),
+  value DECIMAL(15, 5) NOT NULL,
+  reference_price DECIMAL(15, 5) NOT NULL,
+  note TEXT,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'triggered')),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  triggered_at TIMESTAMPTZ,
+  triggered_price DECIMAL(15, 5)
+);
+
+CREATE INDEX IF NOT EXISTS idx_price_alerts_client ON price_alerts(client_id, created_at DESC);
+
+ALTER TABLE price_alerts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow all for price_alerts" ON price_alerts;
+CREATE POLICY "Allow all for price_alerts" ON price_alerts FOR ALL USING (true);
+
+COMMENT ON TABLE price_alerts IS 'Price alerts per client, evaluated in the browser against the Deriv tick stream';
+COMMENT ON COLUMN price_alerts.value IS 'Price level for crosses_above/crosses_below, percentage for percent_move';
+COMMENT ON COLUMN price_alerts.reference_price IS 'Price when the alert was created; percent moves are measured from it';
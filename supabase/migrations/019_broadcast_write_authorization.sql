@@ -0,0 +1,47 @@
+-- Migration: Broadcast write authorization
+-- Date: 2026-10-19
+-- Description: Broadcasts were written straight from the browser with the anon key, so anyone could
+--              overwrite any affiliate's analysis. Writes now go through /api/broadcast, which checks the
+--              signed-in user owns the referral code and writes with the service role. The anon key keeps
+--              read access; clients receive changes through Realtime on the table.
+
+-- Remove the public write policies from 004; the service role bypasses RLS
+DROP POLICY IF EXISTS "Allow public insert broadcast_drawings" ON broadcast_drawings;
+DROP POLICY IF EXISTS "Allow public update broadcast_drawings" ON broadcast_drawings;
+
+-- Clients follow broadcasts through Postgres changes instead of messages any browser could send
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'broadcast_drawings'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE broadcast_drawings;
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS broadcast_audit_log (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  referral_code TEXT NOT NULL,
+  symbol TEXT NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('go_live', 'update', 'stop')),
+  actor_user_id UUID NOT NULL,
+  actor_email TEXT NOT NULL,
+  added_drawing_ids TEXT[] NOT NULL DEFAULT '{}',
+  removed_drawing_ids TEXT[] NOT NULL DEFAULT '{}',
+  modified_drawing_ids TEXT[] NOT NULL DEFAULT '{}',
+  drawing_count INTEGER NOT NULL DEFAULT 0,
+  indicator_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_broadcast_audit_log_broadcast ON broadcast_audit_log(referral_code, symbol, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_broadcast_audit_log_actor ON broadcast_audit_log(actor_user_id, created_at DESC);
+
+-- No policies: only the service role reads or writes the audit log
+ALTER TABLE broadcast_audit_log ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE broadcast_audit_log IS 'One row per broadcast write through /api/broadcast: who changed which drawings';
+COMMENT ON COLUMN broadcast_audit_log.actor_user_id IS 'Supabase auth user that made the change';
+COMMENT ON COLUMN broadcast_audit_log.actor_email IS 'Email of that user, matched against affiliates.email (or partners.email for the partner broadcast)';
+COMMENT ON COLUMN broadcast_audit_log.modified_drawing_ids IS 'Drawings present before and after whose content changed, e.g. moved or recoloured';
@@ -0,0 +1,48 @@
+-- Migration: Broadcast sessions
+-- Date: 2026-10-19
+-- Description: broadcast_drawings only holds the latest state of a broadcast. Each live session is now
+--              recorded as a timeline of drawing operations, with the symbol's ticks stored when it ends,
+--              so clients can replay how the analysis developed. Written by /api/broadcast only.
+
+CREATE TABLE IF NOT EXISTS broadcast_sessions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  referral_code TEXT NOT NULL,
+  symbol TEXT NOT NULL,
+  started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  ended_at TIMESTAMPTZ,
+  started_by TEXT,
+  ticks JSONB,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_broadcast_sessions_broadcast ON broadcast_sessions(referral_code, symbol, started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_broadcast_sessions_open ON broadcast_sessions(referral_code, symbol) WHERE ended_at IS NULL;
+
+CREATE TABLE IF NOT EXISTS broadcast_session_operations (
+  id BIGSERIAL PRIMARY KEY,
+  session_id UUID NOT NULL REFERENCES broadcast_sessions(id) ON DELETE CASCADE,
+  occurred_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  type TEXT NOT NULL CHECK (type IN ('add', 'update', 'remove', 'indicators')),
+  drawing_id TEXT,
+  drawing JSONB,
+  indicators JSONB
+);
+
+CREATE INDEX IF NOT EXISTS idx_broadcast_session_operations_session ON broadcast_session_operations(session_id, id);
+
+-- Public read for replays; writes only through the service role
+ALTER TABLE broadcast_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE broadcast_session_operations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow public read broadcast_sessions" ON broadcast_sessions;
+CREATE POLICY "Allow public read broadcast_sessions" ON broadcast_sessions FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Allow public read broadcast_session_operations" ON broadcast_session_operations;
+CREATE POLICY "Allow public read broadcast_session_operations" ON broadcast_session_operations FOR SELECT USING (true);
+
+COMMENT ON TABLE broadcast_sessions IS 'One row per live broadcast session, from going live to stopping';
+COMMENT ON COLUMN broadcast_sessions.ended_at IS 'NULL while the session is live';
+COMMENT ON COLUMN broadcast_sessions.started_by IS 'Email of the account that went live';
+COMMENT ON COLUMN broadcast_sessions.ticks IS 'Ticks as [{epoch, quote}] from 15 minutes before the start to the end, stored once the session ends';
+COMMENT ON TABLE broadcast_session_operations IS 'Drawing adds, updates and removals and indicator changes during a session, in order';
+COMMENT ON COLUMN broadcast_session_operations.indicators IS 'For type indicators: the full indicator set after the change';
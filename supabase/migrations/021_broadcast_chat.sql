@@ -0,0 +1,58 @@
+-- Migration: Broadcast chat
+-- Date: 2026-10-19
+-- Description: Affiliates explained their setups in outside messaging apps. Each broadcast now has a chat
+--              kept per referral code and symbol, so it also plays back in session replays. The affiliate
+--              can pin a message to one of their drawings and mute or ban participants. Written by
+--              /api/broadcast/chat only.
+
+CREATE TABLE IF NOT EXISTS broadcast_chat_messages (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  referral_code TEXT NOT NULL,
+  symbol TEXT NOT NULL,
+  author_id TEXT NOT NULL,
+  author_name TEXT NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('host', 'viewer')),
+  body TEXT NOT NULL CHECK (char_length(body) BETWEEN 1 AND 500),
+  pinned_drawing_id TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_broadcast_chat_messages_broadcast ON broadcast_chat_messages(referral_code, symbol, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS broadcast_chat_moderation (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  referral_code TEXT NOT NULL,
+  participant_id TEXT NOT NULL,
+  participant_name TEXT NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('mute', 'ban')),
+  expires_at TIMESTAMPTZ,
+  created_by TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE(referral_code, participant_id)
+);
+
+-- Public read for the chat panels and replays; moderation stays with the service role
+ALTER TABLE broadcast_chat_messages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE broadcast_chat_moderation ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow public read broadcast_chat_messages" ON broadcast_chat_messages;
+CREATE POLICY "Allow public read broadcast_chat_messages" ON broadcast_chat_messages FOR SELECT USING (true);
+
+-- New messages and pins reach the panels through Postgres changes
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'broadcast_chat_messages'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE broadcast_chat_messages;
+  END IF;
+END $$;
+
+COMMENT ON TABLE broadcast_chat_messages IS 'Chat on an affiliate broadcast, per referral code and symbol';
+COMMENT ON COLUMN broadcast_chat_messages.author_id IS 'Deriv login id for viewers, verified by the chat route; the referral code for the affiliate';
+COMMENT ON COLUMN broadcast_chat_messages.pinned_drawing_id IS 'Drawing of the broadcast the affiliate pinned this message to';
+COMMENT ON TABLE broadcast_chat_moderation IS 'Participants muted or banned from an affiliate''s chat, across all symbols';
+COMMENT ON COLUMN broadcast_chat_moderation.participant_id IS 'Deriv login id of the viewer, as verified when they joined the chat';
+COMMENT ON COLUMN broadcast_chat_moderation.expires_at IS 'When a mute lapses; NULL for bans, which last until lifted';
+COMMENT ON COLUMN broadcast_chat_moderation.created_by IS 'Email of the account that applied it, when signed in';
@@ -0,0 +1,29 @@
+-- Migration: Atomic case appends
+-- Date: 2026-10-19
+-- Description: Notes, evidence, conversations and links used to be added by reading a case and writing
+--              the whole array back, so two investigators saving at once lost one change. They are now
+--              appended in a single UPDATE. Links already on the case are skipped.
+
+CREATE OR REPLACE FUNCTION append_case_items(
+  p_case_id UUID,
+  p_notes JSONB DEFAULT '[]',
+  p_evidence JSONB DEFAULT '[]',
+  p_conversations JSONB DEFAULT '[]',
+  p_alert_ids UUID[] DEFAULT '{}',
+  p_fraud_ring_ids UUID[] DEFAULT '{}',
+  p_entities TEXT[] DEFAULT '{}'
+)
+RETURNS SETOF investigation_cases AS $$
+  UPDATE investigation_cases
+  SET
+    notes = COALESCE(notes, '[]') || p_notes,
+    evidence = COALESCE(evidence, '[]') || p_evidence,
+    conversations = COALESCE(conversations, '[]') || p_conversations,
+    alert_ids = COALESCE(alert_ids, '{}') || ARRAY(SELECT unnest(p_alert_ids) EXCEPT SELECT unnest(alert_ids)),
+    fraud_ring_ids = COALESCE(fraud_ring_ids, '{}') || ARRAY(SELECT unnest(p_fraud_ring_ids) EXCEPT SELECT unnest(fraud_ring_ids)),
+    entities = COALESCE(entities, '{}') || ARRAY(SELECT unnest(p_entities) EXCEPT SELECT unnest(entities))
+  WHERE id = p_case_id
+  RETURNING *;
+$$ LANGUAGE sql;
+
+COMMENT ON FUNCTION append_case_items IS 'Appends notes, evidence, conversations and new links to a case in one statement';
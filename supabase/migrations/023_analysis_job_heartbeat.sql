@@ -0,0 +1,10 @@
+-- Migration: Analysis job heartbeat
+-- Date: 2026-10-19
+-- Description: Jobs were failed as stale 30 minutes after being queued, even while still running in another
+--              process, which let a second analysis start alongside the first. The runner now refreshes
+--              heartbeat_at while a job runs, and only a job whose heartbeat has stopped is failed.
+
+ALTER TABLE analysis_jobs ADD COLUMN IF NOT EXISTS heartbeat_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+UPDATE analysis_jobs SET heartbeat_at = COALESCE(started_at, queued_at) WHERE status IN ('queued', 'running');
+
+COMMENT ON COLUMN analysis_jobs.heartbeat_at IS 'Refreshed by the runner while the job is queued or running; stale once it stops';